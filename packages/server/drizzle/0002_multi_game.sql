@@ -0,0 +1,59 @@
+CREATE TABLE `game` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`completed_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `game` (`id`, `name`, `completed_at`, `created_at`)
+SELECT 'default', 'BigNight', (SELECT `completed_at` FROM `game_config` WHERE `id` = 1), CAST(strftime('%s', 'now') AS integer) * 1000
+WHERE EXISTS (SELECT 1 FROM `category`) OR EXISTS (SELECT 1 FROM `player`);
+--> statement-breakpoint
+DROP TABLE `game_config`;--> statement-breakpoint
+CREATE TABLE `__new_player` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text NOT NULL,
+	`name` text NOT NULL,
+	`pin` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`game_id`) REFERENCES `game`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_player`("id", "game_id", "name", "pin", "created_at") SELECT "id", 'default', "name", "pin", "created_at" FROM `player`;--> statement-breakpoint
+DROP TABLE `player`;--> statement-breakpoint
+ALTER TABLE `__new_player` RENAME TO `player`;--> statement-breakpoint
+CREATE UNIQUE INDEX `player_game_name_idx` ON `player` (`game_id`,`name`);--> statement-breakpoint
+CREATE TABLE `__new_category` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text NOT NULL,
+	`name` text NOT NULL,
+	`order` integer NOT NULL,
+	`points` integer DEFAULT 1 NOT NULL,
+	`winner_id` text,
+	`is_revealed` integer DEFAULT false NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`game_id`) REFERENCES `game`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`winner_id`) REFERENCES `nomination`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_category`("id", "game_id", "name", "order", "points", "winner_id", "is_revealed", "created_at") SELECT "id", 'default', "name", "order", "points", "winner_id", "is_revealed", "created_at" FROM `category`;--> statement-breakpoint
+DROP TABLE `category`;--> statement-breakpoint
+ALTER TABLE `__new_category` RENAME TO `category`;--> statement-breakpoint
+CREATE TABLE `__new_pick` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text NOT NULL,
+	`player_id` text NOT NULL,
+	`category_id` text NOT NULL,
+	`nomination_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`game_id`) REFERENCES `game`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`player_id`) REFERENCES `player`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `category`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`nomination_id`) REFERENCES `nomination`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_pick`("id", "game_id", "player_id", "category_id", "nomination_id", "created_at", "updated_at") SELECT "id", 'default', "player_id", "category_id", "nomination_id", "created_at", "updated_at" FROM `pick`;--> statement-breakpoint
+DROP TABLE `pick`;--> statement-breakpoint
+ALTER TABLE `__new_pick` RENAME TO `pick`;--> statement-breakpoint
+CREATE UNIQUE INDEX `pick_player_category_idx` ON `pick` (`player_id`,`category_id`);
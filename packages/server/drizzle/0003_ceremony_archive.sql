@@ -0,0 +1,40 @@
+CREATE TABLE `archived_category` (
+	`id` text PRIMARY KEY NOT NULL,
+	`ceremony_id` text NOT NULL,
+	`name` text NOT NULL,
+	`order` integer NOT NULL,
+	`points` integer NOT NULL,
+	`winner_title` text,
+	`winner_subtitle` text,
+	FOREIGN KEY (`ceremony_id`) REFERENCES `archived_ceremony`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `archived_ceremony` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text NOT NULL,
+	`name` text NOT NULL,
+	`completed_at` integer,
+	`archived_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `archived_pick` (
+	`id` text PRIMARY KEY NOT NULL,
+	`ceremony_id` text NOT NULL,
+	`category_id` text NOT NULL,
+	`player_name` text NOT NULL,
+	`title` text NOT NULL,
+	`subtitle` text NOT NULL,
+	`is_correct` integer NOT NULL,
+	FOREIGN KEY (`ceremony_id`) REFERENCES `archived_ceremony`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `archived_category`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `archived_standing` (
+	`id` text PRIMARY KEY NOT NULL,
+	`ceremony_id` text NOT NULL,
+	`player_name` text NOT NULL,
+	`rank` integer NOT NULL,
+	`total_score` integer NOT NULL,
+	`correct_count` integer NOT NULL,
+	FOREIGN KEY (`ceremony_id`) REFERENCES `archived_ceremony`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `game` ADD `locks_at` integer;--> statement-breakpoint
+UPDATE `game` SET `locks_at` = `created_at` WHERE EXISTS (SELECT 1 FROM `category` WHERE `category`.`game_id` = `game`.`id` AND `category`.`is_revealed` = 1);
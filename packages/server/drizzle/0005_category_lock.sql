@@ -0,0 +1 @@
+ALTER TABLE `category` ADD `locks_at` integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `game` ADD `scoring_mode` text DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE `pick` ADD `confidence` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `pick_player_confidence_idx` ON `pick` (`player_id`,`confidence`) WHERE "pick"."confidence" is not null;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `scoring_rule_set` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`points` text NOT NULL,
+	`default_points` integer DEFAULT 1 NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `scoring_rule_set_name_unique` ON `scoring_rule_set` (`name`);--> statement-breakpoint
+ALTER TABLE `game` ADD `scoring_rule_set_id` text;
\ No newline at end of file
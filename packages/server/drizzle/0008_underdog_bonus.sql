@@ -0,0 +1 @@
+ALTER TABLE `game` ADD `underdog_bonus` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `game` ADD `tiebreaker_question` text;--> statement-breakpoint
+ALTER TABLE `game` ADD `tiebreaker_answer` real;--> statement-breakpoint
+ALTER TABLE `game` ADD `tiebreaker_rule` text DEFAULT 'closest' NOT NULL;--> statement-breakpoint
+ALTER TABLE `player` ADD `tiebreaker_guess` real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `game` ADD `partial_ballot_policy` text DEFAULT 'exclude' NOT NULL;
\ No newline at end of file
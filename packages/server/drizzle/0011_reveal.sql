@@ -0,0 +1,11 @@
+CREATE TABLE `reveal` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text NOT NULL,
+	`category_id` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`revealed_at` integer NOT NULL,
+	FOREIGN KEY (`game_id`) REFERENCES `game`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `category`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `reveal_category_idx` ON `reveal` (`category_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `player` ADD `recovery_code` text;--> statement-breakpoint
+ALTER TABLE `player` ADD `recovery_code_expires_at` integer;
\ No newline at end of file
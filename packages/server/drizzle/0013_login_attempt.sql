@@ -0,0 +1,10 @@
+CREATE TABLE `login_attempt` (
+	`id` text PRIMARY KEY NOT NULL,
+	`kind` text NOT NULL,
+	`game_id` text,
+	`subject` text NOT NULL,
+	`failures` integer NOT NULL,
+	`locked_until` integer,
+	`last_failure_at` integer NOT NULL,
+	FOREIGN KEY (`game_id`) REFERENCES `game`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,17 @@
+CREATE TABLE `admin` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`pin` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `admin_name_unique` ON `admin` (`name`);--> statement-breakpoint
+CREATE TABLE `audit_entry` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text,
+	`actor_id` text NOT NULL,
+	`actor_name` text NOT NULL,
+	`action` text NOT NULL,
+	`detail` text,
+	`created_at` integer NOT NULL
+);
@@ -0,0 +1,12 @@
+CREATE TABLE `reveal_action` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text NOT NULL,
+	`category_id` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`previous_winner_id` text,
+	`new_winner_id` text,
+	`undone` integer DEFAULT false NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`game_id`) REFERENCES `game`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `category`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,33 @@
+CREATE TABLE `category_winner` (
+	`id` text PRIMARY KEY NOT NULL,
+	`category_id` text NOT NULL,
+	`nomination_id` text NOT NULL,
+	FOREIGN KEY (`category_id`) REFERENCES `category`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`nomination_id`) REFERENCES `nomination`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `category_winner_idx` ON `category_winner` (`category_id`,`nomination_id`);--> statement-breakpoint
+INSERT INTO `category_winner`("id", "category_id", "nomination_id") SELECT "id", "id", "winner_id" FROM `category` WHERE "winner_id" IS NOT NULL;--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_category` (
+	`id` text PRIMARY KEY NOT NULL,
+	`game_id` text NOT NULL,
+	`name` text NOT NULL,
+	`order` integer NOT NULL,
+	`points` integer DEFAULT 1 NOT NULL,
+	`is_revealed` integer DEFAULT false NOT NULL,
+	`locks_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`game_id`) REFERENCES `game`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_category`("id", "game_id", "name", "order", "points", "is_revealed", "locks_at", "created_at") SELECT "id", "game_id", "name", "order", "points", "is_revealed", "locks_at", "created_at" FROM `category`;--> statement-breakpoint
+DROP TABLE `category`;--> statement-breakpoint
+ALTER TABLE `__new_category` RENAME TO `category`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+ALTER TABLE `reveal_action` ADD `previous_winner_ids` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `reveal_action` ADD `new_winner_ids` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+UPDATE `reveal_action` SET `previous_winner_ids` = json_array(`previous_winner_id`) WHERE `previous_winner_id` IS NOT NULL;--> statement-breakpoint
+UPDATE `reveal_action` SET `new_winner_ids` = json_array(`new_winner_id`) WHERE `new_winner_id` IS NOT NULL;--> statement-breakpoint
+ALTER TABLE `reveal_action` DROP COLUMN `previous_winner_id`;--> statement-breakpoint
+ALTER TABLE `reveal_action` DROP COLUMN `new_winner_id`;
\ No newline at end of file
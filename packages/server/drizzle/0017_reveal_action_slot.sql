@@ -0,0 +1,2 @@
+ALTER TABLE `reveal_action` ADD `reveal_sequence` integer;--> statement-breakpoint
+ALTER TABLE `reveal_action` ADD `revealed_at` integer;
\ No newline at end of file
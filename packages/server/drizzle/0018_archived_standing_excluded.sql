@@ -0,0 +1 @@
+ALTER TABLE `archived_standing` ADD `excluded` integer DEFAULT false NOT NULL;
\ No newline at end of file
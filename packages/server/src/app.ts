@@ -2,11 +2,16 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import type { Server as SocketIOServer } from "socket.io";
 import { inviteGate } from "./auth/invite";
+import { gameMiddleware } from "./auth/middleware";
+import { gamesRoutes } from "./routes/games";
+import { historyRoutes } from "./routes/history";
 import { playerRoutes } from "./routes/player";
 import { picksRoutes } from "./routes/picks";
+import { ballotsRoutes } from "./routes/ballots";
+import { playersRoutes } from "./routes/players";
 import { categoriesRoutes } from "./routes/categories";
 import { gameRoutes } from "./routes/game";
-import { adminRoutes } from "./routes/admin";
+import { adminAuthRoutes, adminRoutes } from "./routes/admin";
 import type { Db } from "./db/connection";
 import type { AppEnv } from "./env";
 
@@ -20,11 +25,19 @@ export function createApp(db: Db, io?: SocketIOServer) {
 	// Invite gate — requires ?invite=CODE or valid cookie
 	app.use("/*", inviteGate);
 
-	app.route("/api/player", playerRoutes(db));
-	app.route("/api/picks", picksRoutes(db));
-	app.route("/api/categories", categoriesRoutes(db));
-	app.route("/api/game", gameRoutes(db));
-	app.route("/api/admin", adminRoutes(db, io));
+	app.route("/api/admin", adminAuthRoutes(db));
+	app.route("/api/games", gamesRoutes(db));
+	app.route("/api/history", historyRoutes(db));
+
+	// Everything below is scoped to a single game (pool)
+	app.use("/api/games/:gameId/*", gameMiddleware(db));
+	app.route("/api/games/:gameId", gameRoutes(db));
+	app.route("/api/games/:gameId/player", playerRoutes(db));
+	app.route("/api/games/:gameId/picks", picksRoutes(db));
+	app.route("/api/games/:gameId/ballots", ballotsRoutes(db));
+	app.route("/api/games/:gameId/players", playersRoutes(db));
+	app.route("/api/games/:gameId/categories", categoriesRoutes(db));
+	app.route("/api/games/:gameId/admin", adminRoutes(db, io));
 
 	return app;
 }
@@ -1,6 +1,8 @@
 import { describe, expect, it } from "vitest";
 import { Hono } from "hono";
 import type { AppEnv } from "../../env";
+import { createTestDb } from "../../db/connection";
+import { createAdmin, deleteAdmin } from "../../services/admins";
 import { authMiddleware, adminMiddleware } from "../middleware";
 import { signToken } from "../token";
 
@@ -10,7 +12,7 @@ describe("authMiddleware", () => {
   app.get("/protected/test", (c) => c.json({ playerId: c.get("playerId") }));
 
   it("allows request with valid token", async () => {
-    const token = await signToken({ playerId: "p1", isAdmin: false });
+    const token = await signToken({ playerId: "p1", isAdmin: false, gameId: "g1" });
     const res = await app.request("/protected/test", {
       headers: { Authorization: `Bearer ${token}` },
     });
@@ -33,12 +35,13 @@ describe("authMiddleware", () => {
 });
 
 describe("adminMiddleware", () => {
+  const db = createTestDb();
   const app = new Hono<AppEnv>();
-  app.use("/admin/*", authMiddleware, adminMiddleware);
+  app.use("/admin/*", authMiddleware, adminMiddleware(db));
   app.get("/admin/test", (c) => c.json({ ok: true }));
 
   it("allows admin token", async () => {
-    const token = await signToken({ playerId: "admin", isAdmin: true });
+    const token = await signToken({ playerId: "admin", isAdmin: true, gameId: null });
     const res = await app.request("/admin/test", {
       headers: { Authorization: `Bearer ${token}` },
     });
@@ -46,10 +49,54 @@ describe("adminMiddleware", () => {
   });
 
   it("rejects non-admin token", async () => {
-    const token = await signToken({ playerId: "p1", isAdmin: false });
+    const token = await signToken({ playerId: "p1", isAdmin: false, gameId: "g1" });
     const res = await app.request("/admin/test", {
       headers: { Authorization: `Bearer ${token}` },
     });
     expect(res.status).toBe(403);
   });
+
+  it("rejects the token of a deleted admin account", async () => {
+    const admin = await createAdmin(db, "Jordan", "4321");
+    const token = await signToken({ playerId: admin.id, isAdmin: true, gameId: null, name: "Jordan" });
+    const request = () => app.request("/admin/test", { headers: { Authorization: `Bearer ${token}` } });
+    expect((await request()).status).toBe(200);
+
+    await deleteAdmin(db, admin.id);
+    expect((await request()).status).toBe(401);
+  });
+});
+
+describe("authMiddleware inside a game scope", () => {
+  const app = new Hono<AppEnv>();
+  app.use("/games/:gameId/*", async (c, next) => {
+    c.set("gameId", c.req.param("gameId") ?? "");
+    await next();
+  });
+  app.use("/games/:gameId/*", authMiddleware);
+  app.get("/games/:gameId/test", (c) => c.json({ ok: true }));
+
+  it("allows a player token for the same game", async () => {
+    const token = await signToken({ playerId: "p1", isAdmin: false, gameId: "g1" });
+    const res = await app.request("/games/g1/test", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects a player token from another game", async () => {
+    const token = await signToken({ playerId: "p1", isAdmin: false, gameId: "g2" });
+    const res = await app.request("/games/g1/test", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it("allows an admin token in any game", async () => {
+    const token = await signToken({ playerId: "admin", isAdmin: true, gameId: null });
+    const res = await app.request("/games/g1/test", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    expect(res.status).toBe(200);
+  });
 });
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { createTestApp, seedGame } from "../../test-utils";
+import {
+  ADMIN_THROTTLE_KEY,
+  beginLoginAttempt,
+  clearLoginFailures,
+  listLockouts,
+  lockoutDelayMs,
+  retryAfterSeconds,
+  type ThrottleKey,
+} from "../throttle";
+
+describe("lockoutDelayMs", () => {
+  it("allows the free attempts, then doubles from the base delay", () => {
+    expect(lockoutDelayMs(4, 5)).toBe(0);
+    expect(lockoutDelayMs(5, 5)).toBe(30_000);
+    expect(lockoutDelayMs(6, 5)).toBe(60_000);
+    expect(lockoutDelayMs(7, 5)).toBe(120_000);
+  });
+
+  it("caps the lockout at an hour", () => {
+    expect(lockoutDelayMs(50, 5)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe("login failure tracking", () => {
+  const now = 1_700_000_000_000;
+
+  function setup() {
+    const { db, gameId } = createTestApp();
+    const drew: ThrottleKey = { kind: "player", gameId, subject: "Drew" };
+    return { db, gameId, drew };
+  }
+
+  async function fail(db: ReturnType<typeof setup>["db"], keys: ThrottleKey[], times: number, at = now) {
+    for (let i = 0; i < times; i++) beginLoginAttempt(db, keys, at);
+  }
+
+  it("locks a name out once the free attempts are used up", async () => {
+    const { db, drew } = setup();
+    await fail(db, [drew], 4);
+    expect(await retryAfterSeconds(db, [drew], now)).toBe(0);
+
+    await fail(db, [drew], 1);
+    expect(await retryAfterSeconds(db, [drew], now)).toBe(30);
+    expect(await retryAfterSeconds(db, [drew], now + 30_000)).toBe(0);
+  });
+
+  it("gives each IP a larger allowance than a single name", async () => {
+    const { db } = setup();
+    const ip: ThrottleKey = { kind: "ip", gameId: null, subject: "10.0.0.7" };
+    await fail(db, [ip], 19);
+    expect(await retryAfterSeconds(db, [ip], now)).toBe(0);
+    await fail(db, [ip], 1);
+    expect(await retryAfterSeconds(db, [ip], now)).toBe(30);
+  });
+
+  it("forgets failures after a quiet day", async () => {
+    const { db, drew } = setup();
+    await fail(db, [drew], 5);
+    await fail(db, [drew], 1, now + 25 * 60 * 60 * 1000);
+    expect(await retryAfterSeconds(db, [drew], now + 25 * 60 * 60 * 1000)).toBe(0);
+  });
+
+  it("clears a name's counter after a successful login", async () => {
+    const { db, drew } = setup();
+    await fail(db, [drew], 5);
+    await clearLoginFailures(db, [drew]);
+    expect(await retryAfterSeconds(db, [drew], now)).toBe(0);
+  });
+
+  it("refuses the attempt without counting it while locked", async () => {
+    const { db, drew } = setup();
+    await fail(db, [drew], 5);
+    expect(beginLoginAttempt(db, [drew], now + 1000)).toBe(29);
+    // Still the first lockout step, not a doubled one
+    expect(beginLoginAttempt(db, [drew], now + 30_000)).toBe(0);
+    expect(await retryAfterSeconds(db, [drew], now + 30_000)).toBe(60);
+  });
+
+  it("gives back only the attempt's own failure on the IP counter after a successful login", async () => {
+    const { db, drew } = setup();
+    const ip: ThrottleKey = { kind: "ip", gameId: null, subject: "10.0.0.7" };
+    await fail(db, [ip], 19);
+
+    beginLoginAttempt(db, [drew, ip], now);
+    await clearLoginFailures(db, [drew, ip]);
+    expect(await retryAfterSeconds(db, [ip], now)).toBe(0);
+
+    // The 19 earlier misses still count towards the IP's allowance
+    await fail(db, [ip], 1);
+    expect(await retryAfterSeconds(db, [ip], now)).toBe(30);
+  });
+
+  it("lists this game's locked names alongside admin lockouts", async () => {
+    const { db, gameId, drew } = setup();
+    const otherGameId = await seedGame(db);
+    await fail(db, [drew, ADMIN_THROTTLE_KEY], 5);
+    await fail(db, [{ kind: "player", gameId: otherGameId, subject: "Sam" }], 5);
+
+    const lockouts = await listLockouts(db, gameId, now);
+    expect(lockouts.map((l) => l.subject).sort()).toEqual(["Drew", "admin"]);
+    expect((await listLockouts(db, otherGameId, now)).map((l) => l.subject).sort()).toEqual(["Sam", "admin"]);
+  });
+});
@@ -3,17 +3,20 @@ import { signToken, verifyToken } from "../token";
 
 describe("JWT tokens", () => {
   it("signs and verifies a player token", async () => {
-    const token = await signToken({ playerId: "player_1", isAdmin: false });
+    const token = await signToken({ playerId: "player_1", isAdmin: false, gameId: "game_1" });
     const payload = await verifyToken(token);
     expect(payload).not.toBeNull();
-    expect(payload!.playerId).toBe("player_1");
-    expect(payload!.isAdmin).toBe(false);
+    expect(payload?.playerId).toBe("player_1");
+    expect(payload?.isAdmin).toBe(false);
+    expect(payload?.gameId).toBe("game_1");
   });
 
   it("signs and verifies an admin token", async () => {
-    const token = await signToken({ playerId: "admin", isAdmin: true });
+    const token = await signToken({ playerId: "admin", isAdmin: true, gameId: null });
     const payload = await verifyToken(token);
-    expect(payload!.isAdmin).toBe(true);
+    expect(payload).not.toBeNull();
+    expect(payload?.isAdmin).toBe(true);
+    expect(payload?.gameId).toBeNull();
   });
 
   it("returns null for invalid token", async () => {
@@ -22,7 +25,7 @@ describe("JWT tokens", () => {
   });
 
   it("returns null for expired token", async () => {
-    const token = await signToken({ playerId: "p1", isAdmin: false }, { expiresInSeconds: 0 });
+    const token = await signToken({ playerId: "p1", isAdmin: false, gameId: "game_1" }, { expiresInSeconds: 0 });
     const payload = await verifyToken(token);
     expect(payload).toBeNull();
   });
@@ -1,5 +1,10 @@
-import type { MiddlewareHandler } from "hono";
+import { eq } from "drizzle-orm";
+import type { Context, MiddlewareHandler } from "hono";
+import type { Db } from "../db/connection";
+import { games } from "../db/schema";
 import type { AppEnv } from "../env";
+import { findAdminById } from "../services/admins";
+import { recordAudit } from "../services/audit";
 import { verifyToken } from "./token";
 
 export const authMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
@@ -12,15 +17,87 @@ export const authMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
   if (!payload) {
     return c.json({ error: "Unauthorized" }, 401);
   }
+  // Player tokens are only valid inside the game they joined
+  const gameId = c.get("gameId");
+  if (gameId && !payload.isAdmin && payload.gameId !== gameId) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
   c.set("playerId", payload.playerId);
   c.set("isAdmin", payload.isAdmin);
+  if (payload.isAdmin) c.set("adminName", payload.name ?? "Admin");
   await next();
 };
 
-export const adminMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
-  const isAdmin = c.get("isAdmin");
-  if (!isAdmin) {
-    return c.json({ error: "Forbidden" }, 403);
-  }
-  await next();
-};
+/** Whether the request carries a live admin's token — for public routes that show admins a little more */
+export async function isAdminRequest(db: Db, c: Context<AppEnv>): Promise<boolean> {
+  const authHeader = c.req.header("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) return false;
+  const payload = await verifyToken(authHeader.slice(7));
+  return payload?.isAdmin === true && (await findAdminById(db, payload.playerId)) !== null;
+}
+
+/**
+ * Admin-only routes. Mount after authMiddleware. Tokens outlive the accounts they were
+ * issued to, so the account is looked up on every request: a deleted admin gets a 401,
+ * and the audit log records the account's current name.
+ */
+export function adminMiddleware(db: Db): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (!c.get("isAdmin")) {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+    const admin = await findAdminById(db, c.get("playerId"));
+    if (!admin) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+    c.set("adminName", admin.name);
+    await next();
+  };
+}
+
+/**
+ * Resolves the :gameId route param to an existing game and exposes it as c.get("gameId").
+ * Mounted on /api/games/:gameId/* so every game-scoped route can rely on it.
+ */
+export function gameMiddleware(db: Db): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const gameId = c.req.param("gameId");
+    if (!gameId) {
+      return c.json({ error: "Game not found" }, 404);
+    }
+    const [game] = await db
+      .select({ id: games.id })
+      .from(games)
+      .where(eq(games.id, gameId))
+      .limit(1);
+    if (!game) {
+      return c.json({ error: "Game not found" }, 404);
+    }
+    c.set("gameId", game.id);
+    await next();
+  };
+}
+
+/**
+ * Records every successful admin mutation in the audit log: who, which game, the
+ * method and path, and whatever summary the handler left in c.get("auditDetail").
+ * Mount after authMiddleware so the admin's identity is known.
+ */
+export function auditMiddleware(db: Db): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    await next();
+    if (c.req.method === "GET" || c.res.status >= 400) return;
+    // Import previews are POSTs but change nothing
+    if (c.req.path.endsWith("/preview")) return;
+
+    // "/api/games/:id/admin/mark-winner" → "/mark-winner"; "/api/admin/accounts" → "/accounts"
+    const path = c.req.path.replace(/^\/api(\/games\/[^/]+)?(\/admin)?/, "") || "/";
+    await recordAudit(db, {
+      gameId: c.get("gameId") ?? null,
+      actorId: c.get("playerId"),
+      actorName: c.get("adminName") ?? "Admin",
+      action: `${c.req.method} ${path}`,
+      detail: c.get("auditDetail") ?? null,
+    });
+  };
+}
@@ -0,0 +1,161 @@
+import {
+  LOGIN_ATTEMPT_WINDOW_HOURS,
+  LOGIN_BACKOFF_BASE_SECONDS,
+  LOGIN_FREE_ATTEMPTS,
+  LOGIN_FREE_ATTEMPTS_PER_IP,
+  LOGIN_MAX_LOCKOUT_MINUTES,
+} from "@bignight/shared";
+import { and, eq, gt, inArray, isNull, or } from "drizzle-orm";
+import type { Context } from "hono";
+import { getConnInfo } from "hono/bun";
+import type { Db } from "../db/connection";
+import { loginAttempts } from "../db/schema";
+
+/** One failure counter: a player name within a game, the admin login, or a client IP */
+export type ThrottleKey =
+  | { kind: "player"; gameId: string; subject: string }
+  | { kind: "admin" | "ip"; gameId: null; subject: string };
+
+export const ADMIN_THROTTLE_KEY: ThrottleKey = { kind: "admin", gameId: null, subject: "admin" };
+
+function keyId(key: ThrottleKey): string {
+  return `${key.kind}:${key.gameId ?? ""}:${key.subject}`;
+}
+
+/**
+ * The caller's address. Behind the reverse proxy that's the first X-Forwarded-For
+ * hop; run directly, it's the socket address. Null when neither is available.
+ */
+export function clientIp(c: Context): string | null {
+  const forwarded = c.req.header("x-forwarded-for")?.split(",")[0]?.trim();
+  if (forwarded) return forwarded;
+  try {
+    return getConnInfo(c).remote.address ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** The account's own counter plus the caller's IP counter, when the IP is known */
+export function throttleKeys(c: Context, account: ThrottleKey): ThrottleKey[] {
+  const ip = clientIp(c);
+  return ip ? [account, { kind: "ip", gameId: null, subject: ip }] : [account];
+}
+
+/** How long a counter stays locked after its latest failure, or 0 while still within the allowance */
+export function lockoutDelayMs(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) return 0;
+  const seconds = LOGIN_BACKOFF_BASE_SECONDS * 2 ** (failures - freeAttempts);
+  return Math.min(seconds * 1000, LOGIN_MAX_LOCKOUT_MINUTES * 60 * 1000);
+}
+
+/** Seconds until any of these counters unlocks; 0 if the attempt may go ahead */
+export async function retryAfterSeconds(db: Db, keys: ThrottleKey[], now = Date.now()): Promise<number> {
+  const rows = await db
+    .select({ lockedUntil: loginAttempts.lockedUntil })
+    .from(loginAttempts)
+    .where(inArray(loginAttempts.id, keys.map(keyId)));
+  const lockedUntil = Math.max(0, ...rows.map((r) => r.lockedUntil ?? 0));
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+}
+
+function freeAttempts(key: ThrottleKey): number {
+  return key.kind === "ip" ? LOGIN_FREE_ATTEMPTS_PER_IP : LOGIN_FREE_ATTEMPTS;
+}
+
+/**
+ * Claims a login attempt before the PIN is checked: refuses it if any counter is locked,
+ * otherwise counts it as a failure straight away. Guesses fired in parallel can't all pass
+ * the check while bcrypt runs, since each one is counted before the next is looked at.
+ * Returns the seconds to wait, or 0 to go ahead; a correct PIN then calls clearLoginFailures.
+ *
+ * The transaction is synchronous on purpose — bun:sqlite commits an async callback at its
+ * first await, which would let another request in between the check and the count.
+ */
+export function beginLoginAttempt(db: Db, keys: ThrottleKey[], now = Date.now()): number {
+  const windowMs = LOGIN_ATTEMPT_WINDOW_HOURS * 60 * 60 * 1000;
+  return db.transaction((tx) => {
+    const rows = tx
+      .select({ lockedUntil: loginAttempts.lockedUntil })
+      .from(loginAttempts)
+      .where(inArray(loginAttempts.id, keys.map(keyId)))
+      .all();
+    const lockedUntil = Math.max(0, ...rows.map((r) => r.lockedUntil ?? 0));
+    if (lockedUntil > now) return Math.ceil((lockedUntil - now) / 1000);
+
+    for (const key of keys) {
+      const id = keyId(key);
+      const existing = tx.select().from(loginAttempts).where(eq(loginAttempts.id, id)).get();
+      const previous = existing && now - existing.lastFailureAt < windowMs ? existing.failures : 0;
+      const failures = previous + 1;
+      const delay = lockoutDelayMs(failures, freeAttempts(key));
+      const values = { failures, lockedUntil: delay > 0 ? now + delay : null, lastFailureAt: now };
+      tx.insert(loginAttempts)
+        .values({ id, kind: key.kind, gameId: key.gameId, subject: key.subject, ...values })
+        .onConflictDoUpdate({ target: loginAttempts.id, set: values })
+        .run();
+    }
+    return 0;
+  });
+}
+
+/**
+ * A correct PIN wipes the account's counter. The IP counter only gets back the failure
+ * beginLoginAttempt counted up front, and is otherwise left to expire on its own.
+ */
+export async function clearLoginFailures(db: Db, keys: ThrottleKey[]): Promise<void> {
+  for (const key of keys) {
+    const id = keyId(key);
+    if (key.kind !== "ip") {
+      await db.delete(loginAttempts).where(eq(loginAttempts.id, id));
+      continue;
+    }
+    const [existing] = await db.select().from(loginAttempts).where(eq(loginAttempts.id, id));
+    if (!existing) continue;
+    const failures = Math.max(0, existing.failures - 1);
+    const delay = lockoutDelayMs(failures, freeAttempts(key));
+    await db
+      .update(loginAttempts)
+      .set({ failures, lockedUntil: delay > 0 ? existing.lastFailureAt + delay : null })
+      .where(eq(loginAttempts.id, id));
+  }
+}
+
+export function tooManyAttempts(c: Context, seconds: number) {
+  const wait = seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+  c.header("Retry-After", String(seconds));
+  return c.json({ error: `Too many wrong PINs — try again in ${wait}`, retryAfter: seconds }, 429);
+}
+
+/** Counters locked right now that an admin of this game can see: its player names, plus the admin login and IPs */
+export async function listLockouts(db: Db, gameId: string, now = Date.now()) {
+  return db
+    .select({
+      id: loginAttempts.id,
+      kind: loginAttempts.kind,
+      subject: loginAttempts.subject,
+      failures: loginAttempts.failures,
+      lockedUntil: loginAttempts.lockedUntil,
+    })
+    .from(loginAttempts)
+    .where(
+      and(
+        gt(loginAttempts.lockedUntil, now),
+        or(eq(loginAttempts.gameId, gameId), isNull(loginAttempts.gameId)),
+      ),
+    );
+}
+
+/** Lifts a lockout early. Returns false if there was nothing to lift. */
+export async function unlockLogin(db: Db, gameId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(loginAttempts)
+    .where(
+      and(
+        eq(loginAttempts.id, id),
+        or(eq(loginAttempts.gameId, gameId), isNull(loginAttempts.gameId)),
+      ),
+    )
+    .returning({ id: loginAttempts.id });
+  return deleted.length > 0;
+}
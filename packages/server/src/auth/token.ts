@@ -6,6 +6,10 @@ const TOKEN_EXPIRY_HOURS = 24;
 export interface TokenPayload {
   playerId: string;
   isAdmin: boolean;
+  /** Game the player joined. Null for admins, who can manage every game. */
+  gameId: string | null;
+  /** Admin's display name, for the audit log. Absent on player tokens. */
+  name?: string;
 }
 
 interface SignOptions {
@@ -35,7 +39,12 @@ export async function signToken(payload: TokenPayload, options?: SignOptions): P
 export async function verifyToken(token: string): Promise<TokenPayload | null> {
   try {
     const { payload } = await jwtVerify(token, secret);
-    return { playerId: payload.playerId as string, isAdmin: payload.isAdmin as boolean };
+    return {
+      playerId: payload.playerId as string,
+      isAdmin: payload.isAdmin as boolean,
+      gameId: (payload.gameId as string | undefined) ?? null,
+      name: payload.name as string | undefined,
+    };
   } catch {
     return null;
   }
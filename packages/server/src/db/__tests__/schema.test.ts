@@ -7,7 +7,7 @@ import { createDb } from "../connection";
 import * as schema from "../schema";
 import {
   categories,
-  gameConfig,
+  games,
   nominations,
   picks,
   players,
@@ -25,13 +25,17 @@ function createTestDb() {
   return db;
 }
 
+async function seedGame(db: ReturnType<typeof createTestDb>, id = "game-1") {
+  await db.insert(games).values({ id, name: `Pool ${id}`, createdAt: Date.now() });
+}
+
 describe("schema exports", () => {
   test("all 5 table exports exist", () => {
+    expect(schema.games).toBeDefined();
     expect(schema.players).toBeDefined();
     expect(schema.categories).toBeDefined();
     expect(schema.nominations).toBeDefined();
     expect(schema.picks).toBeDefined();
-    expect(schema.gameConfig).toBeDefined();
   });
 });
 
@@ -44,8 +48,10 @@ describe("players table", () => {
 
   test("inserts and retrieves a player", async () => {
     db = createTestDb();
+    await seedGame(db);
     await db.insert(players).values({
       id: "player-1",
+      gameId: "game-1",
       name: "Alice",
       pin: "1234",
       createdAt: Date.now(),
@@ -59,8 +65,10 @@ describe("players table", () => {
 
   test("enforces unique name constraint", async () => {
     db = createTestDb();
+    await seedGame(db);
     await db.insert(players).values({
       id: "player-1",
+      gameId: "game-1",
       name: "Bob",
       pin: "1111",
       createdAt: Date.now(),
@@ -69,6 +77,7 @@ describe("players table", () => {
     await expect(
       db.insert(players).values({
         id: "player-2",
+        gameId: "game-1",
         name: "Bob",
         pin: "2222",
         createdAt: Date.now(),
@@ -87,6 +96,7 @@ describe("picks table", () => {
   async function seedCategoryAndNomination(db: ReturnType<typeof createTestDb>) {
     await db.insert(categories).values({
       id: "cat-1",
+      gameId: "game-1",
       name: "Best Picture",
       order: 1,
       points: 1,
@@ -105,8 +115,10 @@ describe("picks table", () => {
 
   test("enforces one pick per player per category", async () => {
     db = createTestDb();
+    await seedGame(db);
     await db.insert(players).values({
       id: "player-1",
+      gameId: "game-1",
       name: "Charlie",
       pin: "0000",
       createdAt: Date.now(),
@@ -116,6 +128,7 @@ describe("picks table", () => {
     const now = Date.now();
     await db.insert(picks).values({
       id: "pick-1",
+      gameId: "game-1",
       playerId: "player-1",
       categoryId: "cat-1",
       nominationId: "nom-1",
@@ -126,6 +139,7 @@ describe("picks table", () => {
     await expect(
       db.insert(picks).values({
         id: "pick-2",
+        gameId: "game-1",
         playerId: "player-1",
         categoryId: "cat-1",
         nominationId: "nom-1",
@@ -136,18 +150,41 @@ describe("picks table", () => {
   });
 });
 
-describe("game_config table", () => {
+describe("game table", () => {
   let db: ReturnType<typeof createTestDb>;
 
   afterEach(() => {
     db.$client.close();
   });
 
-  test("has singleton game config row from startup", async () => {
+  test("starts with no games", async () => {
     db = createTestDb();
-    const result = await db.select().from(gameConfig);
-    expect(result).toHaveLength(1);
-    expect(result[0]?.id).toBe(1);
-    expect(result[0]?.completedAt).toBeNull();
+    const result = await db.select().from(games);
+    expect(result).toHaveLength(0);
+  });
+
+  test("allows the same player name in different games", async () => {
+    db = createTestDb();
+    await seedGame(db, "game-1");
+    await seedGame(db, "game-2");
+    await db.insert(players).values([
+      { id: "player-1", gameId: "game-1", name: "Sam", pin: "1111", createdAt: Date.now() },
+      { id: "player-2", gameId: "game-2", name: "Sam", pin: "2222", createdAt: Date.now() },
+    ]);
+
+    const result = await db.select().from(players).where(eq(players.name, "Sam"));
+    expect(result).toHaveLength(2);
+  });
+
+  test("deleting a game removes its players and categories", async () => {
+    db = createTestDb();
+    await seedGame(db);
+    await db.insert(players).values({ id: "player-1", gameId: "game-1", name: "Dana", pin: "1111", createdAt: Date.now() });
+    await db.insert(categories).values({ id: "cat-1", gameId: "game-1", name: "Best Picture", order: 0, createdAt: Date.now() });
+
+    await db.delete(games).where(eq(games.id, "game-1"));
+
+    expect(await db.select().from(players)).toHaveLength(0);
+    expect(await db.select().from(categories)).toHaveLength(0);
   });
 });
@@ -12,12 +12,12 @@ const MIGRATIONS_DIR = resolve(fileURLToPath(import.meta.url), "../../..", "driz
 export function createDb(path: string = DB_PATH) {
   const sqlite = new Database(path);
   sqlite.exec("PRAGMA journal_mode = WAL;");
-  sqlite.exec("PRAGMA foreign_keys = ON;");
   const db = drizzle(sqlite, { schema });
-  migrate(db, { migrationsFolder: MIGRATIONS_DIR });
 
-  // Ensure singleton game_config row exists
-  sqlite.exec("INSERT OR IGNORE INTO game_config (id) VALUES (1)");
+  // Migrate before enabling foreign keys — table rebuilds (DROP + RENAME) would
+  // otherwise cascade-delete every dependent row.
+  migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+  sqlite.exec("PRAGMA foreign_keys = ON;");
 
   return db;
 }
@@ -27,3 +27,6 @@ export function createTestDb() {
 }
 
 export type Db = ReturnType<typeof createDb>;
+
+/** Either the database or an open transaction — for helpers that run inside larger operations */
+export type DbOrTx = Db | Parameters<Parameters<Db["transaction"]>[0]>[0];
@@ -1,26 +1,108 @@
+import { isNotNull } from "drizzle-orm";
 import {
   integer,
+  real,
   sqliteTable,
   text,
   uniqueIndex,
 } from "drizzle-orm/sqlite-core";
 
-export const players = sqliteTable("player", {
+export const games = sqliteTable("game", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  completedAt: integer("completed_at", { mode: "number" }),
+  // When picks close. Null = still open; set by the admin or by the first reveal
+  locksAt: integer("locks_at", { mode: "number" }),
+  scoringMode: text("scoring_mode", { enum: ["standard", "confidence"] })
+    .notNull()
+    .default("standard"),
+  // Built-in preset id ("flat", "weighted") or a scoring_rule_set row. Null = each category's own points.
+  scoringRuleSetId: text("scoring_rule_set_id"),
+  // Extra points for correct picks few players made (see calculateUnderdogBonus)
+  underdogBonus: integer("underdog_bonus", { mode: "boolean" }).notNull().default(false),
+  // Numeric tiebreaker ("How long will the telecast run, in minutes?"). Answer is entered after the show.
+  tiebreakerQuestion: text("tiebreaker_question"),
+  tiebreakerAnswer: real("tiebreaker_answer"),
+  tiebreakerRule: text("tiebreaker_rule", { enum: ["closest", "price-is-right"] })
+    .notNull()
+    .default("closest"),
+  // Players who skipped a category: "exclude" keeps them off the board, "include"/"flag" score the gaps as zero
+  partialBallotPolicy: text("partial_ballot_policy", { enum: ["exclude", "include", "flag"] })
+    .notNull()
+    .default("exclude"),
+  createdAt: integer("created_at", { mode: "number" }).notNull(),
+});
+
+export const players = sqliteTable(
+  "player",
+  {
+    id: text("id").primaryKey(),
+    gameId: text("game_id")
+      .notNull()
+      .references(() => games.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    pin: text("pin").notNull(),
+    tiebreakerGuess: real("tiebreaker_guess"),
+    // One-time code from an admin PIN reset, hashed like the PIN. Cleared once used.
+    recoveryCode: text("recovery_code"),
+    recoveryCodeExpiresAt: integer("recovery_code_expires_at", { mode: "number" }),
+    createdAt: integer("created_at", { mode: "number" }).notNull(),
+  },
+  (table) => [
+    // Names are unique per game — "Sam" can play in both the office and family pools
+    uniqueIndex("player_game_name_idx").on(table.gameId, table.name),
+  ],
+);
+
+// Named admin accounts. The ADMIN_PIN env var still works as a shared owner login.
+export const admins = sqliteTable("admin", {
   id: text("id").primaryKey(),
   name: text("name").notNull().unique(),
   pin: text("pin").notNull(),
   createdAt: integer("created_at", { mode: "number" }).notNull(),
 });
 
+// Who did what to a game, newest last. Names are copied in so entries outlive the accounts.
+export const auditEntries = sqliteTable("audit_entry", {
+  id: text("id").primaryKey(),
+  // Null for changes outside any one game (admin accounts, new games)
+  gameId: text("game_id"),
+  actorId: text("actor_id").notNull(),
+  actorName: text("actor_name").notNull(),
+  // "POST /mark-winner" — method and path under the admin API
+  action: text("action").notNull(),
+  detail: text("detail"),
+  createdAt: integer("created_at", { mode: "number" }).notNull(),
+});
+
+// Failed PIN attempts, for backoff and lockout (see auth/throttle.ts). Kept in the
+// database so a restart doesn't hand an attacker a fresh set of guesses.
+export const loginAttempts = sqliteTable("login_attempt", {
+  // "<kind>:<gameId>:<subject>" so each name/IP has exactly one row to upsert
+  id: text("id").primaryKey(),
+  kind: text("kind", { enum: ["player", "admin", "ip"] }).notNull(),
+  // Set for player names; admin and IP counters span every game
+  gameId: text("game_id").references(() => games.id, { onDelete: "cascade" }),
+  // Player name or IP address
+  subject: text("subject").notNull(),
+  failures: integer("failures").notNull(),
+  lockedUntil: integer("locked_until", { mode: "number" }),
+  lastFailureAt: integer("last_failure_at", { mode: "number" }).notNull(),
+});
+
 export const categories = sqliteTable("category", {
   id: text("id").primaryKey(),
+  gameId: text("game_id")
+    .notNull()
+    .references(() => games.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   order: integer("order").notNull(),
   points: integer("points").notNull().default(1),
-  winnerId: text("winner_id").references(() => nominations.id),
   isRevealed: integer("is_revealed", { mode: "boolean" })
     .notNull()
     .default(false),
+  // Per-category pick lock for staggered ceremonies. The game-wide locksAt still closes everything.
+  locksAt: integer("locks_at", { mode: "number" }),
   createdAt: integer("created_at", { mode: "number" }).notNull(),
 });
 
@@ -35,10 +117,28 @@ export const nominations = sqliteTable("nomination", {
   createdAt: integer("created_at", { mode: "number" }).notNull(),
 });
 
+/** A category's winning nominations — one normally, two or more when the Academy announces a tie */
+export const categoryWinners = sqliteTable(
+  "category_winner",
+  {
+    id: text("id").primaryKey(),
+    categoryId: text("category_id")
+      .notNull()
+      .references(() => categories.id, { onDelete: "cascade" }),
+    nominationId: text("nomination_id")
+      .notNull()
+      .references(() => nominations.id, { onDelete: "cascade" }),
+  },
+  (table) => [uniqueIndex("category_winner_idx").on(table.categoryId, table.nominationId)],
+);
+
 export const picks = sqliteTable(
   "pick",
   {
     id: text("id").primaryKey(),
+    gameId: text("game_id")
+      .notNull()
+      .references(() => games.id, { onDelete: "cascade" }),
     playerId: text("player_id")
       .notNull()
       .references(() => players.id, { onDelete: "cascade" }),
@@ -48,6 +148,8 @@ export const picks = sqliteTable(
     nominationId: text("nomination_id")
       .notNull()
       .references(() => nominations.id, { onDelete: "cascade" }),
+    // Confidence-mode rank (1..N, higher = more sure). Null until the player ranks their ballot.
+    confidence: integer("confidence"),
     createdAt: integer("created_at", { mode: "number" }).notNull(),
     updatedAt: integer("updated_at", { mode: "number" }).notNull(),
   },
@@ -56,10 +158,115 @@ export const picks = sqliteTable(
       table.playerId,
       table.categoryId,
     ),
+    // A player can't give two categories the same rank
+    uniqueIndex("pick_player_confidence_idx")
+      .on(table.playerId, table.confidence)
+      .where(isNotNull(table.confidence)),
   ],
 );
 
-export const gameConfig = sqliteTable("game_config", {
-  id: integer("id").primaryKey().default(1),
+/**
+ * One row per announced category, in announcement order, so the score timeline can
+ * replay the night. Re-marking a category keeps its slot; clearing the winner removes it.
+ */
+export const reveals = sqliteTable(
+  "reveal",
+  {
+    id: text("id").primaryKey(),
+    gameId: text("game_id")
+      .notNull()
+      .references(() => games.id, { onDelete: "cascade" }),
+    categoryId: text("category_id")
+      .notNull()
+      .references(() => categories.id, { onDelete: "cascade" }),
+    // 1-based announcement order within the game
+    sequence: integer("sequence").notNull(),
+    revealedAt: integer("revealed_at", { mode: "number" }).notNull(),
+  },
+  (table) => [uniqueIndex("reveal_category_idx").on(table.categoryId)],
+);
+
+/**
+ * Every change to a category's winner, in order, so the admin can undo and redo reveals.
+ * Undone entries are kept (undone = true) as the redo stack until a fresh change discards them.
+ */
+export const revealActions = sqliteTable("reveal_action", {
+  id: text("id").primaryKey(),
+  gameId: text("game_id")
+    .notNull()
+    .references(() => games.id, { onDelete: "cascade" }),
+  categoryId: text("category_id")
+    .notNull()
+    .references(() => categories.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(),
+  // Winning nomination ids before and after; empty = not announced (or cleared)
+  previousWinnerIds: text("previous_winner_ids", { mode: "json" }).$type<string[]>().notNull(),
+  newWinnerIds: text("new_winner_ids", { mode: "json" }).$type<string[]>().notNull(),
+  undone: integer("undone", { mode: "boolean" }).notNull().default(false),
+  // The category's place on the score timeline while this change has it un-revealed, so it goes back where it was
+  revealSequence: integer("reveal_sequence"),
+  revealedAt: integer("revealed_at", { mode: "number" }),
+  createdAt: integer("created_at", { mode: "number" }).notNull(),
+});
+
+// --- Scoring rule sets ---
+// Custom points tables an admin has saved. Shared across games, not owned by one.
+
+export const scoringRuleSets = sqliteTable("scoring_rule_set", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  points: text("points", { mode: "json" }).$type<Record<string, number>>().notNull(),
+  defaultPoints: integer("default_points").notNull().default(1),
+  createdAt: integer("created_at", { mode: "number" }).notNull(),
+});
+
+// --- Ceremony archive ---
+// Frozen, denormalized copies of finished games. Nothing here references the
+// live tables, so resetting or deleting a game never touches its history.
+
+export const archivedCeremonies = sqliteTable("archived_ceremony", {
+  id: text("id").primaryKey(),
+  gameId: text("game_id").notNull(),
+  name: text("name").notNull(),
   completedAt: integer("completed_at", { mode: "number" }),
+  archivedAt: integer("archived_at", { mode: "number" }).notNull(),
+});
+
+export const archivedCategories = sqliteTable("archived_category", {
+  id: text("id").primaryKey(),
+  ceremonyId: text("ceremony_id")
+    .notNull()
+    .references(() => archivedCeremonies.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  order: integer("order").notNull(),
+  points: integer("points").notNull(),
+  winnerTitle: text("winner_title"),
+  winnerSubtitle: text("winner_subtitle"),
+});
+
+export const archivedStandings = sqliteTable("archived_standing", {
+  id: text("id").primaryKey(),
+  ceremonyId: text("ceremony_id")
+    .notNull()
+    .references(() => archivedCeremonies.id, { onDelete: "cascade" }),
+  playerName: text("player_name").notNull(),
+  rank: integer("rank").notNull(),
+  totalScore: integer("total_score").notNull(),
+  correctCount: integer("correct_count").notNull(),
+  // Left off the leaderboard (a partial ballot under the "exclude" policy, or no picks) — ranked after everyone on it
+  excluded: integer("excluded", { mode: "boolean" }).notNull().default(false),
+});
+
+export const archivedPicks = sqliteTable("archived_pick", {
+  id: text("id").primaryKey(),
+  ceremonyId: text("ceremony_id")
+    .notNull()
+    .references(() => archivedCeremonies.id, { onDelete: "cascade" }),
+  categoryId: text("category_id")
+    .notNull()
+    .references(() => archivedCategories.id, { onDelete: "cascade" }),
+  playerName: text("player_name").notNull(),
+  title: text("title").notNull(),
+  subtitle: text("subtitle").notNull(),
+  isCorrect: integer("is_correct", { mode: "boolean" }).notNull(),
 });
@@ -4,14 +4,15 @@
  * - User1–User5: deterministic picks (Nth nominee based on user number)
  * - Player6–Player15: random picks for each category
  *
- * Usage: bun packages/server/src/db/seed.ts
+ * Usage: bun packages/server/src/db/seed.ts [gameId]
+ * Seeds the given game, or the most recently created one if omitted.
  * Requires categories/nominations to already be imported (run Wikipedia import first).
  */
 
-import { eq, asc } from "drizzle-orm";
+import { eq, asc, and, desc } from "drizzle-orm";
 import { createId } from "@paralleldrive/cuid2";
 import { createDb } from "./connection";
-import { players, categories, nominations, picks } from "./schema";
+import { games, players, categories, nominations, picks } from "./schema";
 import { hashPin } from "../auth/pin";
 
 const db = createDb();
@@ -24,7 +25,12 @@ const RANDOM_USERS = [
 const PIN = "1234";
 
 async function seed() {
-	const allCategories = await db.select().from(categories).orderBy(asc(categories.order));
+	const gameId = await resolveGameId();
+	const allCategories = await db
+		.select()
+		.from(categories)
+		.where(eq(categories.gameId, gameId))
+		.orderBy(asc(categories.order));
 	if (allCategories.length === 0) {
 		console.error("No categories found. Import from Wikipedia first.");
 		process.exit(1);
@@ -44,14 +50,14 @@ async function seed() {
 	// Deterministic users: User1 picks 1st, User2 picks 2nd, etc.
 	for (let i = 0; i < DETERMINISTIC_USERS.length; i++) {
 		const name = DETERMINISTIC_USERS[i]!;
-		const playerId = await ensurePlayer(name, hashedPin, now);
+		const playerId = await ensurePlayer(gameId, name, hashedPin, now);
 		let pickCount = 0;
 
 		for (const cat of allCategories) {
 			const catNoms = nomsByCategory.get(cat.id) ?? [];
 			if (catNoms.length === 0) continue;
 			const nominee = catNoms[i % catNoms.length]!;
-			await upsertPick(playerId, cat.id, nominee.id, now);
+			await upsertPick(gameId, playerId, cat.id, nominee.id, now);
 			pickCount++;
 		}
 
@@ -60,7 +66,7 @@ async function seed() {
 
 	// Random users: random pick for each category
 	for (const name of RANDOM_USERS) {
-		const playerId = await ensurePlayer(name, hashedPin, now);
+		const playerId = await ensurePlayer(gameId, name, hashedPin, now);
 		let pickCount = 0;
 
 		for (const cat of allCategories) {
@@ -68,7 +74,7 @@ async function seed() {
 			if (catNoms.length === 0) continue;
 			const randomIndex = Math.floor(Math.random() * catNoms.length);
 			const nominee = catNoms[randomIndex]!;
-			await upsertPick(playerId, cat.id, nominee.id, now);
+			await upsertPick(gameId, playerId, cat.id, nominee.id, now);
 			pickCount++;
 		}
 
@@ -79,21 +85,45 @@ async function seed() {
 	console.log("PIN for all users: 1234");
 }
 
-async function ensurePlayer(name: string, hashedPin: string, now: number): Promise<string> {
-	const existing = await db.select().from(players).where(eq(players.name, name)).limit(1);
+async function resolveGameId(): Promise<string> {
+	const requested = process.argv[2];
+	const [game] = requested
+		? await db.select().from(games).where(eq(games.id, requested)).limit(1)
+		: await db.select().from(games).orderBy(desc(games.createdAt)).limit(1);
+	if (!game) {
+		console.error(requested ? `Game ${requested} not found.` : "No games found. Create one in /admin first.");
+		process.exit(1);
+	}
+	console.log(`Seeding game "${game.name}" (${game.id})`);
+	return game.id;
+}
+
+async function ensurePlayer(gameId: string, name: string, hashedPin: string, now: number): Promise<string> {
+	const existing = await db
+		.select()
+		.from(players)
+		.where(and(eq(players.gameId, gameId), eq(players.name, name)))
+		.limit(1);
 	if (existing.length > 0) {
 		console.log(`${name} already exists`);
 		return existing[0]!.id;
 	}
 	const id = createId();
-	await db.insert(players).values({ id, name, pin: hashedPin, createdAt: now });
+	await db.insert(players).values({ id, gameId, name, pin: hashedPin, createdAt: now });
 	console.log(`Created ${name}`);
 	return id;
 }
 
-async function upsertPick(playerId: string, categoryId: string, nominationId: string, now: number) {
+async function upsertPick(
+	gameId: string,
+	playerId: string,
+	categoryId: string,
+	nominationId: string,
+	now: number,
+) {
 	await db.insert(picks).values({
 		id: createId(),
+		gameId,
 		playerId,
 		categoryId,
 		nominationId,
@@ -2,5 +2,11 @@ export type AppEnv = {
   Variables: {
     playerId: string;
     isAdmin: boolean;
+    /** Set by gameMiddleware on /api/games/:gameId/* routes */
+    gameId: string;
+    /** Admin's display name, set by authMiddleware on admin tokens */
+    adminName: string;
+    /** Human-readable summary a handler leaves for the audit log ("Marked Anora as Best Picture") */
+    auditDetail: string;
   };
 };
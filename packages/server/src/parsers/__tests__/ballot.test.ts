@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { BallotParseError, parseBallot } from "../ballot";
+
+describe("parseBallot", () => {
+	describe("csv", () => {
+		it("groups nominee rows by category in file order", () => {
+			const result = parseBallot(
+				"csv",
+				[
+					"category,points,title,subtitle,image_url",
+					"Best Picture,5,Anora,,https://example.com/anora.jpg",
+					"Best Director,4,Sean Baker,Anora,",
+					"Best Picture,,Conclave,,",
+				].join("\n"),
+			);
+
+			expect(result.categories.map((c) => c.name)).toEqual(["Best Picture", "Best Director"]);
+			expect(result.categories[0]?.points).toBe(5);
+			expect(result.categories[0]?.nominations).toEqual([
+				{ title: "Anora", subtitle: "", imageUrl: "https://example.com/anora.jpg" },
+				{ title: "Conclave", subtitle: "", imageUrl: null },
+			]);
+			expect(result.categories[1]?.nominations[0]?.subtitle).toBe("Anora");
+		});
+
+		it("handles quoted fields, escaped quotes, CRLF and a BOM", () => {
+			const result = parseBallot(
+				"csv",
+				'\uFEFFCategory,Title,Subtitle\r\n"Best Song","""Like a Bird""","Sing Sing, the film"\r\n',
+			);
+			const nom = result.categories[0]?.nominations[0];
+			expect(nom?.title).toBe('"Like a Bird"');
+			expect(nom?.subtitle).toBe("Sing Sing, the film");
+			expect(result.categories[0]?.points).toBeUndefined();
+		});
+
+		it("requires category and title columns", () => {
+			expect(() => parseBallot("csv", "name,points\nBest Picture,5")).toThrow(BallotParseError);
+		});
+
+		it("reports the row with bad points", () => {
+			expect(() => parseBallot("csv", "category,points,title\nBest Picture,five,Anora")).toThrow(
+				"Row 2: points must be a whole number",
+			);
+		});
+
+		it("rejects conflicting points for the same category", () => {
+			expect(() =>
+				parseBallot("csv", "category,points,title\nBest Picture,5,Anora\nBest Picture,3,Conclave"),
+			).toThrow("conflicting points");
+		});
+
+		it("rejects an empty file", () => {
+			expect(() => parseBallot("csv", "\n\n")).toThrow("CSV file is empty");
+		});
+	});
+
+	describe("json", () => {
+		it("parses a ballot object", () => {
+			const result = parseBallot(
+				"json",
+				JSON.stringify({
+					name: "Golden Hot Dogs",
+					categories: [{ name: "Best Bun", points: 2, nominations: [{ title: "Brioche" }] }],
+				}),
+			);
+			expect(result.name).toBe("Golden Hot Dogs");
+			expect(result.categories[0]).toEqual({
+				name: "Best Bun",
+				points: 2,
+				nominations: [{ title: "Brioche", subtitle: "", imageUrl: null }],
+			});
+		});
+
+		it("rejects invalid JSON", () => {
+			expect(() => parseBallot("json", "{not json")).toThrow("File is not valid JSON");
+		});
+
+		it("rejects duplicate category names", () => {
+			const content = JSON.stringify({
+				categories: [
+					{ name: "Best Bun", nominations: [{ title: "Brioche" }] },
+					{ name: "best bun", nominations: [{ title: "Potato" }] },
+				],
+			});
+			expect(() => parseBallot("json", content)).toThrow('Duplicate category "best bun"');
+		});
+	});
+});
@@ -0,0 +1,68 @@
+/**
+ * Refreshes the Wikipedia parser corpus — for each ceremony, downloads the page's
+ * wikitext to `<Page_Title>.wiki` and rewrites `<Page_Title>.json` with what
+ * parseWikipediaWikitext makes of it (or the error it throws).
+ *
+ * Usage: bun run corpus:wikipedia [first] [last]
+ * Defaults to the 70th–97th ceremonies. `bun run corpus:wikipedia --local` only
+ * rewrites the goldens from the `.wiki` files already in the corpus. Review the
+ * golden diffs before committing: each one is either a parser fix or a regression.
+ *
+ * Only the trimmed 96th and 97th excerpts are checked in so far; the rest of the
+ * range is added by running this with network access.
+ */
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseWikipediaWikitext } from "../../wikipedia";
+
+const CORPUS_DIR = import.meta.dir;
+
+function ordinal(n: number): string {
+	const teen = n % 100 >= 11 && n % 100 <= 13;
+	const suffix = teen ? "th" : ({ 1: "st", 2: "nd", 3: "rd" }[n % 10] ?? "th");
+	return `${n}${suffix}`;
+}
+
+/** What the corpus test expects back from the parser, as stored in the golden file */
+export function goldenOutput(wikitext: string, fallbackName: string): unknown {
+	try {
+		return JSON.parse(JSON.stringify(parseWikipediaWikitext(wikitext, fallbackName)));
+	} catch (err) {
+		return { error: err instanceof Error ? err.message : String(err) };
+	}
+}
+
+async function download(pageTitle: string) {
+	const url = `https://en.wikipedia.org/w/index.php?title=${encodeURIComponent(pageTitle)}&action=raw`;
+	const res = await fetch(url);
+	if (!res.ok) {
+		console.error(`${pageTitle}: HTTP ${res.status}, skipped`);
+		return;
+	}
+	await writeFile(join(CORPUS_DIR, `${pageTitle}.wiki`), await res.text());
+	await refresh(pageTitle);
+}
+
+async function refresh(pageTitle: string) {
+	const wikitext = await readFile(join(CORPUS_DIR, `${pageTitle}.wiki`), "utf8");
+	const golden = goldenOutput(wikitext, pageTitle.replace(/_/g, " "));
+	await writeFile(join(CORPUS_DIR, `${pageTitle}.json`), `${JSON.stringify(golden, null, "\t")}\n`);
+	const summary =
+		golden && typeof golden === "object" && "error" in golden
+			? `error: ${golden.error}`
+			: `${(golden as { categories: unknown[] }).categories.length} categories`;
+	console.log(`${pageTitle}: ${summary}`);
+}
+
+if (import.meta.main && process.argv[2] === "--local") {
+	for (const file of await readdir(CORPUS_DIR)) {
+		if (file.endsWith(".wiki")) await refresh(file.replace(/\.wiki$/, ""));
+	}
+} else if (import.meta.main) {
+	const first = Number(process.argv[2] ?? 70);
+	const last = Number(process.argv[3] ?? 97);
+	for (let n = first; n <= last; n++) {
+		await download(`${ordinal(n)}_Academy_Awards`);
+	}
+}
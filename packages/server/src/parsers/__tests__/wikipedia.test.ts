@@ -1,7 +1,25 @@
-import { describe, expect, it } from "vitest";
-import { parseWikipediaUrl } from "../wikipedia";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { parseWikipediaUrl, parseWikipediaWikitext, WikipediaAPIError, WikipediaParseError } from "../wikipedia";
+
+const CORPUS_DIR = join(import.meta.dirname, "wikipedia-corpus");
+const corpusPages = readdirSync(CORPUS_DIR)
+	.filter((f) => f.endsWith(".wiki"))
+	.map((f) => f.replace(/\.wiki$/, ""));
+
+function golden(pageTitle: string) {
+	return JSON.parse(readFileSync(join(CORPUS_DIR, `${pageTitle}.json`), "utf8"));
+}
 
 describe("parseWikipediaUrl", () => {
+	it("rejects non-Wikipedia URLs", async () => {
+		await expect(parseWikipediaUrl("https://example.com/not-wikipedia")).rejects.toThrow();
+	});
+});
+
+// These fetch from Wikipedia, so they only run with WIKIPEDIA_LIVE_TESTS=1
+describe.runIf(process.env.WIKIPEDIA_LIVE_TESTS)("parseWikipediaUrl against live Wikipedia", () => {
 	it("parses 97th Academy Awards page", async () => {
 		const result = await parseWikipediaUrl("https://en.wikipedia.org/wiki/97th_Academy_Awards");
 		expect(result.name).toContain("97th");
@@ -18,13 +36,238 @@ describe("parseWikipediaUrl", () => {
 		}
 	}, 30000);
 
-	it("rejects non-Wikipedia URLs", async () => {
-		await expect(parseWikipediaUrl("https://example.com/not-wikipedia")).rejects.toThrow();
-	});
-
 	it("rejects invalid Wikipedia pages", async () => {
 		await expect(
 			parseWikipediaUrl("https://en.wikipedia.org/wiki/Nonexistent_Page_12345xyz"),
 		).rejects.toThrow();
+	}, 30000);
+});
+
+describe("parseWikipediaWikitext", () => {
+	// Golden files are regenerated with `bun run corpus:wikipedia`. The corpus only holds trimmed
+	// excerpts of the 96th and 97th pages, both in the current bullet-list layout; the older
+	// compact-table and standard-table layouts are covered by the hand-written tests below.
+	it.each(corpusPages)("matches the golden output for %s", (pageTitle) => {
+		const wikitext = readFileSync(join(CORPUS_DIR, `${pageTitle}.wiki`), "utf8");
+		const expected = golden(pageTitle);
+		const parse = () => parseWikipediaWikitext(wikitext, pageTitle.replace(/_/g, " "));
+
+		if ("error" in expected) {
+			expect(parse).toThrow(expected.error);
+		} else {
+			expect(JSON.parse(JSON.stringify(parse()))).toEqual(expected);
+		}
+	});
+
+	// Checked by hand against the ceremonies, so the goldens aren't only checked against themselves
+	it.each([
+		["96th_Academy_Awards", "Oppenheimer", "Cillian Murphy", "Emma Stone"],
+		["97th_Academy_Awards", "Anora", "Adrien Brody", "Mikey Madison"],
+	])("lists the winners of %s first", (pageTitle, picture, actor, actress) => {
+		const wikitext = readFileSync(join(CORPUS_DIR, `${pageTitle}.wiki`), "utf8");
+		const { categories } = parseWikipediaWikitext(wikitext);
+		const winner = (name: string) => categories.find((c) => c.name === name)?.nominations[0]?.title;
+
+		expect(winner("Best Picture")).toBe(picture);
+		expect(winner("Best Actor")).toBe(actor);
+		expect(winner("Best Actress")).toBe(actress);
+		expect(categories.find((c) => c.name === "Best Picture")?.nominations).toHaveLength(10);
+		for (const category of categories.filter((c) => c.name !== "Best Picture")) {
+			expect(category.nominations).toHaveLength(5);
+		}
+	});
+
+	it("tells two-word film titles from names by their italics", () => {
+		const wikitext = [
+			"== Awards ==",
+			'{| class="wikitable"',
+			"|-",
+			"| {{Award category|#EEDD82|[[Academy Award for Best Picture|Best Picture]]}}",
+			"* ''[[American Fiction]]'' – Ben LeClair and Cord Jefferson, producers",
+			"| {{Award category|#EEDD82|[[Academy Award for Best Adapted Screenplay|Best Adapted Screenplay]]}}",
+			"* ''[[Sing Sing (2023 film)|Sing Sing]]'' – Screenplay by Clint Bentley and Greg Kwedar; story by others",
+			"|}",
+		].join("\n");
+
+		const result = parseWikipediaWikitext(wikitext);
+
+		expect(result.categories.map((c) => [c.nominations[0]?.title, c.nominations[0]?.subtitle])).toEqual([
+			["American Fiction", "Ben LeClair"],
+			["Sing Sing", "Clint Bentley"],
+		]);
+	});
+
+	// Compact-table layout, as on older ceremony pages
+	it("parses single-level bullet lists in the compact layout", () => {
+		const wikitext = [
+			"== Awards ==",
+			'{| class="wikitable"',
+			"|-",
+			"| {{Award category|#EEDD82|[[Academy Award for Best Picture|Best Picture]]}}",
+			"* ''[[Anora]]'' – [[Alex Coco]], producers",
+			"* ''[[Conclave (film)|Conclave]]'' – Tessa Ross, producers",
+			"| {{Award category|#EEDD82|[[Academy Award for Best Actor|Best Actor in a Leading Role]]}}",
+			"* [[Adrien Brody]] – ''[[The Brutalist]]'' as László Tóth",
+			"* [[Ralph Fiennes]] – ''[[Conclave (film)|Conclave]]'' as Cardinal Lawrence",
+			"|}",
+		].join("\n");
+
+		const result = parseWikipediaWikitext(wikitext, "98th Academy Awards");
+
+		expect(result.name).toBe("98th Academy Awards");
+		expect(result.categories.map((c) => c.name)).toEqual(["Best Picture", "Best Actor"]);
+		expect(result.categories[0]?.nominations[1]).toEqual({
+			title: "Conclave",
+			subtitle: "Tessa Ross",
+			imageUrl: null,
+			wikipediaSlug: "Conclave (film)",
+		});
+		expect(result.categories[1]?.nominations.map((n) => [n.title, n.subtitle])).toEqual([
+			["Adrien Brody", "The Brutalist"],
+			["Ralph Fiennes", "Conclave"],
+		]);
+	});
+
+	// Standard-table layout, as on older ceremony pages
+	it("parses one table per category, named after its section", () => {
+		const wikitext = [
+			"== Best Director ==",
+			'{| class="wikitable"',
+			"! Director !! Film",
+			"|-",
+			"| [[Sean Baker]] || ''[[Anora]]''",
+			"|-",
+			"| [[Brady Corbet]] || ''[[The Brutalist]]''",
+			"|}",
+		].join("\n");
+
+		const result = parseWikipediaWikitext(wikitext);
+
+		expect(result.categories).toEqual([
+			{
+				name: "Best Director",
+				nominations: [
+					{ title: "Sean Baker", subtitle: "Anora", imageUrl: null },
+					{ title: "Brady Corbet", subtitle: "The Brutalist", imageUrl: null },
+				],
+			},
+		]);
+	});
+
+	it("throws a parse error when there are no award categories", () => {
+		expect(() => parseWikipediaWikitext("Just a paragraph about films.")).toThrow(WikipediaParseError);
+	});
+});
+
+describe("parseWikipediaWikitext for other award shows", () => {
+	it("parses Golden Globes tables that name categories in header rows", () => {
+		const wikitext = [
+			"== Winners and nominees ==",
+			'{| class="wikitable"',
+			"|-",
+			'! style="width:50%" | [[Golden Globe Award for Best Motion Picture – Drama|Best Motion Picture – Drama]]',
+			'! style="width:50%" | [[Golden Globe Award for Best Director]]',
+			"|-",
+			'| valign="top" |',
+			"* '''''[[The Brutalist]]'''''",
+			"** ''[[Conclave (film)|Conclave]]''",
+			'| valign="top" |',
+			"* '''[[Brady Corbet]] – ''[[The Brutalist]]'''''",
+			"** [[Edward Berger]] – ''[[Conclave (film)|Conclave]]''",
+			"|-",
+			'! style="width:50%" | [[Golden Globe Award for Best Original Song|Best Original Song]]',
+			"|-",
+			'| valign="top" |',
+			"* '''\"[[El Mal]]\"''' from ''[[Emilia Pérez]]'' – Clément Ducol and Camille",
+			"** \"[[Kiss the Sky]]\" from ''[[The Wild Robot]]'' – Maren Morris",
+			"|}",
+		].join("\n");
+
+		const result = parseWikipediaWikitext(wikitext, "82nd Golden Globe Awards", "golden-globes");
+
+		expect(result.categories.map((c) => c.name)).toEqual([
+			"Best Motion Picture – Drama",
+			"Best Director",
+			"Best Original Song",
+		]);
+		expect(result.categories[0]?.nominations.map((n) => n.wikipediaSlug)).toEqual([
+			"The Brutalist",
+			"Conclave (film)",
+		]);
+		expect(result.categories[1]?.nominations[1]).toMatchObject({ title: "Edward Berger", subtitle: "Conclave" });
+		expect(result.categories[2]?.nominations[0]).toMatchObject({ title: '"El Mal"', subtitle: "Emilia Pérez" });
+	});
+
+	it("uses each show's category names and nominee formats", () => {
+		const table = (categoryPage: string, nominees: string[]) =>
+			[
+				"== Winners and nominees ==",
+				'{| class="wikitable"',
+				"|-",
+				`| {{Award category|#EEDD82|[[${categoryPage}]]}}`,
+				...nominees,
+				"|",
+				"|}",
+			].join("\n");
+
+		const emmys = parseWikipediaWikitext(
+			table("Primetime Emmy Award for Outstanding Drama Series", [
+				"* '''''[[Shōgun (2024 TV series)|Shōgun]]''''' (FX)",
+				"** ''[[Slow Horses]]'' (Apple TV+)",
+			]),
+			"76th Primetime Emmy Awards",
+			"emmys",
+		);
+		expect(emmys.categories[0]?.name).toBe("Outstanding Drama Series");
+		expect(emmys.categories[0]?.nominations.map((n) => [n.title, n.subtitle])).toEqual([
+			["Shōgun", "FX"],
+			["Slow Horses", "Apple TV+"],
+		]);
+
+		const grammys = parseWikipediaWikitext(
+			table("Grammy Award for Record of the Year", [
+				"* '''\"[[Not Like Us]]\"''' – [[Kendrick Lamar]]; [[Sounwave]], producers",
+				"** \"[[Espresso (song)|Espresso]]\" – [[Sabrina Carpenter]]; Julian Bunetta, producer",
+			]),
+			"67th Annual Grammy Awards",
+			"grammys",
+		);
+		expect(grammys.categories[0]?.name).toBe("Record of the Year");
+		expect(grammys.categories[0]?.nominations.map((n) => [n.title, n.subtitle])).toEqual([
+			['"Not Like Us"', "Kendrick Lamar"],
+			['"Espresso"', "Sabrina Carpenter"],
+		]);
+
+		const sag = parseWikipediaWikitext(
+			table("Screen Actors Guild Award for Outstanding Performance by a Cast in a Motion Picture", [
+				"* '''''[[Conclave (film)|Conclave]]''''' – [[Ralph Fiennes]], [[Stanley Tucci]]",
+				"** ''[[Anora]]'' – [[Mikey Madison]], [[Yura Borisov]]",
+			]),
+			"31st Screen Actors Guild Awards",
+			"sag",
+		);
+		expect(sag.categories[0]?.name).toBe("Cast in a Motion Picture");
+	});
+});
+
+describe("parseWikipediaUrl fixture mode", () => {
+	const original = process.env.WIKIPEDIA_FIXTURE_DIR;
+
+	afterEach(() => {
+		if (original === undefined) delete process.env.WIKIPEDIA_FIXTURE_DIR;
+		else process.env.WIKIPEDIA_FIXTURE_DIR = original;
+	});
+
+	it("reads the page from the fixture directory instead of fetching it", async () => {
+		process.env.WIKIPEDIA_FIXTURE_DIR = CORPUS_DIR;
+		const result = await parseWikipediaUrl("https://en.wikipedia.org/wiki/97th_Academy_Awards");
+		expect(JSON.parse(JSON.stringify(result))).toEqual(golden("97th_Academy_Awards"));
+	});
+
+	it("fails like a fetch error when the page has no fixture", async () => {
+		process.env.WIKIPEDIA_FIXTURE_DIR = CORPUS_DIR;
+		await expect(parseWikipediaUrl("https://en.wikipedia.org/wiki/1st_Academy_Awards")).rejects.toThrow(
+			WikipediaAPIError,
+		);
 	});
 });
@@ -0,0 +1,151 @@
+/**
+ * Award show plugins for the Wikipedia parser.
+ *
+ * wikipedia.ts knows how ceremony pages are laid out (award tables, bullet lists,
+ * links); each show here supplies what differs between them — how its category
+ * articles are titled, the names players should see, the nominee formats its
+ * pages use, and the default points for its categories.
+ */
+
+import { AWARD_SHOW_NAMES, AWARD_SHOW_POINTS, type AwardShow } from "@bignight/shared";
+import type { ParsedNomination } from "./wikipedia";
+
+export interface AwardShowParser {
+	show: AwardShow;
+	/** Ceremony name to fall back on when the page doesn't give one */
+	name: string;
+	/** Title prefix of the show's category articles, e.g. "Academy Award for " */
+	categoryPagePrefix: string;
+	/** Turns the page's name for a category into the one players see */
+	shortenCategoryName(name: string): string;
+	/** Nominee formats specific to this show. Return null to fall back to the generic person/work split. */
+	parseNomination?(mainPart: string, details: string): ParsedNomination | null;
+	/** Default points per category, applied at import */
+	points: Record<string, number>;
+}
+
+function collapseWhitespace(name: string): string {
+	return name.trim().replace(/\s+/g, " ");
+}
+
+/** "Song Title" from Film Title — the Original Song categories */
+function parseSongNomination(mainPart: string): ParsedNomination | null {
+	const [, song, film] = mainPart.match(/^"(.+?)"\s+from\s+(.+)$/) ?? [];
+	if (!song || !film) return null;
+	return { title: `"${song}"`, subtitle: film, imageUrl: null };
+}
+
+const oscars: AwardShowParser = {
+	show: "oscars",
+	name: AWARD_SHOW_NAMES.oscars,
+	categoryPagePrefix: "Academy Award for ",
+	/**
+	 * Shorten official Academy category names to common display names.
+	 * "Best Actor in a Leading Role" → "Best Actor"
+	 * "Best Actor in a Supporting Role" → "Best Supporting Actor"
+	 * "Best Writing (Original Screenplay)" → "Best Original Screenplay"
+	 */
+	shortenCategoryName(name) {
+		return collapseWhitespace(
+			name
+				.replace(/Best (Actor|Actress) in a Leading Role/i, "Best $1")
+				.replace(/Best (Actor|Actress) in a Supporting Role/i, "Best Supporting $1")
+				.replace(/Best Writing \((.+)\)/i, "Best $1")
+				.replace(/Best Music \((.+)\)/i, "Best $1")
+				.replace(/Best Short Film \((.+)\)/i, "Best $1 Short")
+				.replace(/Feature Film/i, "Feature")
+				.replace(/Short Film/i, "Short")
+				.replace(/Best Directing/i, "Best Director"),
+		);
+	},
+	parseNomination(mainPart) {
+		const song = parseSongNomination(mainPart);
+		if (song) return song;
+
+		// Film (Country) in Language — Best International Feature
+		const [, film, country] = mainPart.match(/^(.+?) \(([^)]+)\) in .+$/) ?? [];
+		if (film && country) {
+			return { title: film, subtitle: country, imageUrl: null };
+		}
+		return null;
+	},
+	points: AWARD_SHOW_POINTS.oscars,
+};
+
+const goldenGlobes: AwardShowParser = {
+	show: "golden-globes",
+	name: AWARD_SHOW_NAMES["golden-globes"],
+	categoryPagePrefix: "Golden Globe Award for ",
+	// Older pages use a spaced hyphen where newer ones use an en dash
+	shortenCategoryName: (name) => collapseWhitespace(name.replace(/ - /g, " – ")),
+	parseNomination: parseSongNomination,
+	points: AWARD_SHOW_POINTS["golden-globes"],
+};
+
+const bafta: AwardShowParser = {
+	show: "bafta",
+	name: AWARD_SHOW_NAMES.bafta,
+	categoryPagePrefix: "BAFTA Award for ",
+	// "Best Actor in a Supporting Role" → "Best Supporting Actor", as for the Oscars
+	shortenCategoryName(name) {
+		return collapseWhitespace(
+			name
+				.replace(/Best (Actor|Actress) in a Leading Role/i, "Best $1")
+				.replace(/Best (Actor|Actress) in a Supporting Role/i, "Best Supporting $1"),
+		);
+	},
+	points: AWARD_SHOW_POINTS.bafta,
+};
+
+const sag: AwardShowParser = {
+	show: "sag",
+	name: AWARD_SHOW_NAMES.sag,
+	categoryPagePrefix: "Screen Actors Guild Award for ",
+	// Every category is an "Outstanding Performance by …" — drop it to leave the part that differs
+	shortenCategoryName(name) {
+		const short = collapseWhitespace(name.replace(/^Outstanding Performance by (an? )?/i, ""));
+		return short.charAt(0).toUpperCase() + short.slice(1);
+	},
+	points: AWARD_SHOW_POINTS.sag,
+};
+
+const emmys: AwardShowParser = {
+	show: "emmys",
+	name: AWARD_SHOW_NAMES.emmys,
+	categoryPagePrefix: "Primetime Emmy Award for ",
+	shortenCategoryName: collapseWhitespace,
+	// Series are listed with their network: Shōgun (FX)
+	parseNomination(mainPart, details) {
+		const [, series, network] = mainPart.match(/^(.+?) \(([^)]+)\)$/) ?? [];
+		if (!series || !network || details) return null;
+		return { title: series, subtitle: network, imageUrl: null };
+	},
+	points: AWARD_SHOW_POINTS.emmys,
+};
+
+const grammys: AwardShowParser = {
+	show: "grammys",
+	name: AWARD_SHOW_NAMES.grammys,
+	categoryPagePrefix: "Grammy Award for ",
+	shortenCategoryName: collapseWhitespace,
+	// "Not Like Us" – Kendrick Lamar; Sounwave, producers — the credits after the artist are too long to show
+	parseNomination(mainPart, details) {
+		const artist = details.split(";")[0]?.trim();
+		if (!artist) return null;
+		return { title: mainPart, subtitle: artist, imageUrl: null };
+	},
+	points: AWARD_SHOW_POINTS.grammys,
+};
+
+const PARSERS: Record<AwardShow, AwardShowParser> = {
+	oscars,
+	"golden-globes": goldenGlobes,
+	bafta,
+	sag,
+	emmys,
+	grammys,
+};
+
+export function getAwardShowParser(show: AwardShow): AwardShowParser {
+	return PARSERS[show];
+}
@@ -0,0 +1,192 @@
+/**
+ * Ballot Parser — reads a hand-written ballot file (CSV or JSON) into the same
+ * ParsedCeremony shape the Wikipedia parser produces.
+ *
+ * CSV: one row per nominee with a header row naming the columns:
+ *   category,points,title,subtitle,image_url
+ * `category` and `title` are required; rows for the same category are grouped
+ * in file order. `points` may be left blank to use the standard points table.
+ *
+ * JSON: an object matching BallotSchema from @bignight/shared.
+ */
+
+import { BallotSchema } from "@bignight/shared";
+import type { ParsedCeremony } from "./wikipedia";
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export class BallotParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "BallotParseError";
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function parseBallot(format: "csv" | "json", content: string): ParsedCeremony {
+	const raw = format === "csv" ? csvToBallot(content) : parseJson(content);
+
+	const result = BallotSchema.safeParse(raw);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		const path = issue?.path.join(".") || "ballot";
+		throw new BallotParseError(`Invalid ballot at ${path}: ${issue?.message ?? "unknown error"}`);
+	}
+
+	const ballot = result.data;
+	const seen = new Set<string>();
+	for (const cat of ballot.categories) {
+		const key = cat.name.toLowerCase();
+		if (seen.has(key)) {
+			throw new BallotParseError(`Duplicate category "${cat.name}"`);
+		}
+		seen.add(key);
+	}
+
+	return {
+		name: ballot.name ?? "Custom ballot",
+		categories: ballot.categories.map((cat) => ({
+			name: cat.name,
+			points: cat.points,
+			nominations: cat.nominations.map((nom) => ({
+				title: nom.title,
+				subtitle: nom.subtitle,
+				imageUrl: nom.imageUrl,
+			})),
+		})),
+	};
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+function parseJson(content: string): unknown {
+	try {
+		return JSON.parse(content);
+	} catch {
+		throw new BallotParseError("File is not valid JSON");
+	}
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+const COLUMN_ALIASES: Record<string, "category" | "points" | "title" | "subtitle" | "imageUrl"> = {
+	category: "category",
+	points: "points",
+	title: "title",
+	nominee: "title",
+	subtitle: "subtitle",
+	image_url: "imageUrl",
+	imageurl: "imageUrl",
+	image: "imageUrl",
+};
+
+interface BallotCategoryDraft {
+	name: string;
+	points: number | undefined;
+	nominations: { title: string; subtitle: string; imageUrl: string | null }[];
+}
+
+/** Groups CSV rows into the BallotSchema shape. Validation is left to the schema. */
+function csvToBallot(content: string): unknown {
+	const rows = parseCsv(content).filter((row) => row.some((cell) => cell.trim() !== ""));
+	const [header, ...body] = rows;
+	if (!header) throw new BallotParseError("CSV file is empty");
+
+	const columns = header.map((h) => COLUMN_ALIASES[h.trim().toLowerCase()]);
+	const indexOf = (col: string) => columns.indexOf(col as (typeof columns)[number]);
+	const categoryIdx = indexOf("category");
+	const titleIdx = indexOf("title");
+	if (categoryIdx === -1 || titleIdx === -1) {
+		throw new BallotParseError('CSV header must include "category" and "title" columns');
+	}
+	const pointsIdx = indexOf("points");
+	const subtitleIdx = indexOf("subtitle");
+	const imageIdx = indexOf("imageUrl");
+
+	const byName = new Map<string, BallotCategoryDraft>();
+	const ordered: BallotCategoryDraft[] = [];
+
+	body.forEach((row, i) => {
+		const line = i + 2; // 1-based, after the header
+		const cell = (idx: number) => (idx === -1 ? "" : (row[idx] ?? "").trim());
+		const name = cell(categoryIdx);
+		if (!name) throw new BallotParseError(`Row ${line}: missing category`);
+
+		const pointsText = cell(pointsIdx);
+		const points = pointsText ? Number(pointsText) : undefined;
+		if (points !== undefined && !Number.isInteger(points)) {
+			throw new BallotParseError(`Row ${line}: points must be a whole number`);
+		}
+
+		let cat = byName.get(name.toLowerCase());
+		if (!cat) {
+			cat = { name, points, nominations: [] };
+			byName.set(name.toLowerCase(), cat);
+			ordered.push(cat);
+		} else if (points !== undefined && cat.points !== undefined && cat.points !== points) {
+			throw new BallotParseError(`Row ${line}: conflicting points for "${name}"`);
+		} else if (cat.points === undefined) {
+			cat.points = points;
+		}
+
+		cat.nominations.push({
+			title: cell(titleIdx),
+			subtitle: cell(subtitleIdx),
+			imageUrl: cell(imageIdx) || null,
+		});
+	});
+
+	return { categories: ordered };
+}
+
+/** Minimal RFC 4180 reader: quoted fields, escaped quotes ("") and CRLF line endings. */
+function parseCsv(content: string): string[][] {
+	// Strip the BOM that spreadsheet exports often prepend
+	const text = content.replace(/^\uFEFF/, "");
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let pos = 0;
+
+	while (pos < text.length) {
+		const { value, end } = readField(text, pos);
+		row.push(value);
+		const sep = text[end];
+		pos = end + 1;
+		if (sep === "\r" && text[pos] === "\n") pos++;
+		if (sep !== ",") {
+			rows.push(row);
+			row = [];
+		}
+	}
+	if (row.length > 0) rows.push(row);
+	return rows;
+}
+
+/** Reads one field starting at `start`; `end` is the index of the separator after it */
+function readField(text: string, start: number): { value: string; end: number } {
+	if (text[start] !== '"') {
+		let end = start;
+		while (end < text.length && !",\r\n".includes(text[end] as string)) end++;
+		return { value: text.slice(start, end), end };
+	}
+
+	let value = "";
+	let pos = start + 1;
+	for (;;) {
+		const close = text.indexOf('"', pos);
+		if (close === -1) throw new BallotParseError("CSV has an unterminated quoted field");
+		value += text.slice(pos, close);
+		if (text[close + 1] !== '"') return { value, end: close + 1 };
+		value += '"';
+		pos = close + 2;
+	}
+}
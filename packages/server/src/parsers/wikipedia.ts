@@ -1,16 +1,28 @@
 /**
- * Wikipedia Parser — extracts Academy Awards ceremony data from Wikipedia pages.
+ * Wikipedia Parser — extracts award ceremony data from Wikipedia pages.
  *
  * Parses category names and nominations from Wikipedia markup using wtf_wikipedia.
- * Handles three table formats:
+ * Handles four table formats:
  *   1. Standard table (one category per table)
  *   2. Compact two-per-row table (used in recent ceremonies like the 97th)
- *   3. Bullet-point nominations within table cells
+ *   3. Header-row table (category names in `!` rows, nominees in the row below)
+ *   4. Bullet-point nominations within table cells
  *
- * Database-agnostic: takes a URL, returns structured data.
+ * What differs between shows — category naming, nominee formats, default points —
+ * comes from the show's plugin in award-shows.ts. The Academy Awards are the default.
+ *
+ * Database-agnostic: takes a URL (or raw wikitext), returns structured data.
+ *
+ * Fixture mode: with WIKIPEDIA_FIXTURE_DIR set, parseWikipediaUrl reads
+ * `<dir>/<Page_Title>.wiki` instead of fetching, and skips thumbnails — so the
+ * import flow can be exercised with no network.
  */
 
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { AWARD_SHOW_NAMES, type AwardShow } from "@bignight/shared";
 import wtf, { type Document } from "wtf_wikipedia";
+import { type AwardShowParser, getAwardShowParser } from "./award-shows";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -26,6 +38,8 @@ export interface ParsedNomination {
 
 export interface ParsedCategory {
 	name: string;
+	/** Explicit point value. Unset for Wikipedia imports, which fall back to the show's default points. */
+	points?: number;
 	nominations: ParsedNomination[];
 }
 
@@ -57,18 +71,51 @@ export class WikipediaAPIError extends Error {
 // ---------------------------------------------------------------------------
 
 /**
- * Parses a Wikipedia Academy Awards page and returns structured ceremony data.
+ * Parses a Wikipedia award ceremony page and returns structured ceremony data.
  *
  * @param url - Full Wikipedia URL (e.g. "https://en.wikipedia.org/wiki/97th_Academy_Awards")
+ * @param show - Which show the page is for; picks the category and nominee conventions
  * @throws WikipediaParseError for invalid URLs or pages with no award categories
  * @throws WikipediaAPIError if the Wikipedia fetch fails
  */
-export async function parseWikipediaUrl(url: string): Promise<ParsedCeremony> {
+export async function parseWikipediaUrl(url: string, show: AwardShow = "oscars"): Promise<ParsedCeremony> {
 	const pageTitle = extractPageTitle(url);
 
+	const fixtureDir = process.env.WIKIPEDIA_FIXTURE_DIR;
+	if (fixtureDir) {
+		const wikitext = await readFixture(fixtureDir, pageTitle);
+		return parseWikipediaWikitext(wikitext, pageTitle.replace(/_/g, " "), show);
+	}
+
 	const doc = await fetchDocument(pageTitle);
-	const ceremonyName = doc.title() || pageTitle.replace(/_/g, " ");
-	const categories = extractCategories(doc);
+	const ceremony = parseDocument(doc, pageTitle.replace(/_/g, " "), getAwardShowParser(show));
+
+	// Enrich nominations with thumbnail images from linked Wikipedia pages
+	await enrichWithThumbnails(ceremony.categories);
+
+	return ceremony;
+}
+
+/**
+ * Parses the raw wikitext of an award ceremony page — what "Edit source" shows.
+ * Makes no network calls, so nominations come back without thumbnails (their
+ * wikipediaSlug is still set).
+ *
+ * @param fallbackName - Ceremony name to use when wtf_wikipedia can't find a title in the wikitext
+ * @param show - Which show the page is for; picks the category and nominee conventions
+ * @throws WikipediaParseError if no award categories are found
+ */
+export function parseWikipediaWikitext(
+	wikitext: string,
+	fallbackName = AWARD_SHOW_NAMES.oscars,
+	show: AwardShow = "oscars",
+): ParsedCeremony {
+	return parseDocument(wtf(wikitext), fallbackName, getAwardShowParser(show));
+}
+
+function parseDocument(doc: Document, fallbackName: string, parser: AwardShowParser): ParsedCeremony {
+	const ceremonyName = doc.title() || fallbackName;
+	const categories = extractCategories(doc, parser);
 
 	if (categories.length === 0) {
 		throw new WikipediaParseError(
@@ -76,9 +123,6 @@ export async function parseWikipediaUrl(url: string): Promise<ParsedCeremony> {
 		);
 	}
 
-	// Enrich nominations with thumbnail images from linked Wikipedia pages
-	await enrichWithThumbnails(categories);
-
 	return { name: ceremonyName, categories };
 }
 
@@ -186,11 +230,20 @@ async function fetchDocument(pageTitle: string): Promise<Document> {
 	return doc;
 }
 
+async function readFixture(dir: string, pageTitle: string): Promise<string> {
+	try {
+		return await readFile(join(dir, `${pageTitle.replace(/ /g, "_")}.wiki`), "utf8");
+	} catch {
+		throw new WikipediaAPIError(`No fixture for Wikipedia page: ${pageTitle}`);
+	}
+}
+
 // ---------------------------------------------------------------------------
 // Category / nomination extraction
 // ---------------------------------------------------------------------------
 
-const SKIP_SECTIONS = ["reference", "external", "see also", "notes"];
+// "Multiple nominations" tables list films by nomination count — a Film column, but not a category
+const SKIP_SECTIONS = ["reference", "external", "see also", "notes", "multiple nominations"];
 
 function shouldSkipSection(title: string): boolean {
 	const lower = title.toLowerCase();
@@ -198,20 +251,26 @@ function shouldSkipSection(title: string): boolean {
 }
 
 /**
- * Attempts to parse a table as either compact or standard format.
+ * Attempts to parse a table as compact, header-row or standard format.
  */
 function parseCategoriesFromTable(
 	sectionTitle: string,
-	table: { json(): unknown },
+	table: WikiTable,
 	categoryNames: string[],
+	parser: AwardShowParser,
 ): ParsedCategory[] {
 	try {
 		// Try compact two-per-row format first (returns multiple categories)
-		const compactCategories = parseCompactAwardsTable(table, categoryNames);
+		const compactCategories = parseCompactAwardsTable(table, categoryNames, parser);
 		if (compactCategories && compactCategories.length > 0) {
 			return compactCategories;
 		}
 
+		const headerRowCategories = parseHeaderRowTable(table, parser);
+		if (headerRowCategories && headerRowCategories.length > 0) {
+			return headerRowCategories;
+		}
+
 		// Fall back to standard single-category table
 		const category = parseCategoryFromTable(sectionTitle, table);
 		return category ? [category] : [];
@@ -221,13 +280,19 @@ function parseCategoriesFromTable(
 	}
 }
 
+/** The parts of a wtf_wikipedia table the parsers use */
+interface WikiTable {
+	json(): unknown;
+	wikitext(): string;
+}
+
 /**
  * Normalizes wtf_wikipedia's tables() return to always be an array.
  */
-function getSectionTables(section: { tables(): unknown }): Array<{ json(): unknown }> {
+function getSectionTables(section: { tables(): unknown }): WikiTable[] {
 	const tablesResult = section.tables();
 	if (Array.isArray(tablesResult)) return tablesResult;
-	return tablesResult ? [tablesResult as { json(): unknown }] : [];
+	return tablesResult ? [tablesResult as WikiTable] : [];
 }
 
 /**
@@ -236,9 +301,9 @@ function getSectionTables(section: { tables(): unknown }): Array<{ json(): unkno
  * rather than hardcoded, so new categories (like Best Casting) are handled
  * automatically.
  */
-function extractCategories(doc: Document): ParsedCategory[] {
+function extractCategories(doc: Document, parser: AwardShowParser): ParsedCategory[] {
 	const categories: ParsedCategory[] = [];
-	const categoryNames = extractCategoryNamesFromWikitext(doc);
+	const categoryNames = extractCategoryNamesFromWikitext(doc, parser);
 
 	const sectionsResult = doc.sections();
 	const sections = Array.isArray(sectionsResult) ? sectionsResult : [sectionsResult];
@@ -248,7 +313,7 @@ function extractCategories(doc: Document): ParsedCategory[] {
 		if (!sectionTitle || shouldSkipSection(sectionTitle)) continue;
 
 		for (const table of getSectionTables(section)) {
-			categories.push(...parseCategoriesFromTable(sectionTitle, table, categoryNames));
+			categories.push(...parseCategoriesFromTable(sectionTitle, table, categoryNames, parser));
 		}
 	}
 
@@ -290,8 +355,9 @@ function parseNominationFromRow(row: Record<string, unknown>): ParsedNomination
 	let personName: string | undefined;
 	let workTitle: string | undefined;
 
-	for (const [originalKey, value] of Object.entries(row)) {
-		if (typeof value !== "string") continue;
+	for (const [originalKey, cell] of Object.entries(row)) {
+		const value = cellText(cell);
+		if (!value) continue;
 
 		const key = originalKey.toLowerCase();
 
@@ -309,6 +375,15 @@ function parseNominationFromRow(row: Record<string, unknown>): ParsedNomination
 	return toNomination(personName, workTitle);
 }
 
+/** Table cells usually come back from wtf_wikipedia as `{ text, links }` objects rather than strings */
+function cellText(cell: unknown): string {
+	if (typeof cell === "string") return cell.trim();
+	if (typeof cell === "object" && cell !== null && "text" in cell && typeof cell.text === "string") {
+		return cell.text.trim();
+	}
+	return "";
+}
+
 // ---------------------------------------------------------------------------
 // Compact two-per-row table parsing (recent Academy Awards format)
 // ---------------------------------------------------------------------------
@@ -322,15 +397,11 @@ function parseNominationFromRow(row: Record<string, unknown>): ParsedNomination
  * These templates appear in order: col1 of row 0, col2 of row 0, col1 of row 1, etc.
  * This replaces the old hardcoded COMPACT_CATEGORY_MAP.
  */
-function extractCategoryNamesFromWikitext(doc: Document): string[] {
-	let wikitext = doc.wikitext();
-	const names: string[] = [];
-
-	// Strip <ref>...</ref> blocks and <ref .../> self-closing tags BEFORE matching.
+function extractCategoryNamesFromWikitext(doc: Document, parser: AwardShowParser): string[] {
 	// Some Award category templates have <ref> tags inside them (e.g., 97th's
 	// Adapted Screenplay) which break the template-closing regex.
-	wikitext = wikitext.replace(/<ref[^>]*>[\s\S]*?<\/ref>/g, "");
-	wikitext = wikitext.replace(/<ref[^/]*\/>/g, "");
+	const wikitext = stripRefs(doc.wikitext());
+	const names: string[] = [];
 
 	// Match {{Award category|COLOR|[[Academy Award for X|Display Name]]}}
 	// or    {{Award category|COLOR|[[Category Name]]}}
@@ -339,46 +410,35 @@ function extractCategoryNamesFromWikitext(doc: Document): string[] {
 	let match: RegExpExecArray | null;
 
 	while ((match = regex.exec(wikitext)) !== null) {
-		const raw = match[1];
-		if (!raw) continue;
-
-		// Extract display name from wikilink: [[Academy Award for X|Display Name]] → Display Name
-		// or [[Category Name]] → Category Name
-		const linkMatch = raw.match(/\[\[(?:Academy Award for )?([^\]|]+?)(?:\|([^\]]+))?\]\]/);
-		let name: string;
-		if (linkMatch) {
-			name = (linkMatch[2] || linkMatch[1] || "").trim();
-		} else {
-			// Plain text (no wikilink)
-			name = raw.replace(/\[\[.*?\]\]/g, "").trim();
-		}
-
-		if (name) {
-			names.push(shortenCategoryName(name));
-		}
+		const name = match[1] ? toCategoryName(match[1], parser) : "";
+		if (name) names.push(name);
 	}
 
 	return names;
 }
 
+/** Strips <ref>...</ref> blocks and <ref .../> self-closing tags */
+function stripRefs(wikitext: string): string {
+	return wikitext.replace(/<ref[^>]*>[\s\S]*?<\/ref>/g, "").replace(/<ref[^/]*\/>/g, "");
+}
+
 /**
- * Shorten official Academy category names to common display names.
- * "Best Actor in a Leading Role" → "Best Actor"
- * "Best Actor in a Supporting Role" → "Best Supporting Actor"
- * "Best Writing (Original Screenplay)" → "Best Original Screenplay"
+ * The name players see for a category, from the markup naming it on the page.
+ * "[[Academy Award for Best Actor|Best Actor in a Leading Role]]" → "Best Actor"
+ * "[[Academy Award for Best Director]]" → "Best Director"
+ * Unlinked text is used as is, before the show's own shortening.
  */
-function shortenCategoryName(name: string): string {
-	return name
-		.replace(/Best (Actor|Actress) in a Leading Role/i, "Best $1")
-		.replace(/Best (Actor|Actress) in a Supporting Role/i, "Best Supporting $1")
-		.replace(/Best Writing \((.+)\)/i, "Best $1")
-		.replace(/Best Music \((.+)\)/i, "Best $1")
-		.replace(/Best Short Film \((.+)\)/i, "Best $1 Short")
-		.replace(/Feature Film/i, "Feature")
-		.replace(/Short Film/i, "Short")
-		.replace(/Best Directing/i, "Best Director")
-		.trim()
-		.replace(/\s+/g, " ");
+function toCategoryName(markup: string, parser: AwardShowParser): string {
+	const linkMatch = markup.match(/\[\[([^\]|]+?)(?:\|([^\]]+))?\]\]/);
+	let name: string;
+	if (linkMatch) {
+		const prefix = parser.categoryPagePrefix;
+		const page = (linkMatch[1] ?? "").trim();
+		name = (linkMatch[2] || (page.startsWith(prefix) ? page.slice(prefix.length) : page)).trim();
+	} else {
+		name = markup.trim();
+	}
+	return name ? parser.shortenCategoryName(name) : "";
 }
 
 function isCompactFormat(rows: unknown[]): boolean {
@@ -397,17 +457,18 @@ function isCompactFormat(rows: unknown[]): boolean {
 interface CellData {
 	text: string;
 	links?: Array<{ text?: string; page?: string; type?: string }>;
+	formatting?: { italic?: string[] };
 }
 
 /**
- * Extracts the text and links from a compact table cell.
+ * Extracts the text, links and formatting from a compact table cell.
  */
 function extractCompactCell(row: Record<string, unknown>, colKey: string): CellData {
 	if (!(colKey in row)) return { text: "", links: [] };
 	const cell = row[colKey];
 	if (typeof cell === "object" && cell !== null && "text" in cell) {
 		const c = cell as CellData;
-		return { text: c.text ?? "", links: c.links ?? [] };
+		return { text: c.text ?? "", links: c.links ?? [], formatting: c.formatting };
 	}
 	return { text: "", links: [] };
 }
@@ -419,13 +480,19 @@ function parseCompactColumn(
 	row: Record<string, unknown>,
 	colKey: string,
 	categoryName: string,
+	parser: AwardShowParser,
 ): ParsedCategory | null {
 	if (!categoryName) return null;
+	return parseNomineeCell(extractCompactCell(row, colKey), categoryName, parser);
+}
 
-	const cell = extractCompactCell(row, colKey);
+/**
+ * Turns a cell of bullet-point nominees into a category.
+ */
+function parseNomineeCell(cell: CellData, categoryName: string, parser: AwardShowParser): ParsedCategory | null {
 	if (!cell.text) return null;
 
-	const nominations = parseBulletPointNominations(cell.text);
+	const nominations = parseBulletPointNominations(cell.text, parser, new Set(cell.formatting?.italic));
 	if (nominations.length === 0) return null;
 
 	// Match Wikipedia slugs to nominations using the cell's links
@@ -440,13 +507,14 @@ function parseCompactColumn(
 function parseCompactRow(
 	row: Record<string, unknown>,
 	categoryNames: [string, string],
+	parser: AwardShowParser,
 ): ParsedCategory[] {
 	const results: ParsedCategory[] = [];
 
-	const col1 = parseCompactColumn(row, "col1", categoryNames[0]);
+	const col1 = parseCompactColumn(row, "col1", categoryNames[0], parser);
 	if (col1) results.push(col1);
 
-	const col2 = parseCompactColumn(row, "col2", categoryNames[1]);
+	const col2 = parseCompactColumn(row, "col2", categoryNames[1], parser);
 	if (col2) results.push(col2);
 
 	return results;
@@ -455,6 +523,7 @@ function parseCompactRow(
 function parseCompactAwardsTable(
 	table: { json(): unknown },
 	categoryNames: string[],
+	parser: AwardShowParser,
 ): ParsedCategory[] | null {
 	const jsonResult = table.json();
 	if (!jsonResult || typeof jsonResult !== "object") return null;
@@ -474,13 +543,68 @@ function parseCompactAwardsTable(
 		const col2Name = categoryNames[rowIndex * 2 + 1] ?? `Category ${rowIndex * 2 + 2}`;
 
 		categories.push(
-			...parseCompactRow(row as Record<string, unknown>, [col1Name, col2Name]),
+			...parseCompactRow(row as Record<string, unknown>, [col1Name, col2Name], parser),
 		);
 	}
 
 	return categories.length > 0 ? categories : null;
 }
 
+// ---------------------------------------------------------------------------
+// Header-row table parsing (Golden Globes, SAG and others)
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses tables that name categories in `!` header rows, with the nominees for
+ * each in the row below:
+ *
+ *   ! Best Motion Picture – Drama  !! Best Motion Picture – Musical or Comedy
+ *   | * Winner ** Nominee ...      || * Winner ** Nominee ...
+ *
+ * wtf_wikipedia drops single-cell header rows and strips the links from the rest,
+ * so the names come from the table's wikitext instead: the Nth header row names
+ * the categories of the Nth row of nominees.
+ */
+function parseHeaderRowTable(table: WikiTable, parser: AwardShowParser): ParsedCategory[] | null {
+	const jsonResult = table.json();
+	const rows = Array.isArray(jsonResult) ? (jsonResult as Record<string, unknown>[]) : [];
+	if (rows.length === 0 || isCompactFormat(rows)) return null;
+
+	const headerRows = extractHeaderRowNames(table.wikitext(), parser);
+	const nomineeRows = rows
+		.map((row) => Object.keys(row).map((key) => extractCompactCell(row, key)))
+		.filter((cells) => cells.some((cell) => cell.text.startsWith("*")));
+	const categories: ParsedCategory[] = [];
+
+	for (const [rowIndex, cells] of nomineeRows.entries()) {
+		const names = headerRows[rowIndex] ?? [];
+		for (const [i, cell] of cells.entries()) {
+			const name = names[i];
+			const category = name ? parseNomineeCell(cell, name, parser) : null;
+			if (category) categories.push(category);
+		}
+	}
+
+	return categories.length > 0 ? categories : null;
+}
+
+/**
+ * Category names from each `!` row of a table, in order. Cells can be on their own
+ * lines or joined with `!!`, and may carry attributes before a single `|`.
+ */
+function extractHeaderRowNames(wikitext: string, parser: AwardShowParser): string[][] {
+	return stripRefs(wikitext)
+		.split(/\n\|-/)
+		.map((row) =>
+			row
+				.split("\n")
+				.filter((line) => line.startsWith("!"))
+				.flatMap((line) => line.slice(1).split("!!"))
+				.map((cell) => toCategoryName(cell.replace(/^[^[|]*\|(?!\|)/, ""), parser)),
+		)
+		.filter((names) => names.length > 0);
+}
+
 // ---------------------------------------------------------------------------
 // Bullet-point nomination parsing
 // ---------------------------------------------------------------------------
@@ -493,7 +617,11 @@ function parseCompactAwardsTable(
  *   2. " * " separators (98th and others):  "* Nominee * Nominee * Nominee"
  * Splits on whichever separator is present, preferring " ** " if found.
  */
-function parseBulletPointNominations(text: string): ParsedNomination[] {
+function parseBulletPointNominations(
+	text: string,
+	parser: AwardShowParser,
+	italics: ReadonlySet<string>,
+): ParsedNomination[] {
 	const nominations: ParsedNomination[] = [];
 
 	// Determine separator: prefer " ** " if present, else split on " * "
@@ -516,7 +644,8 @@ function parseBulletPointNominations(text: string): ParsedNomination[] {
 
 		if (!mainPart) continue;
 
-		const nomination = parseBulletPointNomination(mainPart, details);
+		const nomination =
+			parser.parseNomination?.(mainPart, details) ?? parseBulletPointNomination(mainPart, details, italics.has(mainPart));
 		if (nomination) {
 			nominations.push(nomination);
 		}
@@ -526,31 +655,22 @@ function parseBulletPointNominations(text: string): ParsedNomination[] {
 }
 
 /**
- * Parses a single bullet-point nomination into title/subtitle.
+ * Parses a single bullet-point nomination into title/subtitle, for nominees the
+ * show's plugin doesn't recognize.
  *
  * Detects whether the main part is a person name or a work title:
  *   - Person: "Adrien Brody" → title=person, subtitle=work (from details)
  *   - Work: "Anora" → title=work, subtitle=person/details
+ * Wikipedia italicizes work titles, so an italic main part is always a work.
  */
-function parseBulletPointNomination(mainPart: string, details: string): ParsedNomination | null {
-	// Special case: "Song Title" from Film Title (Best Original Song)
-	const songMatch = mainPart.match(/^"(.+?)"\s+from\s+(.+)$/);
-	if (songMatch) {
-		const songName = songMatch[1]!;
-		const filmName = songMatch[2]!;
-		return {
-			title: `"${songName}"`,
-			subtitle: filmName,
-			imageUrl: null,
-		};
-	}
-
+function parseBulletPointNomination(mainPart: string, details: string, isItalic = false): ParsedNomination | null {
 	// Heuristic: person names start with "Firstname Lastname" pattern,
-	// but common English articles indicate a work title (e.g. "The Brutalist").
+	// but common English articles indicate a work title (e.g. "The Brutalist"),
+	// and two-word titles like "American Fiction" are only told apart by their italics.
 	// Use Unicode-aware \p{Lu}/\p{Ll} for accented names like "Timothée Chalamet".
 	const startsWithArticle = /^(The|A|An) /i.test(mainPart);
 	const looksLikePersonName = /^\p{Lu}\p{Ll}+ \p{Lu}/u.test(mainPart);
-	const isPersonName = looksLikePersonName && !startsWithArticle;
+	const isPersonName = looksLikePersonName && !startsWithArticle && !isItalic;
 
 	if (isPersonName) {
 		// Main part is a person name
@@ -587,23 +707,29 @@ function extractWorkFromDetails(details: string): string | undefined {
 }
 
 /**
- * Extracts a person name from nomination details.
- * Looks for patterns like "Name1, Name2, and Name3, producers".
+ * Extracts the first credited person from nomination details.
+ * Looks for patterns like "Name1, Name2, and Name3, producers",
+ * "Screenplay by Name1 and Name2; based on …" or a bare "Name1 and Name2".
  */
 function extractPersonFromDetails(details: string): string | undefined {
 	if (!details) return undefined;
 
-	const peopleMatch = details.match(/^(.+?),\s*(producers?|directors?)/i);
-	if (peopleMatch?.[1]) {
-		const names = peopleMatch[1].split(/,| and /).map((n) => n.trim());
-		if (names.length > 0 && names[0]) {
-			return names[0];
-		}
+	const credits =
+		details.match(/^(.+?),\s*(producers?|directors?)/i)?.[1] ??
+		details.match(/^(?:screenplay|written|story)\b.*?\bby (.+?)(?:;|$)/i)?.[1] ??
+		details;
+	const names = credits.split(NAME_LIST_SEPARATOR).map((n) => n.trim());
+	if (credits === details && !(names.length > 1 && names.every((n) => PERSON_NAME.test(n)))) {
+		return undefined;
 	}
-
-	return undefined;
+	return names[0] || undefined;
 }
 
+/** Separates "Name1, Name2, and Name3" */
+const NAME_LIST_SEPARATOR = /,\s*(?:and\s+)?|\s+and\s+/;
+/** Capitalized words, allowing initials and accents: "Justin K. Thompson", "Matīss Kaža" */
+const PERSON_NAME = /^\p{Lu}[\p{L}.'-]*(?: \p{Lu}[\p{L}.'-]*)+$/u;
+
 // ---------------------------------------------------------------------------
 // Wikipedia slug assignment
 // ---------------------------------------------------------------------------
@@ -0,0 +1,210 @@
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it } from "vitest";
+import { categories, games, nominations, picks, players } from "../../db/schema";
+import { createPlayerToken, createTestApp, seedCategories, seedGame, setRevealedWinner } from "../../test-utils";
+
+describe("Admin category editor", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
+    adminToken = await createPlayerToken("admin", true);
+  });
+
+  function request(method: string, path: string, body?: unknown, token = adminToken) {
+    return app.request(`/api/games/${gameId}/admin${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  async function seedPick(categoryId: string, nominationId: string) {
+    const playerId = createId();
+    const now = Date.now();
+    await db.insert(players).values({ id: playerId, gameId, name: "Alice", pin: "hash", createdAt: now });
+    await db.insert(picks).values({ id: createId(), gameId, playerId, categoryId, nominationId, createdAt: now, updatedAt: now });
+  }
+
+  it("returns 403 for non-admin", async () => {
+    const playerToken = await createPlayerToken("player1", false, gameId);
+    const res = await request("POST", "/categories", { name: "Best Picture" }, playerToken);
+    expect(res.status).toBe(403);
+  });
+
+  describe("categories", () => {
+    it("creates a category at the end of the list", async () => {
+      await seedCategories(db, gameId);
+      const res = await request("POST", "/categories", { name: "Best Hot Dog", points: 3 });
+      expect(res.status).toBe(201);
+      const { category } = await res.json();
+      expect(category.order).toBe(3);
+      expect(category.points).toBe(3);
+      expect(category.gameId).toBe(gameId);
+    });
+
+    it("renames and re-points a category", async () => {
+      const { categoryId } = await seedCategories(db, gameId);
+      const res = await request("PATCH", `/categories/${categoryId}`, { name: "Outstanding Picture" });
+      expect(res.status).toBe(200);
+
+      const [cat] = await db.select().from(categories).where(eq(categories.id, categoryId));
+      expect(cat?.name).toBe("Outstanding Picture");
+      expect(cat?.points).toBe(1);
+    });
+
+    it("returns 404 for a category in another game", async () => {
+      const otherGameId = await seedGame(db);
+      const { categoryId } = await seedCategories(db, otherGameId);
+      const res = await request("PATCH", `/categories/${categoryId}`, { name: "Hijacked" });
+      expect(res.status).toBe(404);
+    });
+
+    it("reorders categories", async () => {
+      const { categoryId, otherCategoryId } = await seedCategories(db, gameId);
+      const res = await request("PUT", "/categories/order", { categoryIds: [otherCategoryId, categoryId] });
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.categories.map((c: { id: string }) => c.id)).toEqual([otherCategoryId, categoryId]);
+      expect(body.categories.map((c: { order: number }) => c.order)).toEqual([0, 1]);
+    });
+
+    it("rejects a reorder that is not a permutation", async () => {
+      const { categoryId } = await seedCategories(db, gameId);
+      const res = await request("PUT", "/categories/order", { categoryIds: [categoryId, categoryId] });
+      expect(res.status).toBe(400);
+    });
+
+    it("sets and clears a category lock time", async () => {
+      const { categoryId } = await seedCategories(db, gameId);
+      const locksAt = Date.now() + 60_000;
+
+      const res = await request("PUT", `/categories/${categoryId}/lock`, { locksAt });
+      expect(res.status).toBe(200);
+      expect((await res.json()).category.locksAt).toBe(locksAt);
+
+      await request("PUT", `/categories/${categoryId}/lock`, { locksAt: null });
+      const [cat] = await db.select().from(categories).where(eq(categories.id, categoryId));
+      expect(cat?.locksAt).toBeNull();
+    });
+
+    it("warns before deleting a category with picks, then deletes with force", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      await seedPick(categoryId, nominationId);
+
+      const blocked = await request("DELETE", `/categories/${categoryId}`);
+      expect(blocked.status).toBe(409);
+      expect((await blocked.json()).pickCount).toBe(1);
+
+      const forced = await request("DELETE", `/categories/${categoryId}?force=true`);
+      expect(forced.status).toBe(200);
+      expect(await db.select().from(categories).where(eq(categories.id, categoryId))).toHaveLength(0);
+      expect(await db.select().from(picks)).toHaveLength(0);
+    });
+
+    it("deletes a revealed category", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      await setRevealedWinner(db, categoryId, nominationId);
+
+      const res = await request("DELETE", `/categories/${categoryId}`);
+      expect(res.status).toBe(200);
+    });
+
+    async function completedAt() {
+      const [game] = await db.select().from(games).where(eq(games.id, gameId));
+      return game?.completedAt;
+    }
+
+    it("reopens a finished game when a category is added", async () => {
+      const { categoryId, otherCategoryId, nominationId, otherNominationId } = await seedCategories(db, gameId);
+      await setRevealedWinner(db, categoryId, nominationId);
+      await setRevealedWinner(db, otherCategoryId, otherNominationId);
+      await db.update(games).set({ completedAt: Date.now() }).where(eq(games.id, gameId));
+
+      await request("POST", "/categories", { name: "Best Hot Dog" });
+      expect(await completedAt()).toBeNull();
+    });
+
+    it("finishes the game when the last unrevealed category is deleted", async () => {
+      const { categoryId, otherCategoryId, nominationId } = await seedCategories(db, gameId);
+      await setRevealedWinner(db, categoryId, nominationId);
+
+      await request("DELETE", `/categories/${otherCategoryId}`);
+      expect(await completedAt()).not.toBeNull();
+    });
+
+    it("clears confidence rankings when the categories change in confidence mode", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      await db.update(games).set({ scoringMode: "confidence" }).where(eq(games.id, gameId));
+      await seedPick(categoryId, nominationId);
+      await db.update(picks).set({ confidence: 2 });
+
+      await request("POST", "/categories", { name: "Best Hot Dog" });
+      const [pick] = await db.select().from(picks);
+      expect(pick?.confidence).toBeNull();
+    });
+  });
+
+  describe("nominations", () => {
+    it("adds a nomination to a category", async () => {
+      const { categoryId } = await seedCategories(db, gameId);
+      const res = await request("POST", `/categories/${categoryId}/nominations`, { title: "Dune: Part Two" });
+      expect(res.status).toBe(201);
+      const { nomination } = await res.json();
+      expect(nomination).toMatchObject({ categoryId, title: "Dune: Part Two", subtitle: "", imageUrl: null });
+    });
+
+    it("edits a nomination without picks", async () => {
+      const { nominationId } = await seedCategories(db, gameId);
+      const res = await request("PATCH", `/nominations/${nominationId}`, { subtitle: "Christopher Nolan" });
+      expect(res.status).toBe(200);
+      const [nom] = await db.select().from(nominations).where(eq(nominations.id, nominationId));
+      expect(nom?.title).toBe("Oppenheimer");
+      expect(nom?.subtitle).toBe("Christopher Nolan");
+    });
+
+    it("warns before editing a picked nomination, then edits with force", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      await seedPick(categoryId, nominationId);
+
+      const blocked = await request("PATCH", `/nominations/${nominationId}`, { title: "Oppenheimer (2023)" });
+      expect(blocked.status).toBe(409);
+
+      const forced = await request("PATCH", `/nominations/${nominationId}?force=true`, { title: "Oppenheimer (2023)" });
+      expect(forced.status).toBe(200);
+      expect(await db.select().from(picks)).toHaveLength(1);
+    });
+
+    it("refuses to delete the announced winner", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      await setRevealedWinner(db, categoryId, nominationId);
+
+      const res = await request("DELETE", `/nominations/${nominationId}?force=true`);
+      expect(res.status).toBe(409);
+    });
+
+    it("deletes a nomination", async () => {
+      const { nominationId2 } = await seedCategories(db, gameId);
+      const res = await request("DELETE", `/nominations/${nominationId2}`);
+      expect(res.status).toBe(200);
+      expect(await db.select().from(nominations).where(eq(nominations.id, nominationId2))).toHaveLength(0);
+    });
+
+    it("returns 404 for a nomination in another game", async () => {
+      const otherGameId = await seedGame(db);
+      const { nominationId } = await seedCategories(db, otherGameId);
+      const res = await request("DELETE", `/nominations/${nominationId}`);
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it } from "vitest";
+import { categories, games, picks, players } from "../../db/schema";
+import { createPlayerToken, createTestApp, seedCategories, setRevealedWinner } from "../../test-utils";
+
+describe("Admin scoring", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
+    adminToken = await createPlayerToken("admin", true);
+  });
+
+  function request(method: string, path: string, body?: unknown, token = adminToken) {
+    return app.request(`/api/games/${gameId}/admin${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  it("returns 403 for non-admin", async () => {
+    const playerToken = await createPlayerToken("player1", false, gameId);
+    const res = await request("GET", "/rule-sets", undefined, playerToken);
+    expect(res.status).toBe(403);
+  });
+
+  describe("rule sets", () => {
+    it("lists the built-in presets", async () => {
+      const res = await request("GET", "/rule-sets");
+      expect(res.status).toBe(200);
+      const { ruleSets } = await res.json();
+      expect(ruleSets.map((r: { id: string }) => r.id)).toEqual(["flat", "weighted", "underdog"]);
+    });
+
+    it("creates a custom table", async () => {
+      const res = await request("POST", "/rule-sets", { name: "Office Rules", points: { "Best Picture": 10 } });
+      expect(res.status).toBe(201);
+      const { ruleSet } = await res.json();
+      expect(ruleSet).toMatchObject({ name: "Office Rules", defaultPoints: 1, builtIn: false });
+
+      const list = await (await request("GET", "/rule-sets")).json();
+      expect(list.ruleSets).toHaveLength(4);
+    });
+
+    it("rejects a duplicate name", async () => {
+      await request("POST", "/rule-sets", { name: "Office Rules", points: {} });
+      const res = await request("POST", "/rule-sets", { name: "office rules", points: {} });
+      expect(res.status).toBe(409);
+    });
+
+    it("deletes a custom table and resets games that used it", async () => {
+      const { ruleSet } = await (await request("POST", "/rule-sets", { name: "Office Rules", points: {} })).json();
+      await request("PUT", "/scoring", { scoringRuleSetId: ruleSet.id });
+
+      const res = await request("DELETE", `/rule-sets/${ruleSet.id}`);
+      expect(res.status).toBe(200);
+      const [game] = await db.select().from(games).where(eq(games.id, gameId));
+      expect(game?.scoringRuleSetId).toBeNull();
+    });
+
+    it("refuses to delete a built-in preset", async () => {
+      const res = await request("DELETE", "/rule-sets/flat");
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("PUT /scoring", () => {
+    it("switches the game to confidence scoring", async () => {
+      const res = await request("PUT", "/scoring", { scoringMode: "confidence" });
+      expect(res.status).toBe(200);
+
+      const [game] = await db.select().from(games).where(eq(games.id, gameId));
+      expect(game?.scoringMode).toBe("confidence");
+    });
+
+    it("turns the underdog bonus on without touching the mode", async () => {
+      const res = await request("PUT", "/scoring", { underdogBonus: true });
+      expect((await res.json()).game).toMatchObject({ underdogBonus: true, scoringMode: "standard" });
+    });
+
+    it("rejects an unknown mode", async () => {
+      const res = await request("PUT", "/scoring", { scoringMode: "vibes" });
+      expect(res.status).toBe(400);
+    });
+
+    it("rejects an unknown rule set", async () => {
+      const res = await request("PUT", "/scoring", { scoringRuleSetId: "nope" });
+      expect(res.status).toBe(404);
+    });
+
+    it("rescores the leaderboard with the selected rule set", async () => {
+      const { categoryId, nominationId, otherCategoryId, otherNominationId } = await seedCategories(db, gameId);
+      await db.update(categories).set({ points: 5 }).where(eq(categories.id, categoryId));
+      await setRevealedWinner(db, categoryId, nominationId);
+
+      const playerId = createId();
+      const now = Date.now();
+      await db.insert(players).values({ id: playerId, gameId, name: "Alice", pin: "hash", createdAt: now });
+      await db.insert(picks).values([
+        { id: createId(), gameId, playerId, categoryId, nominationId, createdAt: now, updatedAt: now },
+        { id: createId(), gameId, playerId, categoryId: otherCategoryId, nominationId: otherNominationId, createdAt: now, updatedAt: now },
+      ]);
+
+      const res = await request("PUT", "/scoring", { scoringRuleSetId: "flat" });
+      const { leaderboard } = await res.json();
+      expect(leaderboard[0].totalScore).toBe(1);
+
+      const back = await request("PUT", "/scoring", { scoringRuleSetId: null });
+      expect((await back.json()).leaderboard[0].totalScore).toBe(5);
+    });
+  });
+
+  describe("PUT /tiebreaker", () => {
+    it("sets the question, then settles a tie once the answer is in", async () => {
+      const { categoryId, nominationId, otherCategoryId, otherNominationId } = await seedCategories(db, gameId);
+      const now = Date.now();
+      for (const [name, guess] of [["Alice", 250], ["Bob", 215]] as const) {
+        const playerId = createId();
+        await db.insert(players).values({ id: playerId, gameId, name, pin: "hash", tiebreakerGuess: guess, createdAt: now });
+        await db.insert(picks).values([
+          { id: createId(), gameId, playerId, categoryId, nominationId, createdAt: now, updatedAt: now },
+          { id: createId(), gameId, playerId, categoryId: otherCategoryId, nominationId: otherNominationId, createdAt: now, updatedAt: now },
+        ]);
+      }
+
+      const setup = await request("PUT", "/tiebreaker", { question: "Runtime in minutes?", rule: "price-is-right" });
+      const before = await setup.json();
+      expect(before.game).toMatchObject({ tiebreakerQuestion: "Runtime in minutes?", tiebreakerRule: "price-is-right" });
+      expect(before.leaderboard.map((p: { rank: number }) => p.rank)).toEqual([1, 1]);
+
+      const settled = await request("PUT", "/tiebreaker", { answer: 222 });
+      const { leaderboard } = await settled.json();
+      expect(leaderboard.map((p: { name: string; rank: number }) => [p.name, p.rank])).toEqual([
+        ["Bob", 1],
+        ["Alice", 2],
+      ]);
+      expect(leaderboard[0].tiebreakerGuess).toBe(215);
+    });
+  });
+});
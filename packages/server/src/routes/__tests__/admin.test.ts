@@ -1,12 +1,17 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
 import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
-import { createTestApp, createPlayerToken } from "../../test-utils";
-import { categories, nominations, picks, players, gameConfig } from "../../db/schema";
+import { createTestApp, createPlayerToken, seedCategories, seedGame, setRevealedWinner } from "../../test-utils";
+import { categories, categoryWinners, nominations, picks, players, games } from "../../db/schema";
 import { createId } from "@paralleldrive/cuid2";
 import { eq } from "drizzle-orm";
 import type { Db } from "../../db/connection";
+import { signToken } from "../../auth/token";
+import { createAdmin } from "../../services/admins";
 
 let app: ReturnType<typeof createTestApp>["app"];
 let db: ReturnType<typeof createTestApp>["db"];
+let gameId: string;
 let adminToken: string;
 
 async function setupAdmin() {
@@ -22,10 +27,10 @@ async function insertCategory(
   const catId = createId();
   await database.insert(categories).values({
     id: catId,
+    gameId,
     name,
     order,
     points: 1,
-    winnerId: null,
     isRevealed: false,
     createdAt: Date.now(),
   });
@@ -51,6 +56,7 @@ describe("Admin Routes", () => {
     const ctx = createTestApp();
     app = ctx.app;
     db = ctx.db;
+    gameId = ctx.gameId;
     await setupAdmin();
   });
 
@@ -82,6 +88,22 @@ describe("Admin Routes", () => {
       expect(res.status).toBe(401);
     });
 
+    it("returns 429 after repeated wrong PINs", async () => {
+      vi.stubEnv("ADMIN_PIN", "secret123");
+      const login = (pin: string) =>
+        app.request("/api/admin/login", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ pin }),
+        });
+      for (let i = 0; i < 5; i++) {
+        expect((await login("wrong")).status).toBe(401);
+      }
+      const res = await login("secret123");
+      expect(res.status).toBe(429);
+      expect(res.headers.get("Retry-After")).toBe("30");
+    });
+
     it("returns 401 when ADMIN_PIN is not set", async () => {
       delete process.env.ADMIN_PIN;
       const res = await app.request("/api/admin/login", {
@@ -94,88 +116,131 @@ describe("Admin Routes", () => {
   });
 
   // ---- Mark Winner ----
-  describe("POST /api/admin/mark-winner", () => {
+  describe("POST /api/games/:gameId/admin/mark-winner", () => {
     it("marks a nomination as winner and reveals category", async () => {
       const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, [
         "Film A",
         "Film B",
       ]);
 
-      const res = await app.request("/api/admin/mark-winner", {
+      const res = await app.request(`/api/games/${gameId}/admin/mark-winner`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${adminToken}`,
         },
-        body: JSON.stringify({ categoryId: catId, nominationId: nomIds[0] }),
+        body: JSON.stringify({ categoryId: catId, nominationIds: [nomIds[0]] }),
       });
       expect(res.status).toBe(200);
 
       const cats = await db.select().from(categories).where(eq(categories.id, catId));
-      expect(cats[0].winnerId).toBe(nomIds[0]);
+      const winners = await db.select().from(categoryWinners).where(eq(categoryWinners.categoryId, catId));
+      expect(winners.map((w) => w.nominationId)).toEqual([nomIds[0]]);
       expect(cats[0].isRevealed).toBe(true);
     });
 
+    it("marks a tie and scores a pick of either winner", async () => {
+      const { catId, nomIds } = await insertCategory(db, "Sound Editing", 0, ["Film A", "Film B", "Film C"]);
+      const now = Date.now();
+      for (const [name, nominationId] of [["Ann", nomIds[0]], ["Bob", nomIds[1]], ["Cat", nomIds[2]]] as const) {
+        const playerId = createId();
+        await db.insert(players).values({ id: playerId, gameId, name, pin: "x", createdAt: now });
+        await db.insert(picks).values({ id: createId(), gameId, playerId, categoryId: catId, nominationId: nominationId as string, createdAt: now, updatedAt: now });
+      }
+
+      const res = await app.request(`/api/games/${gameId}/admin/mark-winner`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ categoryId: catId, nominationIds: [nomIds[0], nomIds[1]] }),
+      });
+      expect(res.status).toBe(200);
+
+      const { leaderboard } = await res.json();
+      const scores = Object.fromEntries(leaderboard.map((p: { name: string; totalScore: number }) => [p.name, p.totalScore]));
+      expect(scores).toEqual({ Ann: 1, Bob: 1, Cat: 0 });
+    });
+
     it("sets completedAt when all categories are revealed", async () => {
       const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
       const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A", "Dir B"]);
 
       // Mark first category
-      await app.request("/api/admin/mark-winner", {
+      await app.request(`/api/games/${gameId}/admin/mark-winner`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${adminToken}`,
         },
-        body: JSON.stringify({ categoryId: cat1.catId, nominationId: cat1.nomIds[0] }),
+        body: JSON.stringify({ categoryId: cat1.catId, nominationIds: [cat1.nomIds[0]] }),
       });
 
       // Mark second (last) category
-      await app.request("/api/admin/mark-winner", {
+      await app.request(`/api/games/${gameId}/admin/mark-winner`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${adminToken}`,
         },
-        body: JSON.stringify({ categoryId: cat2.catId, nominationId: cat2.nomIds[0] }),
+        body: JSON.stringify({ categoryId: cat2.catId, nominationIds: [cat2.nomIds[0]] }),
       });
 
-      const config = await db.select().from(gameConfig).where(eq(gameConfig.id, 1));
+      const config = await db.select().from(games).where(eq(games.id, gameId));
       expect(config[0].completedAt).toBeDefined();
       expect(config[0].completedAt).not.toBeNull();
     });
 
     it("returns 403 for non-admin", async () => {
-      const playerToken = await createPlayerToken("player1", false);
-      const res = await app.request("/api/admin/mark-winner", {
+      const playerToken = await createPlayerToken("player1", false, gameId);
+      const res = await app.request(`/api/games/${gameId}/admin/mark-winner`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${playerToken}`,
         },
-        body: JSON.stringify({ categoryId: "cat1", nominationId: "nom1" }),
+        body: JSON.stringify({ categoryId: "cat1", nominationIds: ["nom1"] }),
       });
       expect(res.status).toBe(403);
     });
 
+    it("returns 404 when category belongs to another game", async () => {
+      const otherGameId = await seedGame(db);
+      const { categoryId, nominationId } = await seedCategories(db, otherGameId);
+
+      const res = await app.request(`/api/games/${gameId}/admin/mark-winner`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ categoryId, nominationIds: [nominationId] }),
+      });
+      expect(res.status).toBe(404);
+
+      const [cat] = await db.select().from(categories).where(eq(categories.id, categoryId));
+      expect(cat?.isRevealed).toBe(false);
+    });
+
     it("returns 404 when nomination does not belong to category", async () => {
       const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A"]);
       const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A"]);
 
-      const res = await app.request("/api/admin/mark-winner", {
+      const res = await app.request(`/api/games/${gameId}/admin/mark-winner`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${adminToken}`,
         },
-        body: JSON.stringify({ categoryId: cat1.catId, nominationId: cat2.nomIds[0] }),
+        body: JSON.stringify({ categoryId: cat1.catId, nominationIds: [cat2.nomIds[0]] }),
       });
       expect(res.status).toBe(404);
     });
   });
 
   // ---- Clear Winner ----
-  describe("POST /api/admin/clear-winner", () => {
+  describe("POST /api/games/:gameId/admin/clear-winner", () => {
     it("clears winner and unreveals category", async () => {
       const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, [
         "Film A",
@@ -183,12 +248,9 @@ describe("Admin Routes", () => {
       ]);
 
       // First mark a winner
-      await db
-        .update(categories)
-        .set({ winnerId: nomIds[0], isRevealed: true })
-        .where(eq(categories.id, catId));
+      await setRevealedWinner(db, catId, nomIds[0] as string);
 
-      const res = await app.request("/api/admin/clear-winner", {
+      const res = await app.request(`/api/games/${gameId}/admin/clear-winner`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -199,22 +261,114 @@ describe("Admin Routes", () => {
       expect(res.status).toBe(200);
 
       const cats = await db.select().from(categories).where(eq(categories.id, catId));
-      expect(cats[0].winnerId).toBeNull();
+      expect(await db.select().from(categoryWinners).where(eq(categoryWinners.categoryId, catId))).toHaveLength(0);
       expect(cats[0].isRevealed).toBe(false);
     });
   });
 
+  // ---- Reveal undo/redo ----
+  describe("POST /api/games/:gameId/admin/undo-reveal and redo-reveal", () => {
+    function post(path: string, body?: unknown) {
+      return app.request(`/api/games/${gameId}/admin${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    it("returns 409 when there is nothing to undo or redo", async () => {
+      const undo = await post("/undo-reveal");
+      expect(undo.status).toBe(409);
+      expect((await undo.json()).error).toBe("Nothing to undo");
+      expect((await post("/redo-reveal")).status).toBe(409);
+    });
+
+    it("undoes and redoes a winner, reporting the next step in the history", async () => {
+      const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
+      await post("/mark-winner", { categoryId: catId, nominationIds: [nomIds[0]] });
+      await post("/mark-winner", { categoryId: catId, nominationIds: [nomIds[1]] });
+
+      const winnerIds = async () =>
+        (await db.select().from(categoryWinners).where(eq(categoryWinners.categoryId, catId))).map((w) => w.nominationId);
+
+      expect((await post("/undo-reveal")).status).toBe(200);
+      expect(await winnerIds()).toEqual([nomIds[0]]);
+
+      const history = await app.request(`/api/games/${gameId}/admin/reveal-history`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      expect(await history.json()).toEqual({
+        undo: { categoryId: catId, categoryName: "Best Picture", previousWinnerTitles: [], newWinnerTitles: ["Film A"] },
+        redo: { categoryId: catId, categoryName: "Best Picture", previousWinnerTitles: ["Film A"], newWinnerTitles: ["Film B"] },
+      });
+
+      expect((await post("/redo-reveal")).status).toBe(200);
+      expect(await winnerIds()).toEqual([nomIds[1]]);
+    });
+
+    it("requires admin", async () => {
+      const token = await createPlayerToken("player-1", false, gameId);
+      const res = await app.request(`/api/games/${gameId}/admin/undo-reveal`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      expect(res.status).toBe(403);
+    });
+  });
+
+  // ---- Pick lock ----
+  describe("PUT /api/games/:gameId/admin/lock", () => {
+    function setLock(locksAt: number | null, token = adminToken) {
+      return app.request(`/api/games/${gameId}/admin/lock`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ locksAt }),
+      });
+    }
+
+    it("schedules a lock time", async () => {
+      const locksAt = Date.now() + 3_600_000;
+      const res = await setLock(locksAt);
+      expect(res.status).toBe(200);
+      expect((await res.json()).game.locksAt).toBe(locksAt);
+
+      const [game] = await db.select().from(games).where(eq(games.id, gameId));
+      expect(game?.locksAt).toBe(locksAt);
+    });
+
+    it("unlocks with null", async () => {
+      await db.update(games).set({ locksAt: Date.now() - 1000 }).where(eq(games.id, gameId));
+      const res = await setLock(null);
+      expect(res.status).toBe(200);
+
+      const [game] = await db.select().from(games).where(eq(games.id, gameId));
+      expect(game?.locksAt).toBeNull();
+    });
+
+    it("returns 403 for non-admin", async () => {
+      const playerToken = await createPlayerToken("player1", false, gameId);
+      const res = await setLock(Date.now(), playerToken);
+      expect(res.status).toBe(403);
+    });
+  });
+
   // ---- Reset ----
-  describe("POST /api/admin/reset", () => {
+  describe("POST /api/games/:gameId/admin/reset", () => {
     it("resets all game data when confirm is true", async () => {
       // Set up some data
       await insertCategory(db, "Best Picture", 0, ["Film A"]);
       await db
-        .update(gameConfig)
-        .set({ completedAt: Date.now() })
-        .where(eq(gameConfig.id, 1));
+        .update(games)
+        .set({ completedAt: Date.now(), tiebreakerQuestion: "Runtime?", tiebreakerAnswer: 210 })
+        .where(eq(games.id, gameId));
 
-      const res = await app.request("/api/admin/reset", {
+      const res = await app.request(`/api/games/${gameId}/admin/reset`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -230,12 +384,35 @@ describe("Admin Routes", () => {
       const noms = await db.select().from(nominations);
       expect(noms).toHaveLength(0);
 
-      const config = await db.select().from(gameConfig).where(eq(gameConfig.id, 1));
+      const config = await db.select().from(games).where(eq(games.id, gameId));
       expect(config[0].completedAt).toBeNull();
+      expect(config[0]?.locksAt).toBeNull();
+      expect(config[0]?.tiebreakerAnswer).toBeNull();
+      expect(config[0]?.tiebreakerQuestion).toBe("Runtime?");
+    });
+
+    it("leaves other games untouched", async () => {
+      await insertCategory(db, "Best Picture", 0, ["Film A"]);
+      const otherGameId = await seedGame(db);
+      await seedCategories(db, otherGameId);
+
+      const res = await app.request(`/api/games/${gameId}/admin/reset`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ confirm: true }),
+      });
+      expect(res.status).toBe(200);
+
+      const remaining = await db.select().from(categories);
+      expect(remaining).toHaveLength(2);
+      expect(remaining.every((cat) => cat.gameId === otherGameId)).toBe(true);
     });
 
     it("rejects reset without confirm", async () => {
-      const res = await app.request("/api/admin/reset", {
+      const res = await app.request(`/api/games/${gameId}/admin/reset`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -247,7 +424,7 @@ describe("Admin Routes", () => {
     });
 
     it("rejects reset with no body", async () => {
-      const res = await app.request("/api/admin/reset", {
+      const res = await app.request(`/api/games/${gameId}/admin/reset`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -259,11 +436,73 @@ describe("Admin Routes", () => {
     });
   });
 
+  describe("POST /api/games/:gameId/admin/archive", () => {
+    it("archives the ceremony and clears the live game", async () => {
+      await insertCategory(db, "Best Picture", 0, ["Film A"]);
+
+      const res = await app.request(`/api/games/${gameId}/admin/archive`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ confirm: true, force: true }),
+      });
+      expect(res.status).toBe(201);
+      const body = await res.json();
+      expect(body.ceremony.gameId).toBe(gameId);
+
+      const cats = await db.select().from(categories);
+      expect(cats).toHaveLength(0);
+    });
+
+    it("returns 400 when there is nothing to archive", async () => {
+      const res = await app.request(`/api/games/${gameId}/admin/archive`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ confirm: true }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 400 for a ceremony that isn't over without force", async () => {
+      await insertCategory(db, "Best Picture", 0, ["Film A"]);
+      const res = await app.request(`/api/games/${gameId}/admin/archive`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ confirm: true }),
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("isn't over");
+      expect(await db.select().from(categories)).toHaveLength(1);
+    });
+
+    it("rejects archive without confirm", async () => {
+      await insertCategory(db, "Best Picture", 0, ["Film A"]);
+      const res = await app.request(`/api/games/${gameId}/admin/archive`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({}),
+      });
+      expect(res.status).toBe(400);
+      expect(await db.select().from(categories)).toHaveLength(1);
+    });
+  });
+
   // ---- Import (unit test with direct DB insertion) ----
-  describe("POST /api/admin/import", () => {
+  describe("POST /api/games/:gameId/admin/import", () => {
     it("returns 403 for non-admin", async () => {
-      const playerToken = await createPlayerToken("player1", false);
-      const res = await app.request("/api/admin/import", {
+      const playerToken = await createPlayerToken("player1", false, gameId);
+      const res = await app.request(`/api/games/${gameId}/admin/import`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -276,10 +515,10 @@ describe("Admin Routes", () => {
   });
 
   // ---- Preview ----
-  describe("POST /api/admin/preview", () => {
+  describe("POST /api/games/:gameId/admin/preview", () => {
     it("returns 403 for non-admin", async () => {
-      const playerToken = await createPlayerToken("player1", false);
-      const res = await app.request("/api/admin/preview", {
+      const playerToken = await createPlayerToken("player1", false, gameId);
+      const res = await app.request(`/api/games/${gameId}/admin/preview`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -290,4 +529,455 @@ describe("Admin Routes", () => {
       expect(res.status).toBe(403);
     });
   });
+
+  // ---- Pasted wikitext import ----
+  describe("POST /api/games/:gameId/admin/wikitext/*", () => {
+    const wikitext = readFileSync(
+      join(import.meta.dirname, "../../parsers/__tests__/wikipedia-corpus/97th_Academy_Awards.wiki"),
+      "utf8",
+    );
+
+    async function post(path: string, body: unknown, token = adminToken) {
+      return app.request(`/api/games/${gameId}/admin/wikitext/${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it("previews pasted wikitext without writing anything", async () => {
+      const res = await post("preview", { wikitext });
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.name).toBe("97th Academy Awards");
+      expect(body.categories[0].name).toBe("Best Picture");
+      expect(await db.select().from(categories)).toHaveLength(0);
+    });
+
+    it("imports pasted wikitext into this game", async () => {
+      const res = await post("import", { wikitext });
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      const cats = await db.select().from(categories).where(eq(categories.gameId, gameId));
+      expect(cats).toHaveLength(body.categories.length);
+    });
+
+    it("scores imported categories with the chosen show's default points", async () => {
+      const emmys = [
+        "== Winners and nominees ==",
+        '{| class="wikitable"',
+        "|-",
+        "| {{Award category|#EEDD82|[[Primetime Emmy Award for Outstanding Drama Series]]}}",
+        "* '''''[[Shōgun (2024 TV series)|Shōgun]]''''' (FX)",
+        "** ''[[Slow Horses]]'' (Apple TV+)",
+        "| {{Award category|#EEDD82|[[Primetime Emmy Award for Outstanding Casting for a Drama Series]]}}",
+        "* '''''[[Shōgun (2024 TV series)|Shōgun]]''''' (FX)",
+        "** ''[[The Crown (TV series)|The Crown]]'' (Netflix)",
+        "|}",
+      ].join("\n");
+
+      const res = await post("import", { wikitext: emmys, show: "emmys" });
+      expect(res.status).toBe(200);
+      const cats = await db.select().from(categories).where(eq(categories.gameId, gameId));
+      expect(cats.map((c) => [c.name, c.points])).toEqual([
+        ["Outstanding Drama Series", 5],
+        ["Outstanding Casting for a Drama Series", 1],
+      ]);
+    });
+
+    it("returns 400 for an unknown show", async () => {
+      const res = await post("preview", { wikitext, show: "tonys" });
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 400 when the wikitext has no award categories", async () => {
+      const res = await post("preview", { wikitext: "Just a paragraph." });
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toContain("No award categories");
+    });
+
+    it("returns 403 for non-admin", async () => {
+      const playerToken = await createPlayerToken("player1", false, gameId);
+      const res = await post("import", { wikitext }, playerToken);
+      expect(res.status).toBe(403);
+    });
+  });
+
+  // ---- Ballot file import ----
+  describe("POST /api/games/:gameId/admin/ballot/*", () => {
+    const csv = [
+      "category,points,title,subtitle,image_url",
+      "Best Picture,5,Anora,,",
+      "Best Picture,5,Conclave,,",
+      '"Best Actor",,Adrien Brody,"The Brutalist",',
+    ].join("\n");
+
+    async function post(path: string, body: unknown, token = adminToken) {
+      return app.request(`/api/games/${gameId}/admin/ballot/${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it("previews a CSV ballot without writing anything", async () => {
+      const res = await post("preview", { format: "csv", content: csv });
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.categories).toHaveLength(2);
+      expect(await db.select().from(categories)).toHaveLength(0);
+    });
+
+    it("imports a CSV ballot into this game", async () => {
+      const res = await post("import", { format: "csv", content: csv });
+      expect(res.status).toBe(200);
+
+      const cats = await db.select().from(categories).orderBy(categories.order);
+      expect(cats.map((c) => [c.name, c.points, c.gameId])).toEqual([
+        ["Best Picture", 5, gameId],
+        ["Best Actor", 3, gameId],
+      ]);
+      expect(await db.select().from(nominations)).toHaveLength(3);
+    });
+
+    it("imports a JSON ballot", async () => {
+      const content = JSON.stringify({
+        categories: [{ name: "Best Hot Dog", points: 2, nominations: [{ title: "Chicago" }, { title: "Sonoran" }] }],
+      });
+      const res = await post("import", { format: "json", content });
+      expect(res.status).toBe(200);
+      const [cat] = await db.select().from(categories);
+      expect(cat?.points).toBe(2);
+    });
+
+    it("returns 400 with the validation error for a bad ballot", async () => {
+      const res = await post("preview", { format: "json", content: '{"categories":[]}' });
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toContain("categories");
+    });
+
+    it("refuses to import over existing categories", async () => {
+      await insertCategory(db, "Best Picture", 0, ["Film A"]);
+      const res = await post("import", { format: "csv", content: csv });
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 403 for non-admin", async () => {
+      const playerToken = await createPlayerToken("player1", false, gameId);
+      const res = await post("import", { format: "csv", content: csv }, playerToken);
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("GET /api/games/:gameId/admin/players", () => {
+    it("lists the categories each player still has to pick", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      const playerId = createId();
+      const now = Date.now();
+      await db.insert(players).values({ id: playerId, gameId, name: "Alice", pin: "hash", createdAt: now });
+      await db.insert(picks).values({ id: createId(), gameId, playerId, categoryId, nominationId, createdAt: now, updatedAt: now });
+
+      const res = await app.request(`/api/games/${gameId}/admin/players`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      const [alice] = (await res.json()).players;
+      expect(alice).toMatchObject({ name: "Alice", pickCount: 1, totalCategories: 2, complete: false });
+      expect(alice.missingCategories.map((c: { name: string }) => c.name)).toEqual(["Best Director"]);
+    });
+  });
+
+  describe("POST /api/games/:gameId/admin/players/:playerId/reset-pin", () => {
+    async function resetPin(playerId: string) {
+      return app.request(`/api/games/${gameId}/admin/players/${playerId}/reset-pin`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+    }
+
+    it("issues a recovery code and stores only its hash", async () => {
+      const playerId = createId();
+      await db.insert(players).values({ id: playerId, gameId, name: "Alice", pin: "hash", createdAt: Date.now() });
+
+      const res = await resetPin(playerId);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.recoveryCode).toMatch(/^[A-Z0-9]{4}-[A-Z0-9]{4}$/);
+      expect(body.expiresAt).toBeGreaterThan(Date.now());
+
+      const [row] = await db.select().from(players).where(eq(players.id, playerId));
+      expect(row?.recoveryCode).toBeTruthy();
+      expect(row?.recoveryCode).not.toContain(body.recoveryCode.replace("-", ""));
+      expect(row?.recoveryCodeExpiresAt).toBe(body.expiresAt);
+      expect(row?.pin).toBe("hash");
+    });
+
+    it("returns 404 for a player in another game", async () => {
+      const otherGameId = await seedGame(db);
+      const playerId = createId();
+      await db.insert(players).values({ id: playerId, gameId: otherGameId, name: "Alice", pin: "hash", createdAt: Date.now() });
+
+      const res = await resetPin(playerId);
+      expect(res.status).toBe(404);
+    });
+
+    it("rejects non-admin tokens", async () => {
+      const playerToken = await createPlayerToken("p1", false, gameId);
+      const res = await app.request(`/api/games/${gameId}/admin/players/p1/reset-pin`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${playerToken}` },
+      });
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("/api/games/:gameId/admin/lockouts", () => {
+    async function lockOut(name: string) {
+      await app.request(`/api/games/${gameId}/player/join`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, pin: "1234" }),
+      });
+      for (let i = 0; i < 5; i++) {
+        await app.request(`/api/games/${gameId}/player/join`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name, pin: "0000" }),
+        });
+      }
+    }
+
+    it("lists locked-out names", async () => {
+      await lockOut("Drew");
+      const res = await app.request(`/api/games/${gameId}/admin/lockouts`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      expect(res.status).toBe(200);
+      const { lockouts } = await res.json();
+      expect(lockouts).toHaveLength(1);
+      expect(lockouts[0]).toMatchObject({ kind: "player", subject: "Drew", failures: 5 });
+      expect(lockouts[0].lockedUntil).toBeGreaterThan(Date.now());
+    });
+
+    it("unlocks a name so the player can sign in again", async () => {
+      await lockOut("Drew");
+      const list = await app.request(`/api/games/${gameId}/admin/lockouts`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      const [lockout] = (await list.json()).lockouts;
+
+      const res = await app.request(`/api/games/${gameId}/admin/lockouts/${encodeURIComponent(lockout.id)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      expect(res.status).toBe(200);
+
+      const join = await app.request(`/api/games/${gameId}/player/join`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Drew", pin: "1234" }),
+      });
+      expect(join.status).toBe(200);
+    });
+
+    it("returns 404 for an unknown lockout", async () => {
+      const res = await app.request(`/api/games/${gameId}/admin/lockouts/nope`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("player management", () => {
+    async function addPlayer(name: string) {
+      const id = createId();
+      await db.insert(players).values({ id, gameId, name, pin: "hash", createdAt: Date.now() });
+      return id;
+    }
+
+    function send(method: string, path: string, body?: unknown) {
+      return app.request(`/api/games/${gameId}/admin${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    it("renames a player", async () => {
+      const id = await addPlayer("sam");
+      const res = await send("PATCH", `/players/${id}`, { name: "Sam" });
+      expect(res.status).toBe(200);
+      expect((await res.json()).player).toEqual({ id, name: "Sam" });
+    });
+
+    it("returns 409 when the new name is taken", async () => {
+      const id = await addPlayer("sam");
+      await addPlayer("Sam");
+      const res = await send("PATCH", `/players/${id}`, { name: "Sam" });
+      expect(res.status).toBe(409);
+    });
+
+    it("deletes a player", async () => {
+      const id = await addPlayer("Sam");
+      expect((await send("DELETE", `/players/${id}`)).status).toBe(200);
+      expect((await send("DELETE", `/players/${id}`)).status).toBe(404);
+    });
+
+    it("merges two players", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      const target = await addPlayer("Sam");
+      const source = await addPlayer("sam");
+      const now = Date.now();
+      await db.insert(picks).values({ id: createId(), gameId, playerId: source, categoryId, nominationId, createdAt: now, updatedAt: now });
+
+      const res = await send("POST", "/players/merge", { sourceId: source, targetId: target });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ player: { id: target, name: "Sam" }, movedPicks: 1, conflicts: 0 });
+    });
+
+    it("returns 404 when merging an unknown player", async () => {
+      const target = await addPlayer("Sam");
+      const res = await send("POST", "/players/merge", { sourceId: "nope", targetId: target });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("admin accounts", () => {
+    function send(method: string, path: string, body?: unknown, token = adminToken) {
+      return app.request(path, {
+        method,
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    async function loginAs(name: string, pin: string) {
+      return app.request("/api/admin/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, pin }),
+      });
+    }
+
+    it("creates an admin who can log in with their own name and PIN", async () => {
+      const res = await send("POST", "/api/admin/accounts", { name: "Jordan", pin: "4321" });
+      expect(res.status).toBe(201);
+      expect((await res.json()).admin.name).toBe("Jordan");
+
+      const login = await loginAs("Jordan", "4321");
+      expect(login.status).toBe(200);
+      expect((await login.json()).name).toBe("Jordan");
+      expect((await loginAs("Jordan", "0000")).status).toBe(401);
+    });
+
+    it("lists admins without their PINs", async () => {
+      await send("POST", "/api/admin/accounts", { name: "Jordan", pin: "4321" });
+      const res = await send("GET", "/api/admin/accounts");
+      const { admins } = await res.json();
+      expect(admins).toHaveLength(1);
+      expect(admins[0]).not.toHaveProperty("pin");
+    });
+
+    it("rejects a duplicate name with 409", async () => {
+      await send("POST", "/api/admin/accounts", { name: "Jordan", pin: "4321" });
+      const res = await send("POST", "/api/admin/accounts", { name: "Jordan", pin: "9999" });
+      expect(res.status).toBe(409);
+    });
+
+    it("removes an admin", async () => {
+      const created = await send("POST", "/api/admin/accounts", { name: "Jordan", pin: "4321" });
+      const { admin } = await created.json();
+      expect((await send("DELETE", `/api/admin/accounts/${admin.id}`)).status).toBe(200);
+      expect((await loginAs("Jordan", "4321")).status).toBe(401);
+    });
+
+    it("revokes a removed admin's existing token", async () => {
+      const created = await send("POST", "/api/admin/accounts", { name: "Jordan", pin: "4321" });
+      const { admin } = await created.json();
+      const { token: jordanToken } = await (await loginAs("Jordan", "4321")).json();
+      expect((await send("GET", "/api/admin/accounts", undefined, jordanToken)).status).toBe(200);
+
+      await send("DELETE", `/api/admin/accounts/${admin.id}`);
+
+      expect((await send("GET", "/api/admin/accounts", undefined, jordanToken)).status).toBe(401);
+      const lock = await send("PUT", `/api/games/${gameId}/admin/lock`, { locksAt: null }, jordanToken);
+      expect(lock.status).toBe(401);
+    });
+
+    it("is admin-only", async () => {
+      const playerToken = await createPlayerToken("p1", false, gameId);
+      const res = await send("GET", "/api/admin/accounts", undefined, playerToken);
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("audit log", () => {
+    async function auditEntries(query = "") {
+      const res = await app.request(`/api/admin/audit${query}`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      return (await res.json()).entries;
+    }
+
+    it("records who marked a winner, with a readable summary", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      const jordan = await createAdmin(db, "Jordan", "4321");
+      const jordanToken = await signToken({ playerId: jordan.id, isAdmin: true, gameId: null, name: "Jordan" });
+      await app.request(`/api/games/${gameId}/admin/mark-winner`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${jordanToken}` },
+        body: JSON.stringify({ categoryId, nominationIds: [nominationId] }),
+      });
+
+      const [entry] = await auditEntries();
+      expect(entry).toMatchObject({
+        gameId,
+        gameName: "Test Pool",
+        actorId: jordan.id,
+        actorName: "Jordan",
+        action: "POST /mark-winner",
+        detail: "Marked Oppenheimer as the Best Picture winner",
+      });
+    });
+
+    it("skips reads, previews and failed requests", async () => {
+      await app.request(`/api/games/${gameId}/admin/players`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      await app.request(`/api/games/${gameId}/admin/ballot/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` },
+        body: JSON.stringify({ format: "json", content: "{}" }),
+      });
+      await app.request(`/api/games/${gameId}/admin/clear-winner`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` },
+        body: JSON.stringify({}),
+      });
+      expect(await auditEntries()).toEqual([]);
+    });
+
+    it("filters by game, newest first", async () => {
+      const otherGameId = await seedGame(db);
+      for (const id of [gameId, otherGameId, gameId]) {
+        await app.request(`/api/games/${id}/admin/lock`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` },
+          body: JSON.stringify({ locksAt: null }),
+        });
+      }
+      const entries = await auditEntries(`?gameId=${gameId}`);
+      expect(entries).toHaveLength(2);
+      expect(entries[0].detail).toBe("Unlocked picks");
+      expect(await auditEntries()).toHaveLength(3);
+    });
+  });
 });
@@ -0,0 +1,52 @@
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it } from "vitest";
+import { games, picks, players } from "../../db/schema";
+import { createPlayerToken, createTestApp, seedCategories } from "../../test-utils";
+
+describe("Ballots routes", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
+  let token: string;
+
+  beforeEach(async () => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
+
+    const { categoryId, nominationId } = await seedCategories(db, gameId);
+    const playerId = createId();
+    const now = Date.now();
+    await db.insert(players).values({ id: playerId, gameId, name: "Alice", pin: "hashed", tiebreakerGuess: 200, createdAt: now });
+    await db.insert(picks).values({ id: createId(), gameId, playerId, categoryId, nominationId, createdAt: now, updatedAt: now });
+    token = await createPlayerToken(playerId, false, gameId);
+  });
+
+  function getBallots() {
+    return app.request(`/api/games/${gameId}/ballots`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  it("returns 403 while picks are still open", async () => {
+    expect((await getBallots()).status).toBe(403);
+  });
+
+  it("returns every ballot once picks lock, hiding tiebreaker guesses", async () => {
+    await db.update(games).set({ locksAt: Date.now() - 1000 }).where(eq(games.id, gameId));
+
+    const res = await getBallots();
+    expect(res.status).toBe(200);
+    const { ballots } = await res.json();
+    expect(ballots).toHaveLength(1);
+    expect(ballots[0]).toMatchObject({ name: "Alice", tiebreakerGuess: null });
+    expect(ballots[0].picks).toHaveLength(1);
+  });
+
+  it("returns 401 for unauthenticated request", async () => {
+    const res = await app.request(`/api/games/${gameId}/ballots`);
+    expect(res.status).toBe(401);
+  });
+});
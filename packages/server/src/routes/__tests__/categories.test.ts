@@ -1,27 +1,32 @@
 import { describe, expect, it, beforeEach } from "vitest";
-import { createTestApp, seedCategories } from "../../test-utils";
+import { createTestApp, seedCategories, setRevealedWinner } from "../../test-utils";
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { games, picks, players } from "../../db/schema";
 
-describe("GET /api/categories", () => {
+describe("GET /api/games/:gameId/categories", () => {
   let app: ReturnType<typeof createTestApp>["app"];
   let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
 
   beforeEach(() => {
     const ctx = createTestApp();
     app = ctx.app;
     db = ctx.db;
+    gameId = ctx.gameId;
   });
 
   it("returns empty array when no categories exist", async () => {
-    const res = await app.request("/api/categories");
+    const res = await app.request(`/api/games/${gameId}/categories`);
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.categories).toEqual([]);
   });
 
   it("returns all categories with their nominations", async () => {
-    await seedCategories(db);
+    await seedCategories(db, gameId);
 
-    const res = await app.request("/api/categories");
+    const res = await app.request(`/api/games/${gameId}/categories`);
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(Array.isArray(body.categories)).toBe(true);
@@ -35,9 +40,9 @@ describe("GET /api/categories", () => {
   });
 
   it("returns categories ordered by the order field", async () => {
-    await seedCategories(db);
+    await seedCategories(db, gameId);
 
-    const res = await app.request("/api/categories");
+    const res = await app.request(`/api/games/${gameId}/categories`);
     const body = await res.json();
     const orders = body.categories.map((c: { order: number }) => c.order);
     const sorted = [...orders].sort((a, b) => a - b);
@@ -45,9 +50,9 @@ describe("GET /api/categories", () => {
   });
 
   it("each nomination belongs to its parent category", async () => {
-    await seedCategories(db);
+    await seedCategories(db, gameId);
 
-    const res = await app.request("/api/categories");
+    const res = await app.request(`/api/games/${gameId}/categories`);
     const body = await res.json();
 
     for (const category of body.categories) {
@@ -57,3 +62,60 @@ describe("GET /api/categories", () => {
     }
   });
 });
+
+describe("GET /api/games/:gameId/categories/distribution", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
+
+  beforeEach(() => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
+  });
+
+  async function seedPicks(categoryId: string, nominationIds: string[]) {
+    const now = Date.now();
+    for (const nominationId of nominationIds) {
+      const playerId = createId();
+      await db.insert(players).values({ id: playerId, gameId, name: playerId, pin: "hash", createdAt: now });
+      await db.insert(picks).values({ id: createId(), gameId, playerId, categoryId, nominationId, createdAt: now, updatedAt: now });
+    }
+  }
+
+  it("refuses while picks are open", async () => {
+    await seedCategories(db, gameId);
+    const res = await app.request(`/api/games/${gameId}/categories/distribution`);
+    expect(res.status).toBe(403);
+  });
+
+  it("returns counts and percentages per nominee once locked", async () => {
+    const { categoryId, nominationId, nominationId2 } = await seedCategories(db, gameId);
+    await seedPicks(categoryId, [nominationId, nominationId, nominationId2]);
+    await db.update(games).set({ locksAt: Date.now() - 1000 }).where(eq(games.id, gameId));
+
+    const res = await app.request(`/api/games/${gameId}/categories/distribution`);
+    expect(res.status).toBe(200);
+    const { categories } = await res.json();
+    expect(categories).toHaveLength(2);
+    expect(categories[0]).toMatchObject({ categoryId, totalPicks: 3, winnerIds: [] });
+    expect(categories[0].nominations).toEqual(
+      expect.arrayContaining([
+        { nominationId, count: 2, percentage: 67 },
+        { nominationId: nominationId2, count: 1, percentage: 33 },
+      ]),
+    );
+  });
+
+  it("only includes categories that are closed in a staggered ceremony", async () => {
+    const { categoryId, otherCategoryId, nominationId } = await seedCategories(db, gameId);
+    await setRevealedWinner(db, categoryId, nominationId);
+
+    const res = await app.request(`/api/games/${gameId}/categories/distribution`);
+    const body = await res.json();
+    expect(body.categories.map((c: { categoryId: string }) => c.categoryId)).toEqual([categoryId]);
+    expect(body.categories[0].winnerIds).toEqual([nominationId]);
+    expect(body.categories.map((c: { categoryId: string }) => c.categoryId)).not.toContain(otherCategoryId);
+  });
+});
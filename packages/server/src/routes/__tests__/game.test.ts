@@ -1,64 +1,113 @@
 import { describe, expect, it, beforeEach } from "vitest";
-import { createTestApp, seedCategories } from "../../test-utils";
-import { categories, gameConfig } from "../../db/schema";
+import { createPlayerToken, createTestApp, seedCategories } from "../../test-utils";
+import { games } from "../../db/schema";
 import { eq } from "drizzle-orm";
+import { markWinner } from "../../services/game";
 
-describe("GET /api/game", () => {
+describe("GET /api/games/:gameId", () => {
   let app: ReturnType<typeof createTestApp>["app"];
   let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
 
   beforeEach(() => {
     const ctx = createTestApp();
     app = ctx.app;
     db = ctx.db;
+    gameId = ctx.gameId;
   });
 
-  it("returns game state with phase, config, and category count", async () => {
-    const res = await app.request("/api/game");
+  it("returns game state with phase, game, and category count", async () => {
+    const res = await app.request(`/api/games/${gameId}`);
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.phase).toBeDefined();
-    expect(body.config).toBeDefined();
+    expect(body.game.id).toBe(gameId);
     expect(typeof body.categoryCount).toBe("number");
   });
 
   it("returns setup phase when no categories exist", async () => {
-    const res = await app.request("/api/game");
+    const res = await app.request(`/api/games/${gameId}`);
     const body = await res.json();
     expect(body.phase).toBe("setup");
     expect(body.categoryCount).toBe(0);
   });
 
   it("returns open phase when categories exist and no lock", async () => {
-    await seedCategories(db);
+    await seedCategories(db, gameId);
 
-    const res = await app.request("/api/game");
+    const res = await app.request(`/api/games/${gameId}`);
     const body = await res.json();
     expect(body.phase).toBe("open");
     expect(body.categoryCount).toBeGreaterThan(0);
   });
 
-  it("returns locked phase when a category has been revealed", async () => {
-    const { categoryId } = await seedCategories(db);
+  it("returns locked phase once the lock time has passed", async () => {
+    await seedCategories(db, gameId);
     await db
-      .update(categories)
-      .set({ isRevealed: true })
-      .where(eq(categories.id, categoryId));
+      .update(games)
+      .set({ locksAt: Date.now() - 1000 })
+      .where(eq(games.id, gameId));
 
-    const res = await app.request("/api/game");
+    const res = await app.request(`/api/games/${gameId}`);
     const body = await res.json();
     expect(body.phase).toBe("locked");
   });
 
+  it("stays open before a scheduled lock time", async () => {
+    await seedCategories(db, gameId);
+    await db
+      .update(games)
+      .set({ locksAt: Date.now() + 60_000 })
+      .where(eq(games.id, gameId));
+
+    const res = await app.request(`/api/games/${gameId}`);
+    const body = await res.json();
+    expect(body.phase).toBe("open");
+    expect(body.game.locksAt).toBeGreaterThan(Date.now());
+  });
+
   it("returns completed phase when completedAt is set", async () => {
-    await seedCategories(db);
+    await seedCategories(db, gameId);
     await db
-      .update(gameConfig)
+      .update(games)
       .set({ completedAt: Date.now() - 1000 })
-      .where(eq(gameConfig.id, 1));
+      .where(eq(games.id, gameId));
 
-    const res = await app.request("/api/game");
+    const res = await app.request(`/api/games/${gameId}`);
     const body = await res.json();
     expect(body.phase).toBe("completed");
   });
+
+  it("hides the tiebreaker answer from players until the game is over", async () => {
+    await db.update(games).set({ tiebreakerQuestion: "Runtime?", tiebreakerAnswer: 212 }).where(eq(games.id, gameId));
+
+    const player = await (await app.request(`/api/games/${gameId}`)).json();
+    expect(player.game.tiebreakerAnswer).toBeNull();
+    const listed = await (await app.request("/api/games")).json();
+    expect(listed.games[0].tiebreakerAnswer).toBeNull();
+
+    const adminToken = await createPlayerToken("admin", true);
+    const admin = await (
+      await app.request(`/api/games/${gameId}`, { headers: { Authorization: `Bearer ${adminToken}` } })
+    ).json();
+    expect(admin.game.tiebreakerAnswer).toBe(212);
+
+    await db.update(games).set({ completedAt: Date.now() }).where(eq(games.id, gameId));
+    const afterwards = await (await app.request(`/api/games/${gameId}`)).json();
+    expect(afterwards.game.tiebreakerAnswer).toBe(212);
+  });
+});
+
+describe("GET /api/games/:gameId/history", () => {
+  it("returns one step per announced category", async () => {
+    const { app, db, gameId } = createTestApp();
+    const { categoryId, nominationId } = await seedCategories(db, gameId);
+    await markWinner(db, gameId, categoryId, [nominationId]);
+
+    const res = await app.request(`/api/games/${gameId}/history`);
+    expect(res.status).toBe(200);
+    const { steps } = await res.json();
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({ sequence: 1, categoryId, categoryName: "Best Picture", winnerTitle: "Oppenheimer" });
+  });
 });
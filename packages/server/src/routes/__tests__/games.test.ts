@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createPlayerToken, createTestApp } from "../../test-utils";
+
+describe("Games routes", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let gameId: string;
+
+  beforeEach(() => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    gameId = ctx.gameId;
+  });
+
+  describe("GET /api/games", () => {
+    it("lists games without auth", async () => {
+      const res = await app.request("/api/games");
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.games).toHaveLength(1);
+      expect(body.games[0].id).toBe(gameId);
+      expect(body.games[0].name).toBe("Test Pool");
+    });
+  });
+
+  describe("POST /api/games", () => {
+    it("creates a game for admins", async () => {
+      const adminToken = await createPlayerToken("admin", true);
+      const res = await app.request("/api/games", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ name: "Family Pool" }),
+      });
+      expect(res.status).toBe(201);
+      const body = await res.json();
+      expect(body.game.name).toBe("Family Pool");
+      expect(body.game.completedAt).toBeNull();
+
+      const list = await (await app.request("/api/games")).json();
+      expect(list.games).toHaveLength(2);
+    });
+
+    it("returns 403 for non-admin", async () => {
+      const playerToken = await createPlayerToken("player1", false, gameId);
+      const res = await app.request("/api/games", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${playerToken}`,
+        },
+        body: JSON.stringify({ name: "Sneaky Pool" }),
+      });
+      expect(res.status).toBe(403);
+    });
+
+    it("rejects an empty name", async () => {
+      const adminToken = await createPlayerToken("admin", true);
+      const res = await app.request("/api/games", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({ name: "" }),
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("game scoping", () => {
+    it("returns 404 for routes under an unknown game", async () => {
+      const res = await app.request("/api/games/does-not-exist/categories");
+      expect(res.status).toBe(404);
+      const body = await res.json();
+      expect(body.error).toBe("Game not found");
+    });
+  });
+});
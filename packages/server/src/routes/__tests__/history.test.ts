@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createPlayerToken, createTestApp, seedCategories } from "../../test-utils";
+
+describe("History routes", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
+    adminToken = await createPlayerToken("admin", true);
+  });
+
+  async function archive() {
+    return app.request(`/api/games/${gameId}/admin/archive`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${adminToken}`,
+      },
+      body: JSON.stringify({ confirm: true, force: true }),
+    });
+  }
+
+  it("lists archived ceremonies without auth", async () => {
+    await seedCategories(db, gameId);
+    const res = await archive();
+    expect(res.status).toBe(201);
+
+    const list = await (await app.request("/api/history")).json();
+    expect(list.ceremonies).toHaveLength(1);
+    expect(list.ceremonies[0].name).toBe("Test Pool");
+  });
+
+  it("returns a ceremony's categories and standings", async () => {
+    await seedCategories(db, gameId);
+    const { ceremony } = await (await archive()).json();
+
+    const res = await app.request(`/api/history/${ceremony.id}`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.categories.map((c: { name: string }) => c.name)).toEqual(["Best Picture", "Best Director"]);
+    expect(body.standings).toEqual([]);
+  });
+
+  it("returns 404 for an unknown ceremony", async () => {
+    const res = await app.request("/api/history/nope");
+    expect(res.status).toBe(404);
+  });
+
+  it("returns all-time player records", async () => {
+    const res = await app.request("/api/history/records");
+    expect(res.status).toBe(200);
+    expect((await res.json()).records).toEqual([]);
+  });
+});
@@ -1,12 +1,13 @@
 import { describe, expect, it, beforeEach } from "vitest";
 import { createId } from "@paralleldrive/cuid2";
-import { createTestApp, createPlayerToken, seedCategories } from "../../test-utils";
-import { players, categories, gameConfig } from "../../db/schema";
+import { createTestApp, createPlayerToken, seedCategories, seedGame } from "../../test-utils";
+import { players, categories, games, picks } from "../../db/schema";
 import { eq } from "drizzle-orm";
 
 describe("Picks routes", () => {
   let app: ReturnType<typeof createTestApp>["app"];
   let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
   let playerId: string;
   let token: string;
 
@@ -14,24 +15,26 @@ describe("Picks routes", () => {
     const ctx = createTestApp();
     app = ctx.app;
     db = ctx.db;
+    gameId = ctx.gameId;
 
     // Create a player
     playerId = createId();
     await db.insert(players).values({
       id: playerId,
+      gameId,
       name: "TestPlayer",
       pin: "hashed",
       createdAt: Date.now(),
     });
 
-    token = await createPlayerToken(playerId);
+    token = await createPlayerToken(playerId, false, gameId);
   });
 
   describe("POST /api/picks", () => {
     it("submits a valid pick and returns 200", async () => {
-      const { categoryId, nominationId } = await seedCategories(db);
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
 
-      const res = await app.request("/api/picks", {
+      const res = await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -49,10 +52,10 @@ describe("Picks routes", () => {
     });
 
     it("upserts pick for same category (overwrites)", async () => {
-      const { categoryId, nominationId, nominationId2 } = await seedCategories(db);
+      const { categoryId, nominationId, nominationId2 } = await seedCategories(db, gameId);
 
       // First pick
-      await app.request("/api/picks", {
+      await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -62,7 +65,7 @@ describe("Picks routes", () => {
       });
 
       // Second pick for same category
-      const res = await app.request("/api/picks", {
+      const res = await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -76,16 +79,11 @@ describe("Picks routes", () => {
       expect(body.pick.nominationId).toBe(nominationId2);
     });
 
-    it("returns 403 when picks are locked (a category has been revealed)", async () => {
-      const { categoryId, nominationId, otherCategoryId } = await seedCategories(db);
+    it("returns 403 once the lock time has passed", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      await db.update(games).set({ locksAt: Date.now() - 1000 }).where(eq(games.id, gameId));
 
-      // Reveal a category (simulates admin marking a winner)
-      await db
-        .update(categories)
-        .set({ isRevealed: true })
-        .where(eq(categories.id, otherCategoryId));
-
-      const res = await app.request("/api/picks", {
+      const res = await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -97,13 +95,65 @@ describe("Picks routes", () => {
       expect(res.status).toBe(403);
     });
 
+    it("accepts picks before a scheduled lock time", async () => {
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
+      await db.update(games).set({ locksAt: Date.now() + 60_000 }).where(eq(games.id, gameId));
+
+      const res = await app.request(`/api/games/${gameId}/picks`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ categoryId, nominationId }),
+      });
+
+      expect(res.status).toBe(200);
+    });
+
+    it("locks a single category while the rest stay open", async () => {
+      const { categoryId, nominationId, otherCategoryId, otherNominationId } = await seedCategories(db, gameId);
+      await db.update(categories).set({ locksAt: Date.now() - 1000 }).where(eq(categories.id, otherCategoryId));
+
+      const post = (body: unknown) =>
+        app.request(`/api/games/${gameId}/picks`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(body),
+        });
+
+      expect((await post({ categoryId: otherCategoryId, nominationId: otherNominationId })).status).toBe(403);
+      expect((await post({ categoryId, nominationId })).status).toBe(200);
+    });
+
+    it("returns 403 for an announced category even if the game was unlocked", async () => {
+      const { categoryId, nominationId, otherCategoryId, otherNominationId } = await seedCategories(db, gameId);
+      await db.update(categories).set({ isRevealed: true }).where(eq(categories.id, categoryId));
+
+      const post = (body: unknown) =>
+        app.request(`/api/games/${gameId}/picks`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(body),
+        });
+
+      expect((await post({ categoryId, nominationId })).status).toBe(403);
+      expect((await post({ categoryId: otherCategoryId, nominationId: otherNominationId })).status).toBe(200);
+    });
+
     it("returns 403 when game is completed (all categories revealed)", async () => {
-      const { categoryId, nominationId, otherCategoryId } = await seedCategories(db);
+      const { categoryId, nominationId, otherCategoryId } = await seedCategories(db, gameId);
 
       // Reveal all categories (game is completed)
       await db.update(categories).set({ isRevealed: true });
 
-      const res = await app.request("/api/picks", {
+      const res = await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -116,9 +166,9 @@ describe("Picks routes", () => {
     });
 
     it("returns 400 when nomination does not belong to the specified category", async () => {
-      const { categoryId, otherNominationId } = await seedCategories(db);
+      const { categoryId, otherNominationId } = await seedCategories(db, gameId);
 
-      const res = await app.request("/api/picks", {
+      const res = await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -130,10 +180,26 @@ describe("Picks routes", () => {
       expect(res.status).toBe(400);
     });
 
+    it("returns 404 when the category belongs to another game", async () => {
+      const otherGameId = await seedGame(db);
+      const { categoryId, nominationId } = await seedCategories(db, otherGameId);
+
+      const res = await app.request(`/api/games/${gameId}/picks`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ categoryId, nominationId }),
+      });
+
+      expect(res.status).toBe(404);
+    });
+
     it("returns 401 for unauthenticated request", async () => {
-      const { categoryId, nominationId } = await seedCategories(db);
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
 
-      const res = await app.request("/api/picks", {
+      const res = await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ categoryId, nominationId }),
@@ -143,11 +209,137 @@ describe("Picks routes", () => {
     });
   });
 
+  describe("PUT /api/picks/confidence", () => {
+    function rank(categoryIds: string[]) {
+      return app.request(`/api/games/${gameId}/picks/confidence`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ categoryIds }),
+      });
+    }
+
+    async function pickAll() {
+      const seeded = await seedCategories(db, gameId);
+      const now = Date.now();
+      await db.insert(picks).values([
+        { id: createId(), gameId, playerId, categoryId: seeded.categoryId, nominationId: seeded.nominationId, createdAt: now, updatedAt: now },
+        { id: createId(), gameId, playerId, categoryId: seeded.otherCategoryId, nominationId: seeded.otherNominationId, createdAt: now, updatedAt: now },
+      ]);
+      return seeded;
+    }
+
+    beforeEach(async () => {
+      await db.update(games).set({ scoringMode: "confidence" }).where(eq(games.id, gameId));
+    });
+
+    it("assigns ranks N..1 in the given order", async () => {
+      const { categoryId, otherCategoryId } = await pickAll();
+
+      const res = await rank([otherCategoryId, categoryId]);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      const byCategory = new Map(body.picks.map((p: { categoryId: string; confidence: number }) => [p.categoryId, p.confidence]));
+      expect(byCategory.get(otherCategoryId)).toBe(2);
+      expect(byCategory.get(categoryId)).toBe(1);
+
+      // Re-ranking swaps cleanly despite the unique (player, confidence) index
+      expect((await rank([categoryId, otherCategoryId])).status).toBe(200);
+    });
+
+    it("rejects duplicate ranks", async () => {
+      const { categoryId } = await pickAll();
+      const res = await rank([categoryId, categoryId]);
+      expect(res.status).toBe(400);
+    });
+
+    it("requires every category to be ranked", async () => {
+      const { categoryId } = await pickAll();
+      const res = await rank([categoryId]);
+      expect(res.status).toBe(400);
+    });
+
+    it("requires a complete ballot", async () => {
+      const { categoryId, otherCategoryId } = await seedCategories(db, gameId);
+      const res = await rank([categoryId, otherCategoryId]);
+      expect(res.status).toBe(400);
+    });
+
+    it("refuses when the game uses standard scoring", async () => {
+      const { categoryId, otherCategoryId } = await pickAll();
+      await db.update(games).set({ scoringMode: "standard" }).where(eq(games.id, gameId));
+      const res = await rank([categoryId, otherCategoryId]);
+      expect(res.status).toBe(400);
+    });
+
+    it("freezes the rank of a locked category", async () => {
+      const { categoryId, otherCategoryId } = await pickAll();
+      await rank([categoryId, otherCategoryId]);
+      await db.update(categories).set({ locksAt: Date.now() - 1000 }).where(eq(categories.id, categoryId));
+
+      expect((await rank([otherCategoryId, categoryId])).status).toBe(403);
+      expect((await rank([categoryId, otherCategoryId])).status).toBe(200);
+    });
+  });
+
+  describe("/api/picks/tiebreaker", () => {
+    function guess(value: unknown) {
+      return app.request(`/api/games/${gameId}/picks/tiebreaker`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ guess: value }),
+      });
+    }
+
+    beforeEach(async () => {
+      await db.update(games).set({ tiebreakerQuestion: "Telecast runtime (minutes)?" }).where(eq(games.id, gameId));
+    });
+
+    it("saves a guess and reads it back", async () => {
+      expect((await guess(212)).status).toBe(200);
+
+      const res = await app.request(`/api/games/${gameId}/picks/tiebreaker`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      expect(await res.json()).toEqual({ guess: 212 });
+    });
+
+    it("rejects a non-numeric guess", async () => {
+      expect((await guess("long")).status).toBe(400);
+    });
+
+    it("refuses when the game has no tiebreaker question", async () => {
+      await db.update(games).set({ tiebreakerQuestion: null }).where(eq(games.id, gameId));
+      expect((await guess(212)).status).toBe(400);
+    });
+
+    it("returns 403 once picks are locked", async () => {
+      await db.update(games).set({ locksAt: Date.now() - 1000 }).where(eq(games.id, gameId));
+      expect((await guess(212)).status).toBe(403);
+    });
+
+    it("returns 403 once any category has closed, even with no game lock", async () => {
+      const { categoryId } = await seedCategories(db, gameId);
+      await db.update(categories).set({ locksAt: Date.now() - 1000 }).where(eq(categories.id, categoryId));
+      expect((await guess(212)).status).toBe(403);
+    });
+
+    it("returns 403 once the answer is entered", async () => {
+      await db.update(games).set({ tiebreakerAnswer: 212 }).where(eq(games.id, gameId));
+      expect((await guess(212)).status).toBe(403);
+    });
+  });
+
   describe("GET /api/picks", () => {
     it("returns all picks for the authenticated player", async () => {
-      const { categoryId, nominationId } = await seedCategories(db);
+      const { categoryId, nominationId } = await seedCategories(db, gameId);
 
-      await app.request("/api/picks", {
+      await app.request(`/api/games/${gameId}/picks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -156,7 +348,7 @@ describe("Picks routes", () => {
         body: JSON.stringify({ categoryId, nominationId }),
       });
 
-      const res = await app.request("/api/picks", {
+      const res = await app.request(`/api/games/${gameId}/picks`, {
         method: "GET",
         headers: { Authorization: `Bearer ${token}` },
       });
@@ -169,7 +361,7 @@ describe("Picks routes", () => {
     });
 
     it("returns 401 for unauthenticated request", async () => {
-      const res = await app.request("/api/picks", { method: "GET" });
+      const res = await app.request(`/api/games/${gameId}/picks`, { method: "GET" });
       expect(res.status).toBe(401);
     });
   });
@@ -1,16 +1,20 @@
 import { describe, expect, it, beforeEach } from "vitest";
-import { createTestApp } from "../../test-utils";
+import { createPlayerToken, createTestApp, seedGame } from "../../test-utils";
 
-describe("POST /api/player/join", () => {
+describe("POST /api/games/:gameId/player/join", () => {
   let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
 
   beforeEach(() => {
     const ctx = createTestApp();
     app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
   });
 
   it("creates a new player and returns token", async () => {
-    const res = await app.request("/api/player/join", {
+    const res = await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "Drew", pin: "1234" }),
@@ -23,12 +27,12 @@ describe("POST /api/player/join", () => {
   });
 
   it("signs in existing player with correct PIN", async () => {
-    await app.request("/api/player/join", {
+    await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "Drew", pin: "1234" }),
     });
-    const res = await app.request("/api/player/join", {
+    const res = await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "Drew", pin: "1234" }),
@@ -40,12 +44,12 @@ describe("POST /api/player/join", () => {
   });
 
   it("rejects wrong PIN for existing player", async () => {
-    await app.request("/api/player/join", {
+    await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "Drew", pin: "1234" }),
     });
-    const res = await app.request("/api/player/join", {
+    const res = await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "Drew", pin: "9999" }),
@@ -53,8 +57,34 @@ describe("POST /api/player/join", () => {
     expect(res.status).toBe(401);
   });
 
+  it("treats the same name in another game as a separate player", async () => {
+    const otherGameId = await seedGame(db);
+    await app.request(`/api/games/${gameId}/player/join`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Drew", pin: "1234" }),
+    });
+    const res = await app.request(`/api/games/${otherGameId}/player/join`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Drew", pin: "9999" }),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.gameId).toBe(otherGameId);
+  });
+
+  it("returns 404 for an unknown game", async () => {
+    const res = await app.request("/api/games/nope/player/join", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Drew", pin: "1234" }),
+    });
+    expect(res.status).toBe(404);
+  });
+
   it("rejects invalid input", async () => {
-    const res = await app.request("/api/player/join", {
+    const res = await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "", pin: "12" }),
@@ -65,25 +95,89 @@ describe("POST /api/player/join", () => {
   });
 });
 
-describe("GET /api/player/me", () => {
+describe("PIN brute-force protection", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let gameId: string;
+
+  beforeEach(() => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    gameId = ctx.gameId;
+  });
+
+  async function join(name: string, pin: string, ip = "10.0.0.1") {
+    return app.request(`/api/games/${gameId}/player/join`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": ip },
+      body: JSON.stringify({ name, pin }),
+    });
+  }
+
+  it("returns 429 with Retry-After once a name runs out of attempts", async () => {
+    await join("Drew", "1234");
+    for (let i = 0; i < 5; i++) {
+      expect((await join("Drew", "0000")).status).toBe(401);
+    }
+
+    // Even the right PIN is refused until the lockout passes
+    const res = await join("Drew", "1234");
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("30");
+    const body = await res.json();
+    expect(body.retryAfter).toBe(30);
+    expect(body.error).toMatch(/try again in 30 seconds/);
+  });
+
+  it("locks a name out from every IP", async () => {
+    await join("Drew", "1234");
+    for (let i = 0; i < 5; i++) await join("Drew", "0000", `10.0.1.${i}`);
+    expect((await join("Drew", "1234", "10.0.2.1")).status).toBe(429);
+  });
+
+  it("leaves other names alone while one is locked", async () => {
+    await join("Drew", "1234");
+    for (let i = 0; i < 5; i++) await join("Drew", "0000");
+    expect((await join("Sam", "5678", "10.0.0.2")).status).toBe(200);
+  });
+
+  it("counts guesses fired in parallel before any PIN is checked", async () => {
+    await join("Drew", "1234");
+    const statuses = await Promise.all(Array.from({ length: 10 }, () => join("Drew", "0000")));
+    expect(statuses.filter((r) => r.status === 401)).toHaveLength(5);
+    expect(statuses.filter((r) => r.status === 429)).toHaveLength(5);
+    expect((await join("Drew", "1234")).status).toBe(429);
+  });
+
+  it("resets the count after a correct PIN", async () => {
+    await join("Drew", "1234");
+    for (let i = 0; i < 4; i++) await join("Drew", "0000");
+    expect((await join("Drew", "1234")).status).toBe(200);
+    expect((await join("Drew", "0000")).status).toBe(401);
+    expect((await join("Drew", "1234")).status).toBe(200);
+  });
+});
+
+describe("GET /api/games/:gameId/player/me", () => {
   let app: ReturnType<typeof createTestApp>["app"];
   let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
 
   beforeEach(() => {
     const ctx = createTestApp();
     app = ctx.app;
     db = ctx.db;
+    gameId = ctx.gameId;
   });
 
   it("returns player info for valid session", async () => {
-    const joinRes = await app.request("/api/player/join", {
+    const joinRes = await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "Drew", pin: "1234" }),
     });
     const { token } = await joinRes.json();
 
-    const res = await app.request("/api/player/me", {
+    const res = await app.request(`/api/games/${gameId}/player/me`, {
       headers: { Authorization: `Bearer ${token}` },
     });
     expect(res.status).toBe(200);
@@ -93,7 +187,7 @@ describe("GET /api/player/me", () => {
   });
 
   it("returns 401 when player no longer exists in DB", async () => {
-    const joinRes = await app.request("/api/player/join", {
+    const joinRes = await app.request(`/api/games/${gameId}/player/join`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ name: "Ghost", pin: "1234" }),
@@ -105,14 +199,115 @@ describe("GET /api/player/me", () => {
     const { eq } = await import("drizzle-orm");
     await db.delete(players).where(eq(players.id, playerId));
 
-    const res = await app.request("/api/player/me", {
+    const res = await app.request(`/api/games/${gameId}/player/me`, {
       headers: { Authorization: `Bearer ${token}` },
     });
     expect(res.status).toBe(401);
   });
 
+  it("returns 403 when the token belongs to another game", async () => {
+    const otherGameId = await seedGame(db);
+    const joinRes = await app.request(`/api/games/${otherGameId}/player/join`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Drew", pin: "1234" }),
+    });
+    const { token } = await joinRes.json();
+
+    const res = await app.request(`/api/games/${gameId}/player/me`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    expect(res.status).toBe(403);
+  });
+
   it("returns 401 with no token", async () => {
-    const res = await app.request("/api/player/me");
+    const res = await app.request(`/api/games/${gameId}/player/me`);
     expect(res.status).toBe(401);
   });
 });
+
+describe("POST /api/games/:gameId/player/recover", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
+
+  beforeEach(() => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
+  });
+
+  async function join(name: string, pin: string) {
+    return app.request(`/api/games/${gameId}/player/join`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, pin }),
+    });
+  }
+
+  async function recover(name: string, recoveryCode: string, pin: string) {
+    return app.request(`/api/games/${gameId}/player/recover`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, recoveryCode, pin }),
+    });
+  }
+
+  async function issueCode(playerId: string): Promise<string> {
+    const adminToken = await createPlayerToken("admin", true);
+    const res = await app.request(`/api/games/${gameId}/admin/players/${playerId}/reset-pin`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+    return (await res.json()).recoveryCode;
+  }
+
+  it("sets a new PIN with a valid code and signs the player in", async () => {
+    const { playerId } = await (await join("Drew", "1234")).json();
+    const code = await issueCode(playerId);
+
+    const res = await recover("Drew", code.toLowerCase(), "9876");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ playerId, gameId, name: "Drew" });
+    expect(body.token).toBeDefined();
+
+    expect((await join("Drew", "9876")).status).toBe(200);
+    expect((await join("Drew", "1234")).status).toBe(401);
+  });
+
+  it("only accepts a code once", async () => {
+    const { playerId } = await (await join("Drew", "1234")).json();
+    const code = await issueCode(playerId);
+
+    expect((await recover("Drew", code, "9876")).status).toBe(200);
+    expect((await recover("Drew", code, "5555")).status).toBe(401);
+  });
+
+  it("rejects a wrong or superseded code", async () => {
+    const { playerId } = await (await join("Drew", "1234")).json();
+    const first = await issueCode(playerId);
+    await issueCode(playerId);
+
+    const res = await recover("Drew", first, "9876");
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toBe("Invalid or expired recovery code");
+  });
+
+  it("rejects an expired code", async () => {
+    const { playerId } = await (await join("Drew", "1234")).json();
+    const code = await issueCode(playerId);
+    const { players } = await import("../../db/schema");
+    const { eq } = await import("drizzle-orm");
+    await db.update(players).set({ recoveryCodeExpiresAt: Date.now() - 1 }).where(eq(players.id, playerId));
+
+    expect((await recover("Drew", code, "9876")).status).toBe(401);
+  });
+
+  it("rejects a player who has no code", async () => {
+    await join("Drew", "1234");
+    expect((await recover("Drew", "ABCD-EFGH", "9876")).status).toBe(401);
+    expect((await recover("Nobody", "ABCD-EFGH", "9876")).status).toBe(401);
+  });
+});
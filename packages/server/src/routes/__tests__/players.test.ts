@@ -0,0 +1,73 @@
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it } from "vitest";
+import { categories, games, picks, players } from "../../db/schema";
+import { createPlayerToken, createTestApp, seedCategories, seedGame } from "../../test-utils";
+
+describe("Players routes", () => {
+  let app: ReturnType<typeof createTestApp>["app"];
+  let db: ReturnType<typeof createTestApp>["db"];
+  let gameId: string;
+  let token: string;
+  let aliceId: string;
+  let seeded: Awaited<ReturnType<typeof seedCategories>>;
+
+  beforeEach(async () => {
+    const ctx = createTestApp();
+    app = ctx.app;
+    db = ctx.db;
+    gameId = ctx.gameId;
+
+    seeded = await seedCategories(db, gameId);
+    aliceId = createId();
+    const now = Date.now();
+    await db.insert(players).values({ id: aliceId, gameId, name: "Alice", pin: "hashed", tiebreakerGuess: 200, createdAt: now });
+    await db.insert(picks).values([
+      { id: createId(), gameId, playerId: aliceId, categoryId: seeded.categoryId, nominationId: seeded.nominationId, createdAt: now, updatedAt: now },
+      { id: createId(), gameId, playerId: aliceId, categoryId: seeded.otherCategoryId, nominationId: seeded.otherNominationId, createdAt: now, updatedAt: now },
+    ]);
+    token = await createPlayerToken("bob", false, gameId);
+  });
+
+  function getPicks(playerId = aliceId) {
+    return app.request(`/api/games/${gameId}/players/${playerId}/picks`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  }
+
+  it("requires auth", async () => {
+    const res = await app.request(`/api/games/${gameId}/players/${aliceId}/picks`);
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 403 while picks are still open", async () => {
+    expect((await getPicks()).status).toBe(403);
+  });
+
+  it("returns the full ballot once picks lock, hiding the tiebreaker guess", async () => {
+    await db.update(games).set({ locksAt: Date.now() - 1000 }).where(eq(games.id, gameId));
+
+    const res = await getPicks();
+    expect(res.status).toBe(200);
+    const { ballot } = await res.json();
+    expect(ballot.name).toBe("Alice");
+    expect(ballot.picks).toHaveLength(2);
+    expect(ballot.tiebreakerGuess).toBeNull();
+  });
+
+  it("only shows picks in closed categories during a staggered ceremony", async () => {
+    await db.update(categories).set({ locksAt: Date.now() - 1000 }).where(eq(categories.id, seeded.categoryId));
+
+    const { ballot } = await (await getPicks()).json();
+    expect(ballot.picks.map((p: { categoryId: string }) => p.categoryId)).toEqual([seeded.categoryId]);
+  });
+
+  it("returns 404 for a player in another game", async () => {
+    await db.update(games).set({ locksAt: Date.now() - 1000 }).where(eq(games.id, gameId));
+    const otherGameId = await seedGame(db);
+    const outsiderId = createId();
+    await db.insert(players).values({ id: outsiderId, gameId: otherGameId, name: "Zed", pin: "hashed", createdAt: Date.now() });
+
+    expect((await getPicks(outsiderId)).status).toBe(404);
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  CreateCategorySchema,
+  CreateNominationSchema,
+  ReorderCategoriesSchema,
+  SetLockSchema,
+  UpdateCategorySchema,
+  UpdateNominationSchema,
+  WEBSOCKET_EVENTS,
+} from "@bignight/shared";
+import { zValidator } from "@hono/zod-validator";
+import { createId } from "@paralleldrive/cuid2";
+import { and, asc, count, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import type { Server as SocketIOServer } from "socket.io";
+import type { Db, DbOrTx } from "../db/connection";
+import { categories, categoryWinners, games, nominations, picks } from "../db/schema";
+import type { AppEnv } from "../env";
+import { updateGameCompletion } from "../services/game";
+import { gameRoom } from "../websocket/server";
+
+/**
+ * Category + nomination editor, mounted under /api/games/:gameId/admin (already admin-only).
+ *
+ * Changes that would silently alter somebody's ballot — editing or deleting a nomination
+ * that has picks, or deleting a category that has picks — return 409 with the pick count.
+ * Repeat the request with ?force=true to go ahead anyway.
+ *
+ * Adding or deleting a category can finish or reopen the game, and in confidence mode it
+ * leaves every saved ranking the wrong length — those are cleared for players to redo.
+ */
+export function adminCategoriesRoutes(db: Db, io?: SocketIOServer) {
+  const router = new Hono<AppEnv>();
+
+  async function findCategory(gameId: string, categoryId: string) {
+    const [cat] = await db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.id, categoryId), eq(categories.gameId, gameId)))
+      .limit(1);
+    return cat;
+  }
+
+  /** Nomination plus its category, only if the category belongs to this game */
+  async function findNomination(gameId: string, nominationId: string) {
+    const [row] = await db
+      .select({ nomination: nominations, category: categories })
+      .from(nominations)
+      .innerJoin(categories, eq(nominations.categoryId, categories.id))
+      .where(and(eq(nominations.id, nominationId), eq(categories.gameId, gameId)))
+      .limit(1);
+    return row;
+  }
+
+  async function countPicks(column: typeof picks.categoryId | typeof picks.nominationId, id: string) {
+    const [row] = await db.select({ n: count() }).from(picks).where(eq(column, id));
+    return row?.n ?? 0;
+  }
+
+  async function afterCategoriesChanged(tx: DbOrTx, gameId: string) {
+    await updateGameCompletion(tx, gameId);
+    const [game] = await tx.select({ scoringMode: games.scoringMode }).from(games).where(eq(games.id, gameId)).limit(1);
+    if (game?.scoringMode === "confidence") {
+      await tx.update(picks).set({ confidence: null }).where(eq(picks.gameId, gameId));
+    }
+  }
+
+  // ---- Categories ----
+
+  router.post("/categories", zValidator("json", CreateCategorySchema), async (c) => {
+    const gameId = c.get("gameId");
+    const { name, points } = c.req.valid("json");
+    const existing = await db.select({ order: categories.order }).from(categories).where(eq(categories.gameId, gameId));
+    const order = existing.reduce((max, cat) => Math.max(max, cat.order + 1), 0);
+
+    const category = {
+      id: createId(),
+      gameId,
+      name,
+      order,
+      points,
+      isRevealed: false,
+      locksAt: null,
+      createdAt: Date.now(),
+    };
+    await db.transaction(async (tx) => {
+      await tx.insert(categories).values(category);
+      await afterCategoriesChanged(tx, gameId);
+    });
+    return c.json({ category: { ...category, winnerIds: [], nominations: [] } }, 201);
+  });
+
+  // Registered before /categories/:categoryId so "order" isn't taken as an id
+  router.put("/categories/order", zValidator("json", ReorderCategoriesSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const { categoryIds } = c.req.valid("json");
+    const existing = await db.select({ id: categories.id }).from(categories).where(eq(categories.gameId, gameId));
+
+    // Must be an exact permutation of this game's categories
+    const known = new Set(existing.map((cat) => cat.id));
+    if (categoryIds.length !== known.size || new Set(categoryIds).size !== known.size || !categoryIds.every((id) => known.has(id))) {
+      return c.json({ error: "categoryIds must list every category in this game exactly once" }, 400);
+    }
+
+    await db.transaction(async (tx) => {
+      for (const [order, id] of categoryIds.entries()) {
+        await tx.update(categories).set({ order }).where(eq(categories.id, id));
+      }
+    });
+
+    const reordered = await db
+      .select()
+      .from(categories)
+      .where(eq(categories.gameId, gameId))
+      .orderBy(asc(categories.order));
+    return c.json({ categories: reordered });
+  });
+
+  router.patch("/categories/:categoryId", zValidator("json", UpdateCategorySchema), async (c) => {
+    const gameId = c.get("gameId");
+    const cat = await findCategory(gameId, c.req.param("categoryId"));
+    if (!cat) return c.json({ error: "Category not found" }, 404);
+
+    const updates = c.req.valid("json");
+    if (Object.keys(updates).length > 0) {
+      await db.update(categories).set(updates).where(eq(categories.id, cat.id));
+    }
+    return c.json({ category: { ...cat, ...updates } });
+  });
+
+  // Per-category lock for staggered ceremonies — same body as the game-wide PUT /lock
+  router.put("/categories/:categoryId/lock", zValidator("json", SetLockSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const cat = await findCategory(gameId, c.req.param("categoryId"));
+    if (!cat) return c.json({ error: "Category not found" }, 404);
+
+    const { locksAt } = c.req.valid("json");
+    await db.update(categories).set({ locksAt }).where(eq(categories.id, cat.id));
+
+    if (io) {
+      io.to(gameRoom(gameId)).emit(WEBSOCKET_EVENTS.LOCK_CHANGED, { categoryId: cat.id, locksAt });
+    }
+
+    return c.json({ category: { ...cat, locksAt } });
+  });
+
+  router.delete("/categories/:categoryId", async (c) => {
+    const gameId = c.get("gameId");
+    const cat = await findCategory(gameId, c.req.param("categoryId"));
+    if (!cat) return c.json({ error: "Category not found" }, 404);
+
+    const pickCount = await countPicks(picks.categoryId, cat.id);
+    if (pickCount > 0 && c.req.query("force") !== "true") {
+      return c.json({ error: `${pickCount} player(s) have picks in this category`, pickCount }, 409);
+    }
+
+    // Nominations, winners and picks cascade-delete with it
+    await db.transaction(async (tx) => {
+      await tx.delete(categories).where(eq(categories.id, cat.id));
+      await afterCategoriesChanged(tx, gameId);
+    });
+    return c.json({ ok: true });
+  });
+
+  // ---- Nominations ----
+
+  router.post("/categories/:categoryId/nominations", zValidator("json", CreateNominationSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const cat = await findCategory(gameId, c.req.param("categoryId"));
+    if (!cat) return c.json({ error: "Category not found" }, 404);
+
+    const nomination = { id: createId(), categoryId: cat.id, ...c.req.valid("json"), createdAt: Date.now() };
+    await db.insert(nominations).values(nomination);
+    return c.json({ nomination }, 201);
+  });
+
+  router.patch("/nominations/:nominationId", zValidator("json", UpdateNominationSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const row = await findNomination(gameId, c.req.param("nominationId"));
+    if (!row) return c.json({ error: "Nomination not found" }, 404);
+
+    const pickCount = await countPicks(picks.nominationId, row.nomination.id);
+    if (pickCount > 0 && c.req.query("force") !== "true") {
+      return c.json({ error: `${pickCount} player(s) picked this nominee`, pickCount }, 409);
+    }
+
+    const updates = c.req.valid("json");
+    if (Object.keys(updates).length > 0) {
+      await db.update(nominations).set(updates).where(eq(nominations.id, row.nomination.id));
+    }
+    return c.json({ nomination: { ...row.nomination, ...updates } });
+  });
+
+  router.delete("/nominations/:nominationId", async (c) => {
+    const gameId = c.get("gameId");
+    const row = await findNomination(gameId, c.req.param("nominationId"));
+    if (!row) return c.json({ error: "Nomination not found" }, 404);
+
+    const [winner] = await db
+      .select({ id: categoryWinners.id })
+      .from(categoryWinners)
+      .where(eq(categoryWinners.nominationId, row.nomination.id))
+      .limit(1);
+    if (winner) {
+      return c.json({ error: "This nominee is the announced winner — clear the winner first" }, 409);
+    }
+
+    const pickCount = await countPicks(picks.nominationId, row.nomination.id);
+    if (pickCount > 0 && c.req.query("force") !== "true") {
+      return c.json({ error: `${pickCount} player(s) picked this nominee`, pickCount }, 409);
+    }
+
+    // Picks for this nominee cascade-delete with it
+    await db.delete(nominations).where(eq(nominations.id, row.nomination.id));
+    return c.json({ ok: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,94 @@
+import { CreateScoringRuleSetSchema, SetScoringSchema, SetTiebreakerSchema, WEBSOCKET_EVENTS } from "@bignight/shared";
+import { zValidator } from "@hono/zod-validator";
+import { eq } from "drizzle-orm";
+import { Hono } from "hono";
+import type { Server as SocketIOServer } from "socket.io";
+import type { Db } from "../db/connection";
+import { categories, games } from "../db/schema";
+import type { AppEnv } from "../env";
+import { getLeaderboard } from "../services/leaderboard";
+import { createRuleSet, deleteRuleSet, getRuleSet, listRuleSets } from "../services/scoring";
+import { gameRoom } from "../websocket/server";
+
+/**
+ * Scoring configuration, mounted under /api/games/:gameId/admin (already admin-only).
+ * Rule sets are shared by every game; each game picks one (or none) with PUT /scoring.
+ * The tiebreaker lives here too, since entering its answer can reshuffle the standings.
+ */
+export function adminScoringRoutes(db: Db, io?: SocketIOServer) {
+  const router = new Hono<AppEnv>();
+
+  /** Re-reads the game and its standings, and pushes the standings to everyone watching */
+  async function rescore(gameId: string) {
+    const [game] = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+    const leaderboard = await getLeaderboard(db, gameId);
+
+    if (io) {
+      const allCats = await db.select().from(categories).where(eq(categories.gameId, gameId));
+      io.to(gameRoom(gameId)).emit(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, {
+        players: leaderboard,
+        revealedCount: allCats.filter((cat) => cat.isRevealed).length,
+        totalCount: allCats.length,
+      });
+    }
+
+    return { game, leaderboard };
+  }
+
+  router.get("/rule-sets", async (c) => {
+    return c.json({ ruleSets: await listRuleSets(db) });
+  });
+
+  router.post("/rule-sets", zValidator("json", CreateScoringRuleSetSchema), async (c) => {
+    try {
+      const ruleSet = await createRuleSet(db, c.req.valid("json"));
+      return c.json({ ruleSet }, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to create rule set";
+      return c.json({ error: message }, 409);
+    }
+  });
+
+  router.delete("/rule-sets/:ruleSetId", async (c) => {
+    try {
+      await deleteRuleSet(db, c.req.param("ruleSetId"));
+      return c.json({ ok: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to delete rule set";
+      return c.json({ error: message }, message === "Rule set not found" ? 404 : 400);
+    }
+  });
+
+  // Switching modes or rule sets rescores everyone, so push the new standings out straight away
+  router.put("/scoring", zValidator("json", SetScoringSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const updates = c.req.valid("json");
+
+    if (updates.scoringRuleSetId && !(await getRuleSet(db, updates.scoringRuleSetId))) {
+      return c.json({ error: "Rule set not found" }, 404);
+    }
+    if (Object.keys(updates).length > 0) {
+      await db.update(games).set(updates).where(eq(games.id, gameId));
+    }
+
+    return c.json(await rescore(gameId));
+  });
+
+  router.put("/tiebreaker", zValidator("json", SetTiebreakerSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const { question, answer, rule } = c.req.valid("json");
+
+    const updates = {
+      ...(question !== undefined && { tiebreakerQuestion: question }),
+      ...(answer !== undefined && { tiebreakerAnswer: answer }),
+      ...(rule !== undefined && { tiebreakerRule: rule }),
+    };
+    if (Object.keys(updates).length > 0) {
+      await db.update(games).set(updates).where(eq(games.id, gameId));
+    }
+
+    return c.json(await rescore(gameId));
+  });
+
+  return router;
+}
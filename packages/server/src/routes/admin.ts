@@ -1,47 +1,199 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import * as z from "zod";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import {
   AdminLoginSchema,
+  CreateAdminSchema,
   ImportWikipediaSchema,
+  ImportWikitextSchema,
+  ImportBallotSchema,
   MarkWinnerSchema,
   ClearWinnerSchema,
+  SetLockSchema,
+  RenamePlayerSchema,
+  MergePlayersSchema,
+  RECOVERY_CODE_EXPIRY_HOURS,
 } from "@bignight/shared";
 import type { Server as SocketIOServer } from "socket.io";
 import { WEBSOCKET_EVENTS } from "@bignight/shared";
 import { signToken } from "../auth/token";
-import { authMiddleware, adminMiddleware } from "../auth/middleware";
-import { categories, nominations, picks, players, gameConfig } from "../db/schema";
-import { markWinner, clearWinner } from "../services/game";
+import {
+  ADMIN_THROTTLE_KEY,
+  beginLoginAttempt,
+  clearLoginFailures,
+  listLockouts,
+  throttleKeys,
+  tooManyAttempts,
+  unlockLogin,
+  type ThrottleKey,
+} from "../auth/throttle";
+import { generateRecoveryCode, hashPin, normalizeRecoveryCode, verifyPin } from "../auth/pin";
+import { authMiddleware, adminMiddleware, auditMiddleware } from "../auth/middleware";
+import { categories, nominations, picks, players } from "../db/schema";
+import {
+  markWinner,
+  clearWinner,
+  undoReveal,
+  redoReveal,
+  getRevealHistory,
+  resetGame,
+  setPicksLock,
+  sameWinners,
+  type WinnerChange,
+} from "../services/game";
+import { archiveGame } from "../services/archive";
+import { createAdmin, deleteAdmin, findAdminByName, listAdmins, SHARED_ADMIN } from "../services/admins";
+import { listAuditLog } from "../services/audit";
+import { deletePlayer, mergePlayers, renamePlayer } from "../services/players";
 import { getLeaderboard } from "../services/leaderboard";
-import { previewImport, importFromWikipedia } from "../services/wikipedia";
+import { previewImport, importFromWikipedia, previewWikitext, importFromWikitext } from "../services/wikipedia";
+import { previewBallot, importBallot } from "../services/ballot";
+import { gameRoom } from "../websocket/server";
+import { adminCategoriesRoutes } from "./admin-categories";
+import { adminScoringRoutes } from "./admin-scoring";
 import type { Db } from "../db/connection";
 import type { AppEnv } from "../env";
 
-const ResetSchema = z.object({ confirm: z.literal(true) });
+const ConfirmSchema = z.object({ confirm: z.literal(true) });
+// force archives a ceremony that isn't over yet
+const ArchiveSchema = ConfirmSchema.extend({ force: z.boolean().optional() });
 
-export function adminRoutes(db: Db, io?: SocketIOServer) {
+/** Checks a named admin's PIN, or the shared ADMIN_PIN when no name is given */
+async function authenticateAdmin(db: Db, name: string | undefined, pin: string) {
+  if (name === undefined) {
+    const adminPin = process.env.ADMIN_PIN;
+    return adminPin && pin === adminPin ? SHARED_ADMIN : null;
+  }
+  const admin = await findAdminByName(db, name);
+  return admin && (await verifyPin(pin, admin.pin)) ? { id: admin.id, name: admin.name } : null;
+}
+
+/**
+ * Global admin routes, not scoped to a game: login, admin accounts and the audit log.
+ * Admin tokens can manage every game.
+ */
+export function adminAuthRoutes(db: Db) {
   const router = new Hono<AppEnv>();
 
-  // Login does not require auth
   router.post("/login", zValidator("json", AdminLoginSchema), async (c) => {
-    const { pin } = c.req.valid("json");
-    const adminPin = process.env.ADMIN_PIN;
-    if (!adminPin || pin !== adminPin) {
-      return c.json({ error: "Invalid PIN" }, 401);
+    const { name, pin } = c.req.valid("json");
+    const account: ThrottleKey = name === undefined ? ADMIN_THROTTLE_KEY : { kind: "admin", gameId: null, subject: name };
+    const keys = throttleKeys(c, account);
+    const retryAfter = beginLoginAttempt(db, keys);
+    if (retryAfter > 0) {
+      return tooManyAttempts(c, retryAfter);
+    }
+
+    const admin = await authenticateAdmin(db, name, pin);
+    if (!admin) {
+      return c.json({ error: name === undefined ? "Invalid PIN" : "Invalid name or PIN" }, 401);
+    }
+    await clearLoginFailures(db, keys);
+    const token = await signToken({ playerId: admin.id, isAdmin: true, gameId: null, name: admin.name });
+    return c.json({ token, name: admin.name });
+  });
+
+  router.use("/accounts/*", authMiddleware, adminMiddleware(db), auditMiddleware(db));
+  router.use("/audit", authMiddleware, adminMiddleware(db));
+
+  router.get("/accounts", async (c) => {
+    return c.json({ admins: await listAdmins(db) });
+  });
+
+  router.post("/accounts", zValidator("json", CreateAdminSchema), async (c) => {
+    const { name, pin } = c.req.valid("json");
+    try {
+      const admin = await createAdmin(db, name, pin);
+      c.set("auditDetail", `Added admin "${name}"`);
+      return c.json({ admin }, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to add admin";
+      return c.json({ error: message }, 409);
     }
-    const token = await signToken({ playerId: "admin", isAdmin: true });
-    return c.json({ token });
   });
 
-  // All remaining routes require admin auth
-  router.use("/*", authMiddleware, adminMiddleware);
+  router.delete("/accounts/:adminId", async (c) => {
+    const deleted = await deleteAdmin(db, c.req.param("adminId"));
+    if (!deleted) return c.json({ error: "Admin not found" }, 404);
+    return c.json({ ok: true });
+  });
+
+  // Who did what, newest first. ?gameId= narrows it to one game.
+  router.get("/audit", async (c) => {
+    return c.json({ entries: await listAuditLog(db, c.req.query("gameId")) });
+  });
+
+  return router;
+}
+
+/** Game-scoped admin routes, mounted under /api/games/:gameId/admin */
+export function adminRoutes(db: Db, io?: SocketIOServer) {
+  const router = new Hono<AppEnv>();
+
+  router.use("/*", authMiddleware, adminMiddleware(db), auditMiddleware(db));
+  router.route("/", adminCategoriesRoutes(db, io));
+  router.route("/", adminScoringRoutes(db, io));
+
+  /** Pushes fresh standings after a change to who's playing */
+  async function broadcastLeaderboard(gameId: string) {
+    if (!io) return;
+    const leaderboard = await getLeaderboard(db, gameId);
+    const allCats = await db.select().from(categories).where(eq(categories.gameId, gameId));
+    io.to(gameRoom(gameId)).emit(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, {
+      players: leaderboard,
+      revealedCount: allCats.filter((cat) => cat.isRevealed).length,
+      totalCount: allCats.length,
+    });
+  }
+
+  /**
+   * Pushes a winner change to the room. A first announcement carries the "Just Announced"
+   * banner; replacing or retracting announced winners sends a correction notice instead.
+   */
+  async function broadcastWinnerChange(gameId: string, change: WinnerChange) {
+    const leaderboard = await getLeaderboard(db, gameId);
+    const allCats = await db.select().from(categories).where(eq(categories.gameId, gameId));
+    const category = allCats.find((cat) => cat.id === change.categoryId);
+    const noms = await db.select().from(nominations).where(eq(nominations.categoryId, change.categoryId));
+    const nominees = (ids: string[]) =>
+      noms.filter((n) => ids.includes(n.id)).map((n) => ({ id: n.id, title: n.title }));
+    const previousWinners = nominees(change.previousWinnerIds);
+    const newWinners = nominees(change.newWinnerIds);
+    // Any change to announced winners is a correction — adding a tied winner included
+    const isCorrection =
+      change.previousWinnerIds.length > 0 && !sameWinners(change.previousWinnerIds, change.newWinnerIds);
+    // A tie reads "A & B"
+    const winnerTitle = newWinners.map((n) => n.title).join(" & ");
+
+    if (io) {
+      const room = io.to(gameRoom(gameId));
+      room.emit(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, {
+        players: leaderboard,
+        revealedCategory: category && winnerTitle && !isCorrection ? { name: category.name, winnerTitle } : undefined,
+        revealedCount: allCats.filter((cat) => cat.isRevealed).length,
+        totalCount: allCats.length,
+      });
+      if (category && isCorrection) {
+        room.emit(WEBSOCKET_EVENTS.REVEAL_CORRECTED, {
+          categoryId: category.id,
+          categoryName: category.name,
+          previousWinners,
+          newWinners,
+        });
+      }
+      if (newWinners.length > 0 && allCats.every((cat) => cat.isRevealed)) {
+        room.emit(WEBSOCKET_EVENTS.GAME_COMPLETED, { completedAt: Date.now() });
+      }
+    }
+
+    return { leaderboard, category, winnerTitle };
+  }
 
   router.post("/preview", zValidator("json", ImportWikipediaSchema), async (c) => {
-    const { url } = c.req.valid("json");
+    const { url, show } = c.req.valid("json");
     try {
-      const parsed = await previewImport(url);
+      const parsed = await previewImport(url, show);
       return c.json(parsed);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Import failed";
@@ -50,9 +202,10 @@ export function adminRoutes(db: Db, io?: SocketIOServer) {
   });
 
   router.post("/import", zValidator("json", ImportWikipediaSchema), async (c) => {
-    const { url } = c.req.valid("json");
+    const { url, show } = c.req.valid("json");
     try {
-      const parsed = await importFromWikipedia(url, db);
+      const parsed = await importFromWikipedia(url, db, c.get("gameId"), show);
+      c.set("auditDetail", `Imported nominees from ${url}`);
       return c.json(parsed);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Import failed";
@@ -60,31 +213,59 @@ export function adminRoutes(db: Db, io?: SocketIOServer) {
     }
   });
 
-  router.post("/mark-winner", zValidator("json", MarkWinnerSchema), async (c) => {
-    const { categoryId, nominationId } = c.req.valid("json");
+  // Pasted page source — the same import when Wikipedia can't be reached
+  router.post("/wikitext/preview", zValidator("json", ImportWikitextSchema), async (c) => {
+    const { wikitext, show } = c.req.valid("json");
     try {
-      await markWinner(db, categoryId, nominationId);
-      const leaderboard = await getLeaderboard(db);
-
-      // Look up category + winner names for the "Just Announced" banner
-      const [cat] = await db.select().from(categories).where(eq(categories.id, categoryId)).limit(1);
-      const [nom] = await db.select().from(nominations).where(eq(nominations.id, nominationId)).limit(1);
-      const allCats = await db.select().from(categories);
-      const revealedCount = allCats.filter((c) => c.isRevealed).length;
-
-      if (io) {
-        io.to("game").emit(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, {
-          players: leaderboard,
-          revealedCategory: cat && nom ? { name: cat.name, winnerTitle: nom.title } : undefined,
-          revealedCount,
-          totalCount: allCats.length,
-        });
+      return c.json(previewWikitext(wikitext, show));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Import failed";
+      return c.json({ error: message }, 400);
+    }
+  });
 
-        if (allCats.every((c) => c.isRevealed)) {
-          io.to("game").emit(WEBSOCKET_EVENTS.GAME_COMPLETED, { completedAt: Date.now() });
-        }
-      }
+  router.post("/wikitext/import", zValidator("json", ImportWikitextSchema), async (c) => {
+    const { wikitext, show } = c.req.valid("json");
+    try {
+      const parsed = await importFromWikitext(db, c.get("gameId"), wikitext, show);
+      c.set("auditDetail", `Imported nominees from pasted wikitext (${parsed.name})`);
+      return c.json(parsed);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Import failed";
+      return c.json({ error: message }, 400);
+    }
+  });
+
+  // Ballot files (CSV/JSON) — same preview-then-commit flow as Wikipedia
+  router.post("/ballot/preview", zValidator("json", ImportBallotSchema), async (c) => {
+    const { format, content } = c.req.valid("json");
+    try {
+      return c.json(previewBallot(format, content));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Import failed";
+      return c.json({ error: message }, 400);
+    }
+  });
+
+  router.post("/ballot/import", zValidator("json", ImportBallotSchema), async (c) => {
+    const { format, content } = c.req.valid("json");
+    try {
+      const parsed = await importBallot(db, c.get("gameId"), format, content);
+      c.set("auditDetail", `Imported a ${format.toUpperCase()} ballot file`);
+      return c.json(parsed);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Import failed";
+      return c.json({ error: message }, 400);
+    }
+  });
 
+  router.post("/mark-winner", zValidator("json", MarkWinnerSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const { categoryId, nominationIds } = c.req.valid("json");
+    try {
+      const change = await markWinner(db, gameId, categoryId, nominationIds);
+      const { leaderboard, category, winnerTitle } = await broadcastWinnerChange(gameId, change);
+      if (category && winnerTitle) c.set("auditDetail", `Marked ${winnerTitle} as the ${category.name} winner`);
       return c.json({ leaderboard });
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to mark winner";
@@ -93,65 +274,208 @@ export function adminRoutes(db: Db, io?: SocketIOServer) {
   });
 
   router.post("/clear-winner", zValidator("json", ClearWinnerSchema), async (c) => {
+    const gameId = c.get("gameId");
     const { categoryId } = c.req.valid("json");
-    await clearWinner(db, categoryId);
-    const leaderboard = await getLeaderboard(db);
+    const change = await clearWinner(db, gameId, categoryId);
+    const { leaderboard, category } = await broadcastWinnerChange(gameId, change);
+    if (category) c.set("auditDetail", `Cleared the ${category.name} winner`);
+    return c.json({ leaderboard });
+  });
+
+  router.get("/reveal-history", async (c) => {
+    return c.json(await getRevealHistory(db, c.get("gameId")));
+  });
+
+  router.post("/undo-reveal", async (c) => {
+    const gameId = c.get("gameId");
+    try {
+      const change = await undoReveal(db, gameId);
+      if (!change) return c.json({ error: "Nothing to undo" }, 409);
+      const { leaderboard, category, winnerTitle } = await broadcastWinnerChange(gameId, change);
+      if (category) c.set("auditDetail", `Undid the ${category.name} reveal (now ${winnerTitle || "unannounced"})`);
+      return c.json({ leaderboard });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Undo failed";
+      return c.json({ error: message }, 409);
+    }
+  });
+
+  router.post("/redo-reveal", async (c) => {
+    const gameId = c.get("gameId");
+    try {
+      const change = await redoReveal(db, gameId);
+      if (!change) return c.json({ error: "Nothing to redo" }, 409);
+      const { leaderboard, category, winnerTitle } = await broadcastWinnerChange(gameId, change);
+      if (category) c.set("auditDetail", `Redid the ${category.name} reveal (now ${winnerTitle || "unannounced"})`);
+      return c.json({ leaderboard });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Redo failed";
+      return c.json({ error: message }, 409);
+    }
+  });
 
-    const allCats = await db.select().from(categories);
-    const revealedCount = allCats.filter((c) => c.isRevealed).length;
+  // Schedule the pick lock, lock now (locksAt = now) or unlock (locksAt = null)
+  router.put("/lock", zValidator("json", SetLockSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const { locksAt } = c.req.valid("json");
+    const game = await setPicksLock(db, gameId, locksAt);
+    if (!game) return c.json({ error: "Game not found" }, 404);
+    c.set(
+      "auditDetail",
+      locksAt === null
+        ? "Unlocked picks"
+        : locksAt <= Date.now()
+          ? "Locked picks"
+          : `Scheduled picks to lock at ${new Date(locksAt).toISOString()}`,
+    );
 
     if (io) {
-      io.to("game").emit(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, {
-        players: leaderboard,
-        revealedCount,
-        totalCount: allCats.length,
-      });
+      io.to(gameRoom(gameId)).emit(WEBSOCKET_EVENTS.LOCK_CHANGED, { categoryId: null, locksAt: game.locksAt });
     }
 
-    return c.json({ leaderboard });
+    return c.json({ game });
   });
 
   router.post("/reset", async (c) => {
     const body = await c.req.json();
-    const result = ResetSchema.safeParse(body);
+    const result = ConfirmSchema.safeParse(body);
     if (!result.success) {
       return c.json({ error: "Must provide { confirm: true } to reset" }, 400);
     }
 
-    // Clear winnerId FKs first (breaks circular ref), then delete
-    await db.update(categories).set({ winnerId: null });
-    await db.delete(picks);
-    await db.delete(nominations);
-    await db.delete(categories);
-    await db
-      .update(gameConfig)
-      .set({ completedAt: null })
-      .where(eq(gameConfig.id, 1));
+    // Only this game's data is reset — other games on the server are untouched
+    await resetGame(db, c.get("gameId"));
+    c.set("auditDetail", "Reset the game, clearing categories, nominees and picks");
 
     return c.json({ ok: true });
   });
 
+  // Freeze the ceremony into the history tables, then clear it for next season
+  router.post("/archive", async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    const result = ArchiveSchema.safeParse(body);
+    if (!result.success) {
+      return c.json({ error: "Must provide { confirm: true } to archive" }, 400);
+    }
+
+    try {
+      const ceremony = await archiveGame(db, c.get("gameId"), { force: result.data.force });
+      c.set("auditDetail", "Archived the ceremony to History");
+      return c.json({ ceremony }, 201);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Archive failed";
+      return c.json({ error: message }, 400);
+    }
+  });
+
   router.get("/players", async (c) => {
-    const allPlayers = await db.select().from(players);
-    const allCats = await db.select().from(categories);
-    const allPicks = await db.select().from(picks);
+    const gameId = c.get("gameId");
+    const allPlayers = await db.select().from(players).where(eq(players.gameId, gameId));
+    const allCats = await db.select().from(categories).where(eq(categories.gameId, gameId));
+    const allPicks = await db.select().from(picks).where(eq(picks.gameId, gameId));
 
     const totalCategories = allCats.length;
-    const picksByPlayer = new Map<string, number>();
+    const pickedByPlayer = new Map<string, Set<string>>();
     for (const pick of allPicks) {
-      picksByPlayer.set(pick.playerId, (picksByPlayer.get(pick.playerId) ?? 0) + 1);
+      const picked = pickedByPlayer.get(pick.playerId) ?? new Set<string>();
+      picked.add(pick.categoryId);
+      pickedByPlayer.set(pick.playerId, picked);
     }
 
-    const result = allPlayers.map((p) => ({
-      id: p.id,
-      name: p.name,
-      pickCount: picksByPlayer.get(p.id) ?? 0,
-      totalCategories,
-      complete: (picksByPlayer.get(p.id) ?? 0) >= totalCategories,
-    }));
+    // Ballot order, so "missing" reads the same way the picks page does
+    const orderedCats = [...allCats].sort((a, b) => a.order - b.order);
+    const result = allPlayers.map((p) => {
+      const picked = pickedByPlayer.get(p.id) ?? new Set<string>();
+      const missingCategories = orderedCats
+        .filter((cat) => !picked.has(cat.id))
+        .map((cat) => ({ id: cat.id, name: cat.name }));
+      return {
+        id: p.id,
+        name: p.name,
+        pickCount: picked.size,
+        totalCategories,
+        complete: missingCategories.length === 0,
+        missingCategories,
+      };
+    });
 
     return c.json({ players: result });
   });
 
+  router.patch("/players/:playerId", zValidator("json", RenamePlayerSchema), async (c) => {
+    const gameId = c.get("gameId");
+    try {
+      const player = await renamePlayer(db, gameId, c.req.param("playerId"), c.req.valid("json").name);
+      if (!player) return c.json({ error: "Player not found" }, 404);
+      c.set("auditDetail", `Renamed a player to "${player.name}"`);
+      await broadcastLeaderboard(gameId);
+      return c.json({ player });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Rename failed";
+      return c.json({ error: message }, 409);
+    }
+  });
+
+  router.delete("/players/:playerId", async (c) => {
+    const gameId = c.get("gameId");
+    const deleted = await deletePlayer(db, gameId, c.req.param("playerId"));
+    if (!deleted) return c.json({ error: "Player not found" }, 404);
+    await broadcastLeaderboard(gameId);
+    return c.json({ ok: true });
+  });
+
+  router.post("/players/merge", zValidator("json", MergePlayersSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const { sourceId, targetId, onConflict } = c.req.valid("json");
+    try {
+      const result = await mergePlayers(db, gameId, sourceId, targetId, onConflict);
+      if (!result) return c.json({ error: "Player not found" }, 404);
+      c.set("auditDetail", `Merged another account into ${result.player.name}, moving ${result.movedPicks} picks`);
+      await broadcastLeaderboard(gameId);
+      return c.json(result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Merge failed";
+      return c.json({ error: message }, 400);
+    }
+  });
+
+  // Issues a one-time code the player can trade for a new PIN. Their old PIN keeps
+  // working until they use it, and resetting again replaces any earlier code.
+  router.post("/players/:playerId/reset-pin", async (c) => {
+    const gameId = c.get("gameId");
+    const playerId = c.req.param("playerId");
+    const player = await db
+      .select({ id: players.id })
+      .from(players)
+      .where(and(eq(players.id, playerId), eq(players.gameId, gameId)))
+      .limit(1);
+    if (player.length === 0) {
+      return c.json({ error: "Player not found" }, 404);
+    }
+
+    const recoveryCode = generateRecoveryCode();
+    const expiresAt = Date.now() + RECOVERY_CODE_EXPIRY_HOURS * 60 * 60 * 1000;
+    await db
+      .update(players)
+      .set({ recoveryCode: await hashPin(normalizeRecoveryCode(recoveryCode)), recoveryCodeExpiresAt: expiresAt })
+      .where(eq(players.id, playerId));
+
+    return c.json({ recoveryCode, expiresAt });
+  });
+
+  // Names and IPs currently locked out for too many wrong PINs
+  router.get("/lockouts", async (c) => {
+    const rows = await listLockouts(db, c.get("gameId"));
+    return c.json({ lockouts: rows.map((r) => ({ ...r, lockedUntil: r.lockedUntil ?? 0 })) });
+  });
+
+  router.delete("/lockouts/:id", async (c) => {
+    const unlocked = await unlockLogin(db, c.get("gameId"), c.req.param("id"));
+    if (!unlocked) {
+      return c.json({ error: "Lockout not found" }, 404);
+    }
+    return c.json({ ok: true });
+  });
+
   return router;
 }
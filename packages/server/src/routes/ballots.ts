@@ -0,0 +1,35 @@
+import { eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { authMiddleware } from "../auth/middleware";
+import type { Db } from "../db/connection";
+import { categories, games } from "../db/schema";
+import type { AppEnv } from "../env";
+import { getGamePhase } from "../services/game";
+import { getBallots } from "../services/leaderboard";
+
+export function ballotsRoutes(db: Db) {
+  const router = new Hono<AppEnv>();
+
+  router.use("/*", authMiddleware);
+
+  // Everyone's picks, for the what-if simulator. Whole ballots, so only once every category
+  // is closed (see getClosedCategoryIds) — i.e. once the whole game is locked.
+  router.get("/", async (c) => {
+    const gameId = c.get("gameId");
+    const [game] = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+    const allCats = await db.select({ id: categories.id }).from(categories).where(eq(categories.gameId, gameId));
+    const phase = game ? getGamePhase(game, allCats.length > 0) : "setup";
+    if (!game || (phase !== "locked" && phase !== "completed")) {
+      return c.json({ error: "Ballots are hidden until picks lock" }, 403);
+    }
+
+    // Tiebreaker guesses stay private until the answer is in, same as on the leaderboard
+    const ballots = (await getBallots(db, gameId)).map((ballot) => ({
+      ...ballot,
+      tiebreakerGuess: game.tiebreakerAnswer === null ? null : (ballot.tiebreakerGuess ?? null),
+    }));
+    return c.json({ ballots });
+  });
+
+  return router;
+}
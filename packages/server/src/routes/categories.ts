@@ -1,6 +1,7 @@
 import { Hono } from "hono";
-import { eq, asc } from "drizzle-orm";
-import { categories, nominations } from "../db/schema";
+import { eq, asc, inArray, count } from "drizzle-orm";
+import { categories, nominations, picks } from "../db/schema";
+import { getCategoryWinnerIds, getClosedCategoryIds } from "../services/game";
 import type { Db } from "../db/connection";
 import type { AppEnv } from "../env";
 
@@ -8,12 +9,19 @@ export function categoriesRoutes(db: Db) {
   const router = new Hono<AppEnv>();
 
   router.get("/", async (c) => {
+    const gameId = c.get("gameId");
     const allCategories = await db
       .select()
       .from(categories)
+      .where(eq(categories.gameId, gameId))
       .orderBy(asc(categories.order));
 
-    const allNominations = await db.select().from(nominations);
+    const allNominations = allCategories.length > 0
+      ? await db
+          .select()
+          .from(nominations)
+          .where(inArray(nominations.categoryId, allCategories.map((cat) => cat.id)))
+      : [];
 
     const nominationsByCategory = new Map<string, typeof allNominations>();
     for (const nomination of allNominations) {
@@ -22,15 +30,57 @@ export function categoriesRoutes(db: Db) {
       nominationsByCategory.set(nomination.categoryId, list);
     }
 
+    const winners = await getCategoryWinnerIds(db, allCategories.map((cat) => cat.id));
     const result = allCategories.map((category) => ({
       ...category,
-      // Hide winnerId until the category is revealed — prevents players from inspecting the API
-      winnerId: category.isRevealed ? category.winnerId : null,
+      // Hide winners until the category is revealed — prevents players from inspecting the API
+      winnerIds: category.isRevealed ? (winners.get(category.id) ?? []) : [],
       nominations: nominationsByCategory.get(category.id) ?? [],
     }));
 
     return c.json({ categories: result });
   });
 
+  // How the group voted, closed categories only (see getClosedCategoryIds). Refused while nothing is closed.
+  router.get("/distribution", async (c) => {
+    const gameId = c.get("gameId");
+    const closedIds = await getClosedCategoryIds(db, gameId);
+    const allCategories = await db
+      .select()
+      .from(categories)
+      .where(eq(categories.gameId, gameId))
+      .orderBy(asc(categories.order));
+
+    const closed = allCategories.filter((cat) => closedIds.has(cat.id));
+    if (closed.length === 0) {
+      return c.json({ error: "Pick distribution is hidden until picks lock" }, 403);
+    }
+
+    const allNominations = await db.select().from(nominations).where(inArray(nominations.categoryId, [...closedIds]));
+    const counts = await db
+      .select({ nominationId: picks.nominationId, n: count() })
+      .from(picks)
+      .where(inArray(picks.categoryId, [...closedIds]))
+      .groupBy(picks.nominationId);
+    const countByNomination = new Map(counts.map((row) => [row.nominationId, row.n]));
+    const winners = await getCategoryWinnerIds(db, [...closedIds]);
+
+    const result = closed.map((category) => {
+      const noms = allNominations.filter((nom) => nom.categoryId === category.id);
+      const totalPicks = noms.reduce((sum, nom) => sum + (countByNomination.get(nom.id) ?? 0), 0);
+      return {
+        categoryId: category.id,
+        totalPicks,
+        winnerIds: category.isRevealed ? (winners.get(category.id) ?? []) : [],
+        nominations: noms.map((nom) => {
+          const n = countByNomination.get(nom.id) ?? 0;
+          return { nominationId: nom.id, count: n, percentage: totalPicks > 0 ? Math.round((n / totalPicks) * 100) : 0 };
+        }),
+      };
+    });
+
+    return c.json({ categories: result });
+  });
+
   return router;
 }
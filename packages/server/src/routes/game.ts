@@ -1,7 +1,10 @@
 import { Hono } from "hono";
-import { count, eq } from "drizzle-orm";
-import { categories, gameConfig } from "../db/schema";
-import { getLeaderboard } from "../services/leaderboard";
+import { eq } from "drizzle-orm";
+import { categories, games } from "../db/schema";
+import { isAdminRequest } from "../auth/middleware";
+import { getGamePhase, toPublicGame } from "../services/game";
+import { getLeaderboard, getScoreTimeline } from "../services/leaderboard";
+import { getRuleSet } from "../services/scoring";
 import type { Db } from "../db/connection";
 import type { AppEnv } from "../env";
 import type { GamePhase } from "@bignight/shared";
@@ -10,35 +13,36 @@ export function gameRoutes(db: Db) {
   const router = new Hono<AppEnv>();
 
   router.get("/", async (c) => {
-    const [config] = await db.select().from(gameConfig).limit(1);
-    const allCats = await db.select().from(categories);
+    const gameId = c.get("gameId");
+    const [game] = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+    const allCats = await db.select().from(categories).where(eq(categories.gameId, gameId));
     const categoryCount = allCats.length;
-    const hasRevealed = allCats.some((cat) => cat.isRevealed);
 
-    const phase = derivePhase(config, categoryCount, hasRevealed);
+    const phase: GamePhase = game ? getGamePhase(game, categoryCount > 0) : "setup";
 
-    return c.json({ phase, config, categoryCount });
+    const ruleSet = game ? await getRuleSet(db, game.scoringRuleSetId) : null;
+
+    // Admins need the tiebreaker answer to edit it; players only see it once the game is over
+    const visibleGame = game && !(await isAdminRequest(db, c)) ? toPublicGame(game) : game;
+
+    return c.json({ phase, game: visibleGame, categoryCount, ruleSet });
   });
 
   router.get("/leaderboard", async (c) => {
-    const allCategories = await db.select().from(categories);
+    const gameId = c.get("gameId");
+    const allCategories = await db.select().from(categories).where(eq(categories.gameId, gameId));
     const revealedCount = allCategories.filter((cat) => cat.isRevealed).length;
     const totalCount = allCategories.length;
-    const players = await getLeaderboard(db);
+    const players = await getLeaderboard(db, gameId);
 
     return c.json({ players, revealedCount, totalCount });
   });
 
-  return router;
-}
+  // Standings after each announcement, for the leaderboard's race chart
+  router.get("/history", async (c) => {
+    const steps = await getScoreTimeline(db, c.get("gameId"));
+    return c.json({ steps });
+  });
 
-function derivePhase(
-  config: { completedAt: number | null } | undefined,
-  categoryCount: number,
-  hasRevealed: boolean,
-): GamePhase {
-  if (!config || categoryCount === 0) return "setup";
-  if (config.completedAt != null) return "completed";
-  if (hasRevealed) return "locked";
-  return "open";
+  return router;
 }
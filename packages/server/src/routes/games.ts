@@ -0,0 +1,26 @@
+import { CreateGameSchema } from "@bignight/shared";
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { adminMiddleware, auditMiddleware, authMiddleware } from "../auth/middleware";
+import type { Db } from "../db/connection";
+import type { AppEnv } from "../env";
+import { createGame, listGames, toPublicGame } from "../services/game";
+
+export function gamesRoutes(db: Db) {
+  const router = new Hono<AppEnv>();
+
+  // Public — the join page lists games so players can pick their pool
+  router.get("/", async (c) => {
+    const allGames = await listGames(db);
+    return c.json({ games: allGames.map(toPublicGame) });
+  });
+
+  router.post("/", authMiddleware, adminMiddleware(db), auditMiddleware(db), zValidator("json", CreateGameSchema), async (c) => {
+    const { name } = c.req.valid("json");
+    const game = await createGame(db, name);
+    c.set("auditDetail", `Created game "${name}"`);
+    return c.json({ game }, 201);
+  });
+
+  return router;
+}
@@ -0,0 +1,29 @@
+import { Hono } from "hono";
+import type { Db } from "../db/connection";
+import type { AppEnv } from "../env";
+import { getCeremony, getPlayerRecords, listCeremonies } from "../services/archive";
+
+/** Read-only ceremony archive — public, like the game list */
+export function historyRoutes(db: Db) {
+  const router = new Hono<AppEnv>();
+
+  router.get("/", async (c) => {
+    const ceremonies = await listCeremonies(db);
+    return c.json({ ceremonies });
+  });
+
+  router.get("/records", async (c) => {
+    const records = await getPlayerRecords(db);
+    return c.json({ records });
+  });
+
+  router.get("/:ceremonyId", async (c) => {
+    const detail = await getCeremony(db, c.req.param("ceremonyId"));
+    if (!detail) {
+      return c.json({ error: "Ceremony not found" }, 404);
+    }
+    return c.json(detail);
+  });
+
+  return router;
+}
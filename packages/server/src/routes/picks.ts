@@ -2,12 +2,49 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { eq, and } from "drizzle-orm";
 import { createId } from "@paralleldrive/cuid2";
-import { SubmitPickSchema } from "@bignight/shared";
-import { picks, nominations, players, categories } from "../db/schema";
+import {
+  SetConfidenceSchema,
+  SetTiebreakerGuessSchema,
+  SubmitPickSchema,
+  isCategoryLocked,
+  isPicksLocked,
+  isTiebreakerLocked,
+} from "@bignight/shared";
+import { picks, nominations, players, categories, games } from "../db/schema";
 import { authMiddleware } from "../auth/middleware";
 import type { Db } from "../db/connection";
 import type { AppEnv } from "../env";
 
+/** Why a confidence ranking can't be saved over the player's picks, or null if it can */
+function checkConfidenceRanking(
+  categoryIds: string[],
+  ranks: Map<string, number>,
+  allCats: (typeof categories.$inferSelect)[],
+  playerPicks: (typeof picks.$inferSelect)[],
+  gameLocksAt: number | null,
+) {
+  const known = new Set(allCats.map((cat) => cat.id));
+  if (categoryIds.length !== known.size || !categoryIds.every((id) => known.has(id))) {
+    return { error: "Rank every category in this game exactly once", status: 400 as const };
+  }
+
+  const pickByCategory = new Map(playerPicks.map((p) => [p.categoryId, p]));
+  if (pickByCategory.size < known.size) {
+    return { error: "Pick every category before ranking your confidence", status: 400 as const };
+  }
+
+  // Ranks on locked categories are frozen — no moving your surest bet onto a known winner
+  const frozen = allCats.find(
+    (cat) =>
+      isCategoryLocked({ locksAt: cat.locksAt, isRevealed: cat.isRevealed }, gameLocksAt) &&
+      pickByCategory.get(cat.id)?.confidence !== ranks.get(cat.id),
+  );
+  if (frozen) {
+    return { error: `Confidence for "${frozen.name}" is locked`, status: 403 as const };
+  }
+  return null;
+}
+
 export function picksRoutes(db: Db) {
   const router = new Hono<AppEnv>();
 
@@ -15,24 +52,42 @@ export function picksRoutes(db: Db) {
 
   router.post("/", zValidator("json", SubmitPickSchema), async (c) => {
     const playerId = c.get("playerId");
+    const gameId = c.get("gameId");
     const { categoryId, nominationId } = c.req.valid("json");
 
     // Verify player still exists (JWT may outlive a DB reset)
-    const [player] = await db.select().from(players).where(eq(players.id, playerId)).limit(1);
+    const [player] = await db
+      .select()
+      .from(players)
+      .where(and(eq(players.id, playerId), eq(players.gameId, gameId)))
+      .limit(1);
     if (!player) {
       return c.json({ error: "Player not found — please sign in again" }, 401);
     }
 
     // Wrap lock check + insert in a transaction to prevent race with winner reveal
     const result = await db.transaction(async (tx) => {
-      // Picks lock when any category has been revealed (first winner announced)
-      const allCats = await tx.select().from(categories);
-      const hasRevealed = allCats.some((cat) => cat.isRevealed);
-
-      if (hasRevealed) {
+      // The game-wide lock (set by the admin, or by the first reveal) closes every category
+      const [game] = await tx.select().from(games).where(eq(games.id, gameId)).limit(1);
+      if (!game || isPicksLocked(game.locksAt)) {
         return { error: "Picks are locked", status: 403 as const };
       }
 
+      const [category] = await tx
+        .select()
+        .from(categories)
+        .where(and(eq(categories.id, categoryId), eq(categories.gameId, gameId)))
+        .limit(1);
+
+      if (!category) {
+        return { error: "Category not found", status: 404 as const };
+      }
+
+      // Otherwise only this category's own lock (or an announced winner) blocks the pick
+      if (isCategoryLocked({ locksAt: category.locksAt, isRevealed: category.isRevealed }, game.locksAt)) {
+        return { error: "Picks for this category are locked", status: 403 as const };
+      }
+
       // Verify nomination belongs to the specified category
       const [nomination] = await tx
         .select()
@@ -49,7 +104,7 @@ export function picksRoutes(db: Db) {
 
       await tx
         .insert(picks)
-        .values({ id, playerId, categoryId, nominationId, createdAt: now, updatedAt: now })
+        .values({ id, gameId, playerId, categoryId, nominationId, createdAt: now, updatedAt: now })
         .onConflictDoUpdate({
           target: [picks.playerId, picks.categoryId],
           set: { nominationId, updatedAt: now },
@@ -71,13 +126,95 @@ export function picksRoutes(db: Db) {
     return c.json({ pick: result.pick });
   });
 
+  // Confidence mode: rank the whole ballot, most confident first (rank N down to 1)
+  router.put("/confidence", zValidator("json", SetConfidenceSchema), async (c) => {
+    const playerId = c.get("playerId");
+    const gameId = c.get("gameId");
+    const { categoryIds } = c.req.valid("json");
+
+    const result = await db.transaction(async (tx) => {
+      const [game] = await tx.select().from(games).where(eq(games.id, gameId)).limit(1);
+      if (!game || isPicksLocked(game.locksAt)) {
+        return { error: "Picks are locked", status: 403 as const };
+      }
+      if (game.scoringMode !== "confidence") {
+        return { error: "This game doesn't use confidence scoring", status: 400 as const };
+      }
+
+      const allCats = await tx.select().from(categories).where(eq(categories.gameId, gameId));
+      const playerPicks = await tx
+        .select()
+        .from(picks)
+        .where(and(eq(picks.playerId, playerId), eq(picks.gameId, gameId)));
+      const ranks = new Map(categoryIds.map((id, index) => [id, categoryIds.length - index]));
+      const rejection = checkConfidenceRanking(categoryIds, ranks, allCats, playerPicks, game.locksAt);
+      if (rejection) return rejection;
+
+      // Clear first so the (player, confidence) unique index doesn't trip mid-shuffle
+      const now = Date.now();
+      await tx.update(picks).set({ confidence: null }).where(and(eq(picks.playerId, playerId), eq(picks.gameId, gameId)));
+      for (const [categoryId, confidence] of ranks) {
+        await tx
+          .update(picks)
+          .set({ confidence, updatedAt: now })
+          .where(and(eq(picks.playerId, playerId), eq(picks.categoryId, categoryId)));
+      }
+
+      const updated = await tx
+        .select()
+        .from(picks)
+        .where(and(eq(picks.playerId, playerId), eq(picks.gameId, gameId)));
+      return { picks: updated };
+    });
+
+    if ("error" in result) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    return c.json({ picks: result.picks });
+  });
+
+  // Tiebreaker guess lives on the player row — one per player, closes with the first category to close
+  router.get("/tiebreaker", async (c) => {
+    const [player] = await db
+      .select({ guess: players.tiebreakerGuess })
+      .from(players)
+      .where(and(eq(players.id, c.get("playerId")), eq(players.gameId, c.get("gameId"))))
+      .limit(1);
+    return c.json({ guess: player?.guess ?? null });
+  });
+
+  router.put("/tiebreaker", zValidator("json", SetTiebreakerGuessSchema), async (c) => {
+    const playerId = c.get("playerId");
+    const gameId = c.get("gameId");
+    const { guess } = c.req.valid("json");
+
+    const [game] = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+    const gameCategories = await db
+      .select({ locksAt: categories.locksAt, isRevealed: categories.isRevealed })
+      .from(categories)
+      .where(eq(categories.gameId, gameId));
+    if (!game || isTiebreakerLocked(game, gameCategories)) {
+      return c.json({ error: "The tiebreaker is closed" }, 403);
+    }
+    if (!game.tiebreakerQuestion) {
+      return c.json({ error: "This game has no tiebreaker question" }, 400);
+    }
+
+    await db
+      .update(players)
+      .set({ tiebreakerGuess: guess })
+      .where(and(eq(players.id, playerId), eq(players.gameId, gameId)));
+    return c.json({ guess });
+  });
+
   router.get("/", async (c) => {
     const playerId = c.get("playerId");
 
     const playerPicks = await db
       .select()
       .from(picks)
-      .where(eq(picks.playerId, playerId));
+      .where(and(eq(picks.playerId, playerId), eq(picks.gameId, c.get("gameId"))));
 
     return c.json({ picks: playerPicks });
   });
@@ -1,11 +1,18 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { CreatePlayerSchema } from "@bignight/shared";
-import { eq } from "drizzle-orm";
+import { CreatePlayerSchema, RecoverPlayerSchema } from "@bignight/shared";
+import { and, eq } from "drizzle-orm";
 import { createId } from "@paralleldrive/cuid2";
 import { players } from "../db/schema";
-import { hashPin, verifyPin } from "../auth/pin";
+import { hashPin, normalizeRecoveryCode, verifyPin } from "../auth/pin";
 import { signToken } from "../auth/token";
+import {
+  beginLoginAttempt,
+  clearLoginFailures,
+  throttleKeys,
+  tooManyAttempts,
+  type ThrottleKey,
+} from "../auth/throttle";
 import { authMiddleware } from "../auth/middleware";
 import type { Db } from "../db/connection";
 import type { AppEnv } from "../env";
@@ -14,25 +21,77 @@ export function playerRoutes(db: Db) {
   const router = new Hono<AppEnv>();
 
   router.post("/join", zValidator("json", CreatePlayerSchema), async (c) => {
+    const gameId = c.get("gameId");
     const { name, pin } = c.req.valid("json");
 
-    const existing = await db.select().from(players).where(eq(players.name, name)).limit(1);
+    const account: ThrottleKey = { kind: "player", gameId, subject: name };
+    const keys = throttleKeys(c, account);
+    const retryAfter = beginLoginAttempt(db, keys);
+    if (retryAfter > 0) {
+      return tooManyAttempts(c, retryAfter);
+    }
+
+    const existing = await db
+      .select()
+      .from(players)
+      .where(and(eq(players.gameId, gameId), eq(players.name, name)))
+      .limit(1);
 
     if (existing.length > 0) {
       const valid = await verifyPin(pin, existing[0].pin);
       if (!valid) {
         return c.json({ error: "Invalid PIN" }, 401);
       }
-      const token = await signToken({ playerId: existing[0].id, isAdmin: false });
-      return c.json({ token, playerId: existing[0].id, name: existing[0].name });
+      await clearLoginFailures(db, keys);
+      const token = await signToken({ playerId: existing[0].id, isAdmin: false, gameId });
+      return c.json({ token, playerId: existing[0].id, gameId, name: existing[0].name });
     }
 
+    await clearLoginFailures(db, keys);
     const id = createId();
     const hashedPin = await hashPin(pin);
-    await db.insert(players).values({ id, name, pin: hashedPin, createdAt: Date.now() });
+    await db.insert(players).values({ id, gameId, name, pin: hashedPin, createdAt: Date.now() });
+
+    const token = await signToken({ playerId: id, isAdmin: false, gameId });
+    return c.json({ token, playerId: id, gameId, name });
+  });
+
+  // Swap an admin-issued recovery code for a new PIN, then log in as usual
+  router.post("/recover", zValidator("json", RecoverPlayerSchema), async (c) => {
+    const gameId = c.get("gameId");
+    const { name, recoveryCode, pin } = c.req.valid("json");
+
+    const account: ThrottleKey = { kind: "player", gameId, subject: name };
+    const keys = throttleKeys(c, account);
+    const retryAfter = beginLoginAttempt(db, keys);
+    if (retryAfter > 0) {
+      return tooManyAttempts(c, retryAfter);
+    }
+
+    const existing = await db
+      .select()
+      .from(players)
+      .where(and(eq(players.gameId, gameId), eq(players.name, name)))
+      .limit(1);
+    const player = existing[0];
+
+    const valid =
+      player?.recoveryCode != null &&
+      player.recoveryCodeExpiresAt != null &&
+      player.recoveryCodeExpiresAt > Date.now() &&
+      (await verifyPin(normalizeRecoveryCode(recoveryCode), player.recoveryCode));
+    if (!valid) {
+      return c.json({ error: "Invalid or expired recovery code" }, 401);
+    }
+    await clearLoginFailures(db, keys);
+
+    await db
+      .update(players)
+      .set({ pin: await hashPin(pin), recoveryCode: null, recoveryCodeExpiresAt: null })
+      .where(eq(players.id, player.id));
 
-    const token = await signToken({ playerId: id, isAdmin: false });
-    return c.json({ token, playerId: id, name });
+    const token = await signToken({ playerId: player.id, isAdmin: false, gameId });
+    return c.json({ token, playerId: player.id, gameId, name: player.name });
   });
 
   router.get("/me", authMiddleware, async (c) => {
@@ -40,7 +99,7 @@ export function playerRoutes(db: Db) {
     const player = await db
       .select({ id: players.id, name: players.name })
       .from(players)
-      .where(eq(players.id, playerId))
+      .where(and(eq(players.id, playerId), eq(players.gameId, c.get("gameId"))))
       .limit(1);
 
     if (player.length === 0) {
@@ -0,0 +1,46 @@
+import { and, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { authMiddleware } from "../auth/middleware";
+import type { Db } from "../db/connection";
+import { games, picks, players } from "../db/schema";
+import type { AppEnv } from "../env";
+import { getClosedCategoryIds } from "../services/game";
+
+export function playersRoutes(db: Db) {
+  const router = new Hono<AppEnv>();
+
+  router.use("/*", authMiddleware);
+
+  // Another player's ballot for their profile page, closed categories only (see getClosedCategoryIds)
+  router.get("/:playerId/picks", async (c) => {
+    const gameId = c.get("gameId");
+    const [player] = await db
+      .select()
+      .from(players)
+      .where(and(eq(players.id, c.req.param("playerId")), eq(players.gameId, gameId)))
+      .limit(1);
+    if (!player) return c.json({ error: "Player not found" }, 404);
+
+    const closedIds = await getClosedCategoryIds(db, gameId);
+    if (closedIds.size === 0) {
+      return c.json({ error: "Other players' picks are hidden until picks lock" }, 403);
+    }
+
+    const playerPicks = await db.select().from(picks).where(eq(picks.playerId, player.id));
+    const [game] = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+
+    return c.json({
+      ballot: {
+        playerId: player.id,
+        name: player.name,
+        // Stays private until the answer is in, same as on the leaderboard
+        tiebreakerGuess: game?.tiebreakerAnswer == null ? null : player.tiebreakerGuess,
+        picks: playerPicks
+          .filter((pick) => closedIds.has(pick.categoryId))
+          .map((pick) => ({ categoryId: pick.categoryId, nominationId: pick.nominationId, confidence: pick.confidence })),
+      },
+    });
+  });
+
+  return router;
+}
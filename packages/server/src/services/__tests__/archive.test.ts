@@ -0,0 +1,190 @@
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Db } from "../../db/connection";
+import { createTestDb } from "../../db/connection";
+import {
+  archivedCategories,
+  archivedPicks,
+  archivedStandings,
+  categories,
+  games,
+  nominations,
+  picks,
+  players,
+} from "../../db/schema";
+import { setRevealedWinner } from "../../test-utils";
+import { archiveGame, getCeremony, getPlayerRecords, listCeremonies } from "../archive";
+
+const GAME_ID = "game-1";
+
+/** One game with a single revealed category and two players who picked it */
+async function seedFinishedGame(db: Db, gameId: string, winnerPickers: string[], loserPickers: string[]) {
+  const now = Date.now();
+  const catId = createId();
+  const winnerId = createId();
+  const loserId = createId();
+
+  await db.insert(categories).values({ id: catId, gameId, name: "Best Picture", order: 0, points: 5, createdAt: now });
+  await db.insert(nominations).values([
+    { id: winnerId, categoryId: catId, title: "Anora", subtitle: "", createdAt: now },
+    { id: loserId, categoryId: catId, title: "Conclave", subtitle: "", createdAt: now },
+  ]);
+  await setRevealedWinner(db, catId, winnerId);
+  await db.update(games).set({ completedAt: now }).where(eq(games.id, gameId));
+
+  for (const [names, nominationId] of [[winnerPickers, winnerId], [loserPickers, loserId]] as const) {
+    for (const name of names) {
+      const playerId = createId();
+      await db.insert(players).values({ id: playerId, gameId, name, pin: "hash", createdAt: now });
+      await db.insert(picks).values({
+        id: createId(), gameId, playerId, categoryId: catId, nominationId, createdAt: now, updatedAt: now,
+      });
+    }
+  }
+}
+
+describe("archive service", () => {
+  let db: Db;
+
+  beforeEach(async () => {
+    db = createTestDb();
+    await db.insert(games).values({ id: GAME_ID, name: "97th Academy Awards", createdAt: Date.now() });
+  });
+
+  describe("archiveGame", () => {
+    it("snapshots categories, winners, standings and picks", async () => {
+      await seedFinishedGame(db, GAME_ID, ["Alice"], ["Bob"]);
+
+      const ceremony = await archiveGame(db, GAME_ID);
+      expect(ceremony.name).toBe("97th Academy Awards");
+      expect(ceremony.completedAt).not.toBeNull();
+
+      const cats = await db.select().from(archivedCategories);
+      expect(cats).toHaveLength(1);
+      expect(cats[0]?.winnerTitle).toBe("Anora");
+      expect(cats[0]?.points).toBe(5);
+
+      const standings = await db.select().from(archivedStandings).orderBy(archivedStandings.rank);
+      expect(standings.map((s) => [s.playerName, s.rank, s.totalScore])).toEqual([
+        ["Alice", 1, 5],
+        ["Bob", 2, 0],
+      ]);
+
+      const archived = await db.select().from(archivedPicks);
+      expect(archived).toHaveLength(2);
+      const alice = archived.find((p) => p.playerName === "Alice");
+      expect(alice?.title).toBe("Anora");
+      expect(alice?.isCorrect).toBe(true);
+      expect(alice?.categoryId).toBe(cats[0]?.id);
+    });
+
+    it("resets the live game but keeps its players", async () => {
+      await seedFinishedGame(db, GAME_ID, ["Alice"], []);
+
+      await archiveGame(db, GAME_ID);
+
+      expect(await db.select().from(categories)).toHaveLength(0);
+      expect(await db.select().from(nominations)).toHaveLength(0);
+      expect(await db.select().from(picks)).toHaveLength(0);
+      expect(await db.select().from(players)).toHaveLength(1);
+      const [game] = await db.select().from(games).where(eq(games.id, GAME_ID));
+      expect(game?.completedAt).toBeNull();
+    });
+
+    it("archives players left off the leaderboard, ranked after it and marked excluded", async () => {
+      await seedFinishedGame(db, GAME_ID, ["Alice"], ["Bob"]);
+      // A second category only Alice picked leaves Bob with a partial ballot, which the default policy excludes
+      const [alice] = await db.select().from(players).where(eq(players.name, "Alice"));
+      const catId = createId();
+      const nomId = createId();
+      const now = Date.now();
+      await db.insert(categories).values({ id: catId, gameId: GAME_ID, name: "Best Director", order: 1, createdAt: now });
+      await db.insert(nominations).values({ id: nomId, categoryId: catId, title: "Sean Baker", subtitle: "", createdAt: now });
+      await db.insert(picks).values({
+        id: createId(), gameId: GAME_ID, playerId: alice?.id as string, categoryId: catId, nominationId: nomId, createdAt: now, updatedAt: now,
+      });
+      await db.insert(players).values({ id: createId(), gameId: GAME_ID, name: "Carol", pin: "hash", createdAt: now });
+
+      await archiveGame(db, GAME_ID);
+
+      const standings = await db.select().from(archivedStandings).orderBy(archivedStandings.rank);
+      expect(standings.map((s) => [s.playerName, s.rank, s.totalScore, s.excluded])).toEqual([
+        ["Alice", 1, 5, false],
+        ["Bob", 2, 0, true],
+        ["Carol", 3, 0, true],
+      ]);
+      expect((await db.select().from(archivedPicks)).filter((p) => p.playerName === "Bob")).toHaveLength(1);
+    });
+
+    it("refuses a ceremony that isn't over unless forced", async () => {
+      await seedFinishedGame(db, GAME_ID, ["Alice"], []);
+      await db.update(games).set({ completedAt: null }).where(eq(games.id, GAME_ID));
+
+      await expect(archiveGame(db, GAME_ID)).rejects.toThrow("isn't over");
+      expect(await db.select().from(categories)).toHaveLength(1);
+
+      const ceremony = await archiveGame(db, GAME_ID, { force: true });
+      expect(ceremony.completedAt).toBeNull();
+      expect(await db.select().from(categories)).toHaveLength(0);
+    });
+
+    it("throws when the game has no categories", async () => {
+      await expect(archiveGame(db, GAME_ID)).rejects.toThrow("Nothing to archive");
+    });
+
+    it("throws for an unknown game", async () => {
+      await expect(archiveGame(db, "nope")).rejects.toThrow("Game not found");
+    });
+  });
+
+  describe("getCeremony", () => {
+    it("returns null for an unknown ceremony", async () => {
+      expect(await getCeremony(db, "nope")).toBeNull();
+    });
+
+    it("returns the frozen ceremony after the live game is reused", async () => {
+      await seedFinishedGame(db, GAME_ID, ["Alice"], ["Bob"]);
+      const ceremony = await archiveGame(db, GAME_ID);
+
+      // Next season reuses the same game
+      await seedFinishedGame(db, GAME_ID, ["Carol"], []);
+
+      const detail = await getCeremony(db, ceremony.id);
+      expect(detail?.standings.map((s) => s.playerName)).toEqual(["Alice", "Bob"]);
+      expect(detail?.picks).toHaveLength(2);
+    });
+  });
+
+  describe("getPlayerRecords", () => {
+    it("aggregates standings across ceremonies by case-insensitive name", async () => {
+      await seedFinishedGame(db, GAME_ID, ["Alice"], ["Bob"]);
+      await archiveGame(db, GAME_ID);
+      await db.delete(players);
+      await seedFinishedGame(db, GAME_ID, ["bob"], ["Alice"]);
+      await archiveGame(db, GAME_ID);
+
+      expect(await listCeremonies(db)).toHaveLength(2);
+
+      const records = await getPlayerRecords(db);
+      expect(records).toHaveLength(2);
+      const alice = records.find((r) => r.name === "Alice");
+      expect(alice).toMatchObject({ ceremonies: 2, wins: 1, bestRank: 1, totalScore: 5, totalCorrect: 1 });
+      const bob = records.find((r) => r.name.toLowerCase() === "bob");
+      expect(bob).toMatchObject({ ceremonies: 2, wins: 1, bestRank: 1, totalScore: 5 });
+    });
+
+    it("counts excluded ceremonies toward totals but never as a win", async () => {
+      await seedFinishedGame(db, GAME_ID, ["Alice"], []);
+      await archiveGame(db, GAME_ID);
+      await db.update(archivedStandings).set({ excluded: true });
+
+      const [alice] = await getPlayerRecords(db);
+      expect(alice).toMatchObject({ name: "Alice", ceremonies: 1, wins: 0, totalScore: 5 });
+    });
+
+    it("returns an empty list with no archive", async () => {
+      expect(await getPlayerRecords(db)).toEqual([]);
+    });
+  });
+});
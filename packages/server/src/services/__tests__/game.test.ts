@@ -1,13 +1,25 @@
-import { describe, expect, it, beforeEach } from "vitest";
+import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
 import { createTestDb } from "../../db/connection";
-import { categories, nominations, gameConfig } from "../../db/schema";
+import { categories, nominations, games, reveals } from "../../db/schema";
 import { createId } from "@paralleldrive/cuid2";
 import { eq } from "drizzle-orm";
-import { markWinner, clearWinner, getGamePhase } from "../game";
+import {
+  markWinner,
+  clearWinner,
+  getCategoryWinnerIds,
+  getGamePhase,
+  undoReveal,
+  redoReveal,
+  getRevealHistory,
+} from "../game";
 import type { Db } from "../../db/connection";
 
-function setupDb() {
-  return createTestDb();
+const GAME_ID = "game-1";
+
+async function setupDb() {
+  const db = createTestDb();
+  await db.insert(games).values({ id: GAME_ID, name: "Office Pool", createdAt: Date.now() });
+  return db;
 }
 
 async function insertCategory(
@@ -19,10 +31,10 @@ async function insertCategory(
   const catId = createId();
   await database.insert(categories).values({
     id: catId,
+    gameId: GAME_ID,
     name,
     order,
     points: 1,
-    winnerId: null,
     isRevealed: false,
     createdAt: Date.now(),
   });
@@ -46,28 +58,56 @@ async function insertCategory(
 describe("markWinner", () => {
   let db: Db;
 
-  beforeEach(() => {
-    db = setupDb();
+  beforeEach(async () => {
+    db = await setupDb();
   });
 
-  it("sets winnerId and isRevealed on category", async () => {
+  it("sets the winner and isRevealed on category", async () => {
     const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
 
-    await markWinner(db, catId, nomIds[0]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
 
     const cats = await db.select().from(categories).where(eq(categories.id, catId));
-    expect(cats[0].winnerId).toBe(nomIds[0]);
+    expect((await getCategoryWinnerIds(db, [catId])).get(catId)).toEqual([nomIds[0]]);
     expect(cats[0].isRevealed).toBe(true);
   });
 
+  it("records a tie as several winners", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Sound Editing", 0, ["Film A", "Film B", "Film C"]);
+
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string, nomIds[1] as string]);
+
+    const winners = (await getCategoryWinnerIds(db, [catId])).get(catId);
+    expect(winners).toHaveLength(2);
+    expect(winners).toEqual(expect.arrayContaining([nomIds[0], nomIds[1]]));
+  });
+
+  it("replaces earlier winners when re-marked", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Sound Editing", 0, ["Film A", "Film B"]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string, nomIds[1] as string]);
+
+    const change = await markWinner(db, GAME_ID, catId, [nomIds[1] as string]);
+
+    expect((await getCategoryWinnerIds(db, [catId])).get(catId)).toEqual([nomIds[1]]);
+    expect(change.previousWinnerIds).toEqual(expect.arrayContaining([nomIds[0], nomIds[1]]));
+  });
+
+  it("rejects a tie that includes another category's nominee", async () => {
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+    const cat2 = await insertCategory(db, "Best Director", 1, ["Director A"]);
+
+    await expect(markWinner(db, GAME_ID, cat1.catId, [cat1.nomIds[0] as string, cat2.nomIds[0] as string])).rejects.toThrow();
+    expect(await getCategoryWinnerIds(db, [cat1.catId])).toEqual(new Map());
+  });
+
   it("sets completedAt when all categories are revealed", async () => {
     const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A"]);
     const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A"]);
 
-    await markWinner(db, cat1.catId, cat1.nomIds[0]);
-    await markWinner(db, cat2.catId, cat2.nomIds[0]);
+    await markWinner(db, GAME_ID, cat1.catId, [cat1.nomIds[0] as string]);
+    await markWinner(db, GAME_ID, cat2.catId, [cat2.nomIds[0] as string]);
 
-    const config = await db.select().from(gameConfig).where(eq(gameConfig.id, 1));
+    const config = await db.select().from(games).where(eq(games.id, GAME_ID));
     expect(config[0].completedAt).not.toBeNull();
   });
 
@@ -75,57 +115,260 @@ describe("markWinner", () => {
     const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A"]);
     await insertCategory(db, "Best Director", 1, ["Dir A"]);
 
-    await markWinner(db, cat1.catId, cat1.nomIds[0]);
+    await markWinner(db, GAME_ID, cat1.catId, [cat1.nomIds[0] as string]);
 
-    const config = await db.select().from(gameConfig).where(eq(gameConfig.id, 1));
+    const config = await db.select().from(games).where(eq(games.id, GAME_ID));
     expect(config[0].completedAt).toBeNull();
   });
 
+  it("locks picks on the first reveal when no lock was set", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+    await insertCategory(db, "Best Director", 1, ["Dir A"]);
+
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+
+    const [game] = await db.select().from(games).where(eq(games.id, GAME_ID));
+    expect(game?.locksAt).not.toBeNull();
+    expect(game?.locksAt).toBeLessThanOrEqual(Date.now());
+  });
+
+  it("leaves the game open when categories have their own lock times", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Sound", 0, ["Film A"]);
+    await insertCategory(db, "Best Picture", 1, ["Film B"]);
+    await db.update(categories).set({ locksAt: 1000 }).where(eq(categories.id, catId));
+
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+
+    const [game] = await db.select().from(games).where(eq(games.id, GAME_ID));
+    expect(game?.locksAt).toBeNull();
+  });
+
+  it("keeps an earlier lock time", async () => {
+    await db.update(games).set({ locksAt: 1000 }).where(eq(games.id, GAME_ID));
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+
+    const [game] = await db.select().from(games).where(eq(games.id, GAME_ID));
+    expect(game?.locksAt).toBe(1000);
+  });
+
+  it("records reveals in announcement order, keeping the slot on a correction", async () => {
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
+    const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A"]);
+
+    await markWinner(db, GAME_ID, cat2.catId, [cat2.nomIds[0] as string]);
+    await markWinner(db, GAME_ID, cat1.catId, [cat1.nomIds[0] as string]);
+    await markWinner(db, GAME_ID, cat1.catId, [cat1.nomIds[1] as string]);
+
+    const rows = await db.select().from(reveals).orderBy(reveals.sequence);
+    expect(rows.map((r) => [r.categoryId, r.sequence])).toEqual([
+      [cat2.catId, 1],
+      [cat1.catId, 2],
+    ]);
+  });
+
   it("throws when nomination does not belong to category", async () => {
     const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A"]);
     const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A"]);
 
-    await expect(markWinner(db, cat1.catId, cat2.nomIds[0])).rejects.toThrow();
+    await expect(markWinner(db, GAME_ID, cat1.catId, [cat2.nomIds[0] as string])).rejects.toThrow();
   });
 });
 
 describe("clearWinner", () => {
   let db: Db;
 
-  beforeEach(() => {
-    db = setupDb();
+  beforeEach(async () => {
+    db = await setupDb();
   });
 
-  it("clears winnerId and isRevealed", async () => {
+  it("clears the winners and isRevealed", async () => {
     const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A"]);
-    await markWinner(db, catId, nomIds[0]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
 
-    await clearWinner(db, catId);
+    await clearWinner(db, GAME_ID, catId);
 
     const cats = await db.select().from(categories).where(eq(categories.id, catId));
-    expect(cats[0].winnerId).toBeNull();
+    expect(await getCategoryWinnerIds(db, [catId])).toEqual(new Map());
     expect(cats[0].isRevealed).toBe(false);
+    expect(await db.select().from(reveals)).toHaveLength(0);
+  });
+});
+
+describe("undoReveal / redoReveal", () => {
+  let db: Db;
+
+  beforeEach(async () => {
+    db = await setupDb();
+  });
+
+  async function winnerOf(catId: string) {
+    const [cat] = await db.select().from(categories).where(eq(categories.id, catId));
+    return { winnerIds: (await getCategoryWinnerIds(db, [catId])).get(catId) ?? [], isRevealed: cat?.isRevealed };
+  }
+
+  it("returns null when there is nothing to undo or redo", async () => {
+    expect(await undoReveal(db, GAME_ID)).toBeNull();
+    expect(await redoReveal(db, GAME_ID)).toBeNull();
+  });
+
+  it("undoes a first announcement back to unrevealed, and redoes it", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+
+    const undone = await undoReveal(db, GAME_ID);
+    expect(undone).toEqual({ categoryId: catId, previousWinnerIds: [nomIds[0]], newWinnerIds: [] });
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [], isRevealed: false });
+
+    const redone = await redoReveal(db, GAME_ID);
+    expect(redone).toEqual({ categoryId: catId, previousWinnerIds: [], newWinnerIds: [nomIds[0]] });
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [nomIds[0]], isRevealed: true });
+  });
+
+  it("walks back a corrected winner step by step", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+    await markWinner(db, GAME_ID, catId, [nomIds[1] as string]);
+
+    await undoReveal(db, GAME_ID);
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [nomIds[0]], isRevealed: true });
+    await undoReveal(db, GAME_ID);
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [], isRevealed: false });
+    expect(await undoReveal(db, GAME_ID)).toBeNull();
+
+    await redoReveal(db, GAME_ID);
+    await redoReveal(db, GAME_ID);
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [nomIds[1]], isRevealed: true });
+  });
+
+  it("undoes a cleared winner", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+    await clearWinner(db, GAME_ID, catId);
+
+    await undoReveal(db, GAME_ID);
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [nomIds[0]], isRevealed: true });
+  });
+
+  it("drops the redo stack when a new change is made", async () => {
+    const a = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+    const b = await insertCategory(db, "Best Director", 1, ["Director A"]);
+    await markWinner(db, GAME_ID, a.catId, [a.nomIds[0] as string]);
+    await undoReveal(db, GAME_ID);
+    await markWinner(db, GAME_ID, b.catId, [b.nomIds[0] as string]);
+
+    expect(await redoReveal(db, GAME_ID)).toBeNull();
+    expect(await winnerOf(a.catId)).toEqual({ winnerIds: [], isRevealed: false });
+  });
+
+  it("doesn't record re-marking the same winner", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+
+    await undoReveal(db, GAME_ID);
+    expect(await undoReveal(db, GAME_ID)).toBeNull();
+  });
+
+  it("leaves out tied winners deleted since, and drops changes with none left", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B", "Film C"]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string, nomIds[1] as string]);
+    await markWinner(db, GAME_ID, catId, [nomIds[2] as string]);
+    await db.delete(nominations).where(eq(nominations.id, nomIds[1] as string));
+
+    expect(await undoReveal(db, GAME_ID)).toEqual({
+      categoryId: catId,
+      previousWinnerIds: [nomIds[2]],
+      newWinnerIds: [nomIds[0]],
+    });
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [nomIds[0]], isRevealed: true });
+
+    // Film C is gone too, so redoing the correction is impossible — redo moves on to nothing
+    await undoReveal(db, GAME_ID);
+    await redoReveal(db, GAME_ID);
+    await db.delete(nominations).where(eq(nominations.id, nomIds[2] as string));
+    expect(await redoReveal(db, GAME_ID)).toBeNull();
+    expect(await winnerOf(catId)).toEqual({ winnerIds: [nomIds[0]], isRevealed: true });
+  });
+
+  describe("timeline", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function revealOf(catId: string) {
+      const [reveal] = await db.select().from(reveals).where(eq(reveals.categoryId, catId));
+      return reveal && { sequence: reveal.sequence, revealedAt: reveal.revealedAt };
+    }
+
+    it("puts a redone reveal back at its original time", async () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: 1_000 });
+      const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+      await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+
+      vi.setSystemTime(5_000);
+      await undoReveal(db, GAME_ID);
+      await redoReveal(db, GAME_ID);
+
+      expect(await revealOf(catId)).toEqual({ sequence: 1, revealedAt: 1_000 });
+    });
+
+    it("puts an undone clear back in its original slot", async () => {
+      vi.useFakeTimers({ toFake: ["Date"], now: 1_000 });
+      const a = await insertCategory(db, "Best Picture", 0, ["Film A"]);
+      const b = await insertCategory(db, "Best Director", 1, ["Director A"]);
+      await markWinner(db, GAME_ID, a.catId, [a.nomIds[0] as string]);
+      vi.setSystemTime(2_000);
+      await markWinner(db, GAME_ID, b.catId, [b.nomIds[0] as string]);
+
+      vi.setSystemTime(5_000);
+      await clearWinner(db, GAME_ID, a.catId);
+      await undoReveal(db, GAME_ID);
+
+      expect(await revealOf(a.catId)).toEqual({ sequence: 1, revealedAt: 1_000 });
+      expect(await revealOf(b.catId)).toEqual({ sequence: 2, revealedAt: 2_000 });
+    });
+  });
+
+  it("describes the next undo and redo by name", async () => {
+    const { catId, nomIds } = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
+    await markWinner(db, GAME_ID, catId, [nomIds[0] as string]);
+    await markWinner(db, GAME_ID, catId, [nomIds[1] as string]);
+    await undoReveal(db, GAME_ID);
+
+    expect(await getRevealHistory(db, GAME_ID)).toEqual({
+      undo: { categoryId: catId, categoryName: "Best Picture", previousWinnerTitles: [], newWinnerTitles: ["Film A"] },
+      redo: { categoryId: catId, categoryName: "Best Picture", previousWinnerTitles: ["Film A"], newWinnerTitles: ["Film B"] },
+    });
   });
 });
 
 describe("getGamePhase", () => {
+  const now = 1_000_000;
+
   it("returns 'setup' when no categories exist", () => {
-    const phase = getGamePhase({ completedAt: null }, false, false);
+    const phase = getGamePhase({ completedAt: null, locksAt: null }, false, now);
     expect(phase).toBe("setup");
   });
 
   it("returns 'completed' when completedAt is set", () => {
-    const phase = getGamePhase({ completedAt: Date.now() }, true, true);
+    const phase = getGamePhase({ completedAt: now, locksAt: now }, true, now);
     expect(phase).toBe("completed");
   });
 
-  it("returns 'locked' when a category has been revealed", () => {
-    const phase = getGamePhase({ completedAt: null }, true, true);
+  it("returns 'locked' once the lock time has passed", () => {
+    const phase = getGamePhase({ completedAt: null, locksAt: now - 1 }, true, now);
     expect(phase).toBe("locked");
   });
 
-  it("returns 'open' when no categories are revealed", () => {
-    const phase = getGamePhase({ completedAt: null }, true, false);
+  it("returns 'open' before the lock time", () => {
+    const phase = getGamePhase({ completedAt: null, locksAt: now + 1 }, true, now);
+    expect(phase).toBe("open");
+  });
+
+  it("returns 'open' when no lock is set", () => {
+    const phase = getGamePhase({ completedAt: null, locksAt: null }, true, now);
     expect(phase).toBe("open");
   });
 });
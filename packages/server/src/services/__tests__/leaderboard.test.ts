@@ -1,12 +1,18 @@
 import { describe, expect, it, beforeEach } from "vitest";
 import { createTestDb } from "../../db/connection";
-import { categories, nominations, picks, players, gameConfig } from "../../db/schema";
+import { categories, nominations, picks, players, games } from "../../db/schema";
 import { createId } from "@paralleldrive/cuid2";
-import { getLeaderboard } from "../leaderboard";
+import { getLeaderboard, getScoreTimeline } from "../leaderboard";
+import { markWinner } from "../game";
 import type { Db } from "../../db/connection";
+import { setRevealedWinner } from "../../test-utils";
 
-function setupDb() {
-  return createTestDb();
+const GAME_ID = "game-1";
+
+async function setupDb() {
+  const db = createTestDb();
+  await db.insert(games).values({ id: GAME_ID, name: "Office Pool", createdAt: Date.now() });
+  return db;
 }
 
 /** Insert a category and its nominations, returning their IDs.
@@ -21,10 +27,10 @@ async function insertCategory(
   const catId = createId();
   await db.insert(categories).values({
     id: catId,
+    gameId: GAME_ID,
     name,
     order,
     points: 1,
-    winnerId: null,
     isRevealed: false,
     createdAt: Date.now(),
   });
@@ -44,11 +50,7 @@ async function insertCategory(
   }
 
   if (setWinnerToFirst && nomIds.length > 0) {
-    const { eq } = await import("drizzle-orm");
-    await db
-      .update(categories)
-      .set({ winnerId: nomIds[0], isRevealed: true })
-      .where(eq(categories.id, catId));
+    await setRevealedWinner(db, catId, nomIds[0] as string);
   }
 
   return { catId, nomIds };
@@ -58,6 +60,7 @@ async function insertPlayer(db: Db, name: string) {
   const id = createId();
   await db.insert(players).values({
     id,
+    gameId: GAME_ID,
     name,
     pin: "hashed",
     createdAt: Date.now(),
@@ -70,12 +73,15 @@ async function insertPick(
   playerId: string,
   categoryId: string,
   nominationId: string,
+  confidence: number | null = null,
 ) {
   await db.insert(picks).values({
     id: createId(),
+    gameId: GAME_ID,
     playerId,
     categoryId,
     nominationId,
+    confidence,
     createdAt: Date.now(),
     updatedAt: Date.now(),
   });
@@ -84,15 +90,74 @@ async function insertPick(
 describe("getLeaderboard", () => {
   let db: Db;
 
-  beforeEach(() => {
-    db = setupDb();
+  beforeEach(async () => {
+    db = await setupDb();
   });
 
   it("returns empty array when no players exist", async () => {
-    const result = await getLeaderboard(db);
+    const result = await getLeaderboard(db, GAME_ID);
     expect(result).toEqual([]);
   });
 
+  it("scores by confidence rank when the game uses confidence mode", async () => {
+    const { eq } = await import("drizzle-orm");
+    await db.update(games).set({ scoringMode: "confidence" }).where(eq(games.id, GAME_ID));
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"], true);
+    const cat2 = await insertCategory(db, "Best Sound", 1, ["Film C", "Film D"], true);
+
+    // Both right once each, but Sure bet their high rank on the category they got right
+    const sure = await insertPlayer(db, "Sure");
+    await insertPick(db, sure, cat1.catId, cat1.nomIds[0] as string, 2);
+    await insertPick(db, sure, cat2.catId, cat2.nomIds[1] as string, 1);
+    const unsure = await insertPlayer(db, "Unsure");
+    await insertPick(db, unsure, cat1.catId, cat1.nomIds[0] as string, 1);
+    await insertPick(db, unsure, cat2.catId, cat2.nomIds[1] as string, 2);
+
+    const result = await getLeaderboard(db, GAME_ID);
+    expect(result.map((p) => [p.name, p.totalScore])).toEqual([
+      ["Sure", 2],
+      ["Unsure", 1],
+    ]);
+  });
+
+  it("adds an underdog bonus for winners few players picked", async () => {
+    const { eq } = await import("drizzle-orm");
+    await db.update(games).set({ underdogBonus: true }).where(eq(games.id, GAME_ID));
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"], true);
+
+    // 1 of 4 players called it: 1 base + 3 bonus. Consensus pickers get nothing extra.
+    const bold = await insertPlayer(db, "Bold");
+    await insertPick(db, bold, cat1.catId, cat1.nomIds[0] as string);
+    for (const name of ["Sheep 1", "Sheep 2", "Sheep 3"]) {
+      const id = await insertPlayer(db, name);
+      await insertPick(db, id, cat1.catId, cat1.nomIds[1] as string);
+    }
+
+    const result = await getLeaderboard(db, GAME_ID);
+    expect(result[0]).toMatchObject({ name: "Bold", totalScore: 4, correctCount: 1 });
+    expect(result.slice(1).map((p) => p.totalScore)).toEqual([0, 0, 0]);
+  });
+
+  it("tracks the best possible finish and who is out of the running", async () => {
+    const { eq } = await import("drizzle-orm");
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"], true);
+    const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A", "Dir B"]);
+    await db.update(categories).set({ points: 3 }).where(eq(categories.id, cat1.catId));
+
+    const leader = await insertPlayer(db, "Leader");
+    await insertPick(db, leader, cat1.catId, cat1.nomIds[0] as string);
+    await insertPick(db, leader, cat2.catId, cat2.nomIds[0] as string);
+    const trailer = await insertPlayer(db, "Trailer");
+    await insertPick(db, trailer, cat1.catId, cat1.nomIds[1] as string);
+    await insertPick(db, trailer, cat2.catId, cat2.nomIds[1] as string);
+
+    const result = await getLeaderboard(db, GAME_ID);
+    expect(result.map((p) => [p.name, p.totalScore, p.maxPossibleScore, p.eliminated])).toEqual([
+      ["Leader", 3, 4, false],
+      ["Trailer", 0, 1, true],
+    ]);
+  });
+
   it("excludes players with incomplete picks", async () => {
     // Two categories, player only picks one
     const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"], true);
@@ -102,24 +167,40 @@ describe("getLeaderboard", () => {
     // Only pick cat1
     await insertPick(db, playerId, cat1.catId, cat1.nomIds[0]);
 
-    const result = await getLeaderboard(db);
+    const result = await getLeaderboard(db, GAME_ID);
     expect(result).toEqual([]);
   });
 
+  it("ranks partial ballots when the policy includes them, flagging only under 'flag'", async () => {
+    const { eq } = await import("drizzle-orm");
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"], true);
+    const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A", "Dir B"], true);
+
+    const partial = await insertPlayer(db, "PartialPicker");
+    await insertPick(db, partial, cat1.catId, cat1.nomIds[0] as string);
+    const full = await insertPlayer(db, "FullPicker");
+    await insertPick(db, full, cat1.catId, cat1.nomIds[1] as string);
+    await insertPick(db, full, cat2.catId, cat2.nomIds[1] as string);
+
+    await db.update(games).set({ partialBallotPolicy: "include" }).where(eq(games.id, GAME_ID));
+    const included = await getLeaderboard(db, GAME_ID);
+    expect(included.map((p) => [p.name, p.totalScore, p.incompleteBallot])).toEqual([
+      ["PartialPicker", 1, false],
+      ["FullPicker", 0, false],
+    ]);
+
+    await db.update(games).set({ partialBallotPolicy: "flag" }).where(eq(games.id, GAME_ID));
+    const flagged = await getLeaderboard(db, GAME_ID);
+    expect(flagged.find((p) => p.name === "PartialPicker")?.incompleteBallot).toBe(true);
+  });
+
   it("returns correct scores for players with all picks", async () => {
     const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
     const cat2 = await insertCategory(db, "Best Director", 1, ["Dir A", "Dir B"]);
 
     // Set winners (first nomination in each)
-    const { eq } = await import("drizzle-orm");
-    await db
-      .update(categories)
-      .set({ winnerId: cat1.nomIds[0], isRevealed: true })
-      .where(eq(categories.id, cat1.catId));
-    await db
-      .update(categories)
-      .set({ winnerId: cat2.nomIds[0], isRevealed: true })
-      .where(eq(categories.id, cat2.catId));
+    await setRevealedWinner(db, cat1.catId, cat1.nomIds[0] as string);
+    await setRevealedWinner(db, cat2.catId, cat2.nomIds[0] as string);
 
     const player1 = await insertPlayer(db, "Alice");
     const player2 = await insertPlayer(db, "Bob");
@@ -132,7 +213,7 @@ describe("getLeaderboard", () => {
     await insertPick(db, player2, cat1.catId, cat1.nomIds[0]);
     await insertPick(db, player2, cat2.catId, cat2.nomIds[1]);
 
-    const result = await getLeaderboard(db);
+    const result = await getLeaderboard(db, GAME_ID);
     expect(result).toHaveLength(2);
     expect(result[0].name).toBe("Alice");
     expect(result[0].totalScore).toBe(2);
@@ -147,11 +228,7 @@ describe("getLeaderboard", () => {
   it("handles ties correctly via shared scoring logic", async () => {
     const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
 
-    const { eq } = await import("drizzle-orm");
-    await db
-      .update(categories)
-      .set({ winnerId: cat1.nomIds[0], isRevealed: true })
-      .where(eq(categories.id, cat1.catId));
+    await setRevealedWinner(db, cat1.catId, cat1.nomIds[0] as string);
 
     const player1 = await insertPlayer(db, "Alice");
     const player2 = await insertPlayer(db, "Bob");
@@ -160,7 +237,7 @@ describe("getLeaderboard", () => {
     await insertPick(db, player1, cat1.catId, cat1.nomIds[0]);
     await insertPick(db, player2, cat1.catId, cat1.nomIds[0]);
 
-    const result = await getLeaderboard(db);
+    const result = await getLeaderboard(db, GAME_ID);
     expect(result).toHaveLength(2);
     // Same score + same correct count = same rank, alphabetical order
     expect(result[0].name).toBe("Alice");
@@ -168,4 +245,60 @@ describe("getLeaderboard", () => {
     expect(result[0].rank).toBe(1);
     expect(result[1].rank).toBe(1);
   });
+
+  it("only ranks players from the requested game", async () => {
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"], true);
+    const alice = await insertPlayer(db, "Alice");
+    await insertPick(db, alice, cat1.catId, cat1.nomIds[0]);
+
+    const otherGameId = createId();
+    await db.insert(games).values({ id: otherGameId, name: "Family Pool", createdAt: Date.now() });
+    await db.insert(players).values({ id: createId(), gameId: otherGameId, name: "Zed", pin: "hashed", createdAt: Date.now() });
+
+    const result = await getLeaderboard(db, GAME_ID);
+    expect(result.map((p) => p.name)).toEqual(["Alice"]);
+    expect(await getLeaderboard(db, otherGameId)).toEqual([]);
+  });
+});
+
+describe("getScoreTimeline", () => {
+  let db: Db;
+
+  beforeEach(async () => {
+    db = await setupDb();
+  });
+
+  it("replays standings after each reveal, in announcement order", async () => {
+    const cat1 = await insertCategory(db, "Best Picture", 0, ["Film A", "Film B"]);
+    const cat2 = await insertCategory(db, "Best Sound", 1, ["Film C", "Film D"]);
+    const alice = await insertPlayer(db, "Alice");
+    await insertPick(db, alice, cat1.catId, cat1.nomIds[0] as string);
+    await insertPick(db, alice, cat2.catId, cat2.nomIds[1] as string);
+    const bob = await insertPlayer(db, "Bob");
+    await insertPick(db, bob, cat1.catId, cat1.nomIds[1] as string);
+    await insertPick(db, bob, cat2.catId, cat2.nomIds[0] as string);
+
+    // Sound is announced before Picture
+    await markWinner(db, GAME_ID, cat2.catId, [cat2.nomIds[0] as string]);
+    await markWinner(db, GAME_ID, cat1.catId, [cat1.nomIds[0] as string]);
+
+    const steps = await getScoreTimeline(db, GAME_ID);
+    expect(steps.map((s) => [s.sequence, s.categoryName, s.winnerTitle])).toEqual([
+      [1, "Best Sound", "Film C"],
+      [2, "Best Picture", "Film A"],
+    ]);
+    expect(steps[0]?.standings.map((p) => [p.name, p.totalScore, p.rank])).toEqual([
+      ["Bob", 1, 1],
+      ["Alice", 0, 2],
+    ]);
+    expect(steps[1]?.standings.map((p) => [p.name, p.totalScore, p.rank])).toEqual([
+      ["Alice", 1, 1],
+      ["Bob", 1, 1],
+    ]);
+  });
+
+  it("is empty before any winner is announced", async () => {
+    await insertCategory(db, "Best Picture", 0, ["Film A"]);
+    expect(await getScoreTimeline(db, GAME_ID)).toEqual([]);
+  });
 });
@@ -0,0 +1,145 @@
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Db } from "../../db/connection";
+import { categories, picks, players } from "../../db/schema";
+import { createTestApp, seedCategories, seedGame } from "../../test-utils";
+import { deletePlayer, mergePlayers, renamePlayer } from "../players";
+
+let db: Db;
+let gameId: string;
+let seeded: Awaited<ReturnType<typeof seedCategories>>;
+
+async function addPlayer(name: string, tiebreakerGuess: number | null = null) {
+  const id = createId();
+  await db.insert(players).values({ id, gameId, name, pin: "hash", tiebreakerGuess, createdAt: Date.now() });
+  return id;
+}
+
+async function addPick(playerId: string, categoryId: string, nominationId: string, updatedAt: number, confidence: number | null = null) {
+  await db.insert(picks).values({ id: createId(), gameId, playerId, categoryId, nominationId, confidence, createdAt: updatedAt, updatedAt });
+}
+
+async function picksOf(playerId: string) {
+  return db.select().from(picks).where(eq(picks.playerId, playerId));
+}
+
+beforeEach(async () => {
+  ({ db, gameId } = createTestApp());
+  seeded = await seedCategories(db, gameId);
+});
+
+describe("renamePlayer", () => {
+  it("renames a player", async () => {
+    const id = await addPlayer("sam");
+    expect(await renamePlayer(db, gameId, id, "Sam")).toEqual({ id, name: "Sam" });
+  });
+
+  it("refuses a name another player already has", async () => {
+    const id = await addPlayer("sam");
+    await addPlayer("Sam");
+    await expect(renamePlayer(db, gameId, id, "Sam")).rejects.toThrow('A player named "Sam" already exists');
+  });
+
+  it("returns null for a player in another game", async () => {
+    const otherGameId = await seedGame(db);
+    expect(await renamePlayer(db, otherGameId, await addPlayer("sam"), "Sam")).toBeNull();
+  });
+});
+
+describe("deletePlayer", () => {
+  it("removes the player and their picks", async () => {
+    const id = await addPlayer("Sam");
+    await addPick(id, seeded.categoryId, seeded.nominationId, 1);
+    expect(await deletePlayer(db, gameId, id)).toBe(true);
+    expect(await picksOf(id)).toHaveLength(0);
+    expect(await deletePlayer(db, gameId, id)).toBe(false);
+  });
+});
+
+describe("mergePlayers", () => {
+  let source: string;
+  let target: string;
+
+  beforeEach(async () => {
+    target = await addPlayer("Sam");
+    source = await addPlayer("sam", 130);
+    // Both picked Best Picture; only the source picked Best Director
+    await addPick(target, seeded.categoryId, seeded.nominationId, 100);
+    await addPick(source, seeded.categoryId, seeded.nominationId2, 200);
+    await addPick(source, seeded.otherCategoryId, seeded.otherNominationId, 50);
+  });
+
+  async function bestPicturePick() {
+    return (await picksOf(target)).find((p) => p.categoryId === seeded.categoryId)?.nominationId;
+  }
+
+  it("moves the source's picks across and removes the source", async () => {
+    const result = await mergePlayers(db, gameId, source, target, "target");
+    expect(result).toEqual({ player: { id: target, name: "Sam" }, movedPicks: 1, conflicts: 1 });
+    expect(await picksOf(target)).toHaveLength(2);
+    expect(await db.select().from(players).where(eq(players.id, source))).toHaveLength(0);
+  });
+
+  it("keeps the target's pick on a conflict with 'target'", async () => {
+    await mergePlayers(db, gameId, source, target, "target");
+    expect(await bestPicturePick()).toBe(seeded.nominationId);
+  });
+
+  it("takes the source's pick on a conflict with 'source'", async () => {
+    await mergePlayers(db, gameId, source, target, "source");
+    expect(await bestPicturePick()).toBe(seeded.nominationId2);
+  });
+
+  it("takes the more recently changed pick with 'newest'", async () => {
+    await mergePlayers(db, gameId, source, target, "newest");
+    expect(await bestPicturePick()).toBe(seeded.nominationId2);
+  });
+
+  it("never replaces the target's pick in a revealed category", async () => {
+    await db.update(categories).set({ isRevealed: true }).where(eq(categories.id, seeded.categoryId));
+    for (const onConflict of ["source", "newest"] as const) {
+      const result = await mergePlayers(db, gameId, source, target, onConflict);
+      expect(result?.conflicts).toBe(1);
+      expect(await bestPicturePick()).toBe(seeded.nominationId);
+
+      // Put the source back for the next strategy
+      source = await addPlayer("sam");
+      await addPick(source, seeded.categoryId, seeded.nominationId2, 200);
+    }
+  });
+
+  it("fills an empty pick in a revealed category and counts it as a conflict", async () => {
+    await db.delete(picks).where(eq(picks.playerId, target));
+    await db.update(categories).set({ isRevealed: true }).where(eq(categories.id, seeded.categoryId));
+    const result = await mergePlayers(db, gameId, source, target, "target");
+
+    expect(result).toMatchObject({ movedPicks: 2, conflicts: 1 });
+    expect(await bestPicturePick()).toBe(seeded.nominationId2);
+  });
+
+  it("keeps the target's tiebreaker guess, falling back to the source's", async () => {
+    await mergePlayers(db, gameId, source, target, "target");
+    const [row] = await db.select().from(players).where(eq(players.id, target));
+    expect(row?.tiebreakerGuess).toBe(130);
+  });
+
+  it("unranks a moved pick whose confidence the target already uses", async () => {
+    await db.delete(picks);
+    await addPick(target, seeded.categoryId, seeded.nominationId, 100, 2);
+    await addPick(source, seeded.otherCategoryId, seeded.otherNominationId, 100, 2);
+    await mergePlayers(db, gameId, source, target, "target");
+
+    const moved = (await picksOf(target)).find((p) => p.categoryId === seeded.otherCategoryId);
+    expect(moved?.confidence).toBeNull();
+  });
+
+  it("refuses to merge a player into themselves", async () => {
+    await expect(mergePlayers(db, gameId, target, target, "newest")).rejects.toThrow();
+  });
+
+  it("returns null when either player is in another game", async () => {
+    const otherGameId = await seedGame(db);
+    expect(await mergePlayers(db, otherGameId, source, target, "newest")).toBeNull();
+  });
+});
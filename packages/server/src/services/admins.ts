@@ -0,0 +1,44 @@
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import { hashPin } from "../auth/pin";
+import type { Db } from "../db/connection";
+import { admins } from "../db/schema";
+
+/** Identity of the shared ADMIN_PIN login, which has no account row */
+export const SHARED_ADMIN = { id: "admin", name: "Admin" };
+
+/** Admin accounts without their PIN hashes */
+export async function listAdmins(db: Db) {
+  return db.select({ id: admins.id, name: admins.name, createdAt: admins.createdAt }).from(admins).orderBy(admins.name);
+}
+
+export async function findAdminByName(db: Db, name: string) {
+  const [admin] = await db.select().from(admins).where(eq(admins.name, name)).limit(1);
+  return admin ?? null;
+}
+
+/** The admin an id belongs to, as the account stands now. Null once the account is deleted. */
+export async function findAdminById(db: Db, adminId: string): Promise<{ id: string; name: string } | null> {
+  if (adminId === SHARED_ADMIN.id) return SHARED_ADMIN;
+  const [admin] = await db
+    .select({ id: admins.id, name: admins.name })
+    .from(admins)
+    .where(eq(admins.id, adminId))
+    .limit(1);
+  return admin ?? null;
+}
+
+export async function createAdmin(db: Db, name: string, pin: string) {
+  if (await findAdminByName(db, name)) {
+    throw new Error(`An admin named "${name}" already exists`);
+  }
+  const admin = { id: createId(), name, createdAt: Date.now() };
+  await db.insert(admins).values({ ...admin, pin: await hashPin(pin) });
+  return admin;
+}
+
+/** False if there was no such admin */
+export async function deleteAdmin(db: Db, adminId: string): Promise<boolean> {
+  const deleted = await db.delete(admins).where(eq(admins.id, adminId)).returning({ id: admins.id });
+  return deleted.length > 0;
+}
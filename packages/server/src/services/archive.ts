@@ -0,0 +1,212 @@
+import type { PlayerRecord, ScoringRuleSet } from "@bignight/shared";
+import { resolveCategoryPoints, scoreBallots } from "@bignight/shared";
+import { createId } from "@paralleldrive/cuid2";
+import { desc, eq, inArray } from "drizzle-orm";
+import type { Db, DbOrTx } from "../db/connection";
+import {
+  archivedCategories,
+  archivedCeremonies,
+  archivedPicks,
+  archivedStandings,
+  categories,
+  games,
+  nominations,
+  picks,
+  players,
+} from "../db/schema";
+import { getCategoryWinnerIds, resetGame } from "./game";
+import { loadScoringInputs } from "./leaderboard";
+import { getRuleSet } from "./scoring";
+
+/**
+ * Final standings for the archive: the leaderboard, then everyone it leaves out — partial
+ * ballots under the "exclude" policy and players who never picked — scored as far as their
+ * picks go, ranked after it and marked excluded.
+ */
+async function getArchiveStandings(tx: DbOrTx, gameId: string) {
+  const inputs = await loadScoringInputs(tx, gameId);
+  const leaderboard = scoreBallots(inputs.ballots, inputs.categories, inputs.config);
+  const ranked = new Set(leaderboard.map((s) => s.playerId));
+  const leftOut = scoreBallots(
+    inputs.ballots.filter((b) => !ranked.has(b.playerId)),
+    inputs.categories,
+    { ...inputs.config, partialBallotPolicy: "include" },
+  );
+  const scored = new Set([...ranked, ...leftOut.map((s) => s.playerId)]);
+  const gamePlayers = await tx.select().from(players).where(eq(players.gameId, gameId));
+
+  return [
+    ...leaderboard.map((s) => ({ ...s, excluded: false })),
+    ...leftOut.map((s) => ({ ...s, rank: leaderboard.length + s.rank, excluded: true })),
+    ...gamePlayers
+      .filter((p) => !scored.has(p.id))
+      .map((p) => ({
+        name: p.name,
+        rank: leaderboard.length + leftOut.length + 1,
+        totalScore: 0,
+        correctCount: 0,
+        excluded: true,
+      })),
+  ];
+}
+
+/** Copies the categories with their winners, and every player's picks, into the ceremony */
+async function archiveCategoriesAndPicks(
+  tx: DbOrTx,
+  ceremonyId: string,
+  gameId: string,
+  gameCats: (typeof categories.$inferSelect)[],
+  ruleSet: ScoringRuleSet | null,
+) {
+  const catIds = gameCats.map((cat) => cat.id);
+  const gameNoms = await tx.select().from(nominations).where(inArray(nominations.categoryId, catIds));
+  const nominationMap = new Map(gameNoms.map((n) => [n.id, n]));
+  const winners = await getCategoryWinnerIds(tx, catIds);
+  const gamePlayers = await tx.select().from(players).where(eq(players.gameId, gameId));
+  const playerMap = new Map(gamePlayers.map((p) => [p.id, p]));
+  const gamePicks = await tx.select().from(picks).where(eq(picks.gameId, gameId));
+
+  // Live category id → archived category id, so picks can point at the copy
+  const archivedCatIds = new Map<string, string>();
+  for (const cat of gameCats) {
+    // A tie is archived as "A & B"
+    const catWinners = (winners.get(cat.id) ?? []).flatMap((id) => nominationMap.get(id) ?? []);
+    const id = createId();
+    archivedCatIds.set(cat.id, id);
+    await tx.insert(archivedCategories).values({
+      id,
+      ceremonyId,
+      name: cat.name,
+      order: cat.order,
+      points: resolveCategoryPoints(ruleSet, { name: cat.name, points: cat.points }),
+      winnerTitle: catWinners.map((n) => n.title).join(" & ") || null,
+      winnerSubtitle: catWinners.map((n) => n.subtitle).join(" & ") || null,
+    });
+  }
+
+  for (const pick of gamePicks) {
+    const player = playerMap.get(pick.playerId);
+    const nomination = nominationMap.get(pick.nominationId);
+    const categoryId = archivedCatIds.get(pick.categoryId);
+    if (!player || !nomination || !categoryId) continue;
+    await tx.insert(archivedPicks).values({
+      id: createId(),
+      ceremonyId,
+      categoryId,
+      playerName: player.name,
+      title: nomination.title,
+      subtitle: nomination.subtitle,
+      isCorrect: winners.get(pick.categoryId)?.includes(pick.nominationId) ?? false,
+    });
+  }
+}
+
+/**
+ * Snapshots a game's categories, winners, final standings and every player's picks
+ * into the archive tables, then resets the game so it can be reused next season.
+ * The game has to be completed first, unless `force` archives it mid-ceremony.
+ */
+export async function archiveGame(db: Db, gameId: string, { force = false }: { force?: boolean } = {}) {
+  return db.transaction(async (tx) => {
+    const [game] = await tx.select().from(games).where(eq(games.id, gameId)).limit(1);
+    if (!game) throw new Error("Game not found");
+
+    const gameCats = await tx.select().from(categories).where(eq(categories.gameId, gameId));
+    if (gameCats.length === 0) throw new Error("Nothing to archive — the game has no categories");
+    if (game.completedAt === null && !force) {
+      throw new Error("The ceremony isn't over — announce every winner first, or force the archive");
+    }
+
+    const standings = await getArchiveStandings(tx, gameId);
+    const ruleSet = await getRuleSet(tx, game.scoringRuleSetId);
+
+    const ceremony = {
+      id: createId(),
+      gameId,
+      name: game.name,
+      completedAt: game.completedAt,
+      archivedAt: Date.now(),
+    };
+    await tx.insert(archivedCeremonies).values(ceremony);
+    await archiveCategoriesAndPicks(tx, ceremony.id, gameId, gameCats, ruleSet);
+
+    for (const standing of standings) {
+      await tx.insert(archivedStandings).values({
+        id: createId(),
+        ceremonyId: ceremony.id,
+        playerName: standing.name,
+        rank: standing.rank,
+        totalScore: standing.totalScore,
+        correctCount: standing.correctCount,
+        excluded: standing.excluded,
+      });
+    }
+
+    await resetGame(tx, gameId);
+    return ceremony;
+  });
+}
+
+export async function listCeremonies(db: Db) {
+  return db.select().from(archivedCeremonies).orderBy(desc(archivedCeremonies.archivedAt));
+}
+
+/** Full read-only view of one archived ceremony, or null if it doesn't exist */
+export async function getCeremony(db: Db, ceremonyId: string) {
+  const [ceremony] = await db
+    .select()
+    .from(archivedCeremonies)
+    .where(eq(archivedCeremonies.id, ceremonyId))
+    .limit(1);
+  if (!ceremony) return null;
+
+  const cats = await db
+    .select()
+    .from(archivedCategories)
+    .where(eq(archivedCategories.ceremonyId, ceremonyId))
+    .orderBy(archivedCategories.order);
+  const standings = await db
+    .select()
+    .from(archivedStandings)
+    .where(eq(archivedStandings.ceremonyId, ceremonyId))
+    .orderBy(archivedStandings.rank);
+  const ceremonyPicks = await db
+    .select()
+    .from(archivedPicks)
+    .where(eq(archivedPicks.ceremonyId, ceremonyId));
+
+  return { ceremony, categories: cats, standings, picks: ceremonyPicks };
+}
+
+/**
+ * All-time record per player across every archived ceremony.
+ * Players are matched by name (case-insensitive) since accounts are per game.
+ * Ceremonies where a player was excluded from the leaderboard count toward their
+ * totals, but never as a win.
+ */
+export async function getPlayerRecords(db: Db): Promise<PlayerRecord[]> {
+  const allStandings = await db.select().from(archivedStandings);
+
+  const records = new Map<string, PlayerRecord>();
+  for (const s of allStandings) {
+    const key = s.playerName.trim().toLowerCase();
+    const record = records.get(key) ?? {
+      name: s.playerName,
+      ceremonies: 0,
+      wins: 0,
+      bestRank: s.rank,
+      totalScore: 0,
+      totalCorrect: 0,
+    };
+    record.ceremonies += 1;
+    if (s.rank === 1 && !s.excluded) record.wins += 1;
+    record.bestRank = Math.min(record.bestRank, s.rank);
+    record.totalScore += s.totalScore;
+    record.totalCorrect += s.correctCount;
+    records.set(key, record);
+  }
+
+  return [...records.values()].sort(
+    (a, b) => b.wins - a.wins || b.totalScore - a.totalScore || a.name.localeCompare(b.name),
+  );
+}
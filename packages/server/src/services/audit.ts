@@ -0,0 +1,37 @@
+import { createId } from "@paralleldrive/cuid2";
+import { desc, eq } from "drizzle-orm";
+import type { Db } from "../db/connection";
+import { auditEntries, games } from "../db/schema";
+
+export interface AuditInput {
+  gameId: string | null;
+  actorId: string;
+  actorName: string;
+  action: string;
+  detail: string | null;
+}
+
+export async function recordAudit(db: Db, entry: AuditInput) {
+  await db.insert(auditEntries).values({ id: createId(), ...entry, createdAt: Date.now() });
+}
+
+/** Newest first, with the game's name where there is one. Pass a gameId to see just that game. */
+export async function listAuditLog(db: Db, gameId?: string, limit = 200) {
+  const rows = await db
+    .select({
+      id: auditEntries.id,
+      gameId: auditEntries.gameId,
+      gameName: games.name,
+      actorId: auditEntries.actorId,
+      actorName: auditEntries.actorName,
+      action: auditEntries.action,
+      detail: auditEntries.detail,
+      createdAt: auditEntries.createdAt,
+    })
+    .from(auditEntries)
+    .leftJoin(games, eq(auditEntries.gameId, games.id))
+    .where(gameId ? eq(auditEntries.gameId, gameId) : undefined)
+    .orderBy(desc(auditEntries.createdAt), desc(auditEntries.id))
+    .limit(limit);
+  return rows;
+}
@@ -0,0 +1,13 @@
+import type { Db } from "../db/connection";
+import { parseBallot } from "../parsers/ballot";
+import { insertCeremony } from "./import";
+
+export function previewBallot(format: "csv" | "json", content: string) {
+  return parseBallot(format, content);
+}
+
+export async function importBallot(db: Db, gameId: string, format: "csv" | "json", content: string) {
+  const parsed = parseBallot(format, content);
+  await insertCeremony(db, gameId, parsed);
+  return parsed;
+}
@@ -1,60 +1,362 @@
-import { eq, and } from "drizzle-orm";
-import { categories, nominations, gameConfig } from "../db/schema";
-import type { Db } from "../db/connection";
+import { eq, and, asc, desc, inArray, max } from "drizzle-orm";
+import { createId } from "@paralleldrive/cuid2";
+import { categories, categoryWinners, nominations, games, picks, players, revealActions, reveals } from "../db/schema";
+import type { Db, DbOrTx } from "../db/connection";
+import { isCategoryLocked, isPicksLocked } from "@bignight/shared";
 import type { GamePhase } from "@bignight/shared";
 
-export async function markWinner(db: Db, categoryId: string, nominationId: string) {
-  await db.transaction(async (tx) => {
-    // Verify nomination belongs to category
-    const nom = await tx
-      .select()
-      .from(nominations)
-      .where(and(eq(nominations.id, nominationId), eq(nominations.categoryId, categoryId)))
-      .limit(1);
-
-    if (nom.length === 0) {
-      throw new Error("Nomination does not belong to category");
-    }
+export async function createGame(db: Db, name: string) {
+  const game = {
+    id: createId(),
+    name,
+    completedAt: null,
+    locksAt: null,
+    scoringMode: "standard" as const,
+    scoringRuleSetId: null,
+    underdogBonus: false,
+    tiebreakerQuestion: null,
+    tiebreakerAnswer: null,
+    tiebreakerRule: "closest" as const,
+    partialBallotPolicy: "exclude" as const,
+    createdAt: Date.now(),
+  };
+  await db.insert(games).values(game);
+  return game;
+}
+
+export async function listGames(db: Db) {
+  return db.select().from(games).orderBy(desc(games.createdAt));
+}
+
+/** The game as players see it: the tiebreaker answer stays hidden until the game is over, so nobody can copy it */
+export function toPublicGame<T extends { completedAt: number | null; tiebreakerAnswer: number | null }>(game: T): T {
+  return game.completedAt === null ? { ...game, tiebreakerAnswer: null } : game;
+}
+
+/** Winner changes, as seen by the reveal history and the correction broadcast. Empty = not announced. */
+export interface WinnerChange {
+  categoryId: string;
+  previousWinnerIds: string[];
+  newWinnerIds: string[];
+}
+
+/** Winning nomination ids per category — one normally, several after a tie */
+export async function getCategoryWinnerIds(db: DbOrTx, categoryIds: string[]): Promise<Map<string, string[]>> {
+  const winners = new Map<string, string[]>();
+  if (categoryIds.length === 0) return winners;
+  const rows = await db.select().from(categoryWinners).where(inArray(categoryWinners.categoryId, categoryIds));
+  for (const row of rows) {
+    winners.set(row.categoryId, [...(winners.get(row.categoryId) ?? []), row.nominationId]);
+  }
+  return winners;
+}
+
+/** Same winners, in any order */
+export function sameWinners(a: string[], b: string[]) {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+/** A category's place on the score timeline */
+interface RevealSlot {
+  sequence: number;
+  revealedAt: number;
+}
+
+/**
+ * Sets the winners and reveals the category. Returns the winners they replaced, if any.
+ * A first reveal goes at the end of the timeline unless it's given the slot it had before.
+ */
+async function setWinners(tx: DbOrTx, gameId: string, categoryId: string, nominationIds: string[], slot?: RevealSlot) {
+  // Verify category belongs to this game
+  const cat = await tx
+    .select()
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), eq(categories.gameId, gameId)))
+    .limit(1);
+
+  if (cat.length === 0) {
+    throw new Error("Category not found");
+  }
+
+  // Verify every nomination belongs to category
+  const winnerIds = [...new Set(nominationIds)];
+  const noms = await tx
+    .select({ id: nominations.id })
+    .from(nominations)
+    .where(and(inArray(nominations.id, winnerIds), eq(nominations.categoryId, categoryId)));
+
+  if (winnerIds.length === 0 || noms.length !== winnerIds.length) {
+    throw new Error("Nomination does not belong to category");
+  }
+
+  // Replace the winners and reveal
+  const previousWinnerIds = (await getCategoryWinnerIds(tx, [categoryId])).get(categoryId) ?? [];
+  await tx.delete(categoryWinners).where(eq(categoryWinners.categoryId, categoryId));
+  await tx.insert(categoryWinners).values(winnerIds.map((nominationId) => ({ id: createId(), categoryId, nominationId })));
+  await tx.update(categories).set({ isRevealed: true }).where(eq(categories.id, categoryId));
+
+  // Record the announcement for the score timeline — a corrected winner keeps its original slot
+  const now = Date.now();
+  const [existing] = await tx.select().from(reveals).where(eq(reveals.categoryId, categoryId)).limit(1);
+  if (!existing) {
+    const [last] = await tx.select({ sequence: max(reveals.sequence) }).from(reveals).where(eq(reveals.gameId, gameId));
+    await tx.insert(reveals).values({
+      id: createId(),
+      gameId,
+      categoryId,
+      sequence: slot?.sequence ?? (last?.sequence ?? 0) + 1,
+      revealedAt: slot?.revealedAt ?? now,
+    });
+  }
+
+  // Safety net: announcing a winner closes picks if the admin forgot to lock.
+  // Skipped when categories carry their own lock times — that's a staggered ceremony.
+  const [game] = await tx.select().from(games).where(eq(games.id, gameId)).limit(1);
+  const allCats = await tx.select().from(categories).where(eq(categories.gameId, gameId));
+  const staggered = allCats.some((c) => c.locksAt !== null);
+  if (game && !staggered && !isPicksLocked(game.locksAt, now)) {
+    await tx.update(games).set({ locksAt: now }).where(eq(games.id, gameId));
+  }
+
+  await updateGameCompletion(tx, gameId);
+  return previousWinnerIds;
+}
+
+/** Un-reveals the category. Returns the winners it had, if any, and the timeline slot it gave up. */
+async function unsetWinners(
+  tx: DbOrTx,
+  gameId: string,
+  categoryId: string,
+): Promise<{ previousWinnerIds: string[]; slot: RevealSlot | null }> {
+  const [cat] = await tx
+    .select({ id: categories.id })
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), eq(categories.gameId, gameId)))
+    .limit(1);
+  if (!cat) return { previousWinnerIds: [], slot: null };
+
+  const previousWinnerIds = (await getCategoryWinnerIds(tx, [categoryId])).get(categoryId) ?? [];
+  const [reveal] = await tx
+    .select({ sequence: reveals.sequence, revealedAt: reveals.revealedAt })
+    .from(reveals)
+    .where(and(eq(reveals.categoryId, categoryId), eq(reveals.gameId, gameId)))
+    .limit(1);
+  await tx.delete(categoryWinners).where(eq(categoryWinners.categoryId, categoryId));
+  await tx.update(categories).set({ isRevealed: false }).where(eq(categories.id, categoryId));
+  await tx.delete(reveals).where(and(eq(reveals.categoryId, categoryId), eq(reveals.gameId, gameId)));
+
+  await updateGameCompletion(tx, gameId);
+  return { previousWinnerIds, slot: reveal ?? null };
+}
+
+/**
+ * Marks the game completed once every category is revealed, and takes the mark away when one
+ * isn't — after a winner is set or cleared, or a category is added or deleted.
+ */
+export async function updateGameCompletion(tx: DbOrTx, gameId: string): Promise<void> {
+  const allCats = await tx
+    .select({ isRevealed: categories.isRevealed })
+    .from(categories)
+    .where(eq(categories.gameId, gameId));
+  const completed = allCats.length > 0 && allCats.every((c) => c.isRevealed);
+  const [game] = await tx.select({ completedAt: games.completedAt }).from(games).where(eq(games.id, gameId)).limit(1);
+  if (!game || completed === (game.completedAt !== null)) return;
+  await tx
+    .update(games)
+    .set({ completedAt: completed ? Date.now() : null })
+    .where(eq(games.id, gameId));
+}
 
-    // Set winner and reveal
-    await tx
-      .update(categories)
-      .set({ winnerId: nominationId, isRevealed: true })
-      .where(eq(categories.id, categoryId));
-
-    // Check if all categories are now revealed
-    const allCats = await tx.select().from(categories);
-    const allRevealed = allCats.every((c) => c.isRevealed);
-
-    if (allRevealed) {
-      await tx
-        .update(gameConfig)
-        .set({ completedAt: Date.now() })
-        .where(eq(gameConfig.id, 1));
+/** Pushes a change onto the reveal history, discarding anything that was waiting to be redone */
+async function recordRevealAction(tx: DbOrTx, gameId: string, change: WinnerChange, slot: RevealSlot | null = null) {
+  if (sameWinners(change.previousWinnerIds, change.newWinnerIds)) return;
+  await tx.delete(revealActions).where(and(eq(revealActions.gameId, gameId), eq(revealActions.undone, true)));
+  const [last] = await tx
+    .select({ sequence: max(revealActions.sequence) })
+    .from(revealActions)
+    .where(eq(revealActions.gameId, gameId));
+  await tx.insert(revealActions).values({
+    id: createId(),
+    gameId,
+    ...change,
+    sequence: (last?.sequence ?? 0) + 1,
+    revealSequence: slot?.sequence ?? null,
+    revealedAt: slot?.revealedAt ?? null,
+    createdAt: Date.now(),
+  });
+}
+
+/** Marks the category's winners — pass several for a tie. Replaces any winners marked before. */
+export async function markWinner(db: Db, gameId: string, categoryId: string, nominationIds: string[]): Promise<WinnerChange> {
+  return db.transaction(async (tx) => {
+    const previousWinnerIds = await setWinners(tx, gameId, categoryId, nominationIds);
+    const change = { categoryId, previousWinnerIds, newWinnerIds: [...new Set(nominationIds)] };
+    await recordRevealAction(tx, gameId, change);
+    return change;
+  });
+}
+
+export async function clearWinner(db: Db, gameId: string, categoryId: string): Promise<WinnerChange> {
+  return db.transaction(async (tx) => {
+    const { previousWinnerIds, slot } = await unsetWinners(tx, gameId, categoryId);
+    const change = { categoryId, previousWinnerIds, newWinnerIds: [] };
+    await recordRevealAction(tx, gameId, change, slot);
+    return change;
+  });
+}
+
+/** The ids that still name nominees of the category — a nominee can be deleted after it was marked */
+async function existingNominationIds(tx: DbOrTx, categoryId: string, nominationIds: string[]) {
+  if (nominationIds.length === 0) return [];
+  const rows = await tx
+    .select({ id: nominations.id })
+    .from(nominations)
+    .where(and(inArray(nominations.id, nominationIds), eq(nominations.categoryId, categoryId)));
+  return nominationIds.filter((id) => rows.some((row) => row.id === id));
+}
+
+/** Moves the category to the given winners for undo or redo, recording the slot it gives up if that un-reveals it */
+async function applyRevealAction(
+  tx: DbOrTx,
+  gameId: string,
+  action: typeof revealActions.$inferSelect,
+  winnerIds: string[],
+  undo: boolean,
+): Promise<WinnerChange> {
+  const { categoryId, revealSequence, revealedAt } = action;
+  if (winnerIds.length > 0) {
+    const slot = revealSequence !== null && revealedAt !== null ? { sequence: revealSequence, revealedAt } : undefined;
+    const previousWinnerIds = await setWinners(tx, gameId, categoryId, winnerIds, slot);
+    await tx.update(revealActions).set({ undone: undo }).where(eq(revealActions.id, action.id));
+    return { categoryId, previousWinnerIds, newWinnerIds: winnerIds };
+  }
+
+  const { previousWinnerIds, slot } = await unsetWinners(tx, gameId, categoryId);
+  await tx
+    .update(revealActions)
+    .set({ undone: undo, revealSequence: slot?.sequence ?? null, revealedAt: slot?.revealedAt ?? null })
+    .where(eq(revealActions.id, action.id));
+  return { categoryId, previousWinnerIds, newWinnerIds: [] };
+}
+
+/**
+ * Applies one side of the next change in the history: undo takes the latest change back to
+ * its previous winners, redo takes the earliest undone one on to its new winners.
+ * Winners deleted since are left out; a change with none of its winners left can't be
+ * replayed, so it's dropped and the next one is tried.
+ */
+async function replayRevealAction(db: Db, gameId: string, undo: boolean): Promise<WinnerChange | null> {
+  return db.transaction(async (tx) => {
+    for (;;) {
+      const [action] = await tx
+        .select()
+        .from(revealActions)
+        .where(and(eq(revealActions.gameId, gameId), eq(revealActions.undone, !undo)))
+        .orderBy(undo ? desc(revealActions.sequence) : asc(revealActions.sequence))
+        .limit(1);
+      if (!action) return null;
+
+      const targetIds = undo ? action.previousWinnerIds : action.newWinnerIds;
+      const winnerIds = await existingNominationIds(tx, action.categoryId, targetIds);
+      if (targetIds.length === 0 || winnerIds.length > 0) {
+        return applyRevealAction(tx, gameId, action, winnerIds, undo);
+      }
+      await tx.delete(revealActions).where(eq(revealActions.id, action.id));
     }
   });
 }
 
-export async function clearWinner(db: Db, categoryId: string) {
-  await db
-    .update(categories)
-    .set({ winnerId: null, isRevealed: false })
-    .where(eq(categories.id, categoryId));
+/** Reverts the latest winner change. Null when there's nothing left to undo. */
+export async function undoReveal(db: Db, gameId: string): Promise<WinnerChange | null> {
+  return replayRevealAction(db, gameId, true);
+}
+
+/** Re-applies the most recently undone change. Null when there's nothing to redo. */
+export async function redoReveal(db: Db, gameId: string): Promise<WinnerChange | null> {
+  return replayRevealAction(db, gameId, false);
+}
+
+/** What undo and redo would do next, in words the admin recognises */
+export async function getRevealHistory(db: Db, gameId: string) {
+  const actions = await db
+    .select()
+    .from(revealActions)
+    .where(eq(revealActions.gameId, gameId))
+    .orderBy(asc(revealActions.sequence));
+  const undoAction = actions.filter((a) => !a.undone).at(-1);
+  const redoAction = actions.find((a) => a.undone);
+
+  const catIds = [...new Set(actions.map((a) => a.categoryId))];
+  const cats = catIds.length > 0 ? await db.select().from(categories).where(inArray(categories.id, catIds)) : [];
+  const noms = catIds.length > 0 ? await db.select().from(nominations).where(inArray(nominations.categoryId, catIds)) : [];
+  const catName = new Map(cats.map((c) => [c.id, c.name]));
+  const titles = (ids: string[]) => noms.filter((n) => ids.includes(n.id)).map((n) => n.title);
 
-  // If game was marked complete, reset completedAt since we just un-revealed a category
+  const describe = (action: typeof undoAction) =>
+    action
+      ? {
+          categoryId: action.categoryId,
+          categoryName: catName.get(action.categoryId) ?? "",
+          previousWinnerTitles: titles(action.previousWinnerIds),
+          newWinnerTitles: titles(action.newWinnerIds),
+        }
+      : null;
+  return { undo: describe(undoAction), redo: describe(redoAction) };
+}
+
+/** Deletes a game's categories, nominations and picks. Players and the game itself are kept. */
+export async function resetGame(db: DbOrTx, gameId: string) {
+  const gameCats = await db.select({ id: categories.id }).from(categories).where(eq(categories.gameId, gameId));
+  const catIds = gameCats.map((cat) => cat.id);
+
+  await db.delete(picks).where(eq(picks.gameId, gameId));
+  await db.delete(reveals).where(eq(reveals.gameId, gameId));
+  await db.delete(revealActions).where(eq(revealActions.gameId, gameId));
+  if (catIds.length > 0) {
+    await db.delete(categoryWinners).where(inArray(categoryWinners.categoryId, catIds));
+    await db.delete(nominations).where(inArray(nominations.categoryId, catIds));
+  }
+  await db.delete(categories).where(eq(categories.gameId, gameId));
+  // Keep the tiebreaker question for next year, but not this year's answer or guesses
+  await db.update(players).set({ tiebreakerGuess: null }).where(eq(players.gameId, gameId));
   await db
-    .update(gameConfig)
-    .set({ completedAt: null })
-    .where(eq(gameConfig.id, 1));
+    .update(games)
+    .set({ completedAt: null, locksAt: null, tiebreakerAnswer: null })
+    .where(eq(games.id, gameId));
+}
+
+/** Sets (or clears, with null) when picks close. Returns the updated game, or undefined if it doesn't exist. */
+export async function setPicksLock(db: Db, gameId: string, locksAt: number | null) {
+  await db.update(games).set({ locksAt }).where(eq(games.id, gameId));
+  const [game] = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+  return game;
+}
+
+/**
+ * This game's categories that are closed to picks right now (see isCategoryLocked).
+ * Anything that reveals other players' picks — their ballots, profiles, how the group
+ * voted — sticks to these, so nobody can copy a pick they could still make themselves.
+ */
+export async function getClosedCategoryIds(db: DbOrTx, gameId: string, now: number = Date.now()): Promise<Set<string>> {
+  const [game] = await db.select({ locksAt: games.locksAt }).from(games).where(eq(games.id, gameId)).limit(1);
+  const allCats = await db
+    .select({ id: categories.id, locksAt: categories.locksAt, isRevealed: categories.isRevealed })
+    .from(categories)
+    .where(eq(categories.gameId, gameId));
+  return new Set(
+    allCats
+      .filter((cat) => isCategoryLocked({ locksAt: cat.locksAt, isRevealed: cat.isRevealed }, game?.locksAt ?? null, now))
+      .map((cat) => cat.id),
+  );
 }
 
 export function getGamePhase(
-  config: { completedAt: number | null },
+  config: { completedAt: number | null; locksAt: number | null },
   hasCategories: boolean,
-  hasRevealedCategory: boolean,
+  now: number = Date.now(),
 ): GamePhase {
   if (!hasCategories) return "setup";
   if (config.completedAt) return "completed";
-  if (hasRevealedCategory) return "locked";
+  if (isPicksLocked(config.locksAt, now)) return "locked";
   return "open";
 }
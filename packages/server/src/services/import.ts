@@ -0,0 +1,51 @@
+import { CATEGORY_POINTS, getCategoryPoints } from "@bignight/shared";
+import { createId } from "@paralleldrive/cuid2";
+import { eq } from "drizzle-orm";
+import type { Db } from "../db/connection";
+import { categories, nominations } from "../db/schema";
+import type { ParsedCeremony } from "../parsers/wikipedia";
+
+/**
+ * Inserts parsed categories and nominations into a game. Shared by every import
+ * source (Wikipedia, ballot files) so they all refuse to import over existing data.
+ * Categories without explicit points are looked up in `pointsTable` — the show's defaults.
+ */
+export async function insertCeremony(
+  db: Db,
+  gameId: string,
+  parsed: ParsedCeremony,
+  pointsTable: Record<string, number> = CATEGORY_POINTS,
+) {
+  // Check if this game already has categories
+  const existing = await db.select().from(categories).where(eq(categories.gameId, gameId)).limit(1);
+  if (existing.length > 0) {
+    throw new Error("Categories already exist. Reset the game first.");
+  }
+
+  // Insert in a transaction
+  await db.transaction(async (tx) => {
+    for (const [i, cat] of parsed.categories.entries()) {
+      const catId = createId();
+      await tx.insert(categories).values({
+        id: catId,
+        gameId,
+        name: cat.name,
+        order: i,
+        points: cat.points ?? getCategoryPoints(cat.name, pointsTable),
+        isRevealed: false,
+        createdAt: Date.now(),
+      });
+
+      for (const nom of cat.nominations) {
+        await tx.insert(nominations).values({
+          id: createId(),
+          categoryId: catId,
+          title: nom.title,
+          subtitle: nom.subtitle ?? "",
+          imageUrl: nom.imageUrl,
+          createdAt: Date.now(),
+        });
+      }
+    }
+  });
+}
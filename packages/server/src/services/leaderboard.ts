@@ -1,55 +1,94 @@
-import { eq } from "drizzle-orm";
-import { calculatePlayerScore, buildLeaderboard } from "@bignight/shared";
-import type { PlayerScore, LeaderboardPlayer } from "@bignight/shared";
-import type { ScoringPick } from "@bignight/shared";
-import { categories, picks, players } from "../db/schema";
-import type { Db } from "../db/connection";
-
-export async function getLeaderboard(db: Db): Promise<LeaderboardPlayer[]> {
-  // 1. Get all categories
-  const allCategories = await db.select().from(categories);
-  if (allCategories.length === 0) return [];
-
-  const categoryCount = allCategories.length;
-  const categoryMap = new Map(allCategories.map((c) => [c.id, c]));
-
-  // 2. Get all picks with player info
-  const allPicks = await db.select().from(picks);
-  const allPlayers = await db.select().from(players);
-  const playerMap = new Map(allPlayers.map((p) => [p.id, p]));
-
-  // 3. Group picks by player
-  const picksByPlayer = new Map<string, typeof allPicks>();
-  for (const pick of allPicks) {
-    const existing = picksByPlayer.get(pick.playerId) ?? [];
-    existing.push(pick);
-    picksByPlayer.set(pick.playerId, existing);
-  }
+import type { LeaderboardPlayer, PlayerBallot, ScoringCategory, TimelineStep } from "@bignight/shared";
+import { getScoringConfig, scoreBallots } from "@bignight/shared";
+import { asc, eq, inArray } from "drizzle-orm";
+import type { DbOrTx } from "../db/connection";
+import { categories, games, nominations, picks, players, reveals } from "../db/schema";
+import { getCategoryWinnerIds } from "./game";
+import { getRuleSet } from "./scoring";
+
+/** Categories, ballots and scoring config — everything scoreBallots() needs for one game */
+export async function loadScoringInputs(db: DbOrTx, gameId: string) {
+  const allCategories = await db.select().from(categories).where(eq(categories.gameId, gameId));
+  const winners = await getCategoryWinnerIds(db, allCategories.map((c) => c.id));
+  const scoringCategories: ScoringCategory[] = allCategories.map((c) => ({
+    id: c.id,
+    name: c.name,
+    points: c.points,
+    winnerIds: winners.get(c.id) ?? [],
+    isRevealed: c.isRevealed,
+  }));
+
+  const [game] = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+  const ruleSet = await getRuleSet(db, game?.scoringRuleSetId ?? null);
+  const ballots = await getBallots(db, gameId);
+
+  return { categories: scoringCategories, ballots, config: getScoringConfig(game, ruleSet) };
+}
+
+export async function getLeaderboard(db: DbOrTx, gameId: string): Promise<LeaderboardPlayer[]> {
+  const inputs = await loadScoringInputs(db, gameId);
+  if (inputs.categories.length === 0) return [];
 
-  // 4. Filter: only players who picked ALL categories
-  // 5. Calculate score for each player
-  const playerScores: PlayerScore[] = [];
+  // Same code the what-if page runs in the browser
+  return scoreBallots(inputs.ballots, inputs.categories, inputs.config);
+}
 
-  for (const [playerId, playerPicks] of picksByPlayer) {
-    if (playerPicks.length < categoryCount) continue;
+/**
+ * Replays the ceremony: standings after each announcement, in the order winners were
+ * revealed. Each step scores only the categories announced up to that point.
+ */
+export async function getScoreTimeline(db: DbOrTx, gameId: string): Promise<TimelineStep[]> {
+  const inputs = await loadScoringInputs(db, gameId);
+  const events = await db
+    .select({
+      sequence: reveals.sequence,
+      categoryId: reveals.categoryId,
+      revealedAt: reveals.revealedAt,
+    })
+    .from(reveals)
+    .where(eq(reveals.gameId, gameId))
+    .orderBy(asc(reveals.sequence));
+  // A tie reads "A & B"
+  const winnerIds = new Set(inputs.categories.flatMap((c) => c.winnerIds));
+  const winnerNoms =
+    winnerIds.size > 0 ? await db.select().from(nominations).where(inArray(nominations.id, [...winnerIds])) : [];
+  const winnerTitle = (categoryId: string) =>
+    winnerNoms
+      .filter((n) => n.categoryId === categoryId)
+      .map((n) => n.title)
+      .join(" & ") || null;
 
-    const player = playerMap.get(playerId);
-    if (!player) continue;
+  const revealedSoFar = new Set<string>();
+  return events.map((event) => {
+    revealedSoFar.add(event.categoryId);
+    const asOfNow = inputs.categories.map((c) =>
+      revealedSoFar.has(c.id) ? c : { ...c, winnerIds: [], isRevealed: false },
+    );
+    const standings = scoreBallots(inputs.ballots, asOfNow, inputs.config);
+    return {
+      ...event,
+      winnerTitle: winnerTitle(event.categoryId),
+      categoryName: inputs.categories.find((c) => c.id === event.categoryId)?.name ?? "",
+      standings: standings.map(({ playerId, name, totalScore, rank }) => ({ playerId, name, totalScore, rank })),
+    };
+  });
+}
 
-    const scoringPicks: ScoringPick[] = playerPicks.map((pick) => {
-      const cat = categoryMap.get(pick.categoryId)!;
-      return {
-        nominationId: pick.nominationId,
-        categoryWinnerId: cat.winnerId,
-        categoryIsRevealed: cat.isRevealed,
-        categoryPoints: cat.points,
-      };
-    });
+/** Each player who has made at least one pick, with their picks. Guesses are included as stored. */
+export async function getBallots(db: DbOrTx, gameId: string): Promise<PlayerBallot[]> {
+  const allPicks = await db.select().from(picks).where(eq(picks.gameId, gameId));
+  const allPlayers = await db.select().from(players).where(eq(players.gameId, gameId));
 
-    const { totalScore, correctCount } = calculatePlayerScore(scoringPicks);
-    playerScores.push({ playerId, name: player.name, totalScore, correctCount });
+  const picksByPlayer = new Map<string, PlayerBallot["picks"]>();
+  for (const pick of allPicks) {
+    const existing = picksByPlayer.get(pick.playerId) ?? [];
+    existing.push({ categoryId: pick.categoryId, nominationId: pick.nominationId, confidence: pick.confidence });
+    picksByPlayer.set(pick.playerId, existing);
   }
 
-  // 6. Build ranked leaderboard
-  return buildLeaderboard(playerScores);
+  return allPlayers.flatMap((player) => {
+    const playerPicks = picksByPlayer.get(player.id);
+    if (!playerPicks) return [];
+    return [{ playerId: player.id, name: player.name, tiebreakerGuess: player.tiebreakerGuess, picks: playerPicks }];
+  });
 }
@@ -0,0 +1,127 @@
+import type { MergeConflictStrategy } from "@bignight/shared";
+import { and, eq, ne } from "drizzle-orm";
+import type { Db } from "../db/connection";
+import { picks, players } from "../db/schema";
+import { getClosedCategoryIds } from "./game";
+
+async function findPlayer(db: Db, gameId: string, playerId: string) {
+  const [player] = await db
+    .select()
+    .from(players)
+    .where(and(eq(players.id, playerId), eq(players.gameId, gameId)))
+    .limit(1);
+  return player ?? null;
+}
+
+/** Returns null if the player isn't in this game; throws if another player already has the name */
+export async function renamePlayer(db: Db, gameId: string, playerId: string, name: string) {
+  const player = await findPlayer(db, gameId, playerId);
+  if (!player) return null;
+
+  const [clash] = await db
+    .select({ id: players.id })
+    .from(players)
+    .where(and(eq(players.gameId, gameId), eq(players.name, name), ne(players.id, playerId)))
+    .limit(1);
+  if (clash) {
+    throw new Error(`A player named "${name}" already exists`);
+  }
+
+  await db.update(players).set({ name }).where(eq(players.id, playerId));
+  return { id: playerId, name };
+}
+
+/** Removes the player; their picks go with them (FK cascade). False if they aren't in this game. */
+export async function deletePlayer(db: Db, gameId: string, playerId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(players)
+    .where(and(eq(players.id, playerId), eq(players.gameId, gameId)))
+    .returning({ id: players.id });
+  return deleted.length > 0;
+}
+
+type PickRow = typeof picks.$inferSelect;
+
+/**
+ * Splits the source's picks into those that move across and the target picks they displace.
+ * In closed categories the target's pick always stays, whatever `onConflict` says, so a merge
+ * can't rewrite a ballot after the winner is known. A source pick still fills one the target
+ * left empty there, and that counts as a conflict for the admin to look at.
+ */
+function resolvePickConflicts(
+  sourcePicks: PickRow[],
+  targetPicks: PickRow[],
+  onConflict: MergeConflictStrategy,
+  closedCategoryIds: Set<string>,
+) {
+  const targetByCategory = new Map(targetPicks.map((p) => [p.categoryId, p]));
+  const moving: PickRow[] = [];
+  const displaced: PickRow[] = [];
+  let conflicts = 0;
+  for (const pick of sourcePicks) {
+    const existing = targetByCategory.get(pick.categoryId);
+    const closed = closedCategoryIds.has(pick.categoryId);
+    if (existing || closed) conflicts++;
+    const takeSource =
+      !existing ||
+      (!closed && (onConflict === "source" || (onConflict === "newest" && pick.updatedAt > existing.updatedAt)));
+    if (!takeSource) continue;
+    moving.push(pick);
+    if (existing) displaced.push(existing);
+  }
+  return { moving, displaced, conflicts };
+}
+
+/**
+ * Folds one account into another — for the player who joined as both "Sam" and "sam".
+ * The target keeps its name and PIN; the source's picks move across and the source is removed.
+ * Where both picked in the same category, `onConflict` decides: keep the target's pick,
+ * take the source's, or take whichever was changed most recently — except in categories already
+ * closed to picks, where the target's pick always stays (see resolvePickConflicts). A moved pick keeps its
+ * confidence rank unless the target already uses that rank, in which case it's left unranked.
+ * Returns null if either player isn't in this game.
+ */
+export async function mergePlayers(
+  db: Db,
+  gameId: string,
+  sourceId: string,
+  targetId: string,
+  onConflict: MergeConflictStrategy,
+) {
+  if (sourceId === targetId) {
+    throw new Error("Can't merge a player into themselves");
+  }
+  const source = await findPlayer(db, gameId, sourceId);
+  const target = await findPlayer(db, gameId, targetId);
+  if (!source || !target) return null;
+
+  return db.transaction(async (tx) => {
+    const sourcePicks = await tx.select().from(picks).where(eq(picks.playerId, sourceId));
+    const targetPicks = await tx.select().from(picks).where(eq(picks.playerId, targetId));
+    const closedCategoryIds = await getClosedCategoryIds(tx, gameId);
+    const { moving, displaced, conflicts } = resolvePickConflicts(sourcePicks, targetPicks, onConflict, closedCategoryIds);
+
+    const displacedIds = new Set(displaced.map((p) => p.id));
+    for (const id of displacedIds) {
+      await tx.delete(picks).where(eq(picks.id, id));
+    }
+    const usedRanks = new Set(
+      targetPicks.filter((p) => !displacedIds.has(p.id) && p.confidence !== null).map((p) => p.confidence),
+    );
+    // Drop the source's own copies first so the moved rows don't trip the unique indexes
+    await tx.delete(picks).where(eq(picks.playerId, sourceId));
+    for (const pick of moving) {
+      const confidence = pick.confidence !== null && !usedRanks.has(pick.confidence) ? pick.confidence : null;
+      if (confidence !== null) usedRanks.add(confidence);
+      await tx.insert(picks).values({ ...pick, playerId: targetId, confidence });
+    }
+
+    await tx
+      .update(players)
+      .set({ tiebreakerGuess: target.tiebreakerGuess ?? source.tiebreakerGuess })
+      .where(eq(players.id, targetId));
+    await tx.delete(players).where(eq(players.id, sourceId));
+
+    return { player: { id: target.id, name: target.name }, movedPicks: moving.length, conflicts };
+  });
+}
@@ -0,0 +1,56 @@
+import type { CreateScoringRuleSet, ScoringRuleSet } from "@bignight/shared";
+import { BUILT_IN_RULE_SETS } from "@bignight/shared";
+import { createId } from "@paralleldrive/cuid2";
+import { asc, eq } from "drizzle-orm";
+import type { Db, DbOrTx } from "../db/connection";
+import { games, scoringRuleSets } from "../db/schema";
+
+function toRuleSet(row: typeof scoringRuleSets.$inferSelect): ScoringRuleSet {
+  return {
+    id: row.id,
+    name: row.name,
+    points: row.points,
+    defaultPoints: row.defaultPoints,
+    underdogBonus: false,
+    builtIn: false,
+  };
+}
+
+/** Built-in presets first, then custom tables alphabetically */
+export async function listRuleSets(db: Db): Promise<ScoringRuleSet[]> {
+  const custom = await db.select().from(scoringRuleSets).orderBy(asc(scoringRuleSets.name));
+  return [...BUILT_IN_RULE_SETS, ...custom.map(toRuleSet)];
+}
+
+/** Resolves a game's scoringRuleSetId. Null (or a since-deleted id) means per-category points. */
+export async function getRuleSet(db: DbOrTx, ruleSetId: string | null): Promise<ScoringRuleSet | null> {
+  if (!ruleSetId) return null;
+  const builtIn = BUILT_IN_RULE_SETS.find((r) => r.id === ruleSetId);
+  if (builtIn) return builtIn;
+  const [row] = await db.select().from(scoringRuleSets).where(eq(scoringRuleSets.id, ruleSetId)).limit(1);
+  return row ? toRuleSet(row) : null;
+}
+
+export async function createRuleSet(db: Db, input: CreateScoringRuleSet): Promise<ScoringRuleSet> {
+  const taken = await listRuleSets(db);
+  if (taken.some((r) => r.name.toLowerCase() === input.name.toLowerCase())) {
+    throw new Error(`A rule set named "${input.name}" already exists`);
+  }
+  const row = { id: createId(), ...input, createdAt: Date.now() };
+  await db.insert(scoringRuleSets).values(row);
+  return toRuleSet(row);
+}
+
+/** Deletes a custom rule set. Games that used it fall back to per-category points. */
+export async function deleteRuleSet(db: Db, ruleSetId: string) {
+  if (BUILT_IN_RULE_SETS.some((r) => r.id === ruleSetId)) {
+    throw new Error("Built-in rule sets can't be deleted");
+  }
+  const [row] = await db.select().from(scoringRuleSets).where(eq(scoringRuleSets.id, ruleSetId)).limit(1);
+  if (!row) throw new Error("Rule set not found");
+
+  await db.transaction(async (tx) => {
+    await tx.update(games).set({ scoringRuleSetId: null }).where(eq(games.scoringRuleSetId, ruleSetId));
+    await tx.delete(scoringRuleSets).where(eq(scoringRuleSets.id, ruleSetId));
+  });
+}
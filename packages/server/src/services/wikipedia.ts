@@ -1,48 +1,25 @@
-import { parseWikipediaUrl } from "../parsers/wikipedia";
-import { createId } from "@paralleldrive/cuid2";
-import { getCategoryPoints } from "@bignight/shared";
-import { categories, nominations } from "../db/schema";
+import { AWARD_SHOW_NAMES, type AwardShow } from "@bignight/shared";
+import { getAwardShowParser } from "../parsers/award-shows";
+import { parseWikipediaUrl, parseWikipediaWikitext } from "../parsers/wikipedia";
+import { insertCeremony } from "./import";
 import type { Db } from "../db/connection";
 
-export async function previewImport(url: string) {
-  return parseWikipediaUrl(url);
+export async function previewImport(url: string, show: AwardShow = "oscars") {
+  return parseWikipediaUrl(url, show);
 }
 
-export async function importFromWikipedia(url: string, db: Db) {
-  const parsed = await parseWikipediaUrl(url);
-
-  // Check if categories already exist
-  const existing = await db.select().from(categories).limit(1);
-  if (existing.length > 0) {
-    throw new Error("Categories already exist. Reset the game first.");
-  }
-
-  // Insert in a transaction
-  await db.transaction(async (tx) => {
-    for (let i = 0; i < parsed.categories.length; i++) {
-      const cat = parsed.categories[i];
-      const catId = createId();
-      await tx.insert(categories).values({
-        id: catId,
-        name: cat.name,
-        order: i,
-        points: getCategoryPoints(cat.name),
-        isRevealed: false,
-        createdAt: Date.now(),
-      });
+export async function importFromWikipedia(url: string, db: Db, gameId: string, show: AwardShow = "oscars") {
+  const parsed = await parseWikipediaUrl(url, show);
+  await insertCeremony(db, gameId, parsed, getAwardShowParser(show).points);
+  return parsed;
+}
 
-      for (const nom of cat.nominations) {
-        await tx.insert(nominations).values({
-          id: createId(),
-          categoryId: catId,
-          title: nom.title,
-          subtitle: nom.subtitle ?? "",
-          imageUrl: nom.imageUrl,
-          createdAt: Date.now(),
-        });
-      }
-    }
-  });
+export function previewWikitext(wikitext: string, show: AwardShow = "oscars") {
+  return parseWikipediaWikitext(wikitext, AWARD_SHOW_NAMES[show], show);
+}
 
+export async function importFromWikitext(db: Db, gameId: string, wikitext: string, show: AwardShow = "oscars") {
+  const parsed = parseWikipediaWikitext(wikitext, AWARD_SHOW_NAMES[show], show);
+  await insertCeremony(db, gameId, parsed, getAwardShowParser(show).points);
   return parsed;
 }
@@ -1,21 +1,31 @@
 import { createTestDb } from "./db/connection";
 import { createApp } from "./app";
 import { signToken } from "./auth/token";
-import { categories, nominations } from "./db/schema";
+import { categories, categoryWinners, games, nominations } from "./db/schema";
 import { createId } from "@paralleldrive/cuid2";
 import type { Db } from "./db/connection";
+import { eq } from "drizzle-orm";
 
+/** Creates an app backed by a fresh in-memory DB with one game already set up. */
 export function createTestApp() {
   const db = createTestDb();
   const app = createApp(db);
-  return { app, db };
+  const gameId = createId();
+  db.insert(games).values({ id: gameId, name: "Test Pool", createdAt: Date.now() }).run();
+  return { app, db, gameId };
 }
 
-export async function createPlayerToken(playerId: string, isAdmin = false) {
-  return signToken({ playerId, isAdmin });
+export async function createPlayerToken(playerId: string, isAdmin = false, gameId: string | null = null) {
+  return signToken({ playerId, isAdmin, gameId });
 }
 
-export async function seedCategories(db: Db) {
+export async function seedGame(db: Db, name = "Other Pool") {
+  const gameId = createId();
+  await db.insert(games).values({ id: gameId, name, createdAt: Date.now() });
+  return gameId;
+}
+
+export async function seedCategories(db: Db, gameId: string) {
   const categoryId = createId();
   const otherCategoryId = createId();
   const nominationId = createId();
@@ -24,8 +34,8 @@ export async function seedCategories(db: Db) {
   const now = Date.now();
 
   await db.insert(categories).values([
-    { id: categoryId, name: "Best Picture", order: 1, createdAt: now },
-    { id: otherCategoryId, name: "Best Director", order: 2, createdAt: now },
+    { id: categoryId, gameId, name: "Best Picture", order: 1, createdAt: now },
+    { id: otherCategoryId, gameId, name: "Best Director", order: 2, createdAt: now },
   ]);
 
   await db.insert(nominations).values([
@@ -36,3 +46,9 @@ export async function seedCategories(db: Db) {
 
   return { categoryId, otherCategoryId, nominationId, nominationId2, otherNominationId };
 }
+
+/** Reveals a category with this winner straight in the DB — none of markWinner's side effects (auto-lock, reveal order) */
+export async function setRevealedWinner(db: Db, categoryId: string, nominationId: string) {
+  await db.insert(categoryWinners).values({ id: createId(), categoryId, nominationId });
+  await db.update(categories).set({ isRevealed: true }).where(eq(categories.id, categoryId));
+}
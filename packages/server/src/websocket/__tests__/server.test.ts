@@ -1,15 +1,15 @@
 import { createServer } from "node:http";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import { io as ioClient, type Socket } from "socket.io-client";
-import { eq } from "drizzle-orm";
 import { Server } from "socket.io";
 import { ALLOWED_REACTIONS, WEBSOCKET_EVENTS } from "@bignight/shared";
 import { createId } from "@paralleldrive/cuid2";
 import { signToken } from "../../auth/token";
 import { createTestDb } from "../../db/connection";
-import { categories, nominations, picks, players } from "../../db/schema";
+import { categories, games, nominations, picks, players } from "../../db/schema";
 import { createSocketServer, configureSocketServer } from "../server";
 import type { Db } from "../../db/connection";
+import { setRevealedWinner } from "../../test-utils";
 
 function startTestServer(): { port: number; stop: () => Promise<void> } {
   const httpServer = createServer();
@@ -22,10 +22,10 @@ function startTestServer(): { port: number; stop: () => Promise<void> } {
   };
 }
 
-function connectClient(port: number, token?: string): Socket {
+function connectClient(port: number, token?: string, gameId?: string): Socket {
   return ioClient(`http://localhost:${port}`, {
     transports: ["websocket"],
-    auth: token ? { token } : {},
+    auth: token ? { token, gameId } : {},
   });
 }
 
@@ -57,7 +57,7 @@ describe("WebSocket server", () => {
         httpServer.listen(0, async () => {
           const addr = httpServer.address();
           port = typeof addr === "object" && addr ? addr.port : 0;
-          validToken = await signToken({ playerId: "player_1", isAdmin: false });
+          validToken = await signToken({ playerId: "player_1", isAdmin: false, gameId: "game_1" });
           stopServer = () =>
             new Promise((res, rej) => httpServer.close((err) => (err ? rej(err) : res())));
           resolve();
@@ -92,7 +92,7 @@ describe("WebSocket server", () => {
   });
 
   it("broadcasts a valid reaction emoji to all clients in the game room", async () => {
-    const token2 = await signToken({ playerId: "player_2", isAdmin: false });
+    const token2 = await signToken({ playerId: "player_2", isAdmin: false, gameId: "game_1" });
 
     const sender = connectClient(port, validToken);
     const receiver = connectClient(port, token2);
@@ -114,6 +114,38 @@ describe("WebSocket server", () => {
     receiver.disconnect();
   });
 
+  it("does not broadcast reactions to clients in another game", async () => {
+    const otherGameToken = await signToken({ playerId: "player_3", isAdmin: false, gameId: "game_2" });
+
+    const sender = connectClient(port, validToken);
+    const outsider = connectClient(port, otherGameToken);
+    await Promise.all([waitForConnect(sender), waitForConnect(outsider)]);
+
+    let outsiderReceived = false;
+    outsider.on(WEBSOCKET_EVENTS.REACTION_BROADCAST, () => {
+      outsiderReceived = true;
+    });
+
+    const ownBroadcast = waitForEvent(sender, WEBSOCKET_EVENTS.REACTION_BROADCAST);
+    sender.emit(WEBSOCKET_EVENTS.REACTION_SEND, { emoji: ALLOWED_REACTIONS[0] });
+    await ownBroadcast;
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(outsiderReceived).toBe(false);
+
+    sender.disconnect();
+    outsider.disconnect();
+  });
+
+  it("rejects an admin connection that does not name a game", async () => {
+    const adminToken = await signToken({ playerId: "admin", isAdmin: true, gameId: null });
+    const socket = connectClient(port, adminToken);
+    await expect(waitForConnect(socket)).rejects.toMatchObject({
+      message: expect.stringContaining("Game required"),
+    });
+    socket.disconnect();
+  });
+
   it("does not broadcast an invalid reaction emoji", async () => {
     const socket = connectClient(port, validToken);
     await waitForConnect(socket);
@@ -147,7 +179,7 @@ describe("Reaction broadcast rank field", () => {
         httpServer.listen(0, async () => {
           const addr = httpServer.address();
           port = typeof addr === "object" && addr ? addr.port : 0;
-          validToken = await signToken({ playerId: "player_1", isAdmin: false });
+          validToken = await signToken({ playerId: "player_1", isAdmin: false, gameId: "game_1" });
           stopServer = () =>
             new Promise((res, rej) => httpServer.close((err) => (err ? rej(err) : res())));
           resolve();
@@ -185,35 +217,35 @@ describe("Reaction broadcast with db", () => {
   let db: Db;
   let playerToken: string;
   let testPlayerId: string;
+  let gameId: string;
 
   beforeAll(async () => {
     db = createTestDb();
 
-    // Insert order respects FK constraints: category (no winner yet) -> nomination -> update category winner -> player -> pick
+    // Insert order respects FK constraints: game -> category (no winner yet) -> nomination -> update category winner -> player -> pick
+    gameId = createId();
     const catId = createId();
     const nomId = createId();
     testPlayerId = createId();
 
+    await db.insert(games).values({ id: gameId, name: "Office Pool", createdAt: Date.now() });
     await db.insert(categories).values({
-      id: catId, name: "Best Picture", order: 0, points: 1,
-      winnerId: null, isRevealed: false, createdAt: Date.now(),
+      id: catId, gameId, name: "Best Picture", order: 0, points: 1, isRevealed: false, createdAt: Date.now(),
     });
     await db.insert(nominations).values({
       id: nomId, categoryId: catId, title: "Film A",
       subtitle: "", imageUrl: null, createdAt: Date.now(),
     });
-    await db.update(categories)
-      .set({ winnerId: nomId, isRevealed: true })
-      .where(eq(categories.id, catId));
+    await setRevealedWinner(db, catId, nomId);
     await db.insert(players).values({
-      id: testPlayerId, name: "Drew", pin: "hashed", createdAt: Date.now(),
+      id: testPlayerId, gameId, name: "Drew", pin: "hashed", createdAt: Date.now(),
     });
     await db.insert(picks).values({
-      id: createId(), playerId: testPlayerId, categoryId: catId,
+      id: createId(), gameId, playerId: testPlayerId, categoryId: catId,
       nominationId: nomId, createdAt: Date.now(), updatedAt: Date.now(),
     });
 
-    playerToken = await signToken({ playerId: testPlayerId, isAdmin: false });
+    playerToken = await signToken({ playerId: testPlayerId, isAdmin: false, gameId });
 
     const httpServer = createServer();
     const io = new Server(httpServer, { cors: { origin: "*" } });
@@ -251,4 +283,26 @@ describe("Reaction broadcast with db", () => {
 
     sender.disconnect();
   });
+
+  it("rejects an admin connection to a game that does not exist", async () => {
+    const adminToken = await signToken({ playerId: "admin", isAdmin: true, gameId: null });
+    const socket = connectClient(port, adminToken, "no_such_game");
+    await expect(waitForConnect(socket)).rejects.toMatchObject({
+      message: expect.stringContaining("Game not found"),
+    });
+    socket.disconnect();
+
+    const admin = connectClient(port, adminToken, gameId);
+    await waitForConnect(admin);
+    admin.disconnect();
+  });
+
+  it("rejects the token of a player who has been deleted", async () => {
+    const goneToken = await signToken({ playerId: createId(), isAdmin: false, gameId });
+    const socket = connectClient(port, goneToken);
+    await expect(waitForConnect(socket)).rejects.toMatchObject({
+      message: expect.stringContaining("Invalid or expired token"),
+    });
+    socket.disconnect();
+  });
 });
@@ -1,12 +1,36 @@
 import { Server } from "socket.io";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { ALLOWED_REACTIONS, WEBSOCKET_EVENTS } from "@bignight/shared";
-import { verifyToken } from "../auth/token";
-import { players } from "../db/schema";
+import { type TokenPayload, verifyToken } from "../auth/token";
+import { games, players } from "../db/schema";
+import { findAdminById } from "../services/admins";
 import { getLeaderboard } from "../services/leaderboard";
 import type { Db } from "../db/connection";
 
-const GAME_ROOM = "game";
+/** Socket.io room for a single game. Leaderboard updates and reactions never cross games. */
+export function gameRoom(gameId: string): string {
+  return `game:${gameId}`;
+}
+
+/**
+ * Name shown on the socket's reactions, looked up from the DB when available.
+ * Null when the token's admin account or player has since been deleted, or the player merged away.
+ */
+async function resolveDisplayName(payload: TokenPayload, gameId: string, db?: Db): Promise<string | null> {
+  if (!db) return payload.isAdmin ? (payload.name ?? "Admin") : "Player";
+  if (payload.isAdmin) return (await findAdminById(db, payload.playerId))?.name ?? null;
+  const [player] = await db
+    .select({ name: players.name })
+    .from(players)
+    .where(and(eq(players.id, payload.playerId), eq(players.gameId, gameId)))
+    .limit(1);
+  return player?.name ?? null;
+}
+
+async function gameExists(db: Db, gameId: string): Promise<boolean> {
+  const [game] = await db.select({ id: games.id }).from(games).where(eq(games.id, gameId)).limit(1);
+  return game !== undefined;
+}
 
 /**
  * Attaches auth middleware and game event handlers to a Socket.io Server instance.
@@ -23,22 +47,33 @@ export function configureSocketServer(io: Server, db?: Db): void {
     if (!payload) {
       return next(new Error("Invalid or expired token"));
     }
-    socket.data.playerId = payload.playerId;
-    socket.data.isAdmin = payload.isAdmin;
+    // Players are bound to the game in their token; admins choose one at handshake
+    const gameId = payload.isAdmin
+      ? (socket.handshake.auth.gameId as string | undefined)
+      : payload.gameId;
+    if (!gameId) {
+      return next(new Error("Game required"));
+    }
+    if (db && !(await gameExists(db, gameId))) {
+      return next(new Error("Game not found"));
+    }
 
-    // Look up player name from DB if available
-    if (db && payload.playerId !== "admin") {
-      const result = await db.select({ name: players.name }).from(players).where(eq(players.id, payload.playerId)).limit(1);
-      socket.data.playerName = result[0]?.name ?? "Player";
-    } else {
-      socket.data.playerName = payload.isAdmin ? "Admin" : "Player";
+    const playerName = await resolveDisplayName(payload, gameId, db);
+    if (playerName === null) {
+      return next(new Error("Invalid or expired token"));
     }
 
+    socket.data.playerId = payload.playerId;
+    socket.data.isAdmin = payload.isAdmin;
+    socket.data.gameId = gameId;
+    socket.data.playerName = playerName;
+
     next();
   });
 
   io.on("connection", (socket) => {
-    socket.join(GAME_ROOM);
+    const room = gameRoom(socket.data.gameId);
+    socket.join(room);
 
     socket.on(WEBSOCKET_EVENTS.REACTION_SEND, async (data: unknown) => {
       if (!data || typeof data !== "object" || !("emoji" in data)) return;
@@ -48,12 +83,12 @@ export function configureSocketServer(io: Server, db?: Db): void {
       // Look up current rank if db is available
       let rank: number | null = null;
       if (db) {
-        const leaderboard = await getLeaderboard(db);
+        const leaderboard = await getLeaderboard(db, socket.data.gameId);
         const entry = leaderboard.find((p) => p.playerId === socket.data.playerId);
         rank = entry?.rank ?? null;
       }
 
-      io.to(GAME_ROOM).emit(WEBSOCKET_EVENTS.REACTION_BROADCAST, {
+      io.to(room).emit(WEBSOCKET_EVENTS.REACTION_BROADCAST, {
         playerId: socket.data.playerId,
         name: socket.data.playerName ?? "Player",
         emoji,
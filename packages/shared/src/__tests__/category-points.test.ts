@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { getCategoryPoints, CATEGORY_POINTS } from "../constants";
+import { getCategoryPoints, AWARD_SHOW_POINTS, AWARD_SHOWS, CATEGORY_POINTS } from "../constants";
 
 describe("getCategoryPoints", () => {
   it("returns 5 for Best Picture", () => {
@@ -44,6 +44,16 @@ describe("getCategoryPoints", () => {
   });
 });
 
+describe("getCategoryPoints with a custom table", () => {
+  it("looks names up in the given table", () => {
+    expect(getCategoryPoints("best sound", { "Best Sound": 4 })).toBe(4);
+  });
+
+  it("returns the given fallback for unlisted categories", () => {
+    expect(getCategoryPoints("Best Picture", { "Best Sound": 4 }, 0)).toBe(0);
+  });
+});
+
 describe("CATEGORY_POINTS", () => {
   it("has entries for all major Oscar categories", () => {
     const names = Object.keys(CATEGORY_POINTS);
@@ -57,3 +67,16 @@ describe("CATEGORY_POINTS", () => {
     }
   });
 });
+
+describe("AWARD_SHOW_POINTS", () => {
+  it("has a table for every show, with the Oscars using CATEGORY_POINTS", () => {
+    expect(Object.keys(AWARD_SHOW_POINTS).sort()).toEqual([...AWARD_SHOWS].sort());
+    expect(AWARD_SHOW_POINTS.oscars).toBe(CATEGORY_POINTS);
+  });
+
+  it("weights each show's top award above its craft categories", () => {
+    expect(getCategoryPoints("Best Motion Picture – Drama", AWARD_SHOW_POINTS["golden-globes"])).toBe(5);
+    expect(getCategoryPoints("Outstanding Drama Series", AWARD_SHOW_POINTS.emmys)).toBe(5);
+    expect(getCategoryPoints("Outstanding Casting for a Drama Series", AWARD_SHOW_POINTS.emmys)).toBe(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { isCategoryLocked, isPicksLocked, isTiebreakerLocked } from "../constants";
+
+describe("isPicksLocked", () => {
+  it("is open when no lock time is set", () => {
+    expect(isPicksLocked(null, 1000)).toBe(false);
+  });
+
+  it("is open before the lock time", () => {
+    expect(isPicksLocked(2000, 1999)).toBe(false);
+  });
+
+  it("is locked at and after the lock time", () => {
+    expect(isPicksLocked(2000, 2000)).toBe(true);
+    expect(isPicksLocked(2000, 5000)).toBe(true);
+  });
+});
+
+describe("isCategoryLocked", () => {
+  const open = { locksAt: null, isRevealed: false };
+
+  it("is open when neither the game nor the category is locked", () => {
+    expect(isCategoryLocked(open, null, 1000)).toBe(false);
+  });
+
+  it("follows its own lock time while the game stays open", () => {
+    expect(isCategoryLocked({ ...open, locksAt: 2000 }, null, 1999)).toBe(false);
+    expect(isCategoryLocked({ ...open, locksAt: 2000 }, null, 2000)).toBe(true);
+  });
+
+  it("is locked once the game-wide lock passes", () => {
+    expect(isCategoryLocked({ ...open, locksAt: 5000 }, 2000, 3000)).toBe(true);
+  });
+
+  it("is locked once its winner is announced", () => {
+    expect(isCategoryLocked({ ...open, isRevealed: true }, null, 1000)).toBe(true);
+  });
+});
+
+describe("isTiebreakerLocked", () => {
+  const game = { locksAt: null, completedAt: null, tiebreakerAnswer: null };
+  const open = { locksAt: null, isRevealed: false };
+
+  it("is open while every category is open and no answer is set", () => {
+    expect(isTiebreakerLocked(game, [open, open], 1000)).toBe(false);
+  });
+
+  it("locks with the first category to close, even without a game lock", () => {
+    expect(isTiebreakerLocked(game, [open, { locksAt: 900, isRevealed: false }], 1000)).toBe(true);
+    expect(isTiebreakerLocked(game, [open, { locksAt: null, isRevealed: true }], 1000)).toBe(true);
+  });
+
+  it("locks once the answer is set or the game is over", () => {
+    expect(isTiebreakerLocked({ ...game, tiebreakerAnswer: 212 }, [open], 1000)).toBe(true);
+    expect(isTiebreakerLocked({ ...game, completedAt: 900 }, [open], 1000)).toBe(true);
+  });
+
+  it("locks with the game-wide lock", () => {
+    expect(isTiebreakerLocked({ ...game, locksAt: 900 }, [], 1000)).toBe(true);
+  });
+});
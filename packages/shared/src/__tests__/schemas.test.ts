@@ -1,9 +1,9 @@
 import { describe, expect, it } from "vitest";
 import {
-  PlayerSchema, CreatePlayerSchema, SubmitPickSchema, MarkWinnerSchema,
-  JoinResponseSchema, GameStateResponseSchema, CategoriesResponseSchema,
+  PlayerSchema, CreatePlayerSchema, SubmitPickSchema, MarkWinnerSchema, SetLockSchema, SetConfidenceSchema, BallotSchema, ImportBallotSchema,
+  JoinResponseSchema, GameStateResponseSchema, GamesResponseSchema, CategoriesResponseSchema,
   PicksResponseSchema, SubmitPickResponseSchema, LeaderboardResponseSchema,
-  ReactionBroadcastSchema,
+  CeremonyDetailResponseSchema, PlayerRecordsResponseSchema, ReactionBroadcastSchema,
 } from "../schemas";
 import { ALLOWED_REACTIONS } from "../constants";
 
@@ -11,6 +11,7 @@ describe("PlayerSchema", () => {
   it("validates a valid player", () => {
     const result = PlayerSchema.safeParse({
       id: "clx1234567890",
+      gameId: "game_1",
       name: "Drew",
       pin: "$2b$10$hashedvalue",
       createdAt: 1710000000,
@@ -50,7 +51,64 @@ describe("SubmitPickSchema", () => {
 
 describe("MarkWinnerSchema", () => {
   it("validates valid winner marking", () => {
-    expect(MarkWinnerSchema.safeParse({ categoryId: "cat_1", nominationId: "nom_1" }).success).toBe(true);
+    expect(MarkWinnerSchema.safeParse({ categoryId: "cat_1", nominationIds: ["nom_1"] }).success).toBe(true);
+  });
+
+  it("accepts a tie and rejects an empty list", () => {
+    expect(MarkWinnerSchema.safeParse({ categoryId: "cat_1", nominationIds: ["nom_1", "nom_2"] }).success).toBe(true);
+    expect(MarkWinnerSchema.safeParse({ categoryId: "cat_1", nominationIds: [] }).success).toBe(false);
+  });
+});
+
+describe("SetLockSchema", () => {
+  it("accepts a timestamp or null", () => {
+    expect(SetLockSchema.safeParse({ locksAt: 1710000000 }).success).toBe(true);
+    expect(SetLockSchema.safeParse({ locksAt: null }).success).toBe(true);
+  });
+
+  it("rejects a missing lock time", () => {
+    expect(SetLockSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("SetConfidenceSchema", () => {
+  it("accepts a list of distinct categories", () => {
+    expect(SetConfidenceSchema.safeParse({ categoryIds: ["cat_1", "cat_2"] }).success).toBe(true);
+  });
+
+  it("rejects duplicate ranks for a category", () => {
+    expect(SetConfidenceSchema.safeParse({ categoryIds: ["cat_1", "cat_1"] }).success).toBe(false);
+  });
+});
+
+describe("BallotSchema", () => {
+  it("fills in defaults for optional nominee fields", () => {
+    const result = BallotSchema.parse({
+      categories: [{ name: "Best Picture", nominations: [{ title: "Anora" }] }],
+    });
+    expect(result.categories[0]?.points).toBeUndefined();
+    expect(result.categories[0]?.nominations[0]).toEqual({ title: "Anora", subtitle: "", imageUrl: null });
+  });
+
+  it("rejects a category without nominees", () => {
+    const result = BallotSchema.safeParse({ categories: [{ name: "Best Picture", nominations: [] }] });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects non-positive points and bad image URLs", () => {
+    expect(BallotSchema.safeParse({
+      categories: [{ name: "Best Picture", points: 0, nominations: [{ title: "Anora" }] }],
+    }).success).toBe(false);
+    expect(BallotSchema.safeParse({
+      categories: [{ name: "Best Picture", nominations: [{ title: "Anora", imageUrl: "not a url" }] }],
+    }).success).toBe(false);
+  });
+});
+
+describe("ImportBallotSchema", () => {
+  it("only accepts csv or json", () => {
+    expect(ImportBallotSchema.safeParse({ format: "csv", content: "a" }).success).toBe(true);
+    expect(ImportBallotSchema.safeParse({ format: "xml", content: "a" }).success).toBe(false);
   });
 });
 
@@ -59,6 +117,7 @@ describe("JoinResponseSchema", () => {
     const result = JoinResponseSchema.safeParse({
       token: "eyJhbGciOiJIUzI1NiJ9.abc.def",
       playerId: "clx123",
+      gameId: "game_1",
       name: "Drew",
     });
     expect(result.success).toBe(true);
@@ -70,42 +129,68 @@ describe("JoinResponseSchema", () => {
 });
 
 describe("GameStateResponseSchema", () => {
-  it("validates setup phase with no config", () => {
+  const game = { id: "game_1", name: "Office Pool", completedAt: null, locksAt: null, createdAt: 1710000000 };
+
+  it("validates setup phase", () => {
     const result = GameStateResponseSchema.safeParse({
       phase: "setup",
-      config: null,
+      game,
       categoryCount: 0,
     });
     expect(result.success).toBe(true);
   });
 
-  it("validates open phase with config", () => {
+  it("validates open phase with categories", () => {
     const result = GameStateResponseSchema.safeParse({
       phase: "open",
-      config: { id: 1, completedAt: null },
+      game,
       categoryCount: 23,
     });
     expect(result.success).toBe(true);
   });
 
+  it("rejects response missing game", () => {
+    expect(GameStateResponseSchema.safeParse({
+      phase: "open",
+      categoryCount: 23,
+    }).success).toBe(false);
+  });
+
   it("rejects invalid phase", () => {
     expect(GameStateResponseSchema.safeParse({
       phase: "invalid",
-      config: null,
+      game,
       categoryCount: 0,
     }).success).toBe(false);
   });
 });
 
+describe("GamesResponseSchema", () => {
+  it("validates a list of games", () => {
+    const result = GamesResponseSchema.safeParse({
+      games: [{ id: "game_1", name: "Family Pool", completedAt: null, locksAt: null, createdAt: 1710000000 }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a game without a name", () => {
+    const result = GamesResponseSchema.safeParse({
+      games: [{ id: "game_1", name: "", completedAt: null, locksAt: null, createdAt: 1710000000 }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
 describe("CategoriesResponseSchema", () => {
   it("validates response with categories and nominations", () => {
     const result = CategoriesResponseSchema.safeParse({
       categories: [{
         id: "cat_1",
+        gameId: "game_1",
         name: "Best Picture",
         order: 0,
         points: 1,
-        winnerId: null,
+        winnerIds: [],
         isRevealed: false,
         createdAt: 1710000000,
         nominations: [{
@@ -135,6 +220,7 @@ describe("PicksResponseSchema", () => {
     const result = PicksResponseSchema.safeParse({
       picks: [{
         id: "pick_1",
+        gameId: "game_1",
         playerId: "p1",
         categoryId: "cat_1",
         nominationId: "nom_1",
@@ -162,6 +248,7 @@ describe("SubmitPickResponseSchema", () => {
     const result = SubmitPickResponseSchema.safeParse({
       pick: {
         id: "pick_1",
+        gameId: "game_1",
         playerId: "p1",
         categoryId: "cat_1",
         nominationId: "nom_1",
@@ -199,6 +286,46 @@ describe("LeaderboardResponseSchema", () => {
   });
 });
 
+describe("CeremonyDetailResponseSchema", () => {
+  it("validates an archived ceremony with standings and picks", () => {
+    const result = CeremonyDetailResponseSchema.safeParse({
+      ceremony: { id: "a1", gameId: "g1", name: "97th Academy Awards", completedAt: 1000, archivedAt: 2000 },
+      categories: [{
+        id: "ac1", ceremonyId: "a1", name: "Best Picture", order: 0, points: 5,
+        winnerTitle: "Anora", winnerSubtitle: "",
+      }],
+      standings: [{ id: "s1", ceremonyId: "a1", playerName: "Drew", rank: 1, totalScore: 5, correctCount: 1 }],
+      picks: [{
+        id: "ap1", ceremonyId: "a1", categoryId: "ac1", playerName: "Drew",
+        title: "Anora", subtitle: "", isCorrect: true,
+      }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("allows categories archived without a winner", () => {
+    const result = CeremonyDetailResponseSchema.safeParse({
+      ceremony: { id: "a1", gameId: "g1", name: "Unfinished", completedAt: null, archivedAt: 2000 },
+      categories: [{
+        id: "ac1", ceremonyId: "a1", name: "Best Picture", order: 0, points: 5,
+        winnerTitle: null, winnerSubtitle: null,
+      }],
+      standings: [],
+      picks: [],
+    });
+    expect(result.success).toBe(true);
+  });
+});
+
+describe("PlayerRecordsResponseSchema", () => {
+  it("rejects a record with zero ceremonies", () => {
+    const result = PlayerRecordsResponseSchema.safeParse({
+      records: [{ name: "Drew", ceremonies: 0, wins: 0, bestRank: 1, totalScore: 0, totalCorrect: 0 }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
 describe("ALLOWED_REACTIONS", () => {
   it("contains exactly six emojis", () => {
     expect(ALLOWED_REACTIONS).toHaveLength(6);
@@ -1,44 +1,168 @@
 import { describe, expect, it } from "vitest";
-import { calculatePlayerScore, buildLeaderboard } from "../scoring";
+import {
+  BUILT_IN_RULE_SETS,
+  buildLeaderboard,
+  calculateMaxPossibleScore,
+  calculatePlayerScore,
+  calculateUnderdogBonus,
+  compareTiebreakerGuesses,
+  getScoringConfig,
+  resolveCategoryPoints,
+  scoreBallots,
+} from "../scoring";
 
 describe("calculatePlayerScore", () => {
   it("returns zero for no revealed categories", () => {
     const picks = [
-      { nominationId: "nom_1", categoryWinnerId: null, categoryIsRevealed: false, categoryPoints: 1 },
+      { nominationId: "nom_1", categoryWinnerIds: [], categoryIsRevealed: false, categoryPoints: 1 },
     ];
     expect(calculatePlayerScore(picks)).toEqual({ totalScore: 0, correctCount: 0 });
   });
 
   it("scores correct pick in revealed category", () => {
     const picks = [
-      { nominationId: "nom_1", categoryWinnerId: "nom_1", categoryIsRevealed: true, categoryPoints: 1 },
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: true, categoryPoints: 1 },
     ];
     expect(calculatePlayerScore(picks)).toEqual({ totalScore: 1, correctCount: 1 });
   });
 
   it("does not score incorrect pick", () => {
     const picks = [
-      { nominationId: "nom_1", categoryWinnerId: "nom_2", categoryIsRevealed: true, categoryPoints: 1 },
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_2"], categoryIsRevealed: true, categoryPoints: 1 },
     ];
     expect(calculatePlayerScore(picks)).toEqual({ totalScore: 0, correctCount: 0 });
   });
 
   it("respects category point values", () => {
     const picks = [
-      { nominationId: "nom_1", categoryWinnerId: "nom_1", categoryIsRevealed: true, categoryPoints: 3 },
-      { nominationId: "nom_2", categoryWinnerId: "nom_2", categoryIsRevealed: true, categoryPoints: 2 },
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: true, categoryPoints: 3 },
+      { nominationId: "nom_2", categoryWinnerIds: ["nom_2"], categoryIsRevealed: true, categoryPoints: 2 },
     ];
     expect(calculatePlayerScore(picks)).toEqual({ totalScore: 5, correctCount: 2 });
   });
 
+  it("credits a pick of any winner when a category ties", () => {
+    const picks = [
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1", "nom_2"], categoryIsRevealed: true, categoryPoints: 2 },
+      { nominationId: "nom_2", categoryWinnerIds: ["nom_1", "nom_2"], categoryIsRevealed: true, categoryPoints: 2 },
+      { nominationId: "nom_3", categoryWinnerIds: ["nom_1", "nom_2"], categoryIsRevealed: true, categoryPoints: 2 },
+    ];
+    expect(calculatePlayerScore(picks)).toEqual({ totalScore: 4, correctCount: 2 });
+  });
+
   it("ignores unrevealed categories even if winner is set", () => {
     const picks = [
-      { nominationId: "nom_1", categoryWinnerId: "nom_1", categoryIsRevealed: false, categoryPoints: 1 },
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: false, categoryPoints: 1 },
     ];
     expect(calculatePlayerScore(picks)).toEqual({ totalScore: 0, correctCount: 0 });
   });
 });
 
+describe("calculatePlayerScore in confidence mode", () => {
+  it("awards the confidence rank instead of category points", () => {
+    const picks = [
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: true, categoryPoints: 5, confidence: 2 },
+      { nominationId: "nom_2", categoryWinnerIds: ["nom_2"], categoryIsRevealed: true, categoryPoints: 1, confidence: 7 },
+    ];
+    expect(calculatePlayerScore(picks, "confidence")).toEqual({ totalScore: 9, correctCount: 2 });
+  });
+
+  it("gives nothing for a wrong pick regardless of confidence", () => {
+    const picks = [
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_2"], categoryIsRevealed: true, categoryPoints: 1, confidence: 10 },
+    ];
+    expect(calculatePlayerScore(picks, "confidence")).toEqual({ totalScore: 0, correctCount: 0 });
+  });
+
+  it("counts an unranked correct pick but scores it zero", () => {
+    const picks = [
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: true, categoryPoints: 3, confidence: null },
+    ];
+    expect(calculatePlayerScore(picks, "confidence")).toEqual({ totalScore: 0, correctCount: 1 });
+  });
+});
+
+describe("rule sets", () => {
+  const flat = BUILT_IN_RULE_SETS.find((r) => r.id === "flat") ?? null;
+  const weighted = BUILT_IN_RULE_SETS.find((r) => r.id === "weighted") ?? null;
+  const underdog = BUILT_IN_RULE_SETS.find((r) => r.id === "underdog") ?? null;
+  const custom = { id: "c1", name: "Office", points: { "Best Sound": 10 }, defaultPoints: 2, underdogBonus: false, builtIn: false };
+
+  it("uses the category's own points without a rule set", () => {
+    expect(resolveCategoryPoints(null, { name: "Best Picture", points: 7 })).toBe(7);
+  });
+
+  it("scores every category the same under the flat preset", () => {
+    expect(resolveCategoryPoints(flat, { name: "Best Picture", points: 7 })).toBe(1);
+  });
+
+  it("uses the standard weights under the weighted preset", () => {
+    expect(resolveCategoryPoints(weighted, { name: "best picture", points: 1 })).toBe(5);
+    expect(resolveCategoryPoints(weighted, { name: "Best Sound", points: 9 })).toBe(1);
+  });
+
+  it("turns on the underdog bonus under the underdog preset", () => {
+    const game = {
+      scoringMode: "standard" as const,
+      underdogBonus: false,
+      partialBallotPolicy: "exclude" as const,
+      tiebreakerAnswer: null,
+      tiebreakerRule: "closest" as const,
+    };
+    expect(resolveCategoryPoints(underdog, { name: "Best Picture", points: 7 })).toBe(1);
+    expect(getScoringConfig(game, underdog).underdogBonus).toBe(true);
+    expect(getScoringConfig(game, flat).underdogBonus).toBe(false);
+  });
+
+  it("falls back to a custom table's default points", () => {
+    expect(resolveCategoryPoints(custom, { name: "Best Sound", points: 1 })).toBe(10);
+    expect(resolveCategoryPoints(custom, { name: "Best Picture", points: 1 })).toBe(2);
+  });
+
+  it("feeds the selected rule set into calculatePlayerScore", () => {
+    const picks = [
+      { nominationId: "n1", categoryWinnerIds: ["n1"], categoryIsRevealed: true, categoryPoints: 1, categoryName: "Best Sound" },
+      { nominationId: "n2", categoryWinnerIds: ["n2"], categoryIsRevealed: true, categoryPoints: 1, categoryName: "Best Picture" },
+    ];
+    expect(calculatePlayerScore(picks, "standard", custom)).toEqual({ totalScore: 12, correctCount: 2 });
+  });
+});
+
+describe("underdog bonus", () => {
+  it("gives nothing extra for a pick everyone made", () => {
+    expect(calculateUnderdogBonus(2, 1)).toBe(0);
+  });
+
+  it("grows as fewer players picked the winner", () => {
+    expect(calculateUnderdogBonus(2, 0.5)).toBe(2);
+    expect(calculateUnderdogBonus(2, 0.25)).toBe(6);
+  });
+
+  it("caps the bonus at three times the base points", () => {
+    expect(calculateUnderdogBonus(2, 0.05)).toBe(6);
+  });
+
+  it("rounds to whole points", () => {
+    expect(calculateUnderdogBonus(1, 0.4)).toBe(2);
+  });
+
+  it("is only applied when enabled", () => {
+    const picks = [
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: true, categoryPoints: 1, pickShare: 0.5 },
+      { nominationId: "nom_2", categoryWinnerIds: ["nom_3"], categoryIsRevealed: true, categoryPoints: 1, pickShare: 0.1 },
+    ];
+    expect(calculatePlayerScore(picks)).toEqual({ totalScore: 1, correctCount: 1 });
+    expect(calculatePlayerScore(picks, "standard", null, true)).toEqual({ totalScore: 2, correctCount: 1 });
+  });
+
+  it("scales with the confidence rank in confidence mode", () => {
+    const picks = [
+      { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: true, categoryPoints: 1, confidence: 3, pickShare: 0.5 },
+    ];
+    expect(calculatePlayerScore(picks, "confidence", null, true)).toEqual({ totalScore: 6, correctCount: 1 });
+  });
+});
+
 describe("buildLeaderboard", () => {
   it("sorts by totalScore descending", () => {
     const players = [
@@ -84,7 +208,158 @@ describe("buildLeaderboard", () => {
     expect(result[2].rank).toBe(3);
   });
 
+  it("carries the incomplete-ballot flag through", () => {
+    const result = buildLeaderboard([
+      { playerId: "p1", name: "Alice", totalScore: 2, correctCount: 2, incompleteBallot: true },
+      { playerId: "p2", name: "Bob", totalScore: 1, correctCount: 1 },
+    ]);
+    expect(result.map((p) => p.incompleteBallot)).toEqual([true, false]);
+  });
+
   it("returns empty array for no players", () => {
     expect(buildLeaderboard([])).toEqual([]);
   });
 });
+
+describe("tiebreaker", () => {
+  const tied = [
+    { playerId: "p1", name: "Alice", totalScore: 5, correctCount: 3, tiebreakerGuess: 230 },
+    { playerId: "p2", name: "Bob", totalScore: 5, correctCount: 3, tiebreakerGuess: 205 },
+    { playerId: "p3", name: "Cara", totalScore: 5, correctCount: 3, tiebreakerGuess: null },
+  ];
+
+  it("ignores guesses until the answer is known", () => {
+    const result = buildLeaderboard(tied);
+    expect(result.map((p) => p.rank)).toEqual([1, 1, 1]);
+    expect(result.map((p) => p.tiebreakerGuess)).toEqual([null, null, null]);
+  });
+
+  it("ranks tied players by closest guess, missing guesses last", () => {
+    const result = buildLeaderboard(tied, { answer: 220, rule: "closest" });
+    expect(result.map((p) => [p.name, p.rank])).toEqual([
+      ["Alice", 1],
+      ["Bob", 2],
+      ["Cara", 3],
+    ]);
+    expect(result[0]?.tiebreakerGuess).toBe(230);
+  });
+
+  it("puts guesses over the answer last under price-is-right", () => {
+    const result = buildLeaderboard(tied, { answer: 220, rule: "price-is-right" });
+    expect(result.map((p) => p.name)).toEqual(["Bob", "Alice", "Cara"]);
+  });
+
+  it("never lets the tiebreaker beat a higher score", () => {
+    const players = [...tied, { playerId: "p4", name: "Dev", totalScore: 6, correctCount: 3, tiebreakerGuess: 1 }];
+    const result = buildLeaderboard(players, { answer: 220, rule: "closest" });
+    expect(result[0]?.name).toBe("Dev");
+  });
+
+  it("shares a rank when guesses are equally close", () => {
+    expect(compareTiebreakerGuesses(210, 230, { answer: 220, rule: "closest" })).toBe(0);
+    const result = buildLeaderboard(
+      [
+        { playerId: "p1", name: "Zara", totalScore: 5, correctCount: 3, tiebreakerGuess: 210 },
+        { playerId: "p2", name: "Alice", totalScore: 5, correctCount: 3, tiebreakerGuess: 230 },
+      ],
+      { answer: 220, rule: "closest" },
+    );
+    expect(result.map((p) => [p.name, p.rank])).toEqual([
+      ["Alice", 1],
+      ["Zara", 1],
+    ]);
+  });
+});
+
+describe("max possible score", () => {
+  const picks = [
+    { nominationId: "nom_1", categoryWinnerIds: ["nom_1"], categoryIsRevealed: true, categoryPoints: 2 },
+    { nominationId: "nom_2", categoryWinnerIds: ["nom_3"], categoryIsRevealed: true, categoryPoints: 5 },
+    { nominationId: "nom_4", categoryWinnerIds: [], categoryIsRevealed: false, categoryPoints: 3, pickShare: 0.5 },
+  ];
+
+  it("adds every unannounced pick to the current score", () => {
+    expect(calculateMaxPossibleScore(picks)).toBe(5);
+  });
+
+  it("counts the underdog bonus the pick would earn if it wins", () => {
+    expect(calculateMaxPossibleScore(picks, "standard", null, true)).toBe(8);
+  });
+});
+
+describe("contention", () => {
+  const player = (playerId: string, totalScore: number, maxPossibleScore: number) => ({
+    playerId,
+    name: playerId,
+    totalScore,
+    correctCount: totalScore,
+    maxPossibleScore,
+  });
+
+  it("eliminates a player who can't catch the leader", () => {
+    const result = buildLeaderboard([player("lead", 10, 12), player("close", 8, 10), player("out", 3, 9)]);
+    expect(result.map((p) => [p.name, p.eliminated])).toEqual([
+      ["lead", false],
+      ["close", false],
+      ["out", true],
+    ]);
+  });
+
+  it("keeps a player alive who could still tie for first", () => {
+    const [, second] = buildLeaderboard([player("lead", 10, 10), player("chaser", 6, 10)]);
+    expect(second?.eliminated).toBe(false);
+  });
+
+  it("clinches a podium spot once fewer than three rivals can reach it", () => {
+    const result = buildLeaderboard([
+      player("a", 10, 12),
+      player("b", 9, 11),
+      player("c", 8, 9),
+      player("d", 2, 7),
+      player("e", 1, 6),
+    ]);
+    expect(result.map((p) => p.clinchedPodium)).toEqual([true, true, true, false, false]);
+  });
+
+  it("never clinches the podium with three players or fewer", () => {
+    const result = buildLeaderboard([player("a", 10, 10), player("b", 1, 1)]);
+    expect(result.every((p) => !p.clinchedPodium)).toBe(true);
+  });
+});
+
+describe("scoreBallots", () => {
+  const categories = [
+    { id: "c1", name: "Best Picture", points: 3, winnerIds: ["n1"], isRevealed: true },
+    { id: "c2", name: "Best Sound", points: 1, winnerIds: [], isRevealed: false },
+  ];
+  const ballots = [
+    { playerId: "p1", name: "Alice", picks: [{ categoryId: "c1", nominationId: "n1" }, { categoryId: "c2", nominationId: "n3" }] },
+    { playerId: "p2", name: "Bob", picks: [{ categoryId: "c1", nominationId: "n2" }] },
+    { playerId: "p3", name: "Cara", picks: [] },
+  ];
+  const config = getScoringConfig(null, null);
+
+  it("scores complete ballots and leaves out partial and empty ones by default", () => {
+    const result = scoreBallots(ballots, categories, config);
+    expect(result.map((p) => [p.name, p.totalScore, p.maxPossibleScore])).toEqual([["Alice", 3, 4]]);
+  });
+
+  it("ranks partial ballots when the policy allows", () => {
+    const result = scoreBallots(ballots, categories, { ...config, partialBallotPolicy: "flag" });
+    expect(result.map((p) => [p.name, p.incompleteBallot])).toEqual([
+      ["Alice", false],
+      ["Bob", true],
+    ]);
+  });
+
+  it("scores hypothetical winners like real ones", () => {
+    const whatIf = categories.map((c) => (c.id === "c2" ? { ...c, winnerIds: ["n3"], isRevealed: true } : c));
+    expect(scoreBallots(ballots, whatIf, config)[0]?.totalScore).toBe(4);
+  });
+
+  it("only applies the tiebreaker once the answer is known", () => {
+    const game = { scoringMode: "standard" as const, underdogBonus: false, partialBallotPolicy: "exclude" as const, tiebreakerRule: "closest" as const };
+    expect(getScoringConfig({ ...game, tiebreakerAnswer: null }, null).tiebreaker).toBeNull();
+    expect(getScoringConfig({ ...game, tiebreakerAnswer: 200 }, null).tiebreaker).toEqual({ answer: 200, rule: "closest" });
+  });
+});
@@ -4,6 +4,8 @@ export type AllowedReaction = (typeof ALLOWED_REACTIONS)[number];
 export const WEBSOCKET_EVENTS = {
   LEADERBOARD_UPDATE: "leaderboard:update",
   GAME_COMPLETED: "game:completed",
+  LOCK_CHANGED: "game:lock-changed",
+  REVEAL_CORRECTED: "reveal:corrected",
   REACTION_BROADCAST: "reaction:broadcast",
   JOIN: "join",
   REACTION_SEND: "reaction:send",
@@ -24,22 +26,153 @@ export const CATEGORY_POINTS: Record<string, number> = {
   "Best Casting": 2,
 };
 
+/** Shows the Wikipedia importer has a parser for. "oscars" is the default everywhere. */
+export const AWARD_SHOWS = ["oscars", "golden-globes", "bafta", "sag", "emmys", "grammys"] as const;
+export type AwardShow = (typeof AWARD_SHOWS)[number];
+
+export const AWARD_SHOW_NAMES: Record<AwardShow, string> = {
+  oscars: "Academy Awards",
+  "golden-globes": "Golden Globe Awards",
+  bafta: "British Academy Film Awards",
+  sag: "Screen Actors Guild Awards",
+  emmys: "Primetime Emmy Awards",
+  grammys: "Grammy Awards",
+};
+
+/**
+ * Default point values for each show's categories, keyed by the names its parser
+ * produces. Anything unlisted falls back to 1 point, as with CATEGORY_POINTS.
+ */
+export const AWARD_SHOW_POINTS: Record<AwardShow, Record<string, number>> = {
+  oscars: CATEGORY_POINTS,
+  "golden-globes": {
+    "Best Motion Picture – Drama": 5,
+    "Best Motion Picture – Musical or Comedy": 5,
+    "Best Television Series – Drama": 4,
+    "Best Television Series – Musical or Comedy": 4,
+    "Best Director": 3,
+    "Best Actor in a Motion Picture – Drama": 3,
+    "Best Actress in a Motion Picture – Drama": 3,
+    "Best Actor in a Motion Picture – Musical or Comedy": 3,
+    "Best Actress in a Motion Picture – Musical or Comedy": 3,
+    "Best Supporting Actor – Motion Picture": 2,
+    "Best Supporting Actress – Motion Picture": 2,
+    "Best Screenplay": 2,
+    "Best Motion Picture – Animated": 2,
+    "Best Motion Picture – Non-English Language": 2,
+  },
+  bafta: {
+    "Best Film": 5,
+    "Best Director": 4,
+    "Outstanding British Film": 3,
+    "Best Actor": 3,
+    "Best Actress": 3,
+    "Best Supporting Actor": 2,
+    "Best Supporting Actress": 2,
+    "Best Original Screenplay": 2,
+    "Best Adapted Screenplay": 2,
+    "Best Animated Film": 2,
+    "Best Film Not in the English Language": 2,
+  },
+  sag: {
+    "Cast in a Motion Picture": 5,
+    "Male Actor in a Leading Role": 3,
+    "Female Actor in a Leading Role": 3,
+    "Male Actor in a Supporting Role": 2,
+    "Female Actor in a Supporting Role": 2,
+    "Ensemble in a Drama Series": 3,
+    "Ensemble in a Comedy Series": 3,
+  },
+  emmys: {
+    "Outstanding Drama Series": 5,
+    "Outstanding Comedy Series": 5,
+    "Outstanding Limited or Anthology Series": 4,
+    "Outstanding Lead Actor in a Drama Series": 3,
+    "Outstanding Lead Actress in a Drama Series": 3,
+    "Outstanding Lead Actor in a Comedy Series": 3,
+    "Outstanding Lead Actress in a Comedy Series": 3,
+    "Outstanding Supporting Actor in a Drama Series": 2,
+    "Outstanding Supporting Actress in a Drama Series": 2,
+    "Outstanding Supporting Actor in a Comedy Series": 2,
+    "Outstanding Supporting Actress in a Comedy Series": 2,
+  },
+  grammys: {
+    "Album of the Year": 5,
+    "Record of the Year": 5,
+    "Song of the Year": 4,
+    "Best New Artist": 4,
+  },
+};
+
+/** Underdog bonus ceiling, as a multiple of the pick's base points — keeps one lucky call from deciding the game */
+export const UNDERDOG_MAX_MULTIPLIER = 3;
+
 /**
  * Look up point value for a category by name.
- * Returns the mapped value or 1 for unrecognized categories (technical/craft awards).
+ * Returns the mapped value or `fallback` (1) for unrecognized categories (technical/craft awards).
+ * Pass a rule set's table to score against something other than the standard weights.
  */
-export function getCategoryPoints(categoryName: string): number {
+export function getCategoryPoints(
+  categoryName: string,
+  table: Record<string, number> = CATEGORY_POINTS,
+  fallback = 1,
+): number {
   const normalized = categoryName.toLowerCase();
-  for (const [name, points] of Object.entries(CATEGORY_POINTS)) {
+  for (const [name, points] of Object.entries(table)) {
     if (name.toLowerCase() === normalized) return points;
   }
-  return 1;
+  return fallback;
+}
+
+/** Whether picks are closed at `now`, given the game's lock time. Null means no lock is set. */
+export function isPicksLocked(locksAt: number | null, now: number = Date.now()): boolean {
+  return locksAt !== null && now >= locksAt;
+}
+
+/**
+ * Whether a single category is closed to picks: the whole game is locked, the category's
+ * own lock time has passed, or its winner has already been announced.
+ */
+export function isCategoryLocked(
+  category: { locksAt: number | null; isRevealed: boolean },
+  gameLocksAt: number | null,
+  now: number = Date.now(),
+): boolean {
+  return category.isRevealed || isPicksLocked(gameLocksAt, now) || isPicksLocked(category.locksAt, now);
+}
+
+/**
+ * Whether the tiebreaker guess is closed. It closes with the first category to close —
+ * a staggered game may have no game-wide lock — and once the game is over or the
+ * answer has been entered.
+ */
+export function isTiebreakerLocked(
+  game: { locksAt: number | null; completedAt: number | null; tiebreakerAnswer: number | null },
+  categories: Array<{ locksAt: number | null; isRevealed: boolean }>,
+  now: number = Date.now(),
+): boolean {
+  return (
+    game.completedAt !== null ||
+    game.tiebreakerAnswer !== null ||
+    isPicksLocked(game.locksAt, now) ||
+    categories.some((category) => isCategoryLocked(category, game.locksAt, now))
+  );
 }
 
 export const REACTION_TTL_MS = 3000;
 export const TOKEN_EXPIRY_HOURS = 24;
 export const PIN_MIN_LENGTH = 4;
 export const PIN_MAX_LENGTH = 6;
+export const RECOVERY_CODE_EXPIRY_HOURS = 24;
+// Login throttling: wrong PINs past the free allowance lock the name (or IP) out for
+// LOGIN_BACKOFF_BASE_SECONDS, doubling with each further miss up to the cap.
+// A whole party often shares one Wi-Fi address, so the per-IP allowance is higher.
+export const LOGIN_FREE_ATTEMPTS = 5;
+export const LOGIN_FREE_ATTEMPTS_PER_IP = 20;
+export const LOGIN_BACKOFF_BASE_SECONDS = 30;
+export const LOGIN_MAX_LOCKOUT_MINUTES = 60;
+/** A quiet day wipes the slate */
+export const LOGIN_ATTEMPT_WINDOW_HOURS = 24;
 
 /** Emoji shown next to player names for top-3 ranks. Matches podium display. */
 export const RANK_EMOJIS: Record<number, string> = {
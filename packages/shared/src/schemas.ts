@@ -1,8 +1,91 @@
 import * as z from "zod";
+import { AWARD_SHOWS } from "./constants";
+
+// Game
+/**
+ * "standard" — a correct pick earns the category's points.
+ * "confidence" — players rank categories 1..N by conviction; a correct pick earns its rank.
+ */
+export const ScoringModeSchema = z.enum(["standard", "confidence"]);
+
+/**
+ * How the tiebreaker guess settles ties.
+ * "closest" — smallest absolute difference from the answer wins.
+ * "price-is-right" — closest without going over; any guess over the answer loses to one at or under.
+ */
+export const TiebreakerRuleSchema = z.enum(["closest", "price-is-right"]);
+
+/**
+ * What happens to players who skipped a category.
+ * "exclude" — they stay off the leaderboard until their ballot is complete.
+ * "include" — they're ranked, and missing picks simply score zero.
+ * "flag" — ranked the same way, but marked with an incomplete-ballot badge.
+ */
+export const PartialBallotPolicySchema = z.enum(["exclude", "include", "flag"]);
+
+export const GameSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  completedAt: z.number().int().nullable(),
+  locksAt: z.number().int().nullable(),
+  scoringMode: ScoringModeSchema.default("standard"),
+  scoringRuleSetId: z.string().nullable().default(null),
+  underdogBonus: z.boolean().default(false),
+  tiebreakerQuestion: z.string().nullable().default(null),
+  tiebreakerAnswer: z.number().nullable().default(null),
+  tiebreakerRule: TiebreakerRuleSchema.default("closest"),
+  partialBallotPolicy: PartialBallotPolicySchema.default("exclude"),
+  createdAt: z.number().int(),
+});
+
+export const CreateGameSchema = z.object({
+  name: z.string().min(1).max(100).trim(),
+});
+
+/** Admin pick-lock control. A timestamp schedules (or immediately applies) the lock; null unlocks. */
+export const SetLockSchema = z.object({
+  locksAt: z.number().int().nullable(),
+});
+
+/**
+ * Named points table. Categories are matched by name (case-insensitive); anything
+ * not listed earns `defaultPoints`. Built-in presets live in code, custom ones in the DB.
+ * `underdogBonus` turns the bonus on for games using the table, whatever their own toggle says.
+ */
+export const ScoringRuleSetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  points: z.record(z.string(), z.number().int().nonnegative()),
+  defaultPoints: z.number().int().nonnegative(),
+  underdogBonus: z.boolean().default(false),
+  builtIn: z.boolean(),
+});
+
+export const CreateScoringRuleSetSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  points: z.record(z.string(), z.number().int().nonnegative()),
+  defaultPoints: z.number().int().nonnegative().default(1),
+});
+
+/** Any field may be sent alone. A null rule set means "use each category's own points". */
+export const SetScoringSchema = z.object({
+  scoringMode: ScoringModeSchema.optional(),
+  scoringRuleSetId: z.string().nullable().optional(),
+  underdogBonus: z.boolean().optional(),
+  partialBallotPolicy: PartialBallotPolicySchema.optional(),
+});
+
+/** Admin tiebreaker setup. Set the question before picks lock and the answer once it's known. */
+export const SetTiebreakerSchema = z.object({
+  question: z.string().trim().min(1).max(200).nullable().optional(),
+  answer: z.number().finite().nullable().optional(),
+  rule: TiebreakerRuleSchema.optional(),
+});
 
 // Player
 export const PlayerSchema = z.object({
   id: z.string(),
+  gameId: z.string(),
   name: z.string().min(1).max(50),
   pin: z.string(),
   createdAt: z.number().int(),
@@ -13,14 +96,24 @@ export const CreatePlayerSchema = z.object({
   pin: z.string().min(4).max(6),
 });
 
+// Sets a new PIN using the one-time code from an admin PIN reset
+export const RecoverPlayerSchema = z.object({
+  name: z.string().min(1).max(50).trim(),
+  recoveryCode: z.string().trim().min(1),
+  pin: z.string().min(4).max(6),
+});
+
 // Category
 export const CategorySchema = z.object({
   id: z.string(),
+  gameId: z.string(),
   name: z.string().min(1),
   order: z.number().int().nonnegative(),
   points: z.number().int().positive().default(1),
-  winnerId: z.string().nullable(),
+  // Usually one; more when the Academy announces a tie. Empty until revealed.
+  winnerIds: z.array(z.string()),
   isRevealed: z.boolean().default(false),
+  locksAt: z.number().int().nullable().default(null),
   createdAt: z.number().int(),
 });
 
@@ -37,30 +130,122 @@ export const NominationSchema = z.object({
 // Pick
 export const PickSchema = z.object({
   id: z.string(),
+  gameId: z.string(),
   playerId: z.string(),
   categoryId: z.string(),
   nominationId: z.string(),
+  confidence: z.number().int().positive().nullable().default(null),
   createdAt: z.number().int(),
   updatedAt: z.number().int(),
 });
 
+/** Another player's picks, shown once picks lock. Guesses stay null until the tiebreaker answer is in. */
+export const PlayerBallotSchema = z.object({
+  playerId: z.string(),
+  name: z.string(),
+  tiebreakerGuess: z.number().nullable().default(null),
+  picks: z.array(
+    z.object({
+      categoryId: z.string(),
+      nominationId: z.string(),
+      confidence: z.number().int().positive().nullable().default(null),
+    }),
+  ),
+});
+
 export const SubmitPickSchema = z.object({
   categoryId: z.string(),
   nominationId: z.string(),
 });
 
-// Game Config
-export const GameConfigSchema = z.object({
-  id: z.number().int().default(1),
-  completedAt: z.number().int().nullable(),
+/** Confidence ordering, most confident first. The first category gets rank N, the last gets 1. */
+export const SetConfidenceSchema = z.object({
+  categoryIds: z
+    .array(z.string())
+    .min(1)
+    .refine((ids) => new Set(ids).size === ids.length, "Each category can only be ranked once"),
+});
+
+export const SetTiebreakerGuessSchema = z.object({
+  guess: z.number().finite(),
+});
+
+export const TiebreakerGuessResponseSchema = z.object({
+  guess: z.number().nullable(),
 });
 
 // Admin
-export const AdminLoginSchema = z.object({ pin: z.string().min(1) });
-export const ImportWikipediaSchema = z.object({ url: z.string().url() });
-export const MarkWinnerSchema = z.object({ categoryId: z.string(), nominationId: z.string() });
+// No name = the shared ADMIN_PIN login
+export const AdminLoginSchema = z.object({ name: z.string().trim().min(1).optional(), pin: z.string().min(1) });
+export const CreateAdminSchema = z.object({ name: z.string().trim().min(1).max(50), pin: z.string().min(4) });
+/** Which show's page is being imported — picks the parser and the default category points */
+export const AwardShowSchema = z.enum(AWARD_SHOWS);
+export const ImportWikipediaSchema = z.object({ url: z.string().url(), show: AwardShowSchema.default("oscars") });
+/** The page source pasted from "Edit source" — for when Wikipedia itself is unreachable */
+export const ImportWikitextSchema = z.object({
+  wikitext: z.string().min(1).max(2_000_000),
+  show: AwardShowSchema.default("oscars"),
+});
+/** Every winning nomination at once — a tie names two or more. Replaces whatever was marked before. */
+export const MarkWinnerSchema = z.object({ categoryId: z.string(), nominationIds: z.array(z.string()).min(1) });
 export const ClearWinnerSchema = z.object({ categoryId: z.string() });
 
+// Player management
+export const RenamePlayerSchema = z.object({ name: z.string().min(1).max(50).trim() });
+/** Which pick survives when both merged accounts picked in the same category */
+export const MergeConflictStrategySchema = z.enum(["target", "source", "newest"]);
+export const MergePlayersSchema = z.object({
+  sourceId: z.string(),
+  targetId: z.string(),
+  onConflict: MergeConflictStrategySchema.default("newest"),
+});
+
+// Category editor
+export const CreateCategorySchema = z.object({
+  name: z.string().trim().min(1),
+  points: z.number().int().positive().default(1),
+});
+export const UpdateCategorySchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  points: z.number().int().positive().optional(),
+});
+export const ReorderCategoriesSchema = z.object({ categoryIds: z.array(z.string()).min(1) });
+
+export const CreateNominationSchema = z.object({
+  title: z.string().trim().min(1),
+  subtitle: z.string().trim().default(""),
+  imageUrl: z.string().url().nullable().default(null),
+});
+export const UpdateNominationSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  subtitle: z.string().trim().optional(),
+  imageUrl: z.string().url().nullable().optional(),
+});
+
+// Ballot file import — the hand-written alternative to a Wikipedia page
+export const BallotNominationSchema = z.object({
+  title: z.string().trim().min(1),
+  subtitle: z.string().trim().default(""),
+  imageUrl: z.string().url().nullable().default(null),
+});
+
+export const BallotCategorySchema = z.object({
+  name: z.string().trim().min(1),
+  /** Omit to fall back to the standard points table (getCategoryPoints) */
+  points: z.number().int().positive().optional(),
+  nominations: z.array(BallotNominationSchema).min(1),
+});
+
+export const BallotSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  categories: z.array(BallotCategorySchema).min(1),
+});
+
+export const ImportBallotSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  content: z.string().min(1).max(1_000_000),
+});
+
 // Leaderboard
 export const LeaderboardPlayerSchema = z.object({
   playerId: z.string(),
@@ -68,6 +253,94 @@ export const LeaderboardPlayerSchema = z.object({
   totalScore: z.number().int().nonnegative(),
   correctCount: z.number().int().nonnegative(),
   rank: z.number().int().positive(),
+  // Only filled in once the tiebreaker answer is known, so guesses stay private until then
+  tiebreakerGuess: z.number().nullable().default(null),
+  // Set under the "flag" partial-ballot policy for players who skipped a category
+  incompleteBallot: z.boolean().default(false),
+  // Live race status: best achievable finish given their remaining picks
+  maxPossibleScore: z.number().int().nonnegative().default(0),
+  eliminated: z.boolean().default(false), // Can no longer finish first
+  clinchedPodium: z.boolean().default(false), // Top three no matter what's announced next
+});
+
+// Pick distribution — how the group voted, only for categories closed to picks
+export const NominationDistributionSchema = z.object({
+  nominationId: z.string(),
+  count: z.number().int().nonnegative(),
+  percentage: z.number().int().min(0).max(100),
+});
+
+export const CategoryDistributionSchema = z.object({
+  categoryId: z.string(),
+  totalPicks: z.number().int().nonnegative(),
+  winnerIds: z.array(z.string()), // Empty until revealed
+  nominations: z.array(NominationDistributionSchema),
+});
+
+// Score timeline — the standings replayed after each announcement, in announcement order
+export const TimelineStandingSchema = z.object({
+  playerId: z.string(),
+  name: z.string(),
+  totalScore: z.number().int().nonnegative(),
+  rank: z.number().int().positive(),
+});
+
+export const TimelineStepSchema = z.object({
+  sequence: z.number().int().positive(),
+  categoryId: z.string(),
+  categoryName: z.string(),
+  winnerTitle: z.string().nullable(),
+  revealedAt: z.number().int(),
+  standings: z.array(TimelineStandingSchema),
+});
+
+// Archive — frozen copies of past ceremonies, keyed by player name rather than player id
+export const ArchivedCeremonySchema = z.object({
+  id: z.string(),
+  gameId: z.string(),
+  name: z.string(),
+  completedAt: z.number().int().nullable(),
+  archivedAt: z.number().int(),
+});
+
+export const ArchivedCategorySchema = z.object({
+  id: z.string(),
+  ceremonyId: z.string(),
+  name: z.string(),
+  order: z.number().int().nonnegative(),
+  points: z.number().int().nonnegative(),
+  winnerTitle: z.string().nullable(),
+  winnerSubtitle: z.string().nullable(),
+});
+
+export const ArchivedStandingSchema = z.object({
+  id: z.string(),
+  ceremonyId: z.string(),
+  playerName: z.string(),
+  rank: z.number().int().positive(),
+  totalScore: z.number().int().nonnegative(),
+  correctCount: z.number().int().nonnegative(),
+  // Wasn't on the leaderboard — see the partial-ballot policy
+  excluded: z.boolean().default(false),
+});
+
+export const ArchivedPickSchema = z.object({
+  id: z.string(),
+  ceremonyId: z.string(),
+  categoryId: z.string(),
+  playerName: z.string(),
+  title: z.string(),
+  subtitle: z.string(),
+  isCorrect: z.boolean(),
+});
+
+export const PlayerRecordSchema = z.object({
+  name: z.string(),
+  ceremonies: z.number().int().positive(),
+  wins: z.number().int().nonnegative(),
+  bestRank: z.number().int().positive(),
+  totalScore: z.number().int().nonnegative(),
+  totalCorrect: z.number().int().nonnegative(),
 });
 
 // --- API Response Schemas ---
@@ -82,13 +355,77 @@ const CategoryWithNominationsSchema = CategorySchema.extend({
 export const JoinResponseSchema = z.object({
   token: z.string(),
   playerId: z.string(),
+  gameId: z.string(),
+  name: z.string(),
+});
+
+export const ResetPinResponseSchema = z.object({
+  recoveryCode: z.string(),
+  expiresAt: z.number().int(),
+});
+
+export const AdminLoginResponseSchema = z.object({
+  token: z.string(),
+  name: z.string(),
+});
+
+export const AdminAccountSchema = z.object({
+  id: z.string(),
   name: z.string(),
+  createdAt: z.number().int(),
+});
+
+export const AdminAccountsResponseSchema = z.object({
+  admins: z.array(AdminAccountSchema),
+});
+
+export const AuditEntrySchema = z.object({
+  id: z.string(),
+  gameId: z.string().nullable(),
+  gameName: z.string().nullable(),
+  actorId: z.string(),
+  actorName: z.string(),
+  action: z.string(),
+  detail: z.string().nullable(),
+  createdAt: z.number().int(),
+});
+
+export const AuditLogResponseSchema = z.object({
+  entries: z.array(AuditEntrySchema),
+});
+
+export const MergePlayersResponseSchema = z.object({
+  player: z.object({ id: z.string(), name: z.string() }),
+  movedPicks: z.number().int(),
+  conflicts: z.number().int(),
+});
+
+export const LockoutSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["player", "admin", "ip"]),
+  // Player name or IP address
+  subject: z.string(),
+  failures: z.number().int(),
+  lockedUntil: z.number().int(),
+});
+
+export const LockoutsResponseSchema = z.object({
+  lockouts: z.array(LockoutSchema),
+});
+
+export const GamesResponseSchema = z.object({
+  games: z.array(GameSchema),
 });
 
 export const GameStateResponseSchema = z.object({
   phase: GamePhaseSchema,
-  config: GameConfigSchema.nullable(),
+  game: GameSchema,
   categoryCount: z.number().int().nonnegative(),
+  ruleSet: ScoringRuleSetSchema.nullable().default(null),
+});
+
+export const ScoringRuleSetsResponseSchema = z.object({
+  ruleSets: z.array(ScoringRuleSetSchema),
 });
 
 export const CategoriesResponseSchema = z.object({
@@ -103,12 +440,43 @@ export const SubmitPickResponseSchema = z.object({
   pick: PickSchema,
 });
 
+export const PlayerBallotsResponseSchema = z.object({
+  ballots: z.array(PlayerBallotSchema),
+});
+
+export const PlayerBallotResponseSchema = z.object({
+  ballot: PlayerBallotSchema,
+});
+
 export const LeaderboardResponseSchema = z.object({
   players: z.array(LeaderboardPlayerSchema),
   revealedCount: z.number().int().nonnegative(),
   totalCount: z.number().int().nonnegative(),
 });
 
+export const PickDistributionResponseSchema = z.object({
+  categories: z.array(CategoryDistributionSchema),
+});
+
+export const ScoreTimelineResponseSchema = z.object({
+  steps: z.array(TimelineStepSchema),
+});
+
+export const HistoryResponseSchema = z.object({
+  ceremonies: z.array(ArchivedCeremonySchema),
+});
+
+export const CeremonyDetailResponseSchema = z.object({
+  ceremony: ArchivedCeremonySchema,
+  categories: z.array(ArchivedCategorySchema),
+  standings: z.array(ArchivedStandingSchema),
+  picks: z.array(ArchivedPickSchema),
+});
+
+export const PlayerRecordsResponseSchema = z.object({
+  records: z.array(PlayerRecordSchema),
+});
+
 // Reactions
 export const ReactionSendSchema = z.object({ emoji: z.string() });
 export const ReactionBroadcastSchema = z.object({
@@ -119,3 +487,27 @@ export const ReactionBroadcastSchema = z.object({
   timestamp: z.number(),
   rank: z.number().int().positive().nullable(),
 });
+
+// Reveal corrections — a winner was undone, changed or retracted after being announced
+const RevealedNominationSchema = z.object({ id: z.string(), title: z.string() });
+export const RevealCorrectedSchema = z.object({
+  categoryId: z.string(),
+  categoryName: z.string(),
+  previousWinners: z.array(RevealedNominationSchema).min(1),
+  // Empty when the category was un-announced rather than given different winners
+  newWinners: z.array(RevealedNominationSchema),
+});
+
+const RevealHistoryStepSchema = z.object({
+  categoryId: z.string(),
+  categoryName: z.string(),
+  // Empty = not announced
+  previousWinnerTitles: z.array(z.string()),
+  newWinnerTitles: z.array(z.string()),
+});
+
+/** The change Undo would revert and the one Redo would re-apply */
+export const RevealHistoryResponseSchema = z.object({
+  undo: RevealHistoryStepSchema.nullable(),
+  redo: RevealHistoryStepSchema.nullable(),
+});
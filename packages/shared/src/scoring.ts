@@ -1,10 +1,55 @@
-import type { LeaderboardPlayer } from "./types";
+import { CATEGORY_POINTS, getCategoryPoints, UNDERDOG_MAX_MULTIPLIER } from "./constants";
+import type { LeaderboardPlayer, PartialBallotPolicy, ScoringMode, ScoringRuleSet, TiebreakerRule } from "./types";
+
+/** Presets every game can pick from without setting anything up */
+export const BUILT_IN_RULE_SETS: ScoringRuleSet[] = [
+  { id: "flat", name: "Flat — 1 point each", points: {}, defaultPoints: 1, underdogBonus: false, builtIn: true },
+  {
+    id: "weighted",
+    name: "Weighted — big awards worth more",
+    points: CATEGORY_POINTS,
+    defaultPoints: 1,
+    underdogBonus: false,
+    builtIn: true,
+  },
+  {
+    id: "underdog",
+    name: "Underdog — 1 point, more for bold calls",
+    points: {},
+    defaultPoints: 1,
+    underdogBonus: true,
+    builtIn: true,
+  },
+];
+
+/** Points a category is worth under a rule set. No rule set = the category's own `points` column. */
+export function resolveCategoryPoints(
+  ruleSet: ScoringRuleSet | null,
+  category: { name: string; points: number },
+): number {
+  if (!ruleSet) return category.points;
+  return getCategoryPoints(category.name, ruleSet.points, ruleSet.defaultPoints);
+}
+
+/**
+ * Extra points for a correct pick that few others made: base × (1 / share − 1).
+ * A consensus pick earns nothing extra, a 50/50 call doubles, a 1-in-4 call
+ * quadruples — capped at UNDERDOG_MAX_MULTIPLIER × base on top.
+ */
+export function calculateUnderdogBonus(basePoints: number, winnerPickShare: number): number {
+  if (winnerPickShare <= 0 || winnerPickShare >= 1) return 0;
+  const bonus = basePoints * (1 / winnerPickShare - 1);
+  return Math.round(Math.min(bonus, basePoints * UNDERDOG_MAX_MULTIPLIER));
+}
 
 export interface ScoringPick {
   nominationId: string;
-  categoryWinnerId: string | null;
+  categoryWinnerIds: string[]; // More than one after a tie; empty until revealed
   categoryIsRevealed: boolean;
   categoryPoints: number;
+  categoryName?: string; // Needed when scoring against a rule set
+  confidence?: number | null; // Only used in confidence mode; unranked picks earn nothing
+  pickShare?: number; // Fraction of players in this category who made this same pick (underdog bonus)
 }
 
 export interface PlayerScore {
@@ -12,15 +57,60 @@ export interface PlayerScore {
   name: string;
   totalScore: number;
   correctCount: number;
+  tiebreakerGuess?: number | null;
+  incompleteBallot?: boolean;
+  maxPossibleScore?: number; // Omitted = nothing left to win
 }
 
-export function calculatePlayerScore(picks: ScoringPick[]): { totalScore: number; correctCount: number } {
+/** The settled tiebreaker question — only passed once the admin has entered the answer */
+export interface Tiebreaker {
+  answer: number;
+  rule: TiebreakerRule;
+}
+
+/**
+ * Orders two tiebreaker guesses: negative when `a` is better. Missing guesses
+ * come last; under "price-is-right", guesses over the answer come after every guess at or under it.
+ */
+export function compareTiebreakerGuesses(
+  a: number | null | undefined,
+  b: number | null | undefined,
+  tiebreaker: Tiebreaker,
+): number {
+  const key = (guess: number | null | undefined): [number, number] => {
+    if (guess === null || guess === undefined) return [2, 0];
+    const over = tiebreaker.rule === "price-is-right" && guess > tiebreaker.answer ? 1 : 0;
+    return [over, Math.abs(guess - tiebreaker.answer)];
+  };
+  const [groupA, distanceA] = key(a);
+  const [groupB, distanceB] = key(b);
+  return groupA !== groupB ? groupA - groupB : distanceA - distanceB;
+}
+
+/** What a correct pick earns before any bonus */
+function basePoints(pick: ScoringPick, mode: ScoringMode, ruleSet: ScoringRuleSet | null): number {
+  if (mode === "confidence") return pick.confidence ?? 0;
+  return resolveCategoryPoints(ruleSet, { name: pick.categoryName ?? "", points: pick.categoryPoints });
+}
+
+/** What a correct pick earns, bonus included */
+function pickPoints(pick: ScoringPick, mode: ScoringMode, ruleSet: ScoringRuleSet | null, underdogBonus: boolean) {
+  const base = basePoints(pick, mode, ruleSet);
+  return underdogBonus ? base + calculateUnderdogBonus(base, pick.pickShare ?? 1) : base;
+}
+
+export function calculatePlayerScore(
+  picks: ScoringPick[],
+  mode: ScoringMode = "standard",
+  ruleSet: ScoringRuleSet | null = null,
+  underdogBonus = false,
+): { totalScore: number; correctCount: number } {
   let totalScore = 0;
   let correctCount = 0;
   for (const pick of picks) {
-    if (pick.categoryIsRevealed && pick.categoryWinnerId !== null) {
-      if (pick.nominationId === pick.categoryWinnerId) {
-        totalScore += pick.categoryPoints;
+    if (pick.categoryIsRevealed) {
+      if (pick.categoryWinnerIds.includes(pick.nominationId)) {
+        totalScore += pickPoints(pick, mode, ruleSet, underdogBonus);
         correctCount += 1;
       }
     }
@@ -29,27 +119,188 @@ export function calculatePlayerScore(picks: ScoringPick[]): { totalScore: number
 }
 
 /**
- * Rank players by score. Expects PRE-FILTERED input: only players who
- * submitted picks for ALL categories should be passed in.
+ * Best score a player can still finish with: what they have now plus every
+ * pick in an unannounced category coming good. Skipped categories add nothing.
+ */
+export function calculateMaxPossibleScore(
+  picks: ScoringPick[],
+  mode: ScoringMode = "standard",
+  ruleSet: ScoringRuleSet | null = null,
+  underdogBonus = false,
+): number {
+  const { totalScore } = calculatePlayerScore(picks, mode, ruleSet, underdogBonus);
+  const remaining = picks
+    .filter((pick) => !pick.categoryIsRevealed)
+    .reduce((sum, pick) => sum + pickPoints(pick, mode, ruleSet, underdogBonus), 0);
+  return totalScore + remaining;
+}
+
+/**
+ * Whether a player is still in the running. Eliminated once even a clean sweep
+ * can't catch someone's current score; podium clinched once fewer than three
+ * rivals could still reach theirs. Ties count as a threat — tiebreakers could go either way.
  */
-export function buildLeaderboard(players: PlayerScore[]): LeaderboardPlayer[] {
-  const sorted = [...players].sort((a, b) => {
+function getContention(player: PlayerScore, players: PlayerScore[]) {
+  const rivals = players.filter((p) => p.playerId !== player.playerId);
+  const ceiling = player.maxPossibleScore ?? player.totalScore;
+  const threats = rivals.filter((r) => (r.maxPossibleScore ?? r.totalScore) >= player.totalScore).length;
+  return {
+    eliminated: rivals.some((r) => r.totalScore > ceiling),
+    clinchedPodium: rivals.length >= 3 && threats < 3,
+  };
+}
+
+/**
+ * Rank players by score. Expects PRE-FILTERED input: whoever the game's
+ * partial-ballot policy lets onto the board.
+ *
+ * Ties go to correctCount, then — once a tiebreaker answer is known — to the
+ * closest guess. Players still level after that share a rank and are listed by name.
+ * Each entry also says whether the player can still win or has a podium spot locked up.
+ */
+export function buildLeaderboard(players: PlayerScore[], tiebreaker: Tiebreaker | null = null): LeaderboardPlayer[] {
+  const compareTied = (a: PlayerScore, b: PlayerScore) => {
     if (b.totalScore !== a.totalScore) return b.totalScore - a.totalScore;
     if (b.correctCount !== a.correctCount) return b.correctCount - a.correctCount;
-    return a.name.localeCompare(b.name);
-  });
+    return tiebreaker ? compareTiebreakerGuesses(a.tiebreakerGuess, b.tiebreakerGuess, tiebreaker) : 0;
+  };
+  const sorted = [...players].sort((a, b) => compareTied(a, b) || a.name.localeCompare(b.name));
 
   return sorted.map((player, index) => {
     let rank = index + 1;
     if (index > 0) {
       const prev = sorted[index - 1];
-      if (player.totalScore === prev.totalScore && player.correctCount === prev.correctCount) {
-        const firstTied = sorted.findIndex(
-          (p) => p.totalScore === player.totalScore && p.correctCount === player.correctCount,
-        );
+      if (prev && compareTied(player, prev) === 0) {
+        const firstTied = sorted.findIndex((p) => compareTied(p, player) === 0);
         rank = firstTied + 1;
       }
     }
-    return { playerId: player.playerId, name: player.name, totalScore: player.totalScore, correctCount: player.correctCount, rank };
+    return {
+      playerId: player.playerId,
+      name: player.name,
+      totalScore: player.totalScore,
+      correctCount: player.correctCount,
+      rank,
+      tiebreakerGuess: tiebreaker ? (player.tiebreakerGuess ?? null) : null,
+      incompleteBallot: player.incompleteBallot ?? false,
+      maxPossibleScore: player.maxPossibleScore ?? player.totalScore,
+      ...getContention(player, players),
+    };
   });
 }
+
+/** One player's full set of picks, as scored by scoreBallots() */
+export interface PlayerBallot {
+  playerId: string;
+  name: string;
+  tiebreakerGuess?: number | null;
+  picks: { categoryId: string; nominationId: string; confidence?: number | null }[];
+}
+
+export interface ScoringCategory {
+  id: string;
+  name: string;
+  points: number;
+  winnerIds: string[];
+  isRevealed: boolean;
+}
+
+/** Everything about a game that changes how ballots turn into standings */
+export interface ScoringConfig {
+  mode: ScoringMode;
+  ruleSet: ScoringRuleSet | null;
+  underdogBonus: boolean;
+  partialBallotPolicy: PartialBallotPolicy;
+  tiebreaker: Tiebreaker | null;
+}
+
+/**
+ * Reads a ScoringConfig off a game. The underdog bonus is on if the game or its rule set turns it on.
+ * The tiebreaker only counts once the admin has entered the answer.
+ */
+export function getScoringConfig(
+  game: {
+    scoringMode: ScoringMode;
+    underdogBonus: boolean;
+    partialBallotPolicy: PartialBallotPolicy;
+    tiebreakerAnswer: number | null;
+    tiebreakerRule: TiebreakerRule;
+  } | null | undefined,
+  ruleSet: ScoringRuleSet | null,
+): ScoringConfig {
+  return {
+    mode: game?.scoringMode ?? "standard",
+    ruleSet,
+    underdogBonus: (game?.underdogBonus ?? false) || (ruleSet?.underdogBonus ?? false),
+    partialBallotPolicy: game?.partialBallotPolicy ?? "exclude",
+    tiebreaker:
+      game && game.tiebreakerAnswer !== null ? { answer: game.tiebreakerAnswer, rule: game.tiebreakerRule } : null,
+  };
+}
+
+/** Category id → nomination id → fraction of that category's pickers who chose it */
+export function getPickShares(ballots: PlayerBallot[]): Map<string, Map<string, number>> {
+  const counts = new Map<string, Map<string, number>>();
+  for (const pick of ballots.flatMap((b) => b.picks)) {
+    const byNomination = counts.get(pick.categoryId) ?? new Map<string, number>();
+    byNomination.set(pick.nominationId, (byNomination.get(pick.nominationId) ?? 0) + 1);
+    counts.set(pick.categoryId, byNomination);
+  }
+
+  const shares = new Map<string, Map<string, number>>();
+  for (const [categoryId, byNomination] of counts) {
+    const total = [...byNomination.values()].reduce((sum, n) => sum + n, 0);
+    shares.set(categoryId, new Map([...byNomination].map(([id, n]) => [id, n / total])));
+  }
+  return shares;
+}
+
+/**
+ * Ballots + categories (with whatever winners are known) → ranked leaderboard.
+ * Runtime-agnostic: the server scores the real results with it, the what-if page
+ * scores hypothetical ones. Ballots with no picks never appear; partial ones
+ * appear only if the game's policy allows, with their gaps scoring zero.
+ */
+export function scoreBallots(
+  ballots: PlayerBallot[],
+  categories: ScoringCategory[],
+  config: ScoringConfig,
+): LeaderboardPlayer[] {
+  if (categories.length === 0) return [];
+  const categoryMap = new Map(categories.map((c) => [c.id, c]));
+  // Underdog bonus needs to know how popular each pick was
+  const pickShares = config.underdogBonus ? getPickShares(ballots) : new Map<string, Map<string, number>>();
+
+  const playerScores: PlayerScore[] = [];
+  for (const ballot of ballots) {
+    const known = ballot.picks.filter((pick) => categoryMap.has(pick.categoryId));
+    if (known.length === 0) continue;
+    const incomplete = known.length < categories.length;
+    if (incomplete && config.partialBallotPolicy === "exclude") continue;
+
+    const scoringPicks: ScoringPick[] = known.map((pick) => {
+      const cat = categoryMap.get(pick.categoryId) as ScoringCategory;
+      return {
+        nominationId: pick.nominationId,
+        categoryWinnerIds: cat.winnerIds,
+        categoryIsRevealed: cat.isRevealed,
+        categoryPoints: cat.points,
+        categoryName: cat.name,
+        confidence: pick.confidence,
+        pickShare: pickShares.get(pick.categoryId)?.get(pick.nominationId),
+      };
+    });
+
+    const { mode, ruleSet, underdogBonus } = config;
+    playerScores.push({
+      playerId: ballot.playerId,
+      name: ballot.name,
+      ...calculatePlayerScore(scoringPicks, mode, ruleSet, underdogBonus),
+      tiebreakerGuess: ballot.tiebreakerGuess,
+      incompleteBallot: incomplete && config.partialBallotPolicy === "flag",
+      maxPossibleScore: calculateMaxPossibleScore(scoringPicks, mode, ruleSet, underdogBonus),
+    });
+  }
+
+  return buildLeaderboard(playerScores, config.tiebreaker);
+}
@@ -1,38 +1,138 @@
 import type { z } from "zod";
 import type {
+  GameSchema,
+  CreateGameSchema,
+  SetLockSchema,
+  ScoringModeSchema,
+  SetScoringSchema,
+  ScoringRuleSetSchema,
+  CreateScoringRuleSetSchema,
+  SetConfidenceSchema,
+  TiebreakerRuleSchema,
+  PartialBallotPolicySchema,
+  SetTiebreakerSchema,
+  SetTiebreakerGuessSchema,
   PlayerSchema,
   CreatePlayerSchema,
+  RecoverPlayerSchema,
+  RenamePlayerSchema,
+  MergeConflictStrategySchema,
+  MergePlayersSchema,
+  CreateAdminSchema,
   CategorySchema,
   NominationSchema,
   PickSchema,
   SubmitPickSchema,
-  GameConfigSchema,
   LeaderboardPlayerSchema,
+  NominationDistributionSchema,
+  CategoryDistributionSchema,
+  TimelineStandingSchema,
+  TimelineStepSchema,
+  CreateCategorySchema,
+  UpdateCategorySchema,
+  ReorderCategoriesSchema,
+  CreateNominationSchema,
+  UpdateNominationSchema,
+  BallotSchema,
+  ImportBallotSchema,
+  ArchivedCeremonySchema,
+  ArchivedCategorySchema,
+  ArchivedStandingSchema,
+  ArchivedPickSchema,
+  PlayerRecordSchema,
   ReactionBroadcastSchema,
+  RevealCorrectedSchema,
+  RevealHistoryResponseSchema,
   JoinResponseSchema,
+  ResetPinResponseSchema,
+  AdminLoginResponseSchema,
+  AdminAccountSchema,
+  AdminAccountsResponseSchema,
+  AuditEntrySchema,
+  AuditLogResponseSchema,
+  MergePlayersResponseSchema,
+  LockoutSchema,
+  LockoutsResponseSchema,
+  GamesResponseSchema,
   GameStateResponseSchema,
   CategoriesResponseSchema,
   PicksResponseSchema,
   SubmitPickResponseSchema,
+  PlayerBallotResponseSchema,
   LeaderboardResponseSchema,
+  PickDistributionResponseSchema,
+  ScoreTimelineResponseSchema,
+  HistoryResponseSchema,
+  CeremonyDetailResponseSchema,
+  PlayerRecordsResponseSchema,
 } from "./schemas";
 
+export type Game = z.infer<typeof GameSchema>;
+export type CreateGame = z.infer<typeof CreateGameSchema>;
+export type SetLock = z.infer<typeof SetLockSchema>;
+export type ScoringMode = z.infer<typeof ScoringModeSchema>;
+export type SetScoring = z.infer<typeof SetScoringSchema>;
+export type ScoringRuleSet = z.infer<typeof ScoringRuleSetSchema>;
+export type CreateScoringRuleSet = z.infer<typeof CreateScoringRuleSetSchema>;
+export type SetConfidence = z.infer<typeof SetConfidenceSchema>;
+export type TiebreakerRule = z.infer<typeof TiebreakerRuleSchema>;
+export type PartialBallotPolicy = z.infer<typeof PartialBallotPolicySchema>;
+export type SetTiebreaker = z.infer<typeof SetTiebreakerSchema>;
+export type SetTiebreakerGuess = z.infer<typeof SetTiebreakerGuessSchema>;
 export type Player = z.infer<typeof PlayerSchema>;
 export type CreatePlayer = z.infer<typeof CreatePlayerSchema>;
+export type RecoverPlayer = z.infer<typeof RecoverPlayerSchema>;
+export type RenamePlayer = z.infer<typeof RenamePlayerSchema>;
+export type MergeConflictStrategy = z.infer<typeof MergeConflictStrategySchema>;
+export type MergePlayers = z.infer<typeof MergePlayersSchema>;
+export type CreateAdmin = z.infer<typeof CreateAdminSchema>;
 export type Category = z.infer<typeof CategorySchema>;
 export type Nomination = z.infer<typeof NominationSchema>;
 export type GamePick = z.infer<typeof PickSchema>; // "GamePick" not "Pick" to avoid TS builtin collision
 export type SubmitPick = z.infer<typeof SubmitPickSchema>;
-export type GameConfig = z.infer<typeof GameConfigSchema>;
 export type LeaderboardPlayer = z.infer<typeof LeaderboardPlayerSchema>;
+export type NominationDistribution = z.infer<typeof NominationDistributionSchema>;
+export type CategoryDistribution = z.infer<typeof CategoryDistributionSchema>;
+export type TimelineStanding = z.infer<typeof TimelineStandingSchema>;
+export type TimelineStep = z.infer<typeof TimelineStepSchema>;
+export type CreateCategory = z.infer<typeof CreateCategorySchema>;
+export type UpdateCategory = z.infer<typeof UpdateCategorySchema>;
+export type ReorderCategories = z.infer<typeof ReorderCategoriesSchema>;
+export type CreateNomination = z.infer<typeof CreateNominationSchema>;
+export type UpdateNomination = z.infer<typeof UpdateNominationSchema>;
+export type Ballot = z.infer<typeof BallotSchema>;
+export type ImportBallot = z.infer<typeof ImportBallotSchema>;
+export type ArchivedCeremony = z.infer<typeof ArchivedCeremonySchema>;
+export type ArchivedCategory = z.infer<typeof ArchivedCategorySchema>;
+export type ArchivedStanding = z.infer<typeof ArchivedStandingSchema>;
+export type ArchivedPick = z.infer<typeof ArchivedPickSchema>;
+export type PlayerRecord = z.infer<typeof PlayerRecordSchema>;
 export type ReactionBroadcast = z.infer<typeof ReactionBroadcastSchema>;
+export type RevealCorrected = z.infer<typeof RevealCorrectedSchema>;
+export type RevealHistoryResponse = z.infer<typeof RevealHistoryResponseSchema>;
 
 export type JoinResponse = z.infer<typeof JoinResponseSchema>;
+export type ResetPinResponse = z.infer<typeof ResetPinResponseSchema>;
+export type AdminLoginResponse = z.infer<typeof AdminLoginResponseSchema>;
+export type AdminAccount = z.infer<typeof AdminAccountSchema>;
+export type AdminAccountsResponse = z.infer<typeof AdminAccountsResponseSchema>;
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+export type AuditLogResponse = z.infer<typeof AuditLogResponseSchema>;
+export type MergePlayersResponse = z.infer<typeof MergePlayersResponseSchema>;
+export type Lockout = z.infer<typeof LockoutSchema>;
+export type LockoutsResponse = z.infer<typeof LockoutsResponseSchema>;
+export type GamesResponse = z.infer<typeof GamesResponseSchema>;
 export type GameStateResponse = z.infer<typeof GameStateResponseSchema>;
 export type CategoriesResponse = z.infer<typeof CategoriesResponseSchema>;
 export type PicksResponse = z.infer<typeof PicksResponseSchema>;
 export type SubmitPickResponse = z.infer<typeof SubmitPickResponseSchema>;
+export type PlayerBallotResponse = z.infer<typeof PlayerBallotResponseSchema>;
 export type LeaderboardResponse = z.infer<typeof LeaderboardResponseSchema>;
+export type PickDistributionResponse = z.infer<typeof PickDistributionResponseSchema>;
+export type ScoreTimelineResponse = z.infer<typeof ScoreTimelineResponseSchema>;
+export type HistoryResponse = z.infer<typeof HistoryResponseSchema>;
+export type CeremonyDetailResponse = z.infer<typeof CeremonyDetailResponseSchema>;
+export type PlayerRecordsResponse = z.infer<typeof PlayerRecordsResponseSchema>;
 
 export type GamePhase = "setup" | "open" | "locked" | "completed";
 export type CategoryWithNominations = Category & { nominations: Nomination[] };
@@ -17,8 +17,8 @@ vi.mock("../auth", () => ({
   useAuth: () => mockUseAuth(),
 }));
 
-const adminAuth = { token: "admin-token", isAdmin: true };
-const nonAdminAuth = { token: "user-token", isAdmin: false };
+const adminAuth = { token: "admin-token", isAdmin: true, gameId: "game-1" };
+const nonAdminAuth = { token: "user-token", isAdmin: false, gameId: "game-1" };
 
 const mockCategories = [
   {
@@ -26,7 +26,7 @@ const mockCategories = [
     name: "Best Picture",
     order: 1,
     points: 1,
-    winnerId: null,
+    winnerIds: [],
     isRevealed: false,
     createdAt: 0,
     nominations: [
@@ -39,7 +39,7 @@ const mockCategories = [
     name: "Best Director",
     order: 2,
     points: 1,
-    winnerId: "nom-3",
+    winnerIds: ["nom-3"],
     isRevealed: true,
     createdAt: 0,
     nominations: [
@@ -49,6 +49,13 @@ const mockCategories = [
   },
 ];
 
+/** The nominee card (a button) holding this title */
+function nomineeButton(title: string): HTMLElement {
+  const button = screen.getByText(title).closest("button");
+  if (!button) throw new Error(`No button around "${title}"`);
+  return button;
+}
+
 function makeWrapper() {
   const qc = new QueryClient({ defaultOptions: { queries: { retry: false } } });
   return ({ children }: { children: React.ReactNode }) => (
@@ -60,13 +67,13 @@ function makeWrapper() {
 
 function setupFetchMock(categories = mockCategories) {
   global.fetch = vi.fn((url: string) => {
-    if (url === "/api/categories") {
+    if (url === "/api/games/game-1/categories") {
       return Promise.resolve({ ok: true, json: () => Promise.resolve({ categories }) } as Response);
     }
-    if (url === "/api/admin/mark-winner") {
+    if (url === "/api/games/game-1/admin/mark-winner") {
       return Promise.resolve({ ok: true, json: () => Promise.resolve({}) } as Response);
     }
-    if (url === "/api/admin/clear-winner") {
+    if (url === "/api/games/game-1/admin/clear-winner") {
       return Promise.resolve({ ok: true, json: () => Promise.resolve({}) } as Response);
     }
     return Promise.reject(new Error(`Unexpected fetch: ${url}`));
@@ -157,32 +164,50 @@ describe("AdminLivePage", () => {
       setupFetchMock();
       render(<AdminLivePage />, { wrapper: makeWrapper() });
       await waitFor(() => screen.getByText("Oppenheimer"));
-      fireEvent.click(screen.getByText("Oppenheimer").closest("button")!);
+      fireEvent.click(nomineeButton("Oppenheimer"));
       // Confirmation renders the title in a nested span; verify both parts are present
       expect(await screen.findByText("Confirm")).toBeInTheDocument();
       expect(screen.getByText("Oppenheimer", { selector: "span.font-bold" })).toBeInTheDocument();
     });
 
-    it("calls POST /api/admin/mark-winner on Confirm", async () => {
+    it("calls POST /api/games/:gameId/admin/mark-winner on Confirm", async () => {
       setupFetchMock();
       render(<AdminLivePage />, { wrapper: makeWrapper() });
       await waitFor(() => screen.getByText("Oppenheimer"));
-      fireEvent.click(screen.getByText("Oppenheimer").closest("button")!);
+      fireEvent.click(nomineeButton("Oppenheimer"));
       await screen.findByText("Confirm");
       fireEvent.click(screen.getByText("Confirm"));
       await waitFor(() => {
         expect(global.fetch).toHaveBeenCalledWith(
-          "/api/admin/mark-winner",
+          "/api/games/game-1/admin/mark-winner",
           expect.objectContaining({ method: "POST" })
         );
       });
     });
 
+    it("tapping a second nominee marks a tie", async () => {
+      setupFetchMock();
+      render(<AdminLivePage />, { wrapper: makeWrapper() });
+      await waitFor(() => screen.getByText("Oppenheimer"));
+      fireEvent.click(nomineeButton("Oppenheimer"));
+      fireEvent.click(nomineeButton("Barbie"));
+      expect(await screen.findByText(/joint winners/)).toBeInTheDocument();
+      fireEvent.click(screen.getByText("Confirm"));
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          "/api/games/game-1/admin/mark-winner",
+          expect.objectContaining({
+            body: JSON.stringify({ categoryId: "cat-1", nominationIds: ["nom-1", "nom-2"] }),
+          })
+        );
+      });
+    });
+
     it("dismisses confirmation on Cancel", async () => {
       setupFetchMock();
       render(<AdminLivePage />, { wrapper: makeWrapper() });
       await waitFor(() => screen.getByText("Oppenheimer"));
-      fireEvent.click(screen.getByText("Oppenheimer").closest("button")!);
+      fireEvent.click(nomineeButton("Oppenheimer"));
       await screen.findByText("Cancel");
       fireEvent.click(screen.getByText("Cancel"));
       expect(screen.queryByText("Confirm")).not.toBeInTheDocument();
@@ -194,7 +219,7 @@ describe("AdminLivePage", () => {
       await waitFor(() => screen.getByText("Director"));
       fireEvent.click(screen.getByText("Director"));
       await waitFor(() => screen.getByText("Christopher Nolan"));
-      fireEvent.click(screen.getByText("Christopher Nolan").closest("button")!);
+      fireEvent.click(nomineeButton("Christopher Nolan"));
       expect(screen.queryByText("Confirm")).not.toBeInTheDocument();
     });
   });
@@ -212,7 +237,7 @@ describe("AdminLivePage", () => {
       expect(screen.getByText(/undo winner/i)).toBeInTheDocument();
     });
 
-    it("calls POST /api/admin/clear-winner on Undo", async () => {
+    it("calls POST /api/games/:gameId/admin/clear-winner on Undo", async () => {
       setupFetchMock();
       render(<AdminLivePage />, { wrapper: makeWrapper() });
       await waitFor(() => screen.getByText("Director"));
@@ -221,7 +246,7 @@ describe("AdminLivePage", () => {
       fireEvent.click(screen.getByText(/undo winner/i));
       await waitFor(() => {
         expect(global.fetch).toHaveBeenCalledWith(
-          "/api/admin/clear-winner",
+          "/api/games/game-1/admin/clear-winner",
           expect.objectContaining({ method: "POST" })
         );
       });
@@ -57,9 +57,16 @@ const CATEGORIES = [
   },
 ];
 
+/** The nominee card (a button) holding this title */
+function nomineeButton(title: string): HTMLElement {
+  const button = screen.getByText(title).closest("button");
+  if (!button) throw new Error(`No button around "${title}"`);
+  return button;
+}
+
 function makeQueryClient() {
   const qc = new QueryClient({ defaultOptions: { queries: { retry: false } } });
-  qc.setQueryData(["categories"], CATEGORIES);
+  qc.setQueryData(["categories", "game-1"], CATEGORIES);
   return qc;
 }
 
@@ -85,10 +92,11 @@ describe("PicksPage", () => {
       playerId: "p1",
       name: "Test Player",
       isAdmin: false,
+      gameId: "game-1",
     });
     mockUseGameState.mockReturnValue({
       phase: "open",
-      config: null,
+      game: null,
       categoryCount: 2,
       isLoading: false,
           });
@@ -105,19 +113,19 @@ describe("PicksPage", () => {
   });
 
   it("redirects to / when not authenticated", async () => {
-    mockUseAuth.mockReturnValue({ token: null, playerId: null, name: null, isAdmin: false });
+    mockUseAuth.mockReturnValue({ token: null, playerId: null, name: null, isAdmin: false, gameId: null });
     renderPicksPage();
     await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith("/"));
   });
 
   it("redirects to /leaderboard when phase is locked", async () => {
-    mockUseGameState.mockReturnValue({ phase: "locked", config: null, categoryCount: 2, isLoading: false, lockWarning: false });
+    mockUseGameState.mockReturnValue({ phase: "locked", game: null, categoryCount: 2, isLoading: false, lockWarning: false });
     renderPicksPage();
     await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith("/leaderboard"));
   });
 
   it("redirects to /leaderboard when phase is completed", async () => {
-    mockUseGameState.mockReturnValue({ phase: "completed", config: null, categoryCount: 2, isLoading: false, lockWarning: false });
+    mockUseGameState.mockReturnValue({ phase: "completed", game: null, categoryCount: 2, isLoading: false, lockWarning: false });
     renderPicksPage();
     await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith("/leaderboard"));
   });
@@ -140,6 +148,70 @@ describe("PicksPage", () => {
     expect(screen.getByRole("heading", { name: "Best Picture" })).toBeInTheDocument();
   });
 
+  it("shows a countdown when a lock time is scheduled", () => {
+    mockUseGameState.mockReturnValue({
+      phase: "open",
+      game: { id: "game-1", name: "Office Pool", completedAt: null, locksAt: Date.now() + 90 * 60 * 1000, createdAt: 0 },
+      categoryCount: 2,
+      isLoading: false,
+    });
+    renderPicksPage();
+    expect(screen.getByText(/Picks lock in/)).toBeInTheDocument();
+  });
+
+  it("hides the countdown when no lock is scheduled", () => {
+    renderPicksPage();
+    expect(screen.queryByText(/Picks lock in/)).not.toBeInTheDocument();
+  });
+
+  it("locks a single category while the rest stay open", () => {
+    const qc = makeQueryClient();
+    qc.setQueryData(["categories", "game-1"], [
+      CATEGORIES[0],
+      { ...CATEGORIES[1], locksAt: Date.now() - 1000 },
+    ]);
+    renderPicksPage(qc);
+
+    expect(screen.getByTitle("Locked")).toBeInTheDocument();
+    fireEvent.click(nomineeButton("Oppenheimer"));
+    expect(mockHandleSelect).toHaveBeenCalledWith("cat-1", "nom-1");
+
+    fireEvent.click(screen.getByText("Director"));
+    expect(screen.getByText(/This category is locked/)).toBeInTheDocument();
+    fireEvent.click(nomineeButton("Christopher Nolan"));
+    expect(mockHandleSelect).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets a confidence-mode player rank a complete ballot", () => {
+    const mockSaveConfidence = vi.fn();
+    mockUseGameState.mockReturnValue({
+      phase: "open",
+      game: { id: "game-1", name: "Office Pool", completedAt: null, locksAt: null, scoringMode: "confidence", createdAt: 0 },
+      categoryCount: 2,
+      isLoading: false,
+    });
+    mockUsePicks.mockReturnValue({
+      picks: [
+        { categoryId: "cat-1", nominationId: "nom-1", confidence: null },
+        { categoryId: "cat-2", nominationId: "nom-3", confidence: null },
+      ],
+      selectedNominationId: "nom-1",
+      setSelectedNominationId: mockSetSelectedNominationId,
+      handleSelect: mockHandleSelect,
+      saveStatus: "idle" as SaveStatus,
+      isLoading: false,
+      completedCategoryIds: new Set(["cat-1", "cat-2"]),
+      isSubmitting: false,
+      saveConfidence: mockSaveConfidence,
+      confidenceError: null,
+    });
+    renderPicksPage();
+
+    fireEvent.click(screen.getByRole("button", { name: "Move Best Director up" }));
+    fireEvent.click(screen.getByText("Save Ranking"));
+    expect(mockSaveConfidence).toHaveBeenCalledWith(["cat-2", "cat-1"]);
+  });
+
   it("shows progress counter", () => {
     renderPicksPage();
     expect(screen.getByText("0 of 2 picked")).toBeInTheDocument();
@@ -162,7 +234,7 @@ describe("PicksPage", () => {
 
   it("calls handleSelect when a nomination card is clicked", () => {
     renderPicksPage();
-    fireEvent.click(screen.getByText("Oppenheimer").closest("button")!);
+    fireEvent.click(nomineeButton("Oppenheimer"));
     expect(mockHandleSelect).toHaveBeenCalledWith("cat-1", "nom-1");
   });
 
@@ -1,15 +1,19 @@
 import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from "react";
+import { gameApi } from "./client";
 
 interface AuthState {
   token: string | null;
   playerId: string | null;
   name: string | null;
   isAdmin: boolean;
+  /** Game the player joined, or the game the admin is currently managing */
+  gameId: string | null;
 }
 
 interface AuthContextValue extends AuthState {
-  login: (token: string, playerId: string, name: string) => void;
-  loginAdmin: (token: string) => void;
+  login: (token: string, playerId: string, name: string, gameId: string) => void;
+  loginAdmin: (token: string, name: string) => void;
+  selectGame: (gameId: string) => void;
   logout: () => void;
 }
 
@@ -20,11 +24,11 @@ const STORAGE_KEY = "bignight_auth";
 function loadAuth(): AuthState {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) return JSON.parse(stored);
+    if (stored) return { gameId: null, ...JSON.parse(stored) };
   } catch {
     // Ignore parse errors
   }
-  return { token: null, playerId: null, name: null, isAdmin: false };
+  return { token: null, playerId: null, name: null, isAdmin: false, gameId: null };
 }
 
 function saveAuth(state: AuthState) {
@@ -34,39 +38,56 @@ function saveAuth(state: AuthState) {
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [auth, setAuth] = useState<AuthState>(loadAuth);
 
-  const login = useCallback((token: string, playerId: string, name: string) => {
-    const state = { token, playerId, name, isAdmin: false };
+  const login = useCallback((token: string, playerId: string, name: string, gameId: string) => {
+    const state = { token, playerId, name, isAdmin: false, gameId };
     setAuth(state);
     saveAuth(state);
   }, []);
 
-  const loginAdmin = useCallback((token: string) => {
-    const state = { token, playerId: "admin", name: "Admin", isAdmin: true };
-    setAuth(state);
-    saveAuth(state);
+  const loginAdmin = useCallback((token: string, name: string) => {
+    setAuth((prev) => {
+      // Keep the previously managed game so the dashboard reopens where the admin left off
+      const state = { token, playerId: "admin", name, isAdmin: true, gameId: prev.isAdmin ? prev.gameId : null };
+      saveAuth(state);
+      return state;
+    });
+  }, []);
+
+  const selectGame = useCallback((gameId: string) => {
+    setAuth((prev) => {
+      const state = { ...prev, gameId };
+      saveAuth(state);
+      return state;
+    });
   }, []);
 
   const logout = useCallback(() => {
-    const state = { token: null, playerId: null, name: null, isAdmin: false };
+    const state = { token: null, playerId: null, name: null, isAdmin: false, gameId: null };
     setAuth(state);
     localStorage.removeItem(STORAGE_KEY);
   }, []);
 
-  // Validate session on mount — if the player was deleted (e.g., DB reset),
-  // clear stale auth and redirect to sign-in
+  // Validate the session on mount and whenever it changes — if the player was deleted
+  // (e.g., DB reset), clear stale auth and redirect to sign-in
+  const { token, isAdmin, gameId } = auth;
   useEffect(() => {
-    if (!auth.token || auth.isAdmin) return;
-    fetch("/api/player/me", {
-      headers: { Authorization: `Bearer ${auth.token}` },
+    if (!token || isAdmin) return;
+    // Sessions from before multi-game support have no game — sign in again
+    if (!gameId) {
+      logout();
+      return;
+    }
+    fetch(gameApi(gameId, "/player/me"), {
+      headers: { Authorization: `Bearer ${token}` },
     }).then((res) => {
-      if (res.status === 401) {
+      if (res.status === 401 || res.status === 403 || res.status === 404) {
         logout();
       }
     }).catch(() => {});
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [token, isAdmin, gameId, logout]);
 
   return (
-    <AuthContext.Provider value={{ ...auth, login, loginAdmin, logout }}>
+    <AuthContext.Provider value={{ ...auth, login, loginAdmin, selectGame, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -19,6 +19,11 @@ async function apiFetch<T>(path: string, options: RequestInit = {}): Promise<T>
   return res.json();
 }
 
+/** URL for a game-scoped API route, e.g. gameApi(id, "/picks") → /api/games/:id/picks */
+export function gameApi(gameId: string | null, path = ""): string {
+  return `${API_BASE}/games/${gameId ?? ""}${path}`;
+}
+
 export class ApiError extends Error {
   constructor(public status: number, message: string) {
     super(message);
@@ -27,8 +32,8 @@ export class ApiError extends Error {
 }
 
 export const api = {
-  join: async (data: { name: string; pin: string }) => {
-    const raw = await apiFetch("/player/join", {
+  join: async (gameId: string, data: { name: string; pin: string }) => {
+    const raw = await apiFetch(`/games/${gameId}/player/join`, {
       method: "POST", body: JSON.stringify(data),
     });
     return JoinResponseSchema.parse(raw);
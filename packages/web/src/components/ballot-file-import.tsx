@@ -0,0 +1,101 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { gameApi } from "../client";
+
+interface BallotFileImportProps {
+  token: string;
+  gameId: string;
+}
+
+interface BallotFile {
+  format: "csv" | "json";
+  content: string;
+}
+
+/**
+ * Imports categories and nominees from a CSV or JSON ballot file. The file is
+ * previewed as soon as it's chosen, so mistakes show up before importing.
+ */
+export function BallotFileImport({ token, gameId }: BallotFileImportProps) {
+  const queryClient = useQueryClient();
+  const [ballot, setBallot] = useState<BallotFile | null>(null);
+  const [categoryCount, setCategoryCount] = useState<number | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function post(path: "preview" | "import", file: BallotFile) {
+    const res = await fetch(gameApi(gameId, `/admin/ballot/${path}`), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(file),
+    });
+    const body = await res.json().catch(() => ({ error: "Request failed" }));
+    return { ok: res.ok, body };
+  }
+
+  async function handleFile(file: File | undefined) {
+    setCategoryCount(null);
+    setStatus(null);
+    if (!file) {
+      setBallot(null);
+      return;
+    }
+    const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+    const next = { format, content: await file.text() } as const;
+    setBallot(next);
+
+    const { ok, body } = await post("preview", next);
+    if (ok) setCategoryCount(body.categories?.length ?? 0);
+    else setStatus(`Error: ${body.error}`);
+  }
+
+  async function handleImport() {
+    if (!ballot) return;
+    setStatus("Importing...");
+    const { ok, body } = await post("import", ballot);
+    if (ok) {
+      setStatus("Imported!");
+      setCategoryCount(null);
+      queryClient.invalidateQueries({ queryKey: ["categories", gameId] });
+    } else {
+      setStatus(`Error: ${body.error}`);
+    }
+  }
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-white">
+        Import from File
+      </h2>
+      <p className="text-xs text-gray-500">
+        CSV with columns <code>category,points,title,subtitle,image_url</code>, or JSON{" "}
+        <code>{"{ categories: [{ name, points, nominations: [{ title, subtitle, imageUrl }] }] }"}</code>
+      </p>
+      <input
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="block text-sm text-gray-300 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-white/10 file:text-white hover:file:bg-white/20"
+      />
+      {categoryCount !== null && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-300">
+            {categoryCount} categories found
+          </p>
+          <button
+            type="button"
+            onClick={handleImport}
+            className="px-4 py-2 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg text-sm"
+          >
+            Import
+          </button>
+        </div>
+      )}
+      {status && (
+        <p className="text-sm text-gray-400">{status}</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,291 @@
+import type { CategoryWithNominations, Nomination } from "@bignight/shared";
+import { CategoriesResponseSchema } from "@bignight/shared";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { type FormEvent, useState } from "react";
+import { gameApi } from "../client";
+import { LockControl } from "./lock-control";
+
+interface CategoryEditorProps {
+  token: string;
+  gameId: string;
+}
+
+const inputClass =
+  "px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-sm focus:border-[#e2b04a] focus:outline-none";
+
+/**
+ * Admin editor for categories and nominations: add, rename, re-point, delete,
+ * and drag to reorder. Edits that would touch existing picks ask for confirmation first.
+ */
+export function CategoryEditor({ token, gameId }: CategoryEditorProps) {
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["categories", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/categories"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return CategoriesResponseSchema.parse(await res.json()).categories;
+    },
+  });
+
+  /**
+   * Sends an admin edit. On 409 (picks would be affected) asks the admin
+   * and retries with ?force=true. Returns true when the change was applied.
+   */
+  async function send(method: string, path: string, body?: unknown): Promise<boolean> {
+    setError(null);
+    const attempt = (force: boolean) =>
+      fetch(gameApi(gameId, `/admin${path}${force ? "?force=true" : ""}`), {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+    let res = await attempt(false);
+    if (res.status === 409) {
+      const { error: message, pickCount } = await res.json();
+      if (pickCount === undefined) {
+        setError(message);
+        return false;
+      }
+      if (!confirm(`${message}. Their picks will change. Continue?`)) return false;
+      res = await attempt(true);
+    }
+    if (!res.ok) {
+      const { error: message } = await res.json().catch(() => ({ error: "Request failed" }));
+      setError(message);
+      return false;
+    }
+    queryClient.invalidateQueries({ queryKey: ["categories", gameId] });
+    return true;
+  }
+
+  async function handleDrop(targetId: string) {
+    if (!dragId || dragId === targetId) return;
+    const ids = categories.map((c) => c.id);
+    const from = ids.indexOf(dragId);
+    const to = ids.indexOf(targetId);
+    ids.splice(to, 0, ...ids.splice(from, 1));
+
+    // Optimistic — show the new order while the server catches up, and put the old one back if it refuses
+    const queryKey = ["categories", gameId];
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData(queryKey);
+    const byId = new Map(categories.map((c) => [c.id, c]));
+    queryClient.setQueryData(
+      queryKey,
+      ids.flatMap((id, order) => {
+        const cat = byId.get(id);
+        return cat ? [{ ...cat, order }] : [];
+      }),
+    );
+    setDragId(null);
+    if (!(await send("PUT", "/categories/order", { categoryIds: ids }))) {
+      queryClient.setQueryData(queryKey, previous);
+    }
+  }
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    if (await send("POST", "/categories", { name: newName })) setNewName("");
+  }
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-white">
+        Categories ({categories.length})
+      </h2>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <ul className="space-y-1">
+        {categories.map((cat) => (
+          <li
+            key={cat.id}
+            draggable
+            onDragStart={() => setDragId(cat.id)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(cat.id)}
+            onDragEnd={() => setDragId(null)}
+            className={`rounded-lg bg-white/5 ${dragId === cat.id ? "opacity-40" : ""}`}
+          >
+            <button
+              type="button"
+              onClick={() => setExpandedId(expandedId === cat.id ? null : cat.id)}
+              className="w-full text-sm text-gray-300 flex justify-between items-center px-3 py-2 cursor-grab"
+            >
+              <span>
+                <span className="text-gray-600 mr-2">⠿</span>
+                {cat.name}
+              </span>
+              <span className="text-gray-500">
+                {cat.locksAt !== null && <span title="Has its own lock time">🔒 </span>}
+                {cat.points}pt · {cat.nominations.length} nominees
+              </span>
+            </button>
+            {expandedId === cat.id && (
+              <>
+                <CategoryForm category={cat} send={send} />
+                <div className="px-3 pb-3">
+                  <LockControl
+                    key={cat.locksAt ?? "open"}
+                    token={token}
+                    gameId={gameId}
+                    locksAt={cat.locksAt}
+                    path={`/categories/${cat.id}/lock`}
+                  />
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New category"
+          required
+          className={`flex-1 ${inputClass}`}
+        />
+        <button type="submit" className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20">
+          Add
+        </button>
+      </form>
+    </section>
+  );
+}
+
+type Send = (method: string, path: string, body?: unknown) => Promise<boolean>;
+
+function CategoryForm({ category, send }: { category: CategoryWithNominations; send: Send }) {
+  const [name, setName] = useState(category.name);
+  const [points, setPoints] = useState(String(category.points));
+  const [newTitle, setNewTitle] = useState("");
+  const [newSubtitle, setNewSubtitle] = useState("");
+
+  async function handleSave(e: FormEvent) {
+    e.preventDefault();
+    await send("PATCH", `/categories/${category.id}`, { name, points: Number(points) });
+  }
+
+  async function handleDelete() {
+    if (!confirm(`Delete "${category.name}" and all its nominees?`)) return;
+    await send("DELETE", `/categories/${category.id}`);
+  }
+
+  async function handleAddNominee(e: FormEvent) {
+    e.preventDefault();
+    const ok = await send("POST", `/categories/${category.id}/nominations`, { title: newTitle, subtitle: newSubtitle });
+    if (ok) {
+      setNewTitle("");
+      setNewSubtitle("");
+    }
+  }
+
+  return (
+    <div className="px-3 pb-3 space-y-3">
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} required className={`flex-1 ${inputClass}`} />
+        <input
+          type="number"
+          min={1}
+          value={points}
+          onChange={(e) => setPoints(e.target.value)}
+          className={`w-16 ${inputClass}`}
+          aria-label="Points"
+        />
+        <button type="submit" className="px-3 py-1 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded text-sm">
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          className="px-3 py-1 bg-red-500/20 text-red-400 rounded text-sm hover:bg-red-500/30"
+        >
+          Delete
+        </button>
+      </form>
+
+      <div className="space-y-1">
+        {category.nominations.map((nom) => (
+          <NominationRow key={nom.id} nomination={nom} isWinner={category.winnerIds.includes(nom.id)} send={send} />
+        ))}
+      </div>
+
+      <form onSubmit={handleAddNominee} className="flex gap-2">
+        <input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="Nominee"
+          required
+          className={`flex-1 ${inputClass}`}
+        />
+        <input
+          value={newSubtitle}
+          onChange={(e) => setNewSubtitle(e.target.value)}
+          placeholder="Subtitle"
+          className={`flex-1 ${inputClass}`}
+        />
+        <button type="submit" className="px-3 py-1 bg-white/10 text-white rounded text-sm hover:bg-white/20">
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function NominationRow({ nomination, isWinner, send }: { nomination: Nomination; isWinner: boolean; send: Send }) {
+  const [title, setTitle] = useState(nomination.title);
+  const [subtitle, setSubtitle] = useState(nomination.subtitle);
+  const [imageUrl, setImageUrl] = useState(nomination.imageUrl ?? "");
+  const dirty = title !== nomination.title || subtitle !== nomination.subtitle || imageUrl !== (nomination.imageUrl ?? "");
+
+  async function handleSave(e: FormEvent) {
+    e.preventDefault();
+    await send("PATCH", `/nominations/${nomination.id}`, { title, subtitle, imageUrl: imageUrl || null });
+  }
+
+  async function handleDelete() {
+    if (!confirm(`Delete "${nomination.title}"?`)) return;
+    await send("DELETE", `/nominations/${nomination.id}`);
+  }
+
+  return (
+    <form onSubmit={handleSave} className="flex gap-2 items-center">
+      {isWinner && <span className="text-green-400 text-xs" title="Winner">✓</span>}
+      <input value={title} onChange={(e) => setTitle(e.target.value)} required className={`flex-1 ${inputClass}`} />
+      <input
+        value={subtitle}
+        onChange={(e) => setSubtitle(e.target.value)}
+        placeholder="Subtitle"
+        className={`flex-1 ${inputClass}`}
+      />
+      <input
+        type="url"
+        value={imageUrl}
+        onChange={(e) => setImageUrl(e.target.value)}
+        placeholder="Image URL"
+        className={`w-28 ${inputClass}`}
+      />
+      <button
+        type="submit"
+        disabled={!dirty}
+        className="px-2 py-1 bg-white/10 text-white rounded text-xs hover:bg-white/20 disabled:opacity-30"
+      >
+        Save
+      </button>
+      <button type="button" onClick={handleDelete} className="px-2 py-1 text-red-400 text-xs hover:underline">
+        ✕
+      </button>
+    </form>
+  );
+}
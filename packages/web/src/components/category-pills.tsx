@@ -4,6 +4,7 @@ interface CategoryPillsProps {
   onSelect: (id: string) => void;
   completedIds?: Set<string>; // Checkmark for completed picks
   revealedIds?: Set<string>; // Green checkmark for revealed (admin)
+  lockedIds?: Set<string>; // Lock icon for categories closed to picks
 }
 
 export function CategoryPills({
@@ -12,6 +13,7 @@ export function CategoryPills({
   onSelect,
   completedIds,
   revealedIds,
+  lockedIds,
 }: CategoryPillsProps) {
   return (
     <div className="relative">
@@ -20,6 +22,7 @@ export function CategoryPills({
           const isSelected = cat.id === selectedId;
           const isCompleted = completedIds?.has(cat.id);
           const isRevealed = revealedIds?.has(cat.id);
+          const isLocked = lockedIds?.has(cat.id);
 
           return (
             <button
@@ -36,6 +39,11 @@ export function CategoryPills({
                 <span className="text-[#e2b04a] mr-1">✓</span>
               )}
               {cat.name.replace("Best ", "")}
+              {isLocked && (
+                <span className="ml-1 opacity-60" title="Locked">
+                  🔒
+                </span>
+              )}
             </button>
           );
         })}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+
+interface ConfidenceRankerProps {
+  categories: { id: string; name: string }[];
+  picks: { categoryId: string; confidence?: number | null }[];
+  lockedIds: Set<string>;
+  onSave: (categoryIds: string[]) => void;
+  error?: string | null;
+}
+
+/** Initial order: existing ranks highest first, then anything unranked in ceremony order */
+function initialOrder(categories: ConfidenceRankerProps["categories"], picks: ConfidenceRankerProps["picks"]) {
+  const rankOf = new Map(picks.map((p) => [p.categoryId, p.confidence ?? 0]));
+  return [...categories]
+    .sort((a, b) => (rankOf.get(b.id) ?? 0) - (rankOf.get(a.id) ?? 0))
+    .map((c) => c.id);
+}
+
+/**
+ * Confidence-mode ballot ordering. Each category gets a unique rank N..1 —
+ * a correct pick earns its rank in points. Locked categories keep their slot.
+ */
+export function ConfidenceRanker({ categories, picks, lockedIds, onSave, error }: ConfidenceRankerProps) {
+  const [order, setOrder] = useState(() => initialOrder(categories, picks));
+  const nameById = new Map(categories.map((c) => [c.id, c.name]));
+  const unranked = picks.some((p) => p.confidence == null);
+
+  function swap(index: number, other: number) {
+    const a = order[index];
+    const b = order[other];
+    if (!a || !b || lockedIds.has(a) || lockedIds.has(b)) return;
+    const next = [...order];
+    next[index] = b;
+    next[other] = a;
+    setOrder(next);
+  }
+
+  return (
+    <section className="space-y-3 pt-4 border-t border-white/10">
+      <div>
+        <h2 className="text-lg font-semibold text-white">Rank Your Confidence</h2>
+        <p className="text-xs text-gray-500">
+          Top of the list is your surest bet ({order.length} pts if right), bottom is a coin flip (1 pt).
+        </p>
+      </div>
+      {unranked && <p className="text-xs text-[#e2b04a]">Your ballot isn't ranked yet — unranked picks score 0.</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <ol className="space-y-1">
+        {order.map((id, index) => {
+          const locked = lockedIds.has(id);
+          return (
+            <li key={id} className="flex items-center gap-2 px-3 py-1.5 rounded bg-white/5 text-sm">
+              <span className="w-8 text-[#e2b04a] font-bold tabular-nums">{order.length - index}</span>
+              <span className="flex-1 text-gray-300">
+                {nameById.get(id)}
+                {locked && <span className="ml-1 opacity-60">🔒</span>}
+              </span>
+              <button
+                type="button"
+                onClick={() => swap(index, index - 1)}
+                disabled={locked || index === 0}
+                aria-label={`Move ${nameById.get(id)} up`}
+                className="px-2 text-gray-400 hover:text-white disabled:opacity-20"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => swap(index, index + 1)}
+                disabled={locked || index === order.length - 1}
+                aria-label={`Move ${nameById.get(id)} down`}
+                className="px-2 text-gray-400 hover:text-white disabled:opacity-20"
+              >
+                ↓
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      <button
+        type="button"
+        onClick={() => onSave(order)}
+        className="w-full py-2 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg text-sm hover:bg-[#c99a3a]"
+      >
+        Save Ranking
+      </button>
+    </section>
+  );
+}
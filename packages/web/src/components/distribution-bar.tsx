@@ -0,0 +1,22 @@
+interface DistributionBarProps {
+  count: number;
+  percentage: number;
+  isWinner?: boolean;
+}
+
+/** Share of the group that picked a nominee — a thin bar plus "42% · 5" */
+export function DistributionBar({ count, percentage, isWinner }: DistributionBarProps) {
+  return (
+    <div className="flex items-center gap-2" title={`${count} ${count === 1 ? "pick" : "picks"}`}>
+      <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${isWinner ? "bg-[#e2b04a]" : "bg-gray-400/60"}`}
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      <span className={`text-xs tabular-nums shrink-0 ${isWinner ? "text-[#e2b04a]" : "text-gray-500"}`}>
+        {percentage}% · {count}
+      </span>
+    </div>
+  );
+}
@@ -1,11 +1,24 @@
+import type { PartialBallotPolicy, ScoringMode, ScoringRuleSet } from "@bignight/shared";
+import { UNDERDOG_MAX_MULTIPLIER } from "@bignight/shared";
 import { useEffect, useRef } from "react";
 
 interface HelpModalProps {
   open: boolean;
   onClose: () => void;
+  scoringMode?: ScoringMode;
+  ruleSet?: ScoringRuleSet | null; // Null = points set per category by the host
+  underdogBonus?: boolean;
+  partialBallotPolicy?: PartialBallotPolicy;
 }
 
-export function HelpModal({ open, onClose }: HelpModalProps) {
+export function HelpModal({
+  open,
+  onClose,
+  scoringMode = "standard",
+  ruleSet = null,
+  underdogBonus = false,
+  partialBallotPolicy = "exclude",
+}: HelpModalProps) {
   const ref = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -63,16 +76,8 @@ export function HelpModal({ open, onClose }: HelpModalProps) {
 
         <section className="mb-4">
           <h3 className="text-white font-semibold text-sm mb-1">3. Scoring</h3>
-          <p className="text-gray-300 text-sm leading-relaxed">
-            Not all categories are equal! Big awards are worth more:
-          </p>
-          <ul className="text-gray-300 text-sm mt-1 space-y-0.5 ml-3">
-            <li><span className="text-[#e2b04a]">5 pts</span> — Best Picture</li>
-            <li><span className="text-[#e2b04a]">4 pts</span> — Best Director</li>
-            <li><span className="text-[#e2b04a]">3 pts</span> — Best Actor & Actress</li>
-            <li><span className="text-[#e2b04a]">2 pts</span> — Supporting, Screenplay, Animated, International, Casting</li>
-            <li><span className="text-[#e2b04a]">1 pt</span> — All other categories</li>
-          </ul>
+          <ScoringRules scoringMode={scoringMode} ruleSet={ruleSet} />
+          {underdogBonus && <UnderdogRules />}
         </section>
 
         <section className="mb-4">
@@ -80,7 +85,8 @@ export function HelpModal({ open, onClose }: HelpModalProps) {
           <p className="text-gray-300 text-sm leading-relaxed">
             Once the ceremony begins, picks lock. Head to the
             Leaderboard to watch scores update live as winners are
-            announced. Send reactions (🔥 💕 💩 💀 👏 🍿) to celebrate
+            announced — along with everyone's best possible score, who's
+            out of the running, and who's locked up a podium spot. Send reactions (🔥 💕 💩 💀 👏 🍿) to celebrate
             or commiserate with the group.
           </p>
         </section>
@@ -89,11 +95,75 @@ export function HelpModal({ open, onClose }: HelpModalProps) {
           <h3 className="text-white font-semibold text-sm mb-1">5. Win bragging rights</h3>
           <p className="text-gray-300 text-sm leading-relaxed">
             The top 3 land on the podium. Highest score wins — ties
-            broken by number of correct picks, then alphabetically.
-            You must pick every category to appear on the leaderboard.
+            broken by number of correct picks, then by whoever's closest
+            on the tiebreaker question (if the host set one).
+            {partialBallotPolicy === "exclude"
+              ? " You must pick every category to appear on the leaderboard."
+              : " Skipped categories just score zero, so pick them all anyway."}
           </p>
         </section>
       </div>
     </div>
   );
 }
+
+/** The active scoring rules in plain words — they change per game, so nothing here is hard-coded */
+function ScoringRules({ scoringMode, ruleSet }: { scoringMode: ScoringMode; ruleSet: ScoringRuleSet | null }) {
+  if (scoringMode === "confidence") {
+    return (
+      <p className="text-gray-300 text-sm leading-relaxed">
+        Confidence scoring! Rank your categories from surest bet to coin flip. With N
+        categories, your top-ranked pick is worth <span className="text-[#e2b04a]">N pts</span>{" "}
+        if it's right, and your bottom-ranked one is worth <span className="text-[#e2b04a]">1 pt</span>.
+      </p>
+    );
+  }
+
+  if (!ruleSet) {
+    return (
+      <p className="text-gray-300 text-sm leading-relaxed">
+        Each category is worth the points shown next to its name on your ballot — the host
+        decides, and big awards are usually worth more.
+      </p>
+    );
+  }
+
+  // Group categories by value, biggest first: "5 pts — Best Picture"
+  const byPoints = new Map<number, string[]>();
+  for (const [name, points] of Object.entries(ruleSet.points)) {
+    byPoints.set(points, [...(byPoints.get(points) ?? []), name]);
+  }
+  const tiers = [...byPoints.entries()].sort((a, b) => b[0] - a[0]);
+  const pts = (n: number) => `${n} ${n === 1 ? "pt" : "pts"}`;
+
+  return (
+    <>
+      <p className="text-gray-300 text-sm leading-relaxed">
+        This game uses <span className="text-white">{ruleSet.name}</span> scoring:
+      </p>
+      <ul className="text-gray-300 text-sm mt-1 space-y-0.5 ml-3">
+        {tiers.map(([points, names]) => (
+          <li key={points}>
+            <span className="text-[#e2b04a]">{pts(points)}</span> — {names.join(", ")}
+          </li>
+        ))}
+        <li>
+          <span className="text-[#e2b04a]">{pts(ruleSet.defaultPoints)}</span> —{" "}
+          {tiers.length > 0 ? "All other categories" : "Every category"}
+        </li>
+      </ul>
+    </>
+  );
+}
+
+/** How the underdog bonus works, with a worked example so the formula isn't a mystery */
+function UnderdogRules() {
+  return (
+    <p className="text-gray-300 text-sm leading-relaxed mt-2">
+      <span className="text-white">Underdog bonus:</span> the fewer players who called a winner,
+      the more it's worth. If half the room picked it, you get double; if only a quarter did,
+      you get four times the points. Picks everyone made earn no bonus, and the bonus tops out
+      at {UNDERDOG_MAX_MULTIPLIER}× the normal points on top.
+    </p>
+  );
+}
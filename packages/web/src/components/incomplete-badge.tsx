@@ -0,0 +1,11 @@
+/** Marks a player ranked despite skipping categories (the "flag" partial-ballot policy) */
+export function IncompleteBadge() {
+	return (
+		<span
+			title="Incomplete ballot — skipped categories score zero"
+			className="shrink-0 text-[10px] md:text-xs text-amber-300 bg-amber-300/10 px-1.5 py-0.5 rounded-full"
+		>
+			incomplete ballot
+		</span>
+	);
+}
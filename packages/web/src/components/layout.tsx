@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Outlet, Link, useLocation } from "react-router";
 import { useAuth } from "../auth";
+import { useGameState } from "../hooks/use-game-state";
 import { HelpModal } from "./help-modal";
 
 export function Layout() {
@@ -8,6 +9,7 @@ export function Layout() {
   const location = useLocation();
   const showNav = !!token && location.pathname !== "/";
   const [helpOpen, setHelpOpen] = useState(false);
+  const { game, ruleSet } = useGameState();
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -17,11 +19,20 @@ export function Layout() {
           <div className="flex gap-4 text-sm">
             <Link to="/picks" className="text-[#e2b04a] hover:underline">Picks</Link>
             <Link to="/leaderboard" className="text-[#e2b04a] hover:underline">Leaderboard</Link>
+            <Link to="/what-if" className="text-[#e2b04a] hover:underline">What If</Link>
+            <Link to="/history" className="text-[#e2b04a] hover:underline">History</Link>
             <button onClick={() => setHelpOpen(true)} className="text-[#e2b04a] hover:underline cursor-pointer">?</button>
           </div>
         </nav>
       )}
-      <HelpModal open={helpOpen} onClose={() => setHelpOpen(false)} />
+      <HelpModal
+        open={helpOpen}
+        onClose={() => setHelpOpen(false)}
+        scoringMode={game?.scoringMode ?? "standard"}
+        ruleSet={ruleSet}
+        underdogBonus={(game?.underdogBonus ?? false) || (ruleSet?.underdogBonus ?? false)}
+        partialBallotPolicy={game?.partialBallotPolicy ?? "exclude"}
+      />
       <main className="flex-1 max-w-lg md:max-w-2xl lg:max-w-7xl mx-auto w-full px-4 py-6">
         <Outlet />
       </main>
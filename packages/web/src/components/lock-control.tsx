@@ -0,0 +1,105 @@
+import { isPicksLocked } from "@bignight/shared";
+import { useQueryClient } from "@tanstack/react-query";
+import { type FormEvent, useState } from "react";
+import { gameApi } from "../client";
+import { formatCountdown } from "../lib/countdown";
+
+interface LockControlProps {
+  token: string;
+  gameId: string;
+  locksAt: number | null;
+  path?: string; // Admin endpoint — the game-wide lock by default, or /categories/:id/lock
+  title?: string; // Omit to render without a heading (e.g. inside the category editor)
+}
+
+/** Timestamp → "YYYY-MM-DDTHH:mm" in local time, the format datetime-local inputs expect */
+function toLocalInput(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** Admin control for when picks close: schedule a time, lock immediately, or reopen. */
+export function LockControl({ token, gameId, locksAt, path = "/lock", title }: LockControlProps) {
+  const queryClient = useQueryClient();
+  const [scheduled, setScheduled] = useState(locksAt ? toLocalInput(locksAt) : "");
+  const [error, setError] = useState<string | null>(null);
+  const locked = isPicksLocked(locksAt);
+
+  async function setLock(next: number | null) {
+    setError(null);
+    const res = await fetch(gameApi(gameId, `/admin${path}`), {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ locksAt: next }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({ error: "Request failed" }));
+      setError(body.error);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["game-state", gameId] });
+    queryClient.invalidateQueries({ queryKey: ["categories", gameId] });
+  }
+
+  async function handleSchedule(e: FormEvent) {
+    e.preventDefault();
+    if (scheduled) await setLock(new Date(scheduled).getTime());
+  }
+
+  async function handleUnlock() {
+    if (!confirm("Reopen picks? Players will be able to change their ballots again.")) return;
+    setScheduled("");
+    await setLock(null);
+  }
+
+  return (
+    <section className="space-y-3">
+      {title && <h2 className="text-lg font-semibold text-white">{title}</h2>}
+      <p className="text-sm text-gray-400">
+        {locksAt === null
+          ? "Picks are open with no lock scheduled."
+          : locked
+            ? `Picks locked at ${new Date(locksAt).toLocaleString()}.`
+            : `Picks lock at ${new Date(locksAt).toLocaleString()} (in ${formatCountdown(locksAt - Date.now())}).`}
+      </p>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <form onSubmit={handleSchedule} className="flex flex-wrap gap-2">
+        <input
+          type="datetime-local"
+          value={scheduled}
+          onChange={(e) => setScheduled(e.target.value)}
+          aria-label="Lock time"
+          className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:border-[#e2b04a] focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!scheduled}
+          className="px-4 py-2 bg-white/10 text-white rounded-lg text-sm hover:bg-white/20 disabled:opacity-30"
+        >
+          Schedule
+        </button>
+        {locked ? (
+          <button
+            type="button"
+            onClick={handleUnlock}
+            className="px-4 py-2 bg-white/10 text-gray-300 rounded-lg text-sm hover:bg-white/20"
+          >
+            Unlock
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setLock(Date.now())}
+            className="px-4 py-2 bg-red-500/20 text-red-400 rounded-lg text-sm hover:bg-red-500/30"
+          >
+            Lock Now
+          </button>
+        )}
+      </form>
+    </section>
+  );
+}
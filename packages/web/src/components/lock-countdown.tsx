@@ -0,0 +1,33 @@
+import { useNow } from "../hooks/use-now";
+import { formatCountdown } from "../lib/countdown";
+
+interface LockCountdownProps {
+  locksAt: number | null;
+  label?: string; // "Picks lock" for the whole ballot, "Best Picture locks" for one category
+}
+
+/** "Picks lock in …" banner, ticking once a second. Renders nothing when no lock is scheduled. */
+export function LockCountdown({ locksAt, label = "Picks lock" }: LockCountdownProps) {
+  const now = useNow(1000, locksAt !== null);
+
+  if (locksAt === null) return null;
+
+  const remaining = locksAt - now;
+  const urgent = remaining < 10 * 60 * 1000;
+
+  return (
+    <div
+      className={`px-3 py-2 rounded-lg text-sm text-center ${
+        urgent ? "bg-red-500/15 text-red-300" : "bg-[#e2b04a]/10 text-[#e2b04a]"
+      }`}
+    >
+      {remaining > 0 ? (
+        <>
+          {label} in <span className="font-bold tabular-nums">{formatCountdown(remaining)}</span>
+        </>
+      ) : (
+        "Locking..."
+      )}
+    </div>
+  );
+}
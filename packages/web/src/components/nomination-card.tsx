@@ -1,3 +1,5 @@
+import { DistributionBar } from "./distribution-bar";
+
 interface NominationCardProps {
   title: string;
   subtitle: string;
@@ -10,6 +12,7 @@ interface NominationCardProps {
   isCorrect?: boolean; // My Picks: green for correct
   isIncorrect?: boolean; // My Picks: red for incorrect
   isWinner?: boolean; // Show winner badge
+  distribution?: { count: number; percentage: number }; // After lock: how the group voted
 }
 
 export function NominationCard({
@@ -24,6 +27,7 @@ export function NominationCard({
   isCorrect,
   isIncorrect,
   isWinner,
+  distribution,
 }: NominationCardProps) {
   return (
     <button
@@ -66,6 +70,11 @@ export function NominationCard({
               </span>
             )}
           </div>
+          {distribution && (
+            <div className="mt-2">
+              <DistributionBar count={distribution.count} percentage={distribution.percentage} isWinner={isWinner} />
+            </div>
+          )}
         </div>
         {pickCount !== undefined && (
           <span className="text-xs text-gray-500 shrink-0">
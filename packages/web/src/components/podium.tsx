@@ -1,6 +1,8 @@
 import { motion, AnimatePresence } from "framer-motion";
+import { Link } from "react-router";
 import { RANK_EMOJIS } from "@bignight/shared";
 import type { LeaderboardPlayer } from "@bignight/shared";
+import { IncompleteBadge } from "./incomplete-badge";
 
 interface PodiumProps {
 	players: LeaderboardPlayer[];
@@ -86,9 +88,27 @@ export function Podium({ players, scoreDeltas }: PodiumProps) {
 							>
 								{RANK_EMOJIS[player.rank] ?? ""}
 							</motion.span>
-							<p className="text-sm md:text-xl font-medium text-white truncate max-w-[80px] md:max-w-[160px]">
+							<Link
+								to={`/players/${player.playerId}`}
+								className="block text-sm md:text-xl font-medium text-white truncate max-w-[80px] md:max-w-[160px] hover:underline"
+							>
 								{player.name}
-							</p>
+							</Link>
+							{player.incompleteBallot && <IncompleteBadge />}
+							{player.clinchedPodium && (
+								<span
+									title="Guaranteed a podium finish"
+									className="text-[10px] md:text-xs text-green-400"
+								>
+									🔒 podium clinched
+								</span>
+							)}
+							{player.maxPossibleScore > player.totalScore && (
+								<span className="text-[10px] md:text-xs text-gray-500">
+									max {player.maxPossibleScore}
+									{player.eliminated && " · out of the running"}
+								</span>
+							)}
 
 							{/* Score with delta */}
 							<div className="flex items-center gap-1">
@@ -132,6 +152,13 @@ export function Podium({ players, scoreDeltas }: PodiumProps) {
 								</AnimatePresence>
 							</div>
 
+							{/* Once the tiebreaker is settled, show the guesses that ordered tied players */}
+							{player.tiebreakerGuess !== null && (
+								<p className="text-xs text-gray-400" title="Tiebreaker guess">
+									🎯 {player.tiebreakerGuess}
+								</p>
+							)}
+
 							<div
 								className={`w-20 md:w-44 ${PODIUM_CONFIG[i]?.barHeight} bg-gradient-to-t ${PODIUM_CONFIG[i]?.barStyle} rounded-t-lg mt-1 flex items-center justify-center`}
 							>
@@ -0,0 +1,110 @@
+import type { TimelineStep } from "@bignight/shared";
+import { useState } from "react";
+import { playerColor } from "../lib/player-color";
+import { summarizeRace } from "../lib/timeline";
+
+interface ScoreTimelineProps {
+  steps: TimelineStep[];
+  currentPlayerId: string | null;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PAD = 24;
+
+/**
+ * Line chart of every player's score (or bump chart of their rank) after each
+ * announcement. The current player's line is drawn on top and thicker.
+ */
+export function ScoreTimeline({ steps, currentPlayerId }: ScoreTimelineProps) {
+  const [view, setView] = useState<"score" | "rank">("rank");
+  const last = steps[steps.length - 1];
+  if (!last) return null;
+
+  const players = [...last.standings].sort(
+    (a, b) => Number(a.playerId === currentPlayerId) - Number(b.playerId === currentPlayerId),
+  );
+  const maxScore = Math.max(1, ...last.standings.map((s) => s.totalScore));
+  const maxRank = Math.max(1, ...steps.flatMap((s) => s.standings.map((p) => p.rank)));
+
+  // Step 0 is the start of the night: everyone on zero, tied for first
+  const x = (i: number) => PAD + (i / steps.length) * (WIDTH - 2 * PAD);
+  const y = (value: number) =>
+    view === "score"
+      ? HEIGHT - PAD - (value / maxScore) * (HEIGHT - 2 * PAD)
+      : PAD + ((value - 1) / Math.max(1, maxRank - 1)) * (HEIGHT - 2 * PAD);
+
+  function points(playerId: string) {
+    const start = view === "score" ? 0 : 1;
+    const values = steps.map((step) => {
+      const s = step.standings.find((p) => p.playerId === playerId);
+      return view === "score" ? (s?.totalScore ?? 0) : (s?.rank ?? maxRank);
+    });
+    return [start, ...values].map((v, i) => `${x(i)},${y(v)}`).join(" ");
+  }
+
+  const summary = currentPlayerId ? summarizeRace(steps, currentPlayerId) : null;
+
+  return (
+    <section className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">The Race</h2>
+        <div className="flex gap-1 text-xs">
+          {(["rank", "score"] as const).map((v) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => setView(v)}
+              className={`px-2 py-1 rounded ${view === v ? "bg-[#e2b04a] text-[#1a1a2e] font-bold" : "bg-white/10 text-gray-300"}`}
+            >
+              {v === "rank" ? "Rank" : "Score"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Standings after each announcement">
+        {steps.map((step, i) => (
+          <line
+            key={step.categoryId}
+            x1={x(i + 1)}
+            x2={x(i + 1)}
+            y1={PAD}
+            y2={HEIGHT - PAD}
+            stroke="rgba(255,255,255,0.06)"
+          >
+            <title>{`${step.categoryName}${step.winnerTitle ? ` — ${step.winnerTitle}` : ""}`}</title>
+          </line>
+        ))}
+        {players.map((p) => {
+          const isMe = p.playerId === currentPlayerId;
+          return (
+            <polyline
+              key={p.playerId}
+              points={points(p.playerId)}
+              fill="none"
+              stroke={playerColor(p.playerId)}
+              strokeWidth={isMe ? 4 : 2}
+              strokeOpacity={currentPlayerId && !isMe ? 0.5 : 1}
+              strokeLinejoin="round"
+            >
+              <title>{p.name}</title>
+            </polyline>
+          );
+        })}
+      </svg>
+
+      {summary && (summary.tookLead || summary.biggestDrop) && (
+        <div className="text-xs text-gray-400 space-y-0.5">
+          {summary.tookLead && <p>🚀 You took the lead after {summary.tookLead.categoryName}</p>}
+          {summary.biggestDrop && (
+            <p>
+              📉 {summary.biggestDrop.categoryName} cost you the most — #{summary.biggestDrop.fromRank} → #
+              {summary.biggestDrop.toRank}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
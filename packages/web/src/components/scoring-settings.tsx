@@ -0,0 +1,246 @@
+import type { PartialBallotPolicy, ScoringMode, SetScoring } from "@bignight/shared";
+import { CategoriesResponseSchema, ScoringRuleSetsResponseSchema } from "@bignight/shared";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { type FormEvent, useState } from "react";
+import { gameApi } from "../client";
+
+interface ScoringSettingsProps {
+  token: string;
+  gameId: string;
+  scoringMode: ScoringMode;
+  scoringRuleSetId: string | null;
+  underdogBonus: boolean;
+  partialBallotPolicy: PartialBallotPolicy;
+}
+
+const inputClass =
+  "px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:border-[#e2b04a] focus:outline-none";
+
+/**
+ * Admin scoring controls: standard vs confidence mode, which points table to use,
+ * custom tables, the underdog bonus, and what happens to incomplete ballots.
+ */
+export function ScoringSettings({
+  token,
+  gameId,
+  scoringMode,
+  scoringRuleSetId,
+  underdogBonus,
+  partialBallotPolicy,
+}: ScoringSettingsProps) {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const { data: ruleSets = [] } = useQuery({
+    queryKey: ["rule-sets"],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/admin/rule-sets"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return ScoringRuleSetsResponseSchema.parse(await res.json()).ruleSets;
+    },
+  });
+
+  async function request(method: string, path: string, body?: unknown): Promise<Response> {
+    setError(null);
+    const res = await fetch(gameApi(gameId, `/admin${path}`), {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const { error: message } = await res.json().catch(() => ({ error: "Request failed" }));
+      setError(message);
+    }
+    return res;
+  }
+
+  async function update(changes: SetScoring) {
+    const res = await request("PUT", "/scoring", changes);
+    if (res.ok) queryClient.invalidateQueries({ queryKey: ["game-state", gameId] });
+  }
+
+  async function handleDelete(id: string, name: string) {
+    if (!confirm(`Delete the "${name}" rule set? Games using it go back to per-category points.`)) return;
+    const res = await request("DELETE", `/rule-sets/${id}`);
+    if (res.ok) {
+      queryClient.invalidateQueries({ queryKey: ["rule-sets"] });
+      queryClient.invalidateQueries({ queryKey: ["game-state", gameId] });
+    }
+  }
+
+  const selected = ruleSets.find((r) => r.id === scoringRuleSetId);
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-white">Scoring</h2>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={scoringMode}
+          onChange={(e) => update({ scoringMode: e.target.value as ScoringMode })}
+          aria-label="Scoring mode"
+          className={inputClass}
+        >
+          <option value="standard">Standard — category points</option>
+          <option value="confidence">Confidence — players rank categories 1..N</option>
+        </select>
+        <select
+          value={scoringRuleSetId ?? ""}
+          onChange={(e) => update({ scoringRuleSetId: e.target.value || null })}
+          disabled={scoringMode === "confidence"}
+          aria-label="Points table"
+          className={`${inputClass} disabled:opacity-40`}
+        >
+          <option value="">Per-category points (set in the editor)</option>
+          {ruleSets.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.name}
+            </option>
+          ))}
+        </select>
+        {selected && !selected.builtIn && (
+          <button
+            type="button"
+            onClick={() => handleDelete(selected.id, selected.name)}
+            className="px-3 py-2 text-red-400 text-sm hover:underline"
+          >
+            Delete table
+          </button>
+        )}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={underdogBonus || (selected?.underdogBonus ?? false)}
+          onChange={(e) => update({ underdogBonus: e.target.checked })}
+          disabled={selected?.underdogBonus}
+          className="accent-[#e2b04a] disabled:opacity-40"
+        />
+        Underdog bonus — extra points for correct picks few players made
+        {selected?.underdogBonus && " (on with this points table)"}
+      </label>
+      <select
+        value={partialBallotPolicy}
+        onChange={(e) => update({ partialBallotPolicy: e.target.value as PartialBallotPolicy })}
+        aria-label="Incomplete ballots"
+        className={inputClass}
+      >
+        <option value="exclude">Incomplete ballots stay off the leaderboard</option>
+        <option value="include">Incomplete ballots count — missing picks score zero</option>
+        <option value="flag">Incomplete ballots count, with a badge</option>
+      </select>
+
+      {creating ? (
+        <RuleSetForm
+          token={token}
+          gameId={gameId}
+          onCancel={() => setCreating(false)}
+          onCreate={async (body) => {
+            const res = await request("POST", "/rule-sets", body);
+            if (!res.ok) return;
+            const { ruleSet } = await res.json();
+            queryClient.invalidateQueries({ queryKey: ["rule-sets"] });
+            setCreating(false);
+            await update({ scoringRuleSetId: ruleSet.id });
+          }}
+        />
+      ) : (
+        <button type="button" onClick={() => setCreating(true)} className="text-sm text-[#e2b04a] hover:underline">
+          + New points table
+        </button>
+      )}
+    </section>
+  );
+}
+
+interface RuleSetBody {
+  name: string;
+  points: Record<string, number>;
+  defaultPoints: number;
+}
+
+/** Custom points table, prefilled with this game's categories and their current points */
+function RuleSetForm({
+  token,
+  gameId,
+  onCreate,
+  onCancel,
+}: {
+  token: string;
+  gameId: string;
+  onCreate: (body: RuleSetBody) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [defaultPoints, setDefaultPoints] = useState("1");
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["categories", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/categories"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return CategoriesResponseSchema.parse(await res.json()).categories;
+    },
+  });
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const points: Record<string, number> = {};
+    for (const cat of categories) {
+      points[cat.name] = Number(overrides[cat.name] ?? cat.points);
+    }
+    await onCreate({ name, points, defaultPoints: Number(defaultPoints) });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 p-3 rounded-lg bg-white/5">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Table name"
+          required
+          className={`flex-1 ${inputClass}`}
+        />
+        <input
+          type="number"
+          min={0}
+          value={defaultPoints}
+          onChange={(e) => setDefaultPoints(e.target.value)}
+          aria-label="Points for unlisted categories"
+          title="Points for unlisted categories"
+          className={`w-20 ${inputClass}`}
+        />
+      </div>
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {categories.map((cat) => (
+          <label key={cat.id} className="flex items-center justify-between gap-2 text-sm text-gray-300">
+            {cat.name}
+            <input
+              type="number"
+              min={0}
+              value={overrides[cat.name] ?? String(cat.points)}
+              onChange={(e) => setOverrides({ ...overrides, [cat.name]: e.target.value })}
+              className={`w-20 ${inputClass}`}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button type="submit" className="px-4 py-2 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg text-sm">
+          Save & Use
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-gray-400 text-sm hover:text-white">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+import { TiebreakerGuessResponseSchema } from "@bignight/shared";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { type FormEvent, useState } from "react";
+import { useAuth } from "../auth";
+import { gameApi } from "../client";
+
+interface TiebreakerGuessProps {
+  question: string;
+  locked: boolean; // Read-only once picks close
+}
+
+/** The player's answer to the game's numeric tiebreaker question */
+export function TiebreakerGuess({ question, locked }: TiebreakerGuessProps) {
+  const { token, gameId } = useAuth();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: guess = null } = useQuery({
+    queryKey: ["my-tiebreaker", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/picks/tiebreaker"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return TiebreakerGuessResponseSchema.parse(await res.json()).guess;
+    },
+    enabled: !!token && !!gameId,
+  });
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (draft === null || draft === "") return;
+    setError(null);
+    const res = await fetch(gameApi(gameId, "/picks/tiebreaker"), {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ guess: Number(draft) }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({ error: "Failed to save guess" }));
+      setError(body.error);
+      return;
+    }
+    setDraft(null);
+    queryClient.setQueryData(["my-tiebreaker", gameId], TiebreakerGuessResponseSchema.parse(await res.json()).guess);
+  }
+
+  return (
+    <section className="p-4 rounded-lg bg-white/[0.04] border border-white/10 space-y-2">
+      <h3 className="text-sm font-medium text-white">Tiebreaker: {question}</h3>
+      {locked ? (
+        <p className="text-sm text-gray-400">
+          Your guess: <span className="text-[#e2b04a]">{guess ?? "—"}</span>
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="number"
+            step="any"
+            value={draft ?? (guess === null ? "" : String(guess))}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Your guess"
+            aria-label="Tiebreaker guess"
+            className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:border-[#e2b04a] focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={draft === null || draft === ""}
+            className="px-4 py-2 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg text-sm disabled:opacity-30"
+          >
+            Save
+          </button>
+        </form>
+      )}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </section>
+  );
+}
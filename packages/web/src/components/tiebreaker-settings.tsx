@@ -0,0 +1,101 @@
+import type { SetTiebreaker, TiebreakerRule } from "@bignight/shared";
+import { useQueryClient } from "@tanstack/react-query";
+import { type FormEvent, useState } from "react";
+import { gameApi } from "../client";
+
+interface TiebreakerSettingsProps {
+  token: string;
+  gameId: string;
+  question: string | null;
+  answer: number | null;
+  rule: TiebreakerRule;
+}
+
+const inputClass =
+  "px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:border-[#e2b04a] focus:outline-none";
+
+/**
+ * Admin tiebreaker setup: the question players answer with their picks, how guesses
+ * are judged, and — once the show is over — the true value that settles ties.
+ */
+export function TiebreakerSettings({ token, gameId, question, answer, rule }: TiebreakerSettingsProps) {
+  const queryClient = useQueryClient();
+  const [draftQuestion, setDraftQuestion] = useState(question ?? "");
+  const [draftAnswer, setDraftAnswer] = useState(answer === null ? "" : String(answer));
+  const [error, setError] = useState<string | null>(null);
+
+  async function update(changes: SetTiebreaker) {
+    setError(null);
+    const res = await fetch(gameApi(gameId, "/admin/tiebreaker"), {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(changes),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({ error: "Request failed" }));
+      setError(body.error);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["game-state", gameId] });
+  }
+
+  async function handleQuestion(e: FormEvent) {
+    e.preventDefault();
+    await update({ question: draftQuestion.trim() || null });
+  }
+
+  async function handleAnswer(e: FormEvent) {
+    e.preventDefault();
+    await update({ answer: draftAnswer === "" ? null : Number(draftAnswer) });
+  }
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-white">Tiebreaker</h2>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <form onSubmit={handleQuestion} className="flex flex-wrap gap-2">
+        <input
+          value={draftQuestion}
+          onChange={(e) => setDraftQuestion(e.target.value)}
+          placeholder="e.g. How long will the telecast run, in minutes?"
+          aria-label="Tiebreaker question"
+          className={`flex-1 ${inputClass}`}
+        />
+        <select
+          value={rule}
+          onChange={(e) => update({ rule: e.target.value as TiebreakerRule })}
+          aria-label="Tiebreaker rule"
+          className={inputClass}
+        >
+          <option value="closest">Closest guess wins</option>
+          <option value="price-is-right">Closest without going over</option>
+        </select>
+        <button type="submit" className="px-4 py-2 bg-white/10 text-white rounded-lg text-sm hover:bg-white/20">
+          Save
+        </button>
+      </form>
+      {question && (
+        <form onSubmit={handleAnswer} className="flex gap-2">
+          <input
+            type="number"
+            step="any"
+            value={draftAnswer}
+            onChange={(e) => setDraftAnswer(e.target.value)}
+            placeholder="Actual answer"
+            aria-label="Tiebreaker answer"
+            className={`flex-1 ${inputClass}`}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg text-sm"
+          >
+            {answer === null ? "Settle Ties" : "Update Answer"}
+          </button>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+import type { AwardShow } from "@bignight/shared";
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { gameApi } from "../client";
+
+interface WikitextImportProps {
+  token: string;
+  gameId: string;
+  /** Whose page this is — chosen alongside the URL above */
+  show: AwardShow;
+}
+
+/**
+ * Imports a ceremony from page source pasted out of Wikipedia's "Edit source" —
+ * the fallback when the server can't reach Wikipedia to fetch the page itself.
+ */
+export function WikitextImport({ token, gameId, show }: WikitextImportProps) {
+  const queryClient = useQueryClient();
+  const [wikitext, setWikitext] = useState("");
+  const [categoryCount, setCategoryCount] = useState<number | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function post(path: "preview" | "import") {
+    const res = await fetch(gameApi(gameId, `/admin/wikitext/${path}`), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ wikitext, show }),
+    });
+    const body = await res.json().catch(() => ({ error: "Request failed" }));
+    return { ok: res.ok, body };
+  }
+
+  async function handlePreview() {
+    setStatus(null);
+    setCategoryCount(null);
+    const { ok, body } = await post("preview");
+    if (ok) setCategoryCount(body.categories.length);
+    else setStatus(`Error: ${body.error}`);
+  }
+
+  async function handleImport() {
+    setStatus("Importing...");
+    const { ok, body } = await post("import");
+    if (ok) {
+      setStatus("Imported!");
+      setCategoryCount(null);
+      setWikitext("");
+      queryClient.invalidateQueries({ queryKey: ["categories", gameId] });
+    } else {
+      setStatus(`Error: ${body.error}`);
+    }
+  }
+
+  return (
+    <details className="space-y-2">
+      <summary className="text-sm text-gray-400 cursor-pointer">Wikipedia unreachable? Paste the page source</summary>
+      <textarea
+        value={wikitext}
+        onChange={(e) => setWikitext(e.target.value)}
+        placeholder="{{Infobox film awards ..."
+        rows={6}
+        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-xs font-mono focus:border-[#e2b04a] focus:outline-none"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={!wikitext.trim()}
+          className="px-4 py-2 bg-white/10 text-white rounded-lg text-sm hover:bg-white/20 disabled:opacity-50"
+        >
+          Preview
+        </button>
+        {categoryCount !== null && (
+          <>
+            <span className="text-sm text-gray-300">{categoryCount} categories found</span>
+            <button
+              type="button"
+              onClick={handleImport}
+              className="px-4 py-2 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg text-sm"
+            >
+              Import
+            </button>
+          </>
+        )}
+      </div>
+      {status && <p className="text-sm text-gray-400">{status}</p>}
+    </details>
+  );
+}
@@ -1,52 +1,78 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useEffect } from "react";
-import type { GamePhase, GameConfig } from "@bignight/shared";
+import type { GamePhase, Game, ScoringRuleSet } from "@bignight/shared";
 import { WEBSOCKET_EVENTS, GameStateResponseSchema } from "@bignight/shared";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 import { getSocket } from "../socket";
 
 interface GameState {
   phase: GamePhase;
-  config: GameConfig | null;
+  game: Game | null;
   categoryCount: number;
+  ruleSet: ScoringRuleSet | null;
   isLoading: boolean;
 }
 
 export function useGameState(): GameState {
-  const { token } = useAuth();
+  const { token, gameId } = useAuth();
   const queryClient = useQueryClient();
 
   const { data, isLoading } = useQuery({
-    queryKey: ["game-state"],
+    queryKey: ["game-state", gameId],
     queryFn: async () => {
-      const res = await fetch("/api/game", {
+      const res = await fetch(gameApi(gameId), {
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       return GameStateResponseSchema.parse(await res.json());
     },
+    enabled: !!gameId,
     refetchInterval: 30000, // Poll every 30s
   });
 
   // Listen for WebSocket events and refetch game state
   useEffect(() => {
     if (!token) return;
-    const socket = getSocket(token);
+    const socket = getSocket(token, gameId);
 
     const refetch = () => {
-      queryClient.invalidateQueries({ queryKey: ["game-state"] });
+      queryClient.invalidateQueries({ queryKey: ["game-state", gameId] });
+    };
+    // Category lock times live on the category rows
+    const onLockChanged = () => {
+      refetch();
+      queryClient.invalidateQueries({ queryKey: ["categories", gameId] });
     };
 
     socket.on(WEBSOCKET_EVENTS.GAME_COMPLETED, refetch);
+    socket.on(WEBSOCKET_EVENTS.LOCK_CHANGED, onLockChanged);
+    // The first reveal locks picks if the admin hadn't already
+    socket.on(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, refetch);
 
     return () => {
       socket.off(WEBSOCKET_EVENTS.GAME_COMPLETED, refetch);
+      socket.off(WEBSOCKET_EVENTS.LOCK_CHANGED, onLockChanged);
+      socket.off(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, refetch);
     };
-  }, [token, queryClient]);
+  }, [token, gameId, queryClient]);
+
+  // Refetch the moment a scheduled lock kicks in so the phase flips without waiting for the poll
+  const locksAt = data?.game?.locksAt ?? null;
+  useEffect(() => {
+    if (locksAt === null) return;
+    const delay = locksAt - Date.now();
+    if (delay <= 0) return;
+    const timer = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ["game-state", gameId] });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [locksAt, gameId, queryClient]);
 
   return {
     phase: data?.phase ?? "setup",
-    config: data?.config ?? null,
+    game: data?.game ?? null,
     categoryCount: data?.categoryCount ?? 0,
+    ruleSet: data?.ruleSet ?? null,
     isLoading,
   };
 }
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
-import type { LeaderboardPlayer } from "@bignight/shared";
+import type { LeaderboardPlayer, RevealCorrected } from "@bignight/shared";
 import { WEBSOCKET_EVENTS, LeaderboardResponseSchema } from "@bignight/shared";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 import { getSocket } from "../socket";
 
 type ConnectionStatus = "connecting" | "connected" | "disconnected";
@@ -12,20 +13,23 @@ interface JustAnnounced {
 }
 
 export function useLeaderboard() {
-  const { token } = useAuth();
+  const { token, gameId } = useAuth();
   const [players, setPlayers] = useState<LeaderboardPlayer[]>([]);
   const [connectionStatus, setConnectionStatus] =
     useState<ConnectionStatus>("connecting");
   const [justAnnounced, setJustAnnounced] = useState<JustAnnounced | null>(
     null,
   );
+  // A winner that was announced and then changed or taken back
+  const [correction, setCorrection] = useState<RevealCorrected | null>(null);
   const [revealedCount, setRevealedCount] = useState(0);
   const [totalCount, setTotalCount] = useState(0);
   const [isGameComplete, setIsGameComplete] = useState(false);
 
   // Fetch initial leaderboard
   useEffect(() => {
-    fetch("/api/game/leaderboard", {
+    if (!gameId) return;
+    fetch(gameApi(gameId, "/leaderboard"), {
       headers: token ? { Authorization: `Bearer ${token}` } : {},
     })
       .then((r) => r.json())
@@ -36,12 +40,12 @@ export function useLeaderboard() {
         setTotalCount(data.totalCount);
       })
       .catch(() => {});
-  }, [token]);
+  }, [token, gameId]);
 
   // WebSocket subscription
   useEffect(() => {
     if (!token) return;
-    const socket = getSocket(token);
+    const socket = getSocket(token, gameId);
 
     const onConnect = () => setConnectionStatus("connected");
     const onDisconnect = () => setConnectionStatus("disconnected");
@@ -66,11 +70,19 @@ export function useLeaderboard() {
       if (data.totalCount !== undefined) setTotalCount(data.totalCount);
     };
 
+    const onRevealCorrected = (data: RevealCorrected) => {
+      setJustAnnounced(null);
+      setCorrection(data);
+      // Longer than the announcement — people need time to notice their score moved
+      setTimeout(() => setCorrection(null), 8000);
+    };
+
     const onGameCompleted = () => setIsGameComplete(true);
 
     socket.on("connect", onConnect);
     socket.on("disconnect", onDisconnect);
     socket.on(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, onLeaderboardUpdate);
+    socket.on(WEBSOCKET_EVENTS.REVEAL_CORRECTED, onRevealCorrected);
     socket.on(WEBSOCKET_EVENTS.GAME_COMPLETED, onGameCompleted);
 
     if (socket.connected) setConnectionStatus("connected");
@@ -79,14 +91,16 @@ export function useLeaderboard() {
       socket.off("connect", onConnect);
       socket.off("disconnect", onDisconnect);
       socket.off(WEBSOCKET_EVENTS.LEADERBOARD_UPDATE, onLeaderboardUpdate);
+      socket.off(WEBSOCKET_EVENTS.REVEAL_CORRECTED, onRevealCorrected);
       socket.off(WEBSOCKET_EVENTS.GAME_COMPLETED, onGameCompleted);
     };
-  }, [token]);
+  }, [token, gameId]);
 
   return {
     players,
     connectionStatus,
     justAnnounced,
+    correction,
     revealedCount,
     totalCount,
     isGameComplete,
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+/** Current time, re-read every `intervalMs` while `active`. Drives countdowns and client-side lock checks. */
+export function useNow(intervalMs = 1000, active = true): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs, active]);
+
+  return now;
+}
@@ -2,19 +2,20 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useState, useCallback } from "react";
 import { PicksResponseSchema, SubmitPickResponseSchema } from "@bignight/shared";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 import type { SaveStatus } from "../components/save-indicator";
 
 export function usePicks() {
-  const { token, logout } = useAuth();
+  const { token, gameId, logout } = useAuth();
   const queryClient = useQueryClient();
   const [selectedNominationId, setSelectedNominationId] = useState<string | null>(null);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
 
   // Fetch existing picks
   const { data: picks = [], isLoading } = useQuery({
-    queryKey: ["my-picks"],
+    queryKey: ["my-picks", gameId],
     queryFn: async () => {
-      const res = await fetch("/api/picks", {
+      const res = await fetch(gameApi(gameId, "/picks"), {
         headers: { Authorization: `Bearer ${token}` },
       });
       if (res.status === 401) {
@@ -24,7 +25,7 @@ export function usePicks() {
       const data = PicksResponseSchema.parse(await res.json());
       return data.picks;
     },
-    enabled: !!token,
+    enabled: !!token && !!gameId,
   });
 
   // Submit pick mutation
@@ -33,7 +34,7 @@ export function usePicks() {
       categoryId,
       nominationId,
     }: { categoryId: string; nominationId: string }) => {
-      const res = await fetch("/api/picks", {
+      const res = await fetch(gameApi(gameId, "/picks"), {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -50,7 +51,34 @@ export function usePicks() {
     },
     onSuccess: () => {
       setSaveStatus("saved");
-      queryClient.invalidateQueries({ queryKey: ["my-picks"] });
+      queryClient.invalidateQueries({ queryKey: ["my-picks", gameId] });
+    },
+    onError: () => {
+      setSaveStatus("error");
+    },
+  });
+
+  // Confidence mode: save the whole ranking at once (most confident first)
+  const confidenceMutation = useMutation({
+    mutationFn: async (categoryIds: string[]) => {
+      const res = await fetch(gameApi(gameId, "/picks/confidence"), {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ categoryIds }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? "Failed to save ranking");
+      }
+      return PicksResponseSchema.parse(await res.json());
+    },
+    onMutate: () => setSaveStatus("saving"),
+    onSuccess: (data) => {
+      setSaveStatus("saved");
+      queryClient.setQueryData(["my-picks", gameId], data.picks);
     },
     onError: () => {
       setSaveStatus("error");
@@ -80,5 +108,7 @@ export function usePicks() {
     isLoading,
     completedCategoryIds,
     isSubmitting: mutation.isPending,
+    saveConfidence: confidenceMutation.mutate,
+    confidenceError: confidenceMutation.error?.message ?? null,
   };
 }
@@ -12,7 +12,7 @@ export interface FloatingReaction {
 }
 
 export function useReactions() {
-  const { token } = useAuth();
+  const { token, gameId } = useAuth();
   const [reactions, setReactions] = useState<FloatingReaction[]>([]);
   const timersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(
     new Map(),
@@ -21,15 +21,15 @@ export function useReactions() {
   const sendReaction = useCallback(
     (emoji: string) => {
       if (!token) return;
-      const socket = getSocket(token);
+      const socket = getSocket(token, gameId);
       socket.emit(WEBSOCKET_EVENTS.REACTION_SEND, { emoji });
     },
-    [token],
+    [token, gameId],
   );
 
   useEffect(() => {
     if (!token) return;
-    const socket = getSocket(token);
+    const socket = getSocket(token, gameId);
 
     const onBroadcast = (data: FloatingReaction) => {
       setReactions((prev) => [...prev, data]);
@@ -52,7 +52,7 @@ export function useReactions() {
       }
       timersRef.current.clear();
     };
-  }, [token]);
+  }, [token, gameId]);
 
   return { reactions, sendReaction };
 }
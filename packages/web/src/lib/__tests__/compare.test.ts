@@ -0,0 +1,75 @@
+import type { CategoryWithNominations, PlayerBallot } from "@bignight/shared";
+import { getScoringConfig } from "@bignight/shared";
+import { describe, expect, it } from "vitest";
+import { compareBallots } from "../compare";
+
+function category(id: string, points: number, winnerId: string | null = null): CategoryWithNominations {
+  return {
+    id,
+    gameId: "g1",
+    name: id,
+    order: 0,
+    points,
+    winnerIds: winnerId ? [winnerId] : [],
+    isRevealed: winnerId !== null,
+    locksAt: null,
+    createdAt: 0,
+    nominations: ["a", "b", "c"].map((n) => ({ id: `${id}-${n}`, categoryId: id, title: n, subtitle: "", imageUrl: null, createdAt: 0 })),
+  };
+}
+
+function ballot(playerId: string, picks: Record<string, string>): PlayerBallot {
+  return {
+    playerId,
+    name: playerId,
+    picks: Object.entries(picks).map(([categoryId, nominationId]) => ({ categoryId, nominationId })),
+  };
+}
+
+const categories = [category("c1", 1, "c1-a"), category("c2", 1), category("c3", 3)];
+const alice = ballot("alice", { c1: "c1-a", c2: "c2-a", c3: "c3-a" });
+const bob = ballot("bob", { c1: "c1-b", c2: "c2-a", c3: "c3-b" });
+const config = getScoringConfig(null, null);
+
+describe("compareBallots", () => {
+  it("scores what's been announced so far", () => {
+    const result = compareBallots(alice, bob, categories, config);
+    expect([result.scoreA, result.scoreB]).toEqual([1, 0]);
+  });
+
+  it("flags where they diverge", () => {
+    const result = compareBallots(alice, bob, categories, config);
+    expect(result.rows.map((r) => [r.categoryId, r.diverges])).toEqual([
+      ["c1", true],
+      ["c2", false],
+      ["c3", true],
+    ]);
+  });
+
+  it("works out the head-to-head for each outcome of an open split", () => {
+    const c3 = compareBallots(alice, bob, categories, config).rows[2];
+    expect(c3?.outcomes).toEqual([
+      { winnerId: "c3-a", scoreA: 4, scoreB: 0 },
+      { winnerId: "c3-b", scoreA: 1, scoreB: 3 },
+      { winnerId: null, scoreA: 1, scoreB: 0 },
+    ]);
+  });
+
+  it("leaves out the anyone-else outcome when they picked every nominee between them", () => {
+    const twoWay = { ...category("c3", 3), nominations: category("c3", 3).nominations.slice(0, 2) };
+    const c3 = compareBallots(alice, bob, [twoWay], config).rows[0];
+    expect(c3?.outcomes.map((o) => o.winnerId)).toEqual(["c3-a", "c3-b"]);
+  });
+
+  it("leaves out outcomes for revealed or shared picks", () => {
+    const [c1, c2] = compareBallots(alice, bob, categories, config).rows;
+    expect(c1?.outcomes).toEqual([]);
+    expect(c2?.outcomes).toEqual([]);
+  });
+
+  it("applies the underdog bonus when pick shares are known", () => {
+    const shares = new Map([["c1", new Map([["c1-a", 0.25]])]]);
+    const result = compareBallots(alice, bob, categories, { ...config, underdogBonus: true }, shares);
+    expect(result.scoreA).toBe(4);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { formatCountdown } from "../countdown";
+
+describe("formatCountdown", () => {
+  it("shows days and hours for long waits", () => {
+    expect(formatCountdown((2 * 86400 + 3 * 3600 + 59) * 1000)).toBe("2d 3h");
+  });
+
+  it("shows hours and padded minutes", () => {
+    expect(formatCountdown((3600 + 5 * 60 + 30) * 1000)).toBe("1h 05m");
+  });
+
+  it("shows minutes and padded seconds", () => {
+    expect(formatCountdown((4 * 60 + 9) * 1000)).toBe("4m 09s");
+  });
+
+  it("shows seconds in the final minute", () => {
+    expect(formatCountdown(42_500)).toBe("42s");
+  });
+
+  it("clamps past deadlines to zero", () => {
+    expect(formatCountdown(-5000)).toBe("0s");
+  });
+});
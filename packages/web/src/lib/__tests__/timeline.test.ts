@@ -0,0 +1,38 @@
+import type { TimelineStep } from "@bignight/shared";
+import { describe, expect, it } from "vitest";
+import { summarizeRace } from "../timeline";
+
+function step(sequence: number, categoryName: string, ranks: Record<string, number>): TimelineStep {
+  return {
+    sequence,
+    categoryId: `c${sequence}`,
+    categoryName,
+    winnerTitle: null,
+    revealedAt: sequence,
+    standings: Object.entries(ranks).map(([playerId, rank]) => ({ playerId, name: playerId, totalScore: 0, rank })),
+  };
+}
+
+const steps = [
+  step(1, "Best Sound", { alice: 1, bob: 2, cara: 1 }),
+  step(2, "Best Editing", { alice: 3, bob: 1, cara: 2 }),
+  step(3, "Best Director", { alice: 2, bob: 1, cara: 3 }),
+  step(4, "Best Picture", { alice: 1, bob: 2, cara: 3 }),
+];
+
+describe("summarizeRace", () => {
+  it("finds when a player took the lead and what sank them", () => {
+    expect(summarizeRace(steps, "alice")).toEqual({
+      tookLead: { categoryName: "Best Picture", fromRank: 2, toRank: 1 },
+      biggestDrop: { categoryName: "Best Editing", fromRank: 1, toRank: 3 },
+    });
+  });
+
+  it("doesn't count the opening tie as taking the lead", () => {
+    expect(summarizeRace(steps, "bob").tookLead?.categoryName).toBe("Best Editing");
+  });
+
+  it("reports nothing for a player who never led or fell", () => {
+    expect(summarizeRace([], "alice")).toEqual({ tookLead: null, biggestDrop: null });
+  });
+});
@@ -0,0 +1,89 @@
+import type { CategoryWithNominations, PlayerBallot } from "@bignight/shared";
+import { getScoringConfig } from "@bignight/shared";
+import { describe, expect, it } from "vitest";
+import { applyScenario, concreteScenario, findWinningPaths, simulateLeaderboard } from "../what-if";
+
+function category(id: string, nomineeIds: string[], winnerId: string | null = null): CategoryWithNominations {
+  return {
+    id,
+    gameId: "g1",
+    name: id,
+    order: 0,
+    points: 1,
+    winnerIds: winnerId ? [winnerId] : [],
+    isRevealed: winnerId !== null,
+    locksAt: null,
+    createdAt: 0,
+    nominations: nomineeIds.map((n) => ({ id: n, categoryId: id, title: n, subtitle: "", imageUrl: null, createdAt: 0 })),
+  };
+}
+
+const categories = [category("c1", ["a", "b"], "a"), category("c2", ["x", "y", "z"]), category("c3", ["p", "q"])];
+const ballots: PlayerBallot[] = [
+  {
+    playerId: "alice",
+    name: "Alice",
+    picks: [
+      { categoryId: "c1", nominationId: "a" },
+      { categoryId: "c2", nominationId: "x" },
+      { categoryId: "c3", nominationId: "p" },
+    ],
+  },
+  {
+    playerId: "bob",
+    name: "Bob",
+    picks: [
+      { categoryId: "c1", nominationId: "b" },
+      { categoryId: "c2", nominationId: "y" },
+      { categoryId: "c3", nominationId: "q" },
+    ],
+  },
+];
+const config = getScoringConfig(null, null);
+
+describe("applyScenario", () => {
+  it("fills in hypothetical winners without touching announced ones", () => {
+    const result = applyScenario(categories, { c1: "b", c2: null });
+    expect(result.map((c) => [c.winnerIds, c.isRevealed])).toEqual([
+      [["a"], true],
+      [[], true],
+      [[], false],
+    ]);
+  });
+});
+
+describe("simulateLeaderboard", () => {
+  it("scores the scenario", () => {
+    const board = simulateLeaderboard(ballots, categories, { c2: "y", c3: "q" }, config);
+    expect(board.map((p) => [p.name, p.totalScore])).toEqual([
+      ["Bob", 2],
+      ["Alice", 1],
+    ]);
+  });
+});
+
+describe("findWinningPaths", () => {
+  it("lists every outcome that keeps the player in first, ties included", () => {
+    const { paths, scenarioCount, tooMany } = findWinningPaths("bob", ballots, categories, config);
+    // c2: x, y or an unpicked nominee; c3: p or q
+    expect(scenarioCount).toBe(6);
+    expect(tooMany).toBe(false);
+    expect(paths).toEqual([
+      { c2: "y", c3: "q" },
+      { c2: null, c3: "q" },
+    ]);
+    expect(findWinningPaths("alice", ballots, categories, config).paths).toHaveLength(5);
+  });
+
+  it("stops at the limit and says so", () => {
+    const result = findWinningPaths("bob", ballots, categories, config, 2);
+    expect(result.tooMany).toBe(true);
+    expect(result.paths).toHaveLength(0);
+  });
+});
+
+describe("concreteScenario", () => {
+  it("stands in an unpicked nominee for a null winner", () => {
+    expect(concreteScenario({ c2: null, c3: "q" }, categories, ballots)).toEqual({ c2: "z", c3: "q" });
+  });
+});
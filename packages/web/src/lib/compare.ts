@@ -0,0 +1,105 @@
+import type { CategoryWithNominations, PlayerBallot, ScoringConfig, ScoringPick } from "@bignight/shared";
+import { calculatePlayerScore } from "@bignight/shared";
+
+/** Category id → nomination id → fraction of the group who picked it (for the underdog bonus) */
+export type PickShares = Map<string, Map<string, number>>;
+
+export interface HeadToHeadOutcome {
+  /** null = a nominee neither of them picked (left out when there's no such nominee) */
+  winnerId: string | null;
+  scoreA: number;
+  scoreB: number;
+}
+
+export interface CompareRow {
+  categoryId: string;
+  categoryName: string;
+  pickA: string | null;
+  pickB: string | null;
+  diverges: boolean;
+  isRevealed: boolean;
+  winnerIds: string[];
+  /** For unrevealed categories where they differ: the head-to-head score after each possible winner */
+  outcomes: HeadToHeadOutcome[];
+}
+
+export interface Comparison {
+  rows: CompareRow[];
+  scoreA: number;
+  scoreB: number;
+}
+
+function scoreBallot(
+  ballot: PlayerBallot,
+  categories: CategoryWithNominations[],
+  config: ScoringConfig,
+  pickShares: PickShares,
+  override?: { categoryId: string; winnerId: string | null },
+): number {
+  const pickByCategory = new Map(ballot.picks.map((p) => [p.categoryId, p]));
+  const scoringPicks: ScoringPick[] = categories.flatMap((cat) => {
+    const pick = pickByCategory.get(cat.id);
+    if (!pick) return [];
+    const hypothetical = override?.categoryId === cat.id;
+    return [
+      {
+        nominationId: pick.nominationId,
+        categoryWinnerIds: hypothetical ? (override.winnerId ? [override.winnerId] : []) : cat.winnerIds,
+        categoryIsRevealed: hypothetical || cat.isRevealed,
+        categoryPoints: cat.points,
+        categoryName: cat.name,
+        confidence: pick.confidence,
+        pickShare: pickShares.get(cat.id)?.get(pick.nominationId),
+      },
+    ];
+  });
+  return calculatePlayerScore(scoringPicks, config.mode, config.ruleSet, config.underdogBonus).totalScore;
+}
+
+/**
+ * Lines up two ballots category by category. Where they picked differently and the
+ * winner is still to come, works out the head-to-head score for each way it could go.
+ */
+export function compareBallots(
+  a: PlayerBallot,
+  b: PlayerBallot,
+  categories: CategoryWithNominations[],
+  config: ScoringConfig,
+  pickShares: PickShares = new Map(),
+): Comparison {
+  const pickA = new Map(a.picks.map((p) => [p.categoryId, p.nominationId]));
+  const pickB = new Map(b.picks.map((p) => [p.categoryId, p.nominationId]));
+
+  const rows = categories.map((cat): CompareRow => {
+    const row = {
+      categoryId: cat.id,
+      categoryName: cat.name,
+      pickA: pickA.get(cat.id) ?? null,
+      pickB: pickB.get(cat.id) ?? null,
+      isRevealed: cat.isRevealed,
+      winnerIds: cat.winnerIds,
+    };
+    const diverges = row.pickA !== row.pickB;
+    if (!diverges || cat.isRevealed) return { ...row, diverges, outcomes: [] };
+
+    // "Anyone else" only when there's a nominee neither of them picked
+    const picked = [row.pickA, row.pickB];
+    const anyoneElse = cat.nominations.some((n) => !picked.includes(n.id));
+    const candidates = [...new Set(anyoneElse ? [...picked, null] : picked)];
+    const outcomes = candidates.map((winnerId) => {
+      const override = { categoryId: cat.id, winnerId };
+      return {
+        winnerId,
+        scoreA: scoreBallot(a, categories, config, pickShares, override),
+        scoreB: scoreBallot(b, categories, config, pickShares, override),
+      };
+    });
+    return { ...row, diverges, outcomes };
+  });
+
+  return {
+    rows,
+    scoreA: scoreBallot(a, categories, config, pickShares),
+    scoreB: scoreBallot(b, categories, config, pickShares),
+  };
+}
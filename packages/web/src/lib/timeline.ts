@@ -0,0 +1,38 @@
+import type { TimelineStep } from "@bignight/shared";
+
+export interface RaceMoment {
+  categoryName: string;
+  fromRank: number;
+  toRank: number;
+}
+
+export interface RaceSummary {
+  /** Announcement after which the player first moved into (or tied for) first */
+  tookLead: RaceMoment | null;
+  /** Announcement that cost the player the most places */
+  biggestDrop: RaceMoment | null;
+}
+
+/** The headline moments of one player's night, read off the score timeline */
+export function summarizeRace(steps: TimelineStep[], playerId: string): RaceSummary {
+  let tookLead: RaceMoment | null = null;
+  let biggestDrop: RaceMoment | null = null;
+  // Everyone starts the night tied on zero
+  let prevRank = 1;
+  let everBehind = false;
+
+  for (const step of steps) {
+    const rank = step.standings.find((s) => s.playerId === playerId)?.rank;
+    if (rank === undefined) continue;
+    const moment = { categoryName: step.categoryName, fromRank: prevRank, toRank: rank };
+
+    if (rank > 1) everBehind = true;
+    if (!tookLead && everBehind && rank === 1) tookLead = moment;
+    if (rank > prevRank && (!biggestDrop || rank - prevRank > biggestDrop.toRank - biggestDrop.fromRank)) {
+      biggestDrop = moment;
+    }
+    prevRank = rank;
+  }
+
+  return { tookLead, biggestDrop };
+}
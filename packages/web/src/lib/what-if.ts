@@ -0,0 +1,101 @@
+import type { CategoryWithNominations, LeaderboardPlayer, PlayerBallot, ScoringCategory, ScoringConfig } from "@bignight/shared";
+import { scoreBallots } from "@bignight/shared";
+
+/**
+ * Hypothetical winners, keyed by category id. null means "a nominee nobody picked" —
+ * every such nominee scores the same for everyone, so they collapse into one outcome.
+ */
+export type Scenario = Record<string, string | null>;
+
+/** Categories with the scenario's winners filled in as if they'd been announced */
+export function applyScenario(categories: CategoryWithNominations[], scenario: Scenario): ScoringCategory[] {
+  return categories.map((cat) => {
+    const base = { id: cat.id, name: cat.name, points: cat.points };
+    if (cat.isRevealed || !(cat.id in scenario)) {
+      return { ...base, winnerIds: cat.winnerIds, isRevealed: cat.isRevealed };
+    }
+    const winnerId = scenario[cat.id];
+    return { ...base, winnerIds: winnerId ? [winnerId] : [], isRevealed: true };
+  });
+}
+
+export function simulateLeaderboard(
+  ballots: PlayerBallot[],
+  categories: CategoryWithNominations[],
+  scenario: Scenario,
+  config: ScoringConfig,
+): LeaderboardPlayer[] {
+  return scoreBallots(ballots, applyScenario(categories, scenario), config);
+}
+
+function pickedIn(categoryId: string, ballots: PlayerBallot[]): Set<string> {
+  return new Set(ballots.flatMap((b) => b.picks.filter((p) => p.categoryId === categoryId).map((p) => p.nominationId)));
+}
+
+/** Swaps each "nobody picked" outcome for a concrete unpicked nominee, e.g. to show it in the picker */
+export function concreteScenario(
+  scenario: Scenario,
+  categories: CategoryWithNominations[],
+  ballots: PlayerBallot[],
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const cat of categories) {
+    if (!(cat.id in scenario)) continue;
+    const picked = pickedIn(cat.id, ballots);
+    const winnerId = scenario[cat.id] ?? cat.nominations.find((n) => !picked.has(n.id))?.id;
+    if (winnerId) result[cat.id] = winnerId;
+  }
+  return result;
+}
+
+/** Outcomes worth trying for one category: everything somebody picked, plus one unpicked nominee if any */
+function outcomesFor(category: CategoryWithNominations, ballots: PlayerBallot[]): (string | null)[] {
+  const picked = pickedIn(category.id, ballots);
+  const outcomes: (string | null)[] = category.nominations.filter((n) => picked.has(n.id)).map((n) => n.id);
+  if (category.nominations.some((n) => !picked.has(n.id))) outcomes.push(null);
+  return outcomes;
+}
+
+export interface WinningPaths {
+  paths: Scenario[];
+  /** Number of distinct outcomes across the remaining categories */
+  scenarioCount: number;
+  /** True when there were more outcomes than `limit` and only the first `limit` were checked */
+  tooMany: boolean;
+}
+
+/**
+ * Every combination of remaining winners that puts the player in first place
+ * (a tie for first counts). Checks at most `limit` combinations.
+ */
+export function findWinningPaths(
+  playerId: string,
+  ballots: PlayerBallot[],
+  categories: CategoryWithNominations[],
+  config: ScoringConfig,
+  limit = 5000,
+): WinningPaths {
+  const open = categories.filter((c) => !c.isRevealed).map((c) => ({ id: c.id, outcomes: outcomesFor(c, ballots) }));
+  const scenarioCount = open.reduce((n, c) => n * Math.max(1, c.outcomes.length), 1);
+  const paths: Scenario[] = [];
+
+  // Odometer over each open category's outcomes
+  const digits = open.map(() => 0);
+  for (let checked = 0; checked < Math.min(scenarioCount, limit); checked++) {
+    const scenario: Scenario = {};
+    open.forEach((c, i) => {
+      if (c.outcomes.length > 0) scenario[c.id] = c.outcomes[digits[i] ?? 0] ?? null;
+    });
+
+    const me = simulateLeaderboard(ballots, categories, scenario, config).find((p) => p.playerId === playerId);
+    if (me?.rank === 1) paths.push(scenario);
+
+    for (let i = digits.length - 1; i >= 0; i--) {
+      digits[i] = (digits[i] ?? 0) + 1;
+      if ((digits[i] ?? 0) < (open[i]?.outcomes.length ?? 0)) break;
+      digits[i] = 0;
+    }
+  }
+
+  return { paths, scenarioCount, tooMany: scenarioCount > limit };
+}
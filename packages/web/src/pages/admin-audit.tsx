@@ -0,0 +1,177 @@
+import type { AuditEntry } from "@bignight/shared";
+import { AdminAccountsResponseSchema, AuditLogResponseSchema } from "@bignight/shared";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { type FormEvent, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { useAuth } from "../auth";
+
+/** Admin accounts, and who did what to which game — for the year Best Picture gets revealed early. */
+export function AdminAuditPage() {
+  const { token, isAdmin, gameId } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [thisGameOnly, setThisGameOnly] = useState(true);
+
+  useEffect(() => {
+    if (!isAdmin) navigate("/admin");
+  }, [isAdmin, navigate]);
+
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const { data: admins = [] } = useQuery({
+    queryKey: ["admin-accounts"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/accounts", { headers });
+      return AdminAccountsResponseSchema.parse(await res.json()).admins;
+    },
+    enabled: !!token && isAdmin,
+  });
+
+  const filterGameId = thisGameOnly && gameId ? gameId : null;
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["admin-audit", filterGameId],
+    queryFn: async () => {
+      const query = filterGameId ? `?gameId=${encodeURIComponent(filterGameId)}` : "";
+      const res = await fetch(`/api/admin/audit${query}`, { headers });
+      return AuditLogResponseSchema.parse(await res.json()).entries;
+    },
+    enabled: !!token && isAdmin,
+    refetchInterval: 10000,
+  });
+
+  async function handleRemove(id: string, name: string) {
+    if (!confirm(`Remove admin ${name}? Their existing session stays valid until it expires.`)) return;
+    await fetch(`/api/admin/accounts/${id}`, { method: "DELETE", headers });
+    queryClient.invalidateQueries({ queryKey: ["admin-accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-audit"] });
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-[#e2b04a]">Admins & Activity</h1>
+        <Link to="/admin" className="text-sm text-gray-400 hover:text-white">
+          Back to Dashboard
+        </Link>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-white">Admins</h2>
+        <p className="text-xs text-gray-500">
+          Each admin signs in with their own name and PIN, so the log below shows who did what. The shared
+          ADMIN_PIN still works and shows up as "Admin".
+        </p>
+        <ul className="space-y-1">
+          {admins.map((admin) => (
+            <li key={admin.id} className="flex items-center justify-between text-sm">
+              <span className="text-white">{admin.name}</span>
+              <button
+                type="button"
+                onClick={() => handleRemove(admin.id, admin.name)}
+                className="text-xs text-red-400/70 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        <AddAdminForm
+          token={token}
+          onAdded={() => {
+            queryClient.invalidateQueries({ queryKey: ["admin-accounts"] });
+            queryClient.invalidateQueries({ queryKey: ["admin-audit"] });
+          }}
+        />
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-white">Activity</h2>
+          {gameId && (
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <input type="checkbox" checked={thisGameOnly} onChange={(e) => setThisGameOnly(e.target.checked)} />
+              This game only
+            </label>
+          )}
+        </div>
+        {isLoading && <p className="text-gray-500">Loading...</p>}
+        {!isLoading && entries.length === 0 && <p className="text-gray-500 text-sm">Nothing yet.</p>}
+        <ul className="space-y-1">
+          {entries.map((entry) => (
+            <AuditRow key={entry.id} entry={entry} showGame={!filterGameId} />
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
+
+function AuditRow({ entry, showGame }: { entry: AuditEntry; showGame: boolean }) {
+  return (
+    <li className="p-2 rounded border border-white/10 bg-white/[0.04] text-sm">
+      <div className="flex items-baseline justify-between gap-4">
+        <span className="text-white">
+          <span className="font-semibold text-[#e2b04a]">{entry.actorName}</span> {entry.detail ?? entry.action}
+        </span>
+        <time className="shrink-0 text-xs text-gray-500" dateTime={new Date(entry.createdAt).toISOString()}>
+          {new Date(entry.createdAt).toLocaleString()}
+        </time>
+      </div>
+      <p className="text-xs text-gray-500">
+        {entry.action}
+        {showGame && entry.gameName && <> · {entry.gameName}</>}
+      </p>
+    </li>
+  );
+}
+
+function AddAdminForm({ token, onAdded }: { token: string | null; onAdded: () => void }) {
+  const [name, setName] = useState("");
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const res = await fetch("/api/admin/accounts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ name: name.trim(), pin }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      setError(body.error ?? "Failed to add admin");
+      return;
+    }
+    setName("");
+    setPin("");
+    onAdded();
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap gap-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        required
+        maxLength={50}
+        className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded text-white text-sm"
+      />
+      <input
+        type="password"
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+        placeholder="PIN"
+        required
+        minLength={4}
+        className="w-28 px-3 py-2 bg-white/5 border border-white/10 rounded text-white text-sm"
+      />
+      <button type="submit" className="px-3 py-2 bg-white/10 text-gray-200 rounded text-sm hover:bg-white/20">
+        Add admin
+      </button>
+      {error && <p className="w-full text-red-400 text-sm">{error}</p>}
+    </form>
+  );
+}
@@ -2,35 +2,34 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 import { CategoryPills } from "../components/category-pills";
 import { NominationCard } from "../components/nomination-card";
 import type { CategoryWithNominations } from "@bignight/shared";
+import { RevealHistoryResponseSchema } from "@bignight/shared";
 
 export function AdminLivePage() {
-  const { token, isAdmin } = useAuth();
+  const { token, isAdmin, gameId } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [selectedCategoryIndex, setSelectedCategoryIndex] = useState(0);
-  const [confirming, setConfirming] = useState<{
-    categoryId: string;
-    nominationId: string;
-    title: string;
-  } | null>(null);
+  // Tapping further nominees before confirming adds them as joint winners (a tie)
+  const [confirming, setConfirming] = useState<PendingWinners | null>(null);
 
   useEffect(() => {
-    if (!isAdmin) navigate("/admin");
-  }, [isAdmin, navigate]);
+    if (!isAdmin || !gameId) navigate("/admin");
+  }, [isAdmin, gameId, navigate]);
 
   const { data: categories = [] } = useQuery<CategoryWithNominations[]>({
-    queryKey: ["admin-categories"],
+    queryKey: ["admin-categories", gameId],
     queryFn: async () => {
-      const res = await fetch("/api/categories", {
+      const res = await fetch(gameApi(gameId, "/categories"), {
         headers: { Authorization: `Bearer ${token}` },
       });
       const data = await res.json();
       return data.categories;
     },
-    enabled: !!token,
+    enabled: !!token && !!gameId,
   });
 
   const currentCategory = categories[selectedCategoryIndex];
@@ -44,18 +43,18 @@ export function AdminLivePage() {
   const markWinner = useMutation({
     mutationFn: async ({
       categoryId,
-      nominationId,
+      nominationIds,
     }: {
       categoryId: string;
-      nominationId: string;
+      nominationIds: string[];
     }) => {
-      const res = await fetch("/api/admin/mark-winner", {
+      const res = await fetch(gameApi(gameId, "/admin/mark-winner"), {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ categoryId, nominationId }),
+        body: JSON.stringify({ categoryId, nominationIds }),
       });
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
@@ -65,7 +64,8 @@ export function AdminLivePage() {
     onSuccess: () => {
       setConfirming(null);
       setError(null);
-      queryClient.invalidateQueries({ queryKey: ["admin-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-categories", gameId] });
+      queryClient.invalidateQueries({ queryKey: ["reveal-history", gameId] });
     },
     onError: (err: Error) => {
       setConfirming(null);
@@ -75,7 +75,7 @@ export function AdminLivePage() {
 
   const clearWinner = useMutation({
     mutationFn: async (categoryId: string) => {
-      const res = await fetch("/api/admin/clear-winner", {
+      const res = await fetch(gameApi(gameId, "/admin/clear-winner"), {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -90,7 +90,8 @@ export function AdminLivePage() {
     },
     onSuccess: () => {
       setError(null);
-      queryClient.invalidateQueries({ queryKey: ["admin-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-categories", gameId] });
+      queryClient.invalidateQueries({ queryKey: ["reveal-history", gameId] });
     },
     onError: (err: Error) => {
       setError(err.message);
@@ -114,6 +115,17 @@ export function AdminLivePage() {
         </span>
       </div>
 
+      <RevealHistoryControls
+        token={token}
+        gameId={gameId}
+        onChanged={() => {
+          setError(null);
+          queryClient.invalidateQueries({ queryKey: ["admin-categories", gameId] });
+          queryClient.invalidateQueries({ queryKey: ["reveal-history", gameId] });
+        }}
+        onError={setError}
+      />
+
       <CategoryPills
         categories={categories}
         selectedId={currentCategory.id}
@@ -139,16 +151,22 @@ export function AdminLivePage() {
         <div className="bg-[#e2b04a]/20 border border-[#e2b04a]/50 p-4 rounded-lg space-y-3">
           <p className="text-white text-sm">
             Mark{" "}
-            <span className="font-bold text-[#e2b04a]">{confirming.title}</span>{" "}
-            as winner of{" "}
+            {confirming.nominations.map((nom, i) => (
+              <span key={nom.id}>
+                {i > 0 && " & "}
+                <span className="font-bold text-[#e2b04a]">{nom.title}</span>
+              </span>
+            ))}{" "}
+            as {confirming.nominations.length > 1 ? "joint winners" : "winner"} of{" "}
             <span className="font-bold">{currentCategory.name}</span>?
           </p>
+          <p className="text-xs text-gray-400">Tap another nominee to record a tie.</p>
           <div className="flex gap-2">
             <button
               onClick={() =>
                 markWinner.mutate({
                   categoryId: confirming.categoryId,
-                  nominationId: confirming.nominationId,
+                  nominationIds: confirming.nominations.map((n) => n.id),
                 })
               }
               className="px-4 py-2 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg text-sm"
@@ -172,15 +190,14 @@ export function AdminLivePage() {
             title={nom.title}
             subtitle={nom.subtitle}
             imageUrl={nom.imageUrl}
-            isSelected={nom.id === currentCategory.winnerId}
-            isWinner={nom.id === currentCategory.winnerId}
+            isSelected={
+              currentCategory.winnerIds.includes(nom.id) ||
+              !!confirming?.nominations.some((n) => n.id === nom.id)
+            }
+            isWinner={currentCategory.winnerIds.includes(nom.id)}
             onSelect={() => {
               if (!currentCategory.isRevealed) {
-                setConfirming({
-                  categoryId: currentCategory.id,
-                  nominationId: nom.id,
-                  title: nom.title,
-                });
+                setConfirming(toggleNominee(confirming, currentCategory.id, nom));
               }
             }}
           />
@@ -210,3 +227,85 @@ export function AdminLivePage() {
     </div>
   );
 }
+
+type PendingWinners = { categoryId: string; nominations: { id: string; title: string }[] };
+
+/** Adds or removes a nominee from the pending winners; a different category starts over */
+function toggleNominee(
+  pending: PendingWinners | null,
+  categoryId: string,
+  nom: { id: string; title: string },
+): PendingWinners | null {
+  if (pending?.categoryId !== categoryId) {
+    return { categoryId, nominations: [{ id: nom.id, title: nom.title }] };
+  }
+  const without = pending.nominations.filter((n) => n.id !== nom.id);
+  if (without.length === pending.nominations.length) {
+    return { categoryId, nominations: [...pending.nominations, { id: nom.id, title: nom.title }] };
+  }
+  return without.length > 0 ? { categoryId, nominations: without } : null;
+}
+
+interface RevealHistoryControlsProps {
+  token: string | null;
+  gameId: string | null;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+/** Steps back and forth through winner changes; everyone watching gets a correction notice */
+function RevealHistoryControls({ token, gameId, onChanged, onError }: RevealHistoryControlsProps) {
+  const { data: history } = useQuery({
+    queryKey: ["reveal-history", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/admin/reveal-history"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return RevealHistoryResponseSchema.parse(await res.json());
+    },
+    enabled: !!token && !!gameId,
+  });
+
+  const step = useMutation({
+    mutationFn: async (direction: "undo" | "redo") => {
+      const res = await fetch(gameApi(gameId, `/admin/${direction}-reveal`), {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Failed to ${direction}`);
+      }
+    },
+    onSuccess: onChanged,
+    onError: (err: Error) => onError(err.message),
+  });
+
+  const titles = (list: string[]) => list.join(" & ") || "unannounced";
+  const describe = (s: { categoryName: string; previousWinnerTitles: string[]; newWinnerTitles: string[] }) =>
+    `${s.categoryName}: ${titles(s.previousWinnerTitles)} → ${titles(s.newWinnerTitles)}`;
+
+  return (
+    <div className="flex gap-2 text-sm">
+      <button
+        type="button"
+        disabled={!history?.undo || step.isPending}
+        onClick={() => step.mutate("undo")}
+        title={history?.undo ? `Undo ${describe(history.undo)}` : undefined}
+        className="px-3 py-1.5 bg-white/10 text-gray-200 rounded disabled:opacity-40"
+      >
+        ↩ Undo last change
+      </button>
+      <button
+        type="button"
+        disabled={!history?.redo || step.isPending}
+        onClick={() => step.mutate("redo")}
+        title={history?.redo ? `Redo ${describe(history.redo)}` : undefined}
+        className="px-3 py-1.5 bg-white/10 text-gray-200 rounded disabled:opacity-40"
+      >
+        ↪ Redo
+      </button>
+      {history?.undo && <span className="self-center text-xs text-gray-500 truncate">Last: {describe(history.undo)}</span>}
+    </div>
+  );
+}
@@ -1,7 +1,16 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate, Link } from "react-router";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+	type Lockout,
+	LockoutsResponseSchema,
+	type MergeConflictStrategy,
+	MergePlayersResponseSchema,
+	type ResetPinResponse,
+	ResetPinResponseSchema,
+} from "@bignight/shared";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 
 interface PlayerInfo {
 	id: string;
@@ -9,31 +18,145 @@ interface PlayerInfo {
 	pickCount: number;
 	totalCategories: number;
 	complete: boolean;
+	missingCategories: { id: string; name: string }[];
 }
 
 export function AdminPlayersPage() {
-	const { token, isAdmin } = useAuth();
+	const { token, isAdmin, gameId } = useAuth();
 	const navigate = useNavigate();
+	const queryClient = useQueryClient();
+	// Shown once, right after issuing — the server only keeps a hash
+	const [issued, setIssued] = useState<
+		(ResetPinResponse & { playerId: string }) | null
+	>(null);
 
 	useEffect(() => {
-		if (!isAdmin) navigate("/admin");
-	}, [isAdmin, navigate]);
+		if (!isAdmin || !gameId) navigate("/admin");
+	}, [isAdmin, gameId, navigate]);
 
 	const { data: players = [], isLoading } = useQuery<PlayerInfo[]>({
-		queryKey: ["admin-players"],
+		queryKey: ["admin-players", gameId],
 		queryFn: async () => {
-			const res = await fetch("/api/admin/players", {
+			const res = await fetch(gameApi(gameId, "/admin/players"), {
 				headers: { Authorization: `Bearer ${token}` },
 			});
 			const data = await res.json();
 			return data.players;
 		},
-		enabled: !!token && isAdmin,
+		enabled: !!token && isAdmin && !!gameId,
+		refetchInterval: 10000,
+	});
+
+	// Names and IPs locked out after too many wrong PINs
+	const { data: lockouts = [] } = useQuery({
+		queryKey: ["admin-lockouts", gameId],
+		queryFn: async () => {
+			const res = await fetch(gameApi(gameId, "/admin/lockouts"), {
+				headers: { Authorization: `Bearer ${token}` },
+			});
+			return LockoutsResponseSchema.parse(await res.json()).lockouts;
+		},
+		enabled: !!token && isAdmin && !!gameId,
 		refetchInterval: 10000,
 	});
 
 	const completeCount = players.filter((p) => p.complete).length;
 
+	/** Sends an admin player action; alerts and returns null if the server refuses */
+	async function playerAction(method: string, path: string, body?: unknown) {
+		const res = await fetch(gameApi(gameId, `/admin/players${path}`), {
+			method,
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: `Bearer ${token}`,
+			},
+			body: body === undefined ? undefined : JSON.stringify(body),
+		});
+		const data = await res.json().catch(() => ({}));
+		if (!res.ok) {
+			alert(data.error ?? "Something went wrong");
+			return null;
+		}
+		queryClient.invalidateQueries({ queryKey: ["admin-players", gameId] });
+		return data;
+	}
+
+	async function handleRename(player: PlayerInfo) {
+		const name = prompt(`Rename ${player.name} to:`, player.name)?.trim();
+		if (!name || name === player.name) return;
+		await playerAction("PATCH", `/${player.id}`, { name });
+	}
+
+	async function handleRemove(player: PlayerInfo) {
+		if (
+			!confirm(
+				`Remove ${player.name} and all ${player.pickCount} of their picks? This can't be undone.`,
+			)
+		)
+			return;
+		await playerAction("DELETE", `/${player.id}`);
+	}
+
+	async function handleMerge(
+		source: PlayerInfo,
+		target: PlayerInfo,
+		onConflict: MergeConflictStrategy,
+	) {
+		if (
+			!confirm(
+				`Merge ${source.name} into ${target.name}? ${source.name} will be removed.`,
+			)
+		)
+			return;
+		const data = await playerAction("POST", "/merge", {
+			sourceId: source.id,
+			targetId: target.id,
+			onConflict,
+		});
+		if (!data) return;
+		const { movedPicks, conflicts } = MergePlayersResponseSchema.parse(data);
+		alert(
+			`Moved ${movedPicks} pick${movedPicks === 1 ? "" : "s"} to ${target.name}` +
+				(conflicts > 0 ? ` (${conflicts} overlapping resolved)` : ""),
+		);
+	}
+
+	async function handleUnlock(lockout: Lockout) {
+		await fetch(
+			gameApi(gameId, `/admin/lockouts/${encodeURIComponent(lockout.id)}`),
+			{
+				method: "DELETE",
+				headers: { Authorization: `Bearer ${token}` },
+			},
+		);
+		queryClient.invalidateQueries({ queryKey: ["admin-lockouts", gameId] });
+	}
+
+	async function handleResetPin(player: PlayerInfo) {
+		if (
+			!confirm(
+				`Issue a recovery code for ${player.name}? Their current PIN keeps working until they use it.`,
+			)
+		)
+			return;
+		const res = await fetch(
+			gameApi(gameId, `/admin/players/${player.id}/reset-pin`),
+			{
+				method: "POST",
+				headers: { Authorization: `Bearer ${token}` },
+			},
+		);
+		if (!res.ok) {
+			const body = await res.json().catch(() => ({}));
+			alert(body.error ?? "PIN reset failed");
+			return;
+		}
+		setIssued({
+			playerId: player.id,
+			...ResetPinResponseSchema.parse(await res.json()),
+		});
+	}
+
 	return (
 		<div className="space-y-4">
 			<div className="flex items-center justify-between">
@@ -50,6 +173,39 @@ export function AdminPlayersPage() {
 				{players.length} registered — {completeCount} complete
 			</p>
 
+			{lockouts.length > 0 && (
+				<div className="p-3 rounded-lg border border-red-500/30 bg-red-500/5 space-y-2">
+					<h2 className="text-sm font-semibold text-red-300">
+						Locked out for wrong PINs
+					</h2>
+					{lockouts.map((lockout) => (
+						<div
+							key={lockout.id}
+							className="flex items-center justify-between text-sm"
+						>
+							<span className="text-white">
+								{lockout.kind === "ip"
+									? `IP ${lockout.subject}`
+									: lockout.kind === "admin"
+										? "Admin login"
+										: lockout.subject}
+								<span className="ml-2 text-xs text-gray-500">
+									{lockout.failures} misses · until{" "}
+									{new Date(lockout.lockedUntil).toLocaleTimeString()}
+								</span>
+							</span>
+							<button
+								type="button"
+								onClick={() => handleUnlock(lockout)}
+								className="text-xs text-gray-400 hover:text-white"
+							>
+								Unlock
+							</button>
+						</div>
+					))}
+				</div>
+			)}
+
 			{isLoading && <p className="text-gray-500">Loading...</p>}
 
 			<div className="space-y-2">
@@ -68,17 +224,74 @@ export function AdminPlayersPage() {
 							) : (
 								<span className="text-gray-600">○</span>
 							)}
-							<span className="text-white">{player.name}</span>
+							<div className="min-w-0">
+								<span className="text-white">{player.name}</span>
+								{!player.complete && player.missingCategories.length > 0 && (
+									<p className="text-xs text-gray-500">
+										Missing: {player.missingCategories.map((c) => c.name).join(", ")}
+									</p>
+								)}
+							</div>
+						</div>
+						<div className="flex items-center gap-3">
+							<span
+								className={`text-sm ${player.complete ? "text-green-400" : "text-gray-500"}`}
+							>
+								{player.pickCount} / {player.totalCategories}
+							</span>
+							<button
+								type="button"
+								onClick={() => handleRename(player)}
+								className="text-xs text-gray-400 hover:text-white"
+							>
+								Rename
+							</button>
+							<button
+								type="button"
+								onClick={() => handleResetPin(player)}
+								className="text-xs text-gray-400 hover:text-white"
+							>
+								Reset PIN
+							</button>
+							<button
+								type="button"
+								onClick={() => handleRemove(player)}
+								className="text-xs text-red-400/70 hover:text-red-300"
+							>
+								Remove
+							</button>
 						</div>
-						<span
-							className={`text-sm ${player.complete ? "text-green-400" : "text-gray-500"}`}
-						>
-							{player.pickCount} / {player.totalCategories}
-						</span>
 					</div>
 				))}
 			</div>
 
+			{issued && (
+				<div className="p-4 rounded-lg border border-[#e2b04a]/40 bg-[#e2b04a]/5 space-y-1">
+					<p className="text-sm text-gray-300">
+						Recovery code for{" "}
+						{players.find((p) => p.id === issued.playerId)?.name ?? "player"}:
+					</p>
+					<p className="text-2xl font-mono font-bold text-[#e2b04a] tracking-widest">
+						{issued.recoveryCode}
+					</p>
+					<p className="text-xs text-gray-500">
+						Works once, until {new Date(issued.expiresAt).toLocaleString()}.
+						They enter it under "Forgot PIN?" on the join page.
+					</p>
+					<button
+						type="button"
+						onClick={() => setIssued(null)}
+						className="text-xs text-gray-400 hover:text-white"
+					>
+						Done
+					</button>
+				</div>
+			)}
+
+			{players.length > 1 && (
+				<MergePanel players={players} onMerge={handleMerge} />
+			)}
+
 			{players.length === 0 && !isLoading && (
 				<p className="text-gray-500 text-center py-8">
 					No players have joined yet.
@@ -87,3 +300,88 @@ export function AdminPlayersPage() {
 		</div>
 	);
 }
+
+const CONFLICT_LABELS: Record<MergeConflictStrategy, string> = {
+	newest: "keep the most recent pick",
+	target: "keep the surviving player's pick",
+	source: "keep the merged player's pick",
+};
+
+interface MergePanelProps {
+	players: PlayerInfo[];
+	onMerge: (
+		source: PlayerInfo,
+		target: PlayerInfo,
+		onConflict: MergeConflictStrategy,
+	) => void;
+}
+
+/** "Sam joined twice": fold one account's picks into another */
+function MergePanel({ players, onMerge }: MergePanelProps) {
+	const [sourceId, setSourceId] = useState("");
+	const [targetId, setTargetId] = useState("");
+	const [onConflict, setOnConflict] = useState<MergeConflictStrategy>("newest");
+	const source = players.find((p) => p.id === sourceId);
+	const target = players.find((p) => p.id === targetId);
+	const selectClass =
+		"px-2 py-1.5 bg-white/5 border border-white/10 rounded text-white text-sm";
+
+	return (
+		<div className="p-3 rounded-lg border border-white/10 bg-white/[0.04] space-y-2">
+			<h2 className="text-sm font-semibold text-white">Merge players</h2>
+			<div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+				<select
+					value={sourceId}
+					onChange={(e) => setSourceId(e.target.value)}
+					className={selectClass}
+				>
+					<option value="">Merge…</option>
+					{players.map((p) => (
+						<option key={p.id} value={p.id}>
+							{p.name}
+						</option>
+					))}
+				</select>
+				into
+				<select
+					value={targetId}
+					onChange={(e) => setTargetId(e.target.value)}
+					className={selectClass}
+				>
+					<option value="">Choose a player</option>
+					{players
+						.filter((p) => p.id !== sourceId)
+						.map((p) => (
+							<option key={p.id} value={p.id}>
+								{p.name}
+							</option>
+						))}
+				</select>
+			</div>
+			<label className="flex items-center gap-2 text-sm text-gray-400">
+				Same category picked by both:
+				<select
+					value={onConflict}
+					onChange={(e) =>
+						setOnConflict(e.target.value as MergeConflictStrategy)
+					}
+					className={selectClass}
+				>
+					{Object.entries(CONFLICT_LABELS).map(([value, label]) => (
+						<option key={value} value={value}>
+							{label}
+						</option>
+					))}
+				</select>
+			</label>
+			<button
+				type="button"
+				disabled={!source || !target || source.id === target.id}
+				onClick={() => source && target && onMerge(source, target, onConflict)}
+				className="px-3 py-1.5 bg-white/10 text-gray-200 rounded text-sm hover:bg-white/20 disabled:opacity-40"
+			>
+				Merge
+			</button>
+		</div>
+	);
+}
@@ -1,17 +1,119 @@
 import { useState, type FormEvent } from "react";
 import { Link } from "react-router";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
+import { BallotFileImport } from "../components/ballot-file-import";
+import { CategoryEditor } from "../components/category-editor";
+import { LockControl } from "../components/lock-control";
+import { ScoringSettings } from "../components/scoring-settings";
+import { TiebreakerSettings } from "../components/tiebreaker-settings";
+import { WikitextImport } from "../components/wikitext-import";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AdminLoginResponseSchema, AWARD_SHOW_NAMES, AWARD_SHOWS, GamesResponseSchema } from "@bignight/shared";
+import type { AwardShow, PartialBallotPolicy, ScoringMode, TiebreakerRule } from "@bignight/shared";
 
 export function AdminPage() {
-  const { token, isAdmin, loginAdmin } = useAuth();
+  const { token, isAdmin, loginAdmin, gameId, selectGame } = useAuth();
   const queryClient = useQueryClient();
 
-  if (!isAdmin) return <AdminLogin onLogin={loginAdmin} />;
-  return <AdminDashboard token={token!} queryClient={queryClient} />;
+  if (!isAdmin || !token) return <AdminLogin onLogin={loginAdmin} />;
+  return (
+    <div className="space-y-8">
+      <GamePicker token={token} gameId={gameId} onSelect={selectGame} queryClient={queryClient} />
+      {gameId && <AdminDashboard token={token} gameId={gameId} queryClient={queryClient} />}
+    </div>
+  );
+}
+
+function GamePicker({
+  token,
+  gameId,
+  onSelect,
+  queryClient,
+}: {
+  token: string;
+  gameId: string | null;
+  onSelect: (gameId: string) => void;
+  queryClient: ReturnType<typeof useQueryClient>;
+}) {
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: games = [] } = useQuery({
+    queryKey: ["games"],
+    queryFn: async () => {
+      const res = await fetch("/api/games");
+      return GamesResponseSchema.parse(await res.json()).games;
+    },
+  });
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const res = await fetch("/api/games", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ name: newName }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      setError(body.error ?? "Failed to create game");
+      return;
+    }
+    const { game } = await res.json();
+    setNewName("");
+    queryClient.invalidateQueries({ queryKey: ["games"] });
+    onSelect(game.id);
+  }
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-white">Games</h2>
+      {games.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {games.map((g) => (
+            <button
+              key={g.id}
+              type="button"
+              onClick={() => onSelect(g.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm ${
+                g.id === gameId
+                  ? "bg-[#e2b04a] text-[#1a1a2e] font-bold"
+                  : "bg-white/10 text-gray-300 hover:bg-white/20"
+              }`}
+            >
+              {g.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New game name, e.g. 98th Academy Awards"
+          maxLength={100}
+          required
+          className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:border-[#e2b04a] focus:outline-none"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-white/10 text-white rounded-lg text-sm hover:bg-white/20"
+        >
+          Create
+        </button>
+      </form>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </section>
+  );
 }
 
-function AdminLogin({ onLogin }: { onLogin: (token: string) => void }) {
+function AdminLogin({ onLogin }: { onLogin: (token: string, name: string) => void }) {
+  const [name, setName] = useState("");
   const [pin, setPin] = useState("");
   const [error, setError] = useState<string | null>(null);
 
@@ -20,20 +122,31 @@ function AdminLogin({ onLogin }: { onLogin: (token: string) => void }) {
     const res = await fetch("/api/admin/login", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ pin }),
+      // Leaving the name blank uses the shared ADMIN_PIN
+      body: JSON.stringify(name.trim() ? { name: name.trim(), pin } : { pin }),
     });
     if (!res.ok) {
-      setError("Invalid PIN");
+      // 429 carries a "try again in…" message
+      const body = await res.json().catch(() => ({}));
+      setError(body.error ?? "Invalid PIN");
       return;
     }
-    const { token } = await res.json();
-    onLogin(token);
+    const login = AdminLoginResponseSchema.parse(await res.json());
+    onLogin(login.token, login.name);
   }
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[60vh]">
       <h1 className="text-2xl font-bold text-[#e2b04a] mb-6">Admin Access</h1>
       <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Admin name (blank for the shared PIN)"
+          autoComplete="username"
+          className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white focus:border-[#e2b04a] focus:ring-1 focus:ring-[#e2b04a] focus:outline-none"
+        />
         <input
           type="password"
           value={pin}
@@ -53,15 +166,18 @@ function AdminLogin({ onLogin }: { onLogin: (token: string) => void }) {
   );
 }
 
-interface Category {
-  id: string;
-  name: string;
-  points?: number;
-  nominations?: unknown[];
-}
-
 interface GameState {
   phase?: string;
+  game?: {
+    locksAt: number | null;
+    scoringMode?: ScoringMode;
+    scoringRuleSetId?: string | null;
+    underdogBonus?: boolean;
+    tiebreakerQuestion?: string | null;
+    tiebreakerAnswer?: number | null;
+    tiebreakerRule?: TiebreakerRule;
+    partialBallotPolicy?: PartialBallotPolicy;
+  } | null;
 }
 
 interface PreviewData {
@@ -70,74 +186,87 @@ interface PreviewData {
 
 function AdminDashboard({
   token,
+  gameId,
   queryClient,
 }: {
   token: string;
+  gameId: string;
   queryClient: ReturnType<typeof useQueryClient>;
 }) {
   // Wikipedia import state
   const [wikiUrl, setWikiUrl] = useState("");
+  const [show, setShow] = useState<AwardShow>("oscars");
   const [previewData, setPreviewData] = useState<PreviewData | null>(null);
   const [importStatus, setImportStatus] = useState<string | null>(null);
 
   // Fetch game state
   const { data: gameState } = useQuery<GameState>({
-    queryKey: ["game-state"],
+    queryKey: ["game-state", gameId],
     queryFn: async () => {
-      const res = await fetch("/api/game", {
+      const res = await fetch(gameApi(gameId), {
         headers: { Authorization: `Bearer ${token}` },
       });
       return res.json();
     },
   });
 
-  // Fetch categories
-  const { data: categories = [] } = useQuery<Category[]>({
-    queryKey: ["categories"],
-    queryFn: async () => {
-      const res = await fetch("/api/categories", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const data = await res.json();
-      return data.categories;
-    },
-  });
-
   async function handlePreview() {
-    const res = await fetch("/api/admin/preview", {
+    const res = await fetch(gameApi(gameId, "/admin/preview"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${token}`,
       },
-      body: JSON.stringify({ url: wikiUrl }),
+      body: JSON.stringify({ url: wikiUrl, show }),
     });
     if (res.ok) setPreviewData(await res.json());
   }
 
   async function handleImport() {
     setImportStatus("Importing...");
-    const res = await fetch("/api/admin/import", {
+    const res = await fetch(gameApi(gameId, "/admin/import"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${token}`,
       },
-      body: JSON.stringify({ url: wikiUrl }),
+      body: JSON.stringify({ url: wikiUrl, show }),
     });
     if (res.ok) {
       setImportStatus("Imported!");
       setPreviewData(null);
-      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      queryClient.invalidateQueries({ queryKey: ["categories", gameId] });
     } else {
       const body = await res.json();
       setImportStatus(`Error: ${body.error}`);
     }
   }
 
+  async function handleArchive() {
+    const finished = gameState?.phase === "completed";
+    const question = finished
+      ? "Archive this ceremony to History and clear it for next season?"
+      : "Not every winner has been announced. Archive this ceremony to History anyway and clear it for next season?";
+    if (!confirm(question)) return;
+    const res = await fetch(gameApi(gameId, "/admin/archive"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ confirm: true, force: !finished }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      alert(body.error ?? "Archive failed");
+      return;
+    }
+    queryClient.invalidateQueries();
+  }
+
   async function handleReset() {
-    if (!confirm("Are you sure? This deletes ALL data.")) return;
-    await fetch("/api/admin/reset", {
+    if (!confirm("Are you sure? This deletes ALL data for this game.")) return;
+    await fetch(gameApi(gameId, "/admin/reset"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -158,17 +287,67 @@ function AdminDashboard({
         <Link to="/admin/players" className="px-4 py-2 bg-white/10 text-gray-300 rounded-lg text-sm hover:bg-white/20">
           Players
         </Link>
+        <Link to="/admin/audit" className="px-4 py-2 bg-white/10 text-gray-300 rounded-lg text-sm hover:bg-white/20">
+          Admins & Activity
+        </Link>
       </div>
       <p className="text-sm text-gray-400">
         Phase: {gameState?.phase ?? "loading..."}
       </p>
 
+      {gameState?.game && (
+        <LockControl
+          key={gameState.game.locksAt ?? "open"}
+          token={token}
+          gameId={gameId}
+          locksAt={gameState.game.locksAt}
+          title="Pick Lock"
+        />
+      )}
+
+      {gameState?.game && (
+        <ScoringSettings
+          token={token}
+          gameId={gameId}
+          scoringMode={gameState.game.scoringMode ?? "standard"}
+          scoringRuleSetId={gameState.game.scoringRuleSetId ?? null}
+          underdogBonus={gameState.game.underdogBonus ?? false}
+          partialBallotPolicy={gameState.game.partialBallotPolicy ?? "exclude"}
+        />
+      )}
+
+      {gameState?.game && (
+        <TiebreakerSettings
+          key={`${gameState.game.tiebreakerQuestion}-${gameState.game.tiebreakerAnswer}`}
+          token={token}
+          gameId={gameId}
+          question={gameState.game.tiebreakerQuestion ?? null}
+          answer={gameState.game.tiebreakerAnswer ?? null}
+          rule={gameState.game.tiebreakerRule ?? "closest"}
+        />
+      )}
+
       {/* Wikipedia Import */}
       <section className="space-y-3">
         <h2 className="text-lg font-semibold text-white">
           Import from Wikipedia
         </h2>
         <div className="flex gap-2">
+          <select
+            value={show}
+            onChange={(e) => {
+              setShow(e.target.value as AwardShow);
+              setPreviewData(null);
+            }}
+            aria-label="Award show"
+            className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:border-[#e2b04a] focus:outline-none"
+          >
+            {AWARD_SHOWS.map((s) => (
+              <option key={s} value={s}>
+                {AWARD_SHOW_NAMES[s]}
+              </option>
+            ))}
+          </select>
           <input
             type="url"
             value={wikiUrl}
@@ -202,32 +381,24 @@ function AdminDashboard({
         {importStatus && (
           <p className="text-sm text-gray-400">{importStatus}</p>
         )}
+        <WikitextImport token={token} gameId={gameId} show={show} />
       </section>
 
+      {/* Ballot file import */}
+      <BallotFileImport token={token} gameId={gameId} />
+
       {/* Categories */}
-      {categories.length > 0 && (
-        <section className="space-y-3">
-          <h2 className="text-lg font-semibold text-white">
-            Categories ({categories.length})
-          </h2>
-          <div className="space-y-1 max-h-60 overflow-y-auto">
-            {categories.map((cat) => (
-              <div
-                key={cat.id}
-                className="text-sm text-gray-300 flex justify-between"
-              >
-                <span>{cat.name}</span>
-                <span className="text-gray-500">
-                  {cat.points ?? 1}pt · {cat.nominations?.length} nominees
-                </span>
-              </div>
-            ))}
-          </div>
-        </section>
-      )}
+      <CategoryEditor token={token} gameId={gameId} />
 
-      {/* Reset */}
-      <section>
+      {/* Archive / Reset */}
+      <section className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleArchive}
+          className="px-4 py-2 bg-white/10 text-white rounded-lg text-sm hover:bg-white/20"
+        >
+          Archive Season
+        </button>
         <button
           type="button"
           onClick={handleReset}
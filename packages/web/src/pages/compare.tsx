@@ -0,0 +1,176 @@
+import type { CategoryWithNominations } from "@bignight/shared";
+import {
+  CategoriesResponseSchema,
+  getScoringConfig,
+  LeaderboardResponseSchema,
+  PickDistributionResponseSchema,
+  PlayerBallotResponseSchema,
+} from "@bignight/shared";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router";
+import { useAuth } from "../auth";
+import { gameApi } from "../client";
+import { useGameState } from "../hooks/use-game-state";
+import { type CompareRow, compareBallots, type PickShares } from "../lib/compare";
+
+/** Two ballots side by side: where they split, and how each open split could swing the rivalry. */
+export function ComparePage() {
+  const { token, gameId, playerId } = useAuth();
+  const navigate = useNavigate();
+  const [params, setParams] = useSearchParams();
+  const { game, ruleSet } = useGameState();
+  const a = params.get("a") ?? playerId ?? "";
+  const b = params.get("b") ?? "";
+
+  useEffect(() => {
+    if (!token) navigate("/");
+  }, [token, navigate]);
+
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["categories", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/categories"), { headers });
+      return CategoriesResponseSchema.parse(await res.json()).categories;
+    },
+    enabled: !!token,
+  });
+
+  const { data: players = [] } = useQuery({
+    queryKey: ["leaderboard", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/leaderboard"), { headers });
+      return LeaderboardResponseSchema.parse(await res.json()).players;
+    },
+    enabled: !!token,
+  });
+
+  // Group pick shares feed the underdog bonus; empty if nothing's closed yet
+  const { data: pickShares = new Map() } = useQuery({
+    queryKey: ["pick-distribution", gameId, "shares"],
+    queryFn: async (): Promise<PickShares> => {
+      const res = await fetch(gameApi(gameId, "/categories/distribution"), { headers });
+      if (!res.ok) return new Map();
+      const { categories: dist } = PickDistributionResponseSchema.parse(await res.json());
+      return new Map(
+        dist.map((d) => [
+          d.categoryId,
+          new Map(d.nominations.map((n) => [n.nominationId, d.totalPicks > 0 ? n.count / d.totalPicks : 0])),
+        ]),
+      );
+    },
+    enabled: !!token,
+  });
+
+  const ballotQuery = (id: string) => ({
+    queryKey: ["player-ballot", gameId, id],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, `/players/${id}/picks`), { headers });
+      if (res.status === 403) return null;
+      if (!res.ok) throw new Error("Player not found");
+      return PlayerBallotResponseSchema.parse(await res.json()).ballot;
+    },
+    enabled: !!token && !!id,
+  });
+  const { data: ballotA, isLoading: loadingA } = useQuery(ballotQuery(a));
+  const { data: ballotB, isLoading: loadingB } = useQuery(ballotQuery(b));
+
+  function choose(key: "a" | "b", id: string) {
+    const next = new URLSearchParams(params);
+    next.set("a", a);
+    next.set(key, id);
+    setParams(next);
+  }
+
+  const comparison =
+    ballotA && ballotB ? compareBallots(ballotA, ballotB, categories, getScoringConfig(game, ruleSet), pickShares) : null;
+  const hidden = (!!a && !loadingA && ballotA === null) || (!!b && !loadingB && ballotB === null);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl md:text-4xl font-bold text-[#e2b04a]">Head to Head</h1>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(["a", "b"] as const).map((key) => (
+          <select
+            key={key}
+            value={key === "a" ? a : b}
+            onChange={(e) => choose(key, e.target.value)}
+            className="px-2 py-1.5 bg-white/5 border border-white/10 rounded text-white text-sm"
+          >
+            <option value="">Choose a player</option>
+            {players.map((p) => (
+              <option key={p.playerId} value={p.playerId}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        ))}
+      </div>
+
+      {hidden && <p className="text-gray-400 text-center">Ballots are hidden until picks lock.</p>}
+
+      {comparison && ballotA && ballotB && (
+        <>
+          <div className="grid grid-cols-2 text-center">
+            <p className="text-3xl font-bold text-white">{comparison.scoreA}</p>
+            <p className="text-3xl font-bold text-white">{comparison.scoreB}</p>
+          </div>
+          <div className="space-y-2">
+            {comparison.rows.map((row) => (
+              <CompareCategory
+                key={row.categoryId}
+                row={row}
+                category={categories.find((c) => c.id === row.categoryId)}
+                nameA={ballotA.name}
+                nameB={ballotB.name}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface CompareCategoryProps {
+  row: CompareRow;
+  category: CategoryWithNominations | undefined;
+  nameA: string;
+  nameB: string;
+}
+
+function CompareCategory({ row, category, nameA, nameB }: CompareCategoryProps) {
+  const title = (id: string | null) => category?.nominations.find((n) => n.id === id)?.title ?? "—";
+  const mark = (id: string | null) => {
+    if (!row.isRevealed) return "text-white";
+    return id !== null && row.winnerIds.includes(id) ? "text-green-400" : "text-gray-500 line-through";
+  };
+
+  return (
+    <div
+      className={`p-3 rounded-lg border text-sm space-y-1 ${
+        row.diverges ? "border-[#e2b04a]/40 bg-[#e2b04a]/5" : "border-white/10 bg-white/[0.04]"
+      }`}
+    >
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{row.categoryName}</span>
+        {row.diverges && !row.isRevealed && <span className="text-[#e2b04a]">Still to come</span>}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <span className={mark(row.pickA)}>{title(row.pickA)}</span>
+        <span className={`text-right ${mark(row.pickB)}`}>{title(row.pickB)}</span>
+      </div>
+      {row.outcomes.map((o) => {
+        const leader = o.scoreA === o.scoreB ? "Level" : o.scoreA > o.scoreB ? `${nameA} leads` : `${nameB} leads`;
+        return (
+          <p key={o.winnerId ?? "other"} className="text-xs text-gray-400">
+            If {o.winnerId ? title(o.winnerId) : "anyone else"} wins: {leader} {o.scoreA}–{o.scoreB}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
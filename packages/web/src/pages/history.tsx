@@ -0,0 +1,174 @@
+import type { CeremonyDetailResponse } from "@bignight/shared";
+import {
+  CeremonyDetailResponseSchema,
+  HistoryResponseSchema,
+  PlayerRecordsResponseSchema,
+} from "@bignight/shared";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+
+export function HistoryPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: ceremonies = [], isLoading } = useQuery({
+    queryKey: ["history"],
+    queryFn: async () => {
+      const res = await fetch("/api/history");
+      return HistoryResponseSchema.parse(await res.json()).ceremonies;
+    },
+  });
+
+  const { data: records = [] } = useQuery({
+    queryKey: ["history-records"],
+    queryFn: async () => {
+      const res = await fetch("/api/history/records");
+      return PlayerRecordsResponseSchema.parse(await res.json()).records;
+    },
+  });
+
+  // Default to the most recent ceremony
+  const activeId = selectedId ?? ceremonies[0]?.id ?? null;
+
+  const { data: detail } = useQuery({
+    queryKey: ["history", activeId],
+    queryFn: async () => {
+      const res = await fetch(`/api/history/${activeId}`);
+      return CeremonyDetailResponseSchema.parse(await res.json());
+    },
+    enabled: !!activeId,
+  });
+
+  if (isLoading) {
+    return <p className="text-gray-400 text-center py-12">Loading history...</p>;
+  }
+
+  if (ceremonies.length === 0) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <h1 className="text-2xl font-bold text-[#e2b04a]">History</h1>
+        <p className="text-gray-400">No past ceremonies yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <h1 className="text-2xl md:text-4xl font-bold text-[#e2b04a]">History</h1>
+
+      <div className="flex flex-wrap gap-2">
+        {ceremonies.map((c) => (
+          <button
+            key={c.id}
+            type="button"
+            onClick={() => setSelectedId(c.id)}
+            className={`px-3 py-1.5 rounded-lg text-sm ${
+              c.id === activeId
+                ? "bg-[#e2b04a] text-[#1a1a2e] font-bold"
+                : "bg-white/10 text-gray-300 hover:bg-white/20"
+            }`}
+          >
+            {c.name}
+          </button>
+        ))}
+      </div>
+
+      {detail && <CeremonyDetail detail={detail} />}
+
+      {records.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-white">All-Time Records</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-1 font-normal">Player</th>
+                <th className="py-1 font-normal text-right">Years</th>
+                <th className="py-1 font-normal text-right">Wins</th>
+                <th className="py-1 font-normal text-right">Best</th>
+                <th className="py-1 font-normal text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((r) => (
+                <tr key={r.name} className="border-t border-white/5 text-gray-300">
+                  <td className="py-1.5">{r.name}</td>
+                  <td className="py-1.5 text-right">{r.ceremonies}</td>
+                  <td className="py-1.5 text-right text-[#e2b04a]">{r.wins}</td>
+                  <td className="py-1.5 text-right">#{r.bestRank}</td>
+                  <td className="py-1.5 text-right">{r.totalScore}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function CeremonyDetail({ detail }: { detail: CeremonyDetailResponse }) {
+  const [expandedPlayer, setExpandedPlayer] = useState<string | null>(null);
+  const categoryById = new Map(detail.categories.map((c) => [c.id, c]));
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-white">Final Standings</h2>
+        {detail.standings.every((s) => s.excluded) && (
+          <p className="text-sm text-gray-500">No complete ballots were submitted.</p>
+        )}
+        {detail.standings.map((s) => {
+          const playerPicks = detail.picks
+            .filter((p) => p.playerName === s.playerName)
+            .sort((a, b) => (categoryById.get(a.categoryId)?.order ?? 0) - (categoryById.get(b.categoryId)?.order ?? 0));
+          const expanded = expandedPlayer === s.playerName;
+          return (
+            <div key={s.id} className="rounded-lg bg-white/5">
+              <button
+                type="button"
+                onClick={() => setExpandedPlayer(expanded ? null : s.playerName)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm"
+              >
+                <span className="text-gray-300">
+                  <span className="text-gray-500 mr-2">#{s.rank}</span>
+                  {s.playerName}
+                  {s.excluded && <span className="ml-2 text-xs text-gray-500">not on the leaderboard</span>}
+                </span>
+                <span className="text-[#e2b04a] font-bold">
+                  {s.totalScore} pts · {s.correctCount} correct
+                </span>
+              </button>
+              {expanded && (
+                <ul className="px-3 pb-2 space-y-1">
+                  {playerPicks.map((p) => (
+                    <li key={p.id} className="flex justify-between text-xs">
+                      <span className="text-gray-500">{categoryById.get(p.categoryId)?.name}</span>
+                      <span className={p.isCorrect ? "text-green-400" : "text-gray-400"}>
+                        {p.isCorrect ? "✓ " : ""}
+                        {p.title}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-white">Winners</h2>
+        <div className="space-y-1">
+          {detail.categories.map((c) => (
+            <div key={c.id} className="text-sm flex justify-between gap-4">
+              <span className="text-gray-400">{c.name}</span>
+              <span className="text-gray-200 text-right">
+                {c.winnerTitle ?? <span className="text-gray-600">Not announced</span>}
+                {c.winnerSubtitle && <span className="text-gray-500"> · {c.winnerSubtitle}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
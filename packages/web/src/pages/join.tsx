@@ -1,36 +1,65 @@
 import { useState, type FormEvent } from "react";
-import { useNavigate } from "react-router";
+import { Link, useNavigate, useSearchParams } from "react-router";
 import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
+import { GamesResponseSchema } from "@bignight/shared";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 
 export function JoinPage() {
   const [name, setName] = useState("");
   const [pin, setPin] = useState("");
+  // Forgot PIN: trade the code an admin handed out for a new PIN
+  const [recovering, setRecovering] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Too many wrong PINs: the server says how long to wait, so hold the button until then
+  const [throttled, setThrottled] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [pickedGameId, setPickedGameId] = useState<string | null>(searchParams.get("game"));
+
+  const { data: games = [] } = useQuery({
+    queryKey: ["games"],
+    queryFn: async () => {
+      const res = await fetch("/api/games");
+      return GamesResponseSchema.parse(await res.json()).games;
+    },
+  });
+
+  // A ?game= link or an explicit choice wins; otherwise default to the newest game
+  const game = games.find((g) => g.id === pickedGameId) ?? games[0] ?? null;
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
+    if (!game) {
+      setError("No game is open yet — check back soon");
+      return;
+    }
     setError(null);
     setLoading(true);
 
     try {
-      const res = await fetch("/api/player/join", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: name.trim(), pin }),
+      const res = await requestSignIn(game.id, {
+        name: name.trim(),
+        pin,
+        recoveryCode: recovering ? recoveryCode.trim() : null,
       });
 
       if (!res.ok) {
         const body = await res.json();
         setError(body.error ?? "Something went wrong");
+        if (res.status === 429 && typeof body.retryAfter === "number") {
+          setThrottled(true);
+          setTimeout(() => setThrottled(false), body.retryAfter * 1000);
+        }
         return;
       }
 
-      const { token, playerId, name: playerName } = await res.json();
-      login(token, playerId, playerName);
+      const { token, playerId, name: playerName, gameId } = await res.json();
+      login(token, playerId, playerName, gameId);
       navigate("/picks");
     } catch {
       setError("Network error — try again");
@@ -54,7 +83,7 @@ export function JoinPage() {
           BigNight
         </h1>
         <p className="text-gray-400 text-lg">
-          98th Academy Awards
+          {game?.name ?? "\u00a0"}
         </p>
         <p className="text-gray-500 text-sm mt-1">
           Predict · Compete · Celebrate
@@ -68,6 +97,8 @@ export function JoinPage() {
         onSubmit={handleSubmit}
         className="w-full max-w-sm space-y-4"
       >
+        {games.length > 1 && <GamePicker games={games} value={game?.id ?? ""} onChange={setPickedGameId} />}
+
         <div>
           <label htmlFor="name" className="block text-sm text-gray-300 mb-1">
             Your Name
@@ -85,9 +116,27 @@ export function JoinPage() {
           />
         </div>
 
+        {recovering && (
+          <div>
+            <label htmlFor="recovery-code" className="block text-sm text-gray-300 mb-1">
+              Recovery Code
+            </label>
+            <input
+              id="recovery-code"
+              type="text"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white placeholder-gray-500 uppercase tracking-widest focus:outline-none focus:border-[#e2b04a] focus:ring-1 focus:ring-[#e2b04a] transition-colors"
+              placeholder="From your host"
+              required
+              autoComplete="off"
+            />
+          </div>
+        )}
+
         <div>
           <label htmlFor="pin" className="block text-sm text-gray-300 mb-1">
-            PIN (4-6 digits)
+            {recovering ? "New PIN (4-6 digits)" : "PIN (4-6 digits)"}
           </label>
           <input
             id="pin"
@@ -96,7 +145,7 @@ export function JoinPage() {
             value={pin}
             onChange={(e) => setPin(e.target.value)}
             className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-[#e2b04a] focus:ring-1 focus:ring-[#e2b04a] transition-colors"
-            placeholder="Choose a PIN"
+            placeholder={recovering ? "Choose a new PIN" : "Choose a PIN"}
             required
             minLength={4}
             maxLength={6}
@@ -115,16 +164,84 @@ export function JoinPage() {
 
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || throttled}
           className="w-full py-3 bg-[#e2b04a] text-[#1a1a2e] font-bold rounded-lg hover:bg-[#c99a3a] active:scale-[0.98] transition-all disabled:opacity-50"
         >
-          {loading ? "Joining..." : "Join Game"}
+          {submitLabel(loading, recovering)}
         </button>
 
+        <p className="text-center text-xs">
+          <button
+            type="button"
+            onClick={() => {
+              setRecovering(!recovering);
+              setError(null);
+            }}
+            className="text-gray-400 hover:underline"
+          >
+            {recovering ? "Back to sign in" : "Forgot PIN?"}
+          </button>
+        </p>
+
         <p className="text-center text-gray-600 text-xs mt-4">
-          New here? Just pick a name and PIN to get started.
+          {recovering
+            ? "Ask the host to reset your PIN — they'll give you a one-time code."
+            : "New here? Just pick a name and PIN to get started."}
+        </p>
+        <p className="text-center text-xs">
+          <Link to="/history" className="text-[#e2b04a]/70 hover:underline">
+            Past ceremonies
+          </Link>
         </p>
       </motion.form>
     </div>
   );
 }
+
+/** Joins the game, or with a recovery code sets a new PIN and signs in */
+function requestSignIn(
+  gameId: string,
+  { name, pin, recoveryCode }: { name: string; pin: string; recoveryCode: string | null },
+) {
+  return fetch(gameApi(gameId, recoveryCode === null ? "/player/join" : "/player/recover"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(recoveryCode === null ? { name, pin } : { name, recoveryCode, pin }),
+  });
+}
+
+function submitLabel(loading: boolean, recovering: boolean) {
+  if (recovering) return loading ? "Resetting..." : "Set New PIN";
+  return loading ? "Joining..." : "Join Game";
+}
+
+/** Shown when the server runs more than one game */
+function GamePicker({
+  games,
+  value,
+  onChange,
+}: {
+  games: { id: string; name: string }[];
+  value: string;
+  onChange: (gameId: string) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor="game" className="block text-sm text-gray-300 mb-1">
+        Game
+      </label>
+      <select
+        id="game"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-[#e2b04a] focus:ring-1 focus:ring-[#e2b04a] transition-colors"
+      >
+        {games.map((g) => (
+          <option key={g.id} value={g.id} className="bg-[#1a1a2e]">
+            {g.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
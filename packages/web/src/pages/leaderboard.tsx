@@ -1,23 +1,42 @@
 import { useState, useRef, useEffect } from "react";
 import { AnimatePresence, motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router";
 import { useLeaderboard } from "../hooks/use-leaderboard";
+import { useGameState } from "../hooks/use-game-state";
 import { useReactions } from "../hooks/use-reactions";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 import { Podium } from "../components/podium";
 import { ReactionBar } from "../components/reaction-bar";
-import type { LeaderboardPlayer } from "@bignight/shared";
+import { IncompleteBadge } from "../components/incomplete-badge";
+import { ScoreTimeline } from "../components/score-timeline";
+import type { LeaderboardPlayer, RevealCorrected } from "@bignight/shared";
+import { ScoreTimelineResponseSchema } from "@bignight/shared";
 
 export function LeaderboardPage() {
-	const { token, playerId } = useAuth();
+	const { token, playerId, gameId } = useAuth();
 	const {
 		players,
 		connectionStatus,
 		justAnnounced,
+		correction,
 		revealedCount,
 		totalCount,
 		isGameComplete,
 	} = useLeaderboard();
 	const { reactions, sendReaction } = useReactions();
+	const { game } = useGameState();
+
+	// Keyed on revealedCount so each announcement adds a step to the chart
+	const { data: timeline = [] } = useQuery({
+		queryKey: ["score-timeline", gameId, revealedCount],
+		queryFn: async () => {
+			const res = await fetch(gameApi(gameId, "/history"));
+			return ScoreTimelineResponseSchema.parse(await res.json()).steps;
+		},
+		enabled: !!gameId && revealedCount > 0,
+	});
 
 	// Track previous scores to show deltas
 	const prevScoresRef = useRef<Map<string, number>>(new Map());
@@ -129,9 +148,18 @@ export function LeaderboardPage() {
 					)}
 				</AnimatePresence>
 
+				<CorrectionBanner correction={correction} />
+
 				<Podium players={top3} scoreDeltas={scoreDeltas} />
 			</div>
 
+			{game?.tiebreakerQuestion && game.tiebreakerAnswer !== null && (
+				<p className="text-xs text-gray-400 text-center">
+					🎯 Tiebreaker — {game.tiebreakerQuestion}{" "}
+					<span className="text-[#e2b04a]">{game.tiebreakerAnswer}</span>
+				</p>
+			)}
+
 			{/* Game complete banner */}
 			<AnimatePresence>
 				{isGameComplete && (
@@ -163,8 +191,12 @@ export function LeaderboardPage() {
 				</div>
 			)}
 
-			{/* Incomplete picks message */}
-			{!currentPlayerOnBoard && token && (
+			{timeline.length > 0 && (
+				<ScoreTimeline steps={timeline} currentPlayerId={playerId} />
+			)}
+
+			{/* Incomplete picks message — only when partial ballots are kept off the board */}
+			{!currentPlayerOnBoard && token && (game?.partialBallotPolicy ?? "exclude") === "exclude" && (
 				<p className="text-sm text-gray-500 text-center">
 					Complete all your picks to appear on the leaderboard.
 				</p>
@@ -178,6 +210,52 @@ export function LeaderboardPage() {
 	);
 }
 
+/** Shown when an announced winner is undone, changed or retracted, so score drops aren't a mystery */
+function CorrectionBanner({
+	correction,
+}: {
+	correction: RevealCorrected | null;
+}) {
+	return (
+		<AnimatePresence>
+			{correction && (
+				<motion.div
+					key={`${correction.categoryId}-${correction.newWinners.map((w) => w.id).join(",") || "retracted"}`}
+					initial={{ opacity: 0, y: -30, scale: 0.9 }}
+					animate={{ opacity: 1, y: 0, scale: 1 }}
+					exit={{ opacity: 0, y: -20, scale: 0.95 }}
+					transition={{
+						type: "spring",
+						stiffness: 300,
+						damping: 25,
+					}}
+					className="absolute inset-x-0 top-0 z-10 mx-auto max-w-sm bg-[#1a1a2e]/95 backdrop-blur-sm border border-red-400/50 px-5 py-4 rounded-xl shadow-lg text-center"
+				>
+					<p className="text-xs text-red-300 uppercase tracking-widest font-semibold mb-1">
+						⚠️ Correction
+					</p>
+					<p className="text-white font-semibold text-lg">
+						{correction.categoryName}
+					</p>
+					<p className="text-base">
+						<span className="text-gray-400 line-through">
+							{correction.previousWinners.map((w) => w.title).join(" & ")}
+						</span>
+						{correction.newWinners.length > 0 ? (
+							<span className="text-[#e2b04a]">
+								{" "}
+								→ {correction.newWinners.map((w) => w.title).join(" & ")}
+							</span>
+						) : (
+							<span className="text-gray-300"> — announcement retracted</span>
+						)}
+					</p>
+				</motion.div>
+			)}
+		</AnimatePresence>
+	);
+}
+
 function PlayerRow({
 	player,
 	isCurrentUser,
@@ -212,6 +290,8 @@ function PlayerRow({
 				boxShadow: { duration: 1.5, ease: "easeInOut" },
 			}}
 			className={`flex items-center justify-between p-3 rounded-lg relative overflow-hidden md:p-4 ${
+				player.eliminated ? "opacity-60 " : ""
+			}${
 				isCurrentUser
 					? "bg-[#e2b04a]/10 border border-[#e2b04a]/30"
 					: "bg-white/[0.04]"
@@ -227,9 +307,22 @@ function PlayerRow({
 				>
 					#{player.rank}
 				</motion.span>
-				<span className="text-white md:text-xl truncate">
+				{/* Stretched over the whole row, so clicking anywhere opens their ballot */}
+				<Link
+					to={`/players/${player.playerId}`}
+					className="text-white md:text-xl truncate hover:underline after:absolute after:inset-0"
+				>
 					{player.name}
-				</span>
+				</Link>
+				{player.incompleteBallot && <IncompleteBadge />}
+				{player.eliminated && (
+					<span
+						title="Can't catch the leader anymore"
+						className="shrink-0 text-[10px] md:text-xs text-gray-500"
+					>
+						out of the running
+					</span>
+				)}
 			</div>
 			<div className="flex items-center gap-2 shrink-0">
 				<AnimatePresence>
@@ -261,6 +354,14 @@ function PlayerRow({
 				<span className="text-gray-500 text-xs md:text-base">
 					({player.correctCount})
 				</span>
+				{player.maxPossibleScore > player.totalScore && (
+					<span
+						title="Best possible finish if every remaining pick wins"
+						className="text-gray-600 text-xs md:text-sm"
+					>
+						max {player.maxPossibleScore}
+					</span>
+				)}
 			</div>
 		</motion.div>
 	);
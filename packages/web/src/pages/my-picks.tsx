@@ -2,17 +2,18 @@ import { useEffect } from "react";
 import { useNavigate } from "react-router";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 
 export function MyPicksPage() {
-  const { token } = useAuth();
+  const { token, gameId } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => { if (!token) navigate("/"); }, [token, navigate]);
 
   const { data: categories = [] } = useQuery({
-    queryKey: ["categories"],
+    queryKey: ["categories", gameId],
     queryFn: async () => {
-      const res = await fetch("/api/categories", { headers: { Authorization: `Bearer ${token}` } });
+      const res = await fetch(gameApi(gameId, "/categories"), { headers: { Authorization: `Bearer ${token}` } });
       const data = await res.json();
       return data.categories;
     },
@@ -20,9 +21,9 @@ export function MyPicksPage() {
   });
 
   const { data: picks = [] } = useQuery({
-    queryKey: ["my-picks"],
+    queryKey: ["my-picks", gameId],
     queryFn: async () => {
-      const res = await fetch("/api/picks", { headers: { Authorization: `Bearer ${token}` } });
+      const res = await fetch(gameApi(gameId, "/picks"), { headers: { Authorization: `Bearer ${token}` } });
       const data = await res.json();
       return data.picks;
     },
@@ -44,12 +45,11 @@ export function MyPicksPage() {
         const pickedNomination = pick
           ? category.nominations?.find((n) => n.id === pick.nominationId)
           : null;
-        const winnerNomination = category.winnerId
-          ? category.nominations?.find((n) => n.id === category.winnerId)
-          : null;
+        const winnerNominations: { title: string }[] =
+          category.nominations?.filter((n) => category.winnerIds.includes(n.id)) ?? [];
         const isRevealed = category.isRevealed;
-        const isCorrect = isRevealed && pick?.nominationId === category.winnerId;
-        const isIncorrect = isRevealed && pick?.nominationId !== category.winnerId && pick !== undefined;
+        const isCorrect = isRevealed && category.winnerIds.includes(pick?.nominationId);
+        const isIncorrect = isRevealed && !isCorrect && pick !== undefined;
 
         return (
           <div key={category.id} className="p-4 rounded-lg bg-white/[0.04] border border-white/10 space-y-2">
@@ -75,9 +75,10 @@ export function MyPicksPage() {
               <p className="text-gray-500 text-sm italic">No pick</p>
             )}
 
-            {isRevealed && winnerNomination && !isCorrect && (
+            {isRevealed && winnerNominations.length > 0 && !isCorrect && (
               <div className="text-xs text-gray-400">
-                Winner: <span className="text-[#e2b04a]">{winnerNomination.title}</span>
+                {winnerNominations.length > 1 ? "Winners" : "Winner"}:{" "}
+                <span className="text-[#e2b04a]">{winnerNominations.map((n) => n.title).join(" & ")}</span>
               </div>
             )}
           </div>
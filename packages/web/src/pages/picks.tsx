@@ -1,12 +1,20 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router";
 import { useQuery } from "@tanstack/react-query";
+import type { CategoryDistribution } from "@bignight/shared";
+import { PickDistributionResponseSchema, isCategoryLocked, resolveCategoryPoints } from "@bignight/shared";
 import { useAuth } from "../auth";
+import { gameApi } from "../client";
 import { usePicks } from "../hooks/use-picks";
 import { useGameState } from "../hooks/use-game-state";
+import { useNow } from "../hooks/use-now";
 import { CategoryPills } from "../components/category-pills";
 import { NominationCard } from "../components/nomination-card";
+import { DistributionBar } from "../components/distribution-bar";
 import { SaveIndicator } from "../components/save-indicator";
+import { LockCountdown } from "../components/lock-countdown";
+import { ConfidenceRanker } from "../components/confidence-ranker";
+import { TiebreakerGuess } from "../components/tiebreaker-guess";
 
 interface Nomination {
 	id: string;
@@ -18,15 +26,17 @@ interface Nomination {
 interface Category {
 	id: string;
 	name: string;
-	winnerId?: string | null;
+	points?: number;
+	winnerIds?: string[];
 	isRevealed?: boolean;
+	locksAt?: number | null;
 	nominations?: Nomination[];
 }
 
 export function PicksPage() {
-	const { token } = useAuth();
+	const { token, gameId } = useAuth();
 	const navigate = useNavigate();
-	const { phase } = useGameState();
+	const { phase, game, ruleSet } = useGameState();
 	const {
 		picks,
 		selectedNominationId,
@@ -34,6 +44,8 @@ export function PicksPage() {
 		handleSelect,
 		saveStatus,
 		completedCategoryIds,
+		saveConfidence,
+		confidenceError,
 	} = usePicks();
 	const [selectedCategoryIndex, setSelectedCategoryIndex] = useState(0);
 
@@ -43,9 +55,9 @@ export function PicksPage() {
 	}, [token, navigate]);
 
 	const { data: categories = [] } = useQuery<Category[]>({
-		queryKey: ["categories"],
+		queryKey: ["categories", gameId],
 		queryFn: async () => {
-			const res = await fetch("/api/categories", {
+			const res = await fetch(gameApi(gameId, "/categories"), {
 				headers: { Authorization: `Bearer ${token}` },
 			});
 			const data = await res.json();
@@ -56,18 +68,38 @@ export function PicksPage() {
 
 	const isLocked = phase === "locked" || phase === "completed";
 
-	// Build name → total nomination count across all categories.
-	// Count both titles and subtitles since the film name can appear in either
-	// position depending on category (title in Best Picture, subtitle in Best Actor).
-	const nominationCounts = new Map<string, number>();
-	for (const cat of categories) {
-		for (const nom of cat.nominations ?? []) {
-			nominationCounts.set(nom.title, (nominationCounts.get(nom.title) ?? 0) + 1);
-			if (nom.subtitle) {
-				nominationCounts.set(nom.subtitle, (nominationCounts.get(nom.subtitle) ?? 0) + 1);
-			}
-		}
-	}
+	// Staggered ceremonies: individual categories can close while the rest stay open
+	const now = useNow();
+	const gameLocksAt = game?.locksAt ?? null;
+	const lockedCategoryIds = new Set(
+		categories
+			.filter((cat) =>
+				isCategoryLocked(
+					{ locksAt: cat.locksAt ?? null, isRevealed: cat.isRevealed ?? false },
+					gameLocksAt,
+					now,
+				),
+			)
+			.map((cat) => cat.id),
+	);
+
+	// How the group voted — the server only shares categories that are already closed
+	const { data: distribution = [] } = useQuery({
+		queryKey: ["pick-distribution", gameId, lockedCategoryIds.size],
+		queryFn: async () => {
+			const res = await fetch(gameApi(gameId, "/categories/distribution"), {
+				headers: { Authorization: `Bearer ${token}` },
+			});
+			if (!res.ok) return [];
+			return PickDistributionResponseSchema.parse(await res.json()).categories;
+		},
+		enabled: !!token && (isLocked || lockedCategoryIds.size > 0),
+	});
+	const distributionByCategory = new Map(
+		distribution.map((d) => [d.categoryId, d]),
+	);
+
+	const nominationCounts = countNominations(categories);
 
 	const currentCategory = categories[selectedCategoryIndex];
 
@@ -94,16 +126,27 @@ export function PicksPage() {
 
 	// Locked/completed: show review mode
 	if (isLocked) {
-		return <PicksReview categories={categories} picks={picks} nominationCounts={nominationCounts} />;
+		return (
+			<PicksReview
+				categories={categories}
+				picks={picks}
+				nominationCounts={nominationCounts}
+				distributionByCategory={distributionByCategory}
+				tiebreakerQuestion={game?.tiebreakerQuestion ?? null}
+			/>
+		);
 	}
 
 	// Open: show pick wizard
 	if (!currentCategory) return null;
+	const currentCategoryLocked = lockedCategoryIds.has(currentCategory.id);
 
 	return (
 		<div className="space-y-4">
 			<SaveIndicator status={saveStatus} />
 
+			<LockCountdown locksAt={game?.locksAt ?? null} />
+
 			<p className="text-sm text-gray-400">
 				{completedCategoryIds.size} of {categories.length} picked
 			</p>
@@ -116,9 +159,21 @@ export function PicksPage() {
 					if (idx >= 0) setSelectedCategoryIndex(idx);
 				}}
 				completedIds={completedCategoryIds}
+				lockedIds={lockedCategoryIds}
 			/>
 
-			<h2 className="text-xl font-bold text-white">{currentCategory.name}</h2>
+			<CategoryHeader
+				category={currentCategory}
+				points={
+					game?.scoringMode === "confidence"
+						? null
+						: resolveCategoryPoints(ruleSet, {
+								name: currentCategory.name,
+								points: currentCategory.points ?? 1,
+							})
+				}
+				locked={currentCategoryLocked}
+			/>
 
 			<div className="grid grid-cols-1 md:grid-cols-2 gap-2">
 				{currentCategory.nominations?.map((nom) => (
@@ -130,7 +185,16 @@ export function PicksPage() {
 						titleNomCount={nominationCounts.get(nom.title)}
 						subtitleNomCount={nominationCounts.get(nom.subtitle)}
 						isSelected={selectedNominationId === nom.id}
-						onSelect={() => handleSelect(currentCategory.id, nom.id)}
+						isWinner={
+							!!currentCategory.isRevealed &&
+							!!currentCategory.winnerIds?.includes(nom.id)
+						}
+						distribution={distributionByCategory
+							.get(currentCategory.id)
+							?.nominations.find((d) => d.nominationId === nom.id)}
+						onSelect={() => {
+							if (!currentCategoryLocked) handleSelect(currentCategory.id, nom.id);
+						}}
 					/>
 				))}
 			</div>
@@ -157,19 +221,84 @@ export function PicksPage() {
 					Next →
 				</button>
 			</div>
+
+			{game?.tiebreakerQuestion && (
+				<TiebreakerGuess
+					question={game.tiebreakerQuestion}
+					// The guess closes with the first category to close
+					locked={lockedCategoryIds.size > 0}
+				/>
+			)}
+
+			{game?.scoringMode === "confidence" &&
+				completedCategoryIds.size === categories.length && (
+					<ConfidenceRanker
+						categories={categories}
+						picks={picks}
+						lockedIds={lockedCategoryIds}
+						onSave={saveConfidence}
+						error={confidenceError}
+					/>
+				)}
 		</div>
 	);
 }
 
+/**
+ * Name → total nomination count across all categories. Counts both titles and
+ * subtitles since the film name can appear in either position depending on
+ * category (title in Best Picture, subtitle in Best Actor).
+ */
+function countNominations(categories: Category[]) {
+	const counts = new Map<string, number>();
+	const names = categories.flatMap((cat) =>
+		(cat.nominations ?? []).flatMap((nom) => (nom.subtitle ? [nom.title, nom.subtitle] : [nom.title])),
+	);
+	for (const name of names) {
+		counts.set(name, (counts.get(name) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/** The category's name, its points (null in confidence mode) and when it locks */
+function CategoryHeader({
+	category,
+	points,
+	locked,
+}: {
+	category: Category;
+	points: number | null;
+	locked: boolean;
+}) {
+	return (
+		<>
+			<div className="flex items-baseline gap-2">
+				<h2 className="text-xl font-bold text-white">{category.name}</h2>
+				{points !== null && <span className="text-sm text-[#e2b04a]">{points} pts</span>}
+			</div>
+
+			{locked ? (
+				<p className="text-sm text-gray-500">🔒 This category is locked — your pick is final.</p>
+			) : (
+				<LockCountdown locksAt={category.locksAt ?? null} label={`${category.name} locks`} />
+			)}
+		</>
+	);
+}
+
 /** Read-only review of picks — shown when game is locked or completed */
 function PicksReview({
 	categories,
 	picks,
 	nominationCounts,
+	distributionByCategory,
+	tiebreakerQuestion,
 }: {
 	categories: Category[];
-	picks: Array<{ categoryId: string; nominationId: string }>;
+	picks: Array<{ categoryId: string; nominationId: string; confidence?: number | null }>;
 	nominationCounts: Map<string, number>;
+	distributionByCategory: Map<string, CategoryDistribution>;
+	tiebreakerQuestion: string | null;
 }) {
 	const picksByCategory = new Map(
 		picks.map((p) => [p.categoryId, p]),
@@ -180,76 +309,142 @@ function PicksReview({
 			<h1 className="text-2xl font-bold text-[#e2b04a]">My Picks</h1>
 			<p className="text-sm text-gray-500">Picks are locked. Here's how you're doing.</p>
 
-			{categories.map((category) => {
-				const pick = picksByCategory.get(category.id);
-				const pickedNomination = pick
-					? category.nominations?.find((n) => n.id === pick.nominationId)
-					: null;
-				const winnerNomination = category.winnerId
-					? category.nominations?.find((n) => n.id === category.winnerId)
-					: null;
-				const isRevealed = category.isRevealed;
-				const isCorrect =
-					isRevealed && pick?.nominationId === category.winnerId;
-				const isIncorrect =
-					isRevealed &&
-					pick?.nominationId !== category.winnerId &&
-					pick !== undefined;
-
-				return (
-					<div
-						key={category.id}
-						className="p-4 rounded-lg bg-white/[0.04] border border-white/10 space-y-2"
+			{tiebreakerQuestion && (
+				<TiebreakerGuess question={tiebreakerQuestion} locked />
+			)}
+
+			{categories.map((category) => (
+				<ReviewedCategory
+					key={category.id}
+					category={category}
+					pick={picksByCategory.get(category.id)}
+					distribution={distributionByCategory.get(category.id)}
+				/>
+			))}
+		</div>
+	);
+}
+
+/** Green for a correct pick, red for a wrong one, neutral until the winner is known */
+function pickOutcomeClass(isCorrect: boolean | undefined, isIncorrect: boolean | undefined) {
+	if (isCorrect) return "border-green-500/50 bg-green-500/5";
+	if (isIncorrect) return "border-red-500/50 bg-red-500/5";
+	return "border-white/10 bg-white/[0.02]";
+}
+
+/** One category in the review: the player's pick, whether it won, and how everyone voted */
+function ReviewedCategory({
+	category,
+	pick,
+	distribution,
+}: {
+	category: Category;
+	pick: { nominationId: string; confidence?: number | null } | undefined;
+	distribution: CategoryDistribution | undefined;
+}) {
+	const pickedNomination = pick
+		? category.nominations?.find((n) => n.id === pick.nominationId)
+		: null;
+	const winnerIds = category.winnerIds ?? [];
+	const winnerNominations =
+		category.nominations?.filter((n) => winnerIds.includes(n.id)) ?? [];
+	const isRevealed = category.isRevealed;
+	const isCorrect =
+		isRevealed && pick !== undefined && winnerIds.includes(pick.nominationId);
+	const isIncorrect = isRevealed && !isCorrect && pick !== undefined;
+
+	return (
+		<div className="p-4 rounded-lg bg-white/[0.04] border border-white/10 space-y-2">
+			<div className="flex items-center justify-between">
+				<h3 className="font-medium text-white text-sm">
+					{category.name}
+					{pick?.confidence != null && (
+						<span className="ml-2 text-xs text-gray-500">
+							confidence {pick.confidence}
+						</span>
+					)}
+				</h3>
+				{isRevealed && (
+					<span
+						className={
+							isCorrect
+								? "text-green-400 text-sm"
+								: "text-red-400 text-sm"
+						}
 					>
-						<div className="flex items-center justify-between">
-							<h3 className="font-medium text-white text-sm">
-								{category.name}
-							</h3>
-							{isRevealed && (
-								<span
-									className={
-										isCorrect
-											? "text-green-400 text-sm"
-											: "text-red-400 text-sm"
-									}
-								>
-									{isCorrect ? "✓ Correct" : "✗ Wrong"}
-								</span>
-							)}
-						</div>
-
-						{pickedNomination ? (
-							<div
-								className={`p-3 rounded border ${
-									isCorrect
-										? "border-green-500/50 bg-green-500/5"
-										: isIncorrect
-											? "border-red-500/50 bg-red-500/5"
-											: "border-white/10 bg-white/[0.02]"
-								}`}
-							>
-								<p className="text-white text-sm">
-									{pickedNomination.title}
-								</p>
-								<p className="text-gray-400 text-xs">
-									{pickedNomination.subtitle}
-								</p>
-							</div>
-						) : (
-							<p className="text-gray-500 text-sm italic">No pick</p>
-						)}
+						{isCorrect ? "✓ Correct" : "✗ Wrong"}
+					</span>
+				)}
+			</div>
+
+			{pickedNomination ? (
+				<div className={`p-3 rounded border ${pickOutcomeClass(isCorrect, isIncorrect)}`}>
+					<p className="text-white text-sm">
+						{pickedNomination.title}
+					</p>
+					<p className="text-gray-400 text-xs">
+						{pickedNomination.subtitle}
+					</p>
+				</div>
+			) : (
+				<p className="text-gray-500 text-sm italic">No pick</p>
+			)}
+
+			{isRevealed && winnerNominations.length > 0 && !isCorrect && (
+				<div className="text-xs text-gray-400">
+					{winnerNominations.length > 1 ? "Winners" : "Winner"}:{" "}
+					<span className="text-[#e2b04a]">
+						{winnerNominations.map((n) => n.title).join(" & ")}
+					</span>
+				</div>
+			)}
+
+			<GroupVote
+				category={category}
+				distribution={distribution}
+				pickedId={pick?.nominationId}
+			/>
+		</div>
+	);
+}
 
-						{isRevealed && winnerNomination && !isCorrect && (
-							<div className="text-xs text-gray-400">
-								Winner:{" "}
-								<span className="text-[#e2b04a]">
-									{winnerNomination.title}
-								</span>
-							</div>
+/** How everyone voted in one category, most-picked first */
+function GroupVote({
+	category,
+	distribution,
+	pickedId,
+}: {
+	category: Category;
+	distribution: CategoryDistribution | undefined;
+	pickedId: string | undefined;
+}) {
+	if (!distribution || distribution.totalPicks === 0) return null;
+	const titleById = new Map(
+		(category.nominations ?? []).map((n) => [n.id, n.title]),
+	);
+	const rows = [...distribution.nominations].sort((a, b) => b.count - a.count);
+
+	return (
+		<div className="space-y-1.5 pt-1">
+			<p className="text-xs text-gray-500">How everyone picked</p>
+			{rows.map((row) => (
+				<div key={row.nominationId}>
+					<p className="text-xs text-gray-400 truncate">
+						{titleById.get(row.nominationId)}
+						{row.nominationId === pickedId && (
+							<span className="text-gray-500"> · you</span>
 						)}
-					</div>
-				);
-			})}
+					</p>
+					<DistributionBar
+						count={row.count}
+						percentage={row.percentage}
+						isWinner={
+							!!category.isRevealed &&
+							!!category.winnerIds?.includes(row.nominationId)
+						}
+					/>
+				</div>
+			))}
 		</div>
 	);
 }
@@ -0,0 +1,145 @@
+import type { CategoryWithNominations } from "@bignight/shared";
+import { CategoriesResponseSchema, isCategoryLocked, PlayerBallotResponseSchema } from "@bignight/shared";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import { useAuth } from "../auth";
+import { gameApi } from "../client";
+import { useGameState } from "../hooks/use-game-state";
+
+/** Another player's ballot, with correct/incorrect marks as winners come in. Opens once picks lock. */
+export function PlayerPage() {
+  const { playerId } = useParams();
+  const { token, gameId, playerId: myId } = useAuth();
+  const { game } = useGameState();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!token) navigate("/");
+  }, [token, navigate]);
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["categories", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/categories"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return CategoriesResponseSchema.parse(await res.json()).categories;
+    },
+    enabled: !!token,
+  });
+
+  // null when the server refuses — picks are still open
+  const { data: ballot, isLoading, isError } = useQuery({
+    queryKey: ["player-ballot", gameId, playerId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, `/players/${playerId}/picks`), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (res.status === 403) return null;
+      if (!res.ok) throw new Error("Player not found");
+      return PlayerBallotResponseSchema.parse(await res.json()).ballot;
+    },
+    enabled: !!token && !!playerId,
+  });
+
+  if (isLoading) {
+    return <p className="text-gray-400 text-center py-12">Loading ballot...</p>;
+  }
+
+  if (!ballot) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <p className="text-gray-400">
+          {isError ? "Player not found." : "Other players' ballots are hidden until picks lock."}
+        </p>
+        <Link to="/leaderboard" className="text-sm text-[#e2b04a] hover:underline">
+          Back to the leaderboard
+        </Link>
+      </div>
+    );
+  }
+
+  const pickByCategory = new Map(ballot.picks.map((p) => [p.categoryId, p]));
+  const correctCount = categories.filter(
+    (c) => c.isRevealed && c.winnerIds.includes(pickByCategory.get(c.id)?.nominationId ?? ""),
+  ).length;
+  const revealedCount = categories.filter((c) => c.isRevealed).length;
+
+  return (
+    <div className="space-y-4">
+      <Link to="/leaderboard" className="text-sm text-gray-400 hover:underline">
+        ← Leaderboard
+      </Link>
+      <div className="flex items-baseline justify-between gap-4">
+        <h1 className="text-2xl md:text-4xl font-bold text-[#e2b04a]">{ballot.name}</h1>
+        {myId && myId !== ballot.playerId && (
+          <Link to={`/compare?a=${myId}&b=${ballot.playerId}`} className="text-sm text-[#e2b04a] hover:underline">
+            Compare with me
+          </Link>
+        )}
+      </div>
+      <p className="text-sm text-gray-400">
+        {correctCount} of {revealedCount} announced categories correct
+        {ballot.tiebreakerGuess !== null && <> · 🎯 guessed {ballot.tiebreakerGuess}</>}
+      </p>
+
+      <div className="space-y-2">
+        {categories.map((category) => (
+          <BallotRow
+            key={category.id}
+            category={category}
+            pick={pickByCategory.get(category.id)}
+            isOpen={!isCategoryLocked(category, game?.locksAt ?? null)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface BallotRowProps {
+  category: CategoryWithNominations;
+  pick: { nominationId: string; confidence: number | null } | undefined;
+  /** Still taking picks — the server leaves this category's pick out */
+  isOpen: boolean;
+}
+
+function BallotRow({ category, pick, isOpen }: BallotRowProps) {
+  const picked = category.nominations.find((n) => n.id === pick?.nominationId);
+  const winners = category.nominations.filter((n) => category.winnerIds.includes(n.id));
+  const isCorrect = category.isRevealed && pick !== undefined && category.winnerIds.includes(pick.nominationId);
+  const isIncorrect = category.isRevealed && pick !== undefined && !isCorrect;
+
+  return (
+    <div
+      className={`p-3 rounded-lg border text-sm ${
+        isCorrect
+          ? "border-green-500/50 bg-green-500/5"
+          : isIncorrect
+            ? "border-red-500/50 bg-red-500/5"
+            : "border-white/10 bg-white/[0.04]"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-gray-400">{category.name}</span>
+        {isCorrect && <span className="text-green-400">✓</span>}
+        {isIncorrect && <span className="text-red-400">✗</span>}
+      </div>
+      {picked ? (
+        <p className="text-white">
+          {picked.title}
+          {pick?.confidence != null && <span className="ml-2 text-xs text-gray-500">confidence {pick.confidence}</span>}
+        </p>
+      ) : (
+        <p className="text-gray-500 italic">{isOpen ? "Hidden until this category locks" : "No pick"}</p>
+      )}
+      {isIncorrect && winners.length > 0 && (
+        <p className="text-xs text-gray-400">
+          {winners.length > 1 ? "Winners" : "Winner"}:{" "}
+          <span className="text-[#e2b04a]">{winners.map((w) => w.title).join(" & ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import type { CategoryWithNominations } from "@bignight/shared";
+import { CategoriesResponseSchema, getScoringConfig, PlayerBallotsResponseSchema } from "@bignight/shared";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router";
+import { useAuth } from "../auth";
+import { gameApi } from "../client";
+import { useGameState } from "../hooks/use-game-state";
+import { concreteScenario, findWinningPaths, type Scenario, simulateLeaderboard } from "../lib/what-if";
+
+const MAX_PATHS_SHOWN = 10;
+
+/**
+ * Pick hypothetical winners for the categories still to come and see where everyone
+ * would land. Scores client-side with the same shared scoring code the server uses.
+ */
+export function WhatIfPage() {
+  const { token, gameId, playerId } = useAuth();
+  const navigate = useNavigate();
+  const { game, ruleSet } = useGameState();
+  const [scenario, setScenario] = useState<Scenario>({});
+
+  useEffect(() => {
+    if (!token) navigate("/");
+  }, [token, navigate]);
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["categories", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/categories"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return CategoriesResponseSchema.parse(await res.json()).categories;
+    },
+    enabled: !!token,
+  });
+
+  // null while picks are still open — the server won't share ballots before the lock
+  const { data: ballots, isLoading } = useQuery({
+    queryKey: ["ballots", gameId],
+    queryFn: async () => {
+      const res = await fetch(gameApi(gameId, "/ballots"), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (res.status === 403) return null;
+      return PlayerBallotsResponseSchema.parse(await res.json()).ballots;
+    },
+    enabled: !!token,
+  });
+
+  const config = useMemo(() => getScoringConfig(game, ruleSet), [game, ruleSet]);
+  const openCategories = categories.filter((c) => !c.isRevealed);
+  const standings = ballots ? simulateLeaderboard(ballots, categories, scenario, config) : [];
+  const winningPaths = useMemo(
+    () => (ballots && playerId ? findWinningPaths(playerId, ballots, categories, config) : null),
+    [ballots, categories, playerId, config],
+  );
+
+  if (isLoading) {
+    return <p className="text-gray-400 text-center py-12">Loading...</p>;
+  }
+
+  if (!ballots) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <h1 className="text-2xl font-bold text-[#e2b04a]">What If</h1>
+        <p className="text-gray-400">The simulator opens once picks lock.</p>
+      </div>
+    );
+  }
+
+  function setWinner(categoryId: string, value: string) {
+    setScenario((prev) => {
+      const next = { ...prev };
+      if (value === "") delete next[categoryId];
+      else next[categoryId] = value;
+      return next;
+    });
+  }
+
+  return (
+    <div className="space-y-8">
+      <h1 className="text-2xl md:text-4xl font-bold text-[#e2b04a]">What If</h1>
+
+      {openCategories.length === 0 ? (
+        <p className="text-gray-400">Every winner has been announced — nothing left to imagine.</p>
+      ) : (
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-white">Remaining Categories</h2>
+            <button type="button" onClick={() => setScenario({})} className="text-xs text-gray-400 hover:underline">
+              Reset
+            </button>
+          </div>
+          {openCategories.map((cat) => (
+            <label key={cat.id} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-gray-400">{cat.name}</span>
+              <select
+                value={scenario[cat.id] ?? ""}
+                onChange={(e) => setWinner(cat.id, e.target.value)}
+                className="px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-sm max-w-[60%]"
+              >
+                <option value="">Not yet announced</option>
+                {cat.nominations.map((n) => (
+                  <option key={n.id} value={n.id}>
+                    {n.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-white">Projected Standings</h2>
+        {standings.map((p) => (
+          <div
+            key={p.playerId}
+            className={`flex justify-between rounded-lg px-3 py-2 text-sm ${
+              p.playerId === playerId ? "bg-[#e2b04a]/10 text-white" : "bg-white/5 text-gray-300"
+            }`}
+          >
+            <span>
+              <span className="text-gray-500 mr-2">#{p.rank}</span>
+              {p.name}
+            </span>
+            <span className="text-[#e2b04a] font-bold">{p.totalScore} pts</span>
+          </div>
+        ))}
+      </section>
+
+      {winningPaths && openCategories.length > 0 && (
+        <WinningPaths
+          paths={winningPaths.paths}
+          tooMany={winningPaths.tooMany}
+          categories={openCategories}
+          onTry={(path) => setScenario(concreteScenario(path, categories, ballots))}
+        />
+      )}
+    </div>
+  );
+}
+
+interface WinningPathsProps {
+  paths: Scenario[];
+  tooMany: boolean;
+  categories: CategoryWithNominations[];
+  onTry: (scenario: Scenario) => void;
+}
+
+function WinningPaths({ paths, tooMany, categories, onTry }: WinningPathsProps) {
+  const titleById = new Map(categories.flatMap((c) => c.nominations.map((n) => [n.id, n.title])));
+
+  return (
+    <section className="space-y-2">
+      <h2 className="text-lg font-semibold text-white">Your Paths to First</h2>
+      {tooMany && (
+        <p className="text-xs text-gray-500">Too many outcomes to check them all — showing what turned up in the first few thousand.</p>
+      )}
+      {paths.length === 0 ? (
+        <p className="text-sm text-gray-400">No combination of remaining winners puts you in first.</p>
+      ) : (
+        <p className="text-sm text-gray-400">
+          {paths.length} winning {paths.length === 1 ? "path" : "paths"}
+          {paths.length > MAX_PATHS_SHOWN && ` — showing the first ${MAX_PATHS_SHOWN}`}
+        </p>
+      )}
+      {paths.slice(0, MAX_PATHS_SHOWN).map((path) => (
+        <div key={JSON.stringify(path)} className="rounded-lg bg-white/5 px-3 py-2 space-y-1">
+          {categories.map((cat) => (
+            <div key={cat.id} className="flex justify-between gap-4 text-xs">
+              <span className="text-gray-500">{cat.name}</span>
+              <span className="text-gray-300 text-right">
+                {path[cat.id] ? titleById.get(path[cat.id] as string) : <span className="text-gray-500">a nominee nobody picked</span>}
+              </span>
+            </div>
+          ))}
+          <button type="button" onClick={() => onTry(path)} className="text-xs text-[#e2b04a] hover:underline">
+            Try this
+          </button>
+        </div>
+      ))}
+    </section>
+  );
+}
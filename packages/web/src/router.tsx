@@ -3,10 +3,15 @@ import { Layout } from "./components/layout";
 import { JoinPage } from "./pages/join";
 import { PicksPage } from "./pages/picks";
 import { LeaderboardPage } from "./pages/leaderboard";
+import { HistoryPage } from "./pages/history";
+import { WhatIfPage } from "./pages/what-if";
+import { PlayerPage } from "./pages/player";
+import { ComparePage } from "./pages/compare";
 
 import { AdminPage } from "./pages/admin";
 import { AdminLivePage } from "./pages/admin-live";
 import { AdminPlayersPage } from "./pages/admin-players";
+import { AdminAuditPage } from "./pages/admin-audit";
 
 export function Router() {
   return (
@@ -16,10 +21,15 @@ export function Router() {
           <Route path="/" element={<JoinPage />} />
           <Route path="/picks" element={<PicksPage />} />
           <Route path="/leaderboard" element={<LeaderboardPage />} />
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/what-if" element={<WhatIfPage />} />
+          <Route path="/players/:playerId" element={<PlayerPage />} />
+          <Route path="/compare" element={<ComparePage />} />
           {/* /my-picks merged into /picks — shows review when locked */}
           <Route path="/admin" element={<AdminPage />} />
           <Route path="/admin/live" element={<AdminLivePage />} />
           <Route path="/admin/players" element={<AdminPlayersPage />} />
+          <Route path="/admin/audit" element={<AdminAuditPage />} />
         </Route>
       </Routes>
     </BrowserRouter>
@@ -2,16 +2,22 @@ import { io, type Socket } from "socket.io-client";
 
 let socket: Socket | null = null;
 let currentToken: string | null = null;
+let currentGameId: string | null = null;
 
-export function getSocket(token: string): Socket {
-  if (socket && currentToken !== token) {
+/**
+ * Returns the shared socket for this token + game, reconnecting if either changed.
+ * Players are bound to their token's game server-side; admins join the game they pass here.
+ */
+export function getSocket(token: string, gameId: string | null): Socket {
+  if (socket && (currentToken !== token || currentGameId !== gameId)) {
     socket.disconnect();
     socket = null;
   }
   currentToken = token;
+  currentGameId = gameId;
   if (socket?.connected) return socket;
 
-  socket = io({ auth: { token }, autoConnect: true, reconnection: true, reconnectionAttempts: 10, reconnectionDelay: 1000 });
+  socket = io({ auth: { token, gameId }, autoConnect: true, reconnection: true, reconnectionAttempts: 10, reconnectionDelay: 1000 });
   return socket;
 }
 